@@ -1,7 +1,9 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
-import "@arcologynetwork/concurrentlib/lib/commutative/U256Cum.sol";
+import "./interfaces/IERC20.sol";
+import "./libraries/ConcurrentCounter.sol";
+import "./libraries/TypedSignatures.sol";
 
 /**
  * @title ParallelOrderBook
@@ -10,11 +12,53 @@ import "@arcologynetwork/concurrentlib/lib/commutative/U256Cum.sol";
  * 
  * Key features:
  * - Concurrent order placement (no serialization)
- * - Batch order matching
+ * - Batch order matching with partial fills
+ * - Optional on-chain price-time priority matching for incoming (taker) orders
+ * - Order types: limit, immediate-or-cancel, fill-or-kill, post-only and
+ *   market orders bounded by a limit price
+ * - In-place amendment of price and size under the same order ID
+ * - Bulk cancellation by list, of everything a trader has open, or through
+ *   an EIP-712 signed request submitted by a relayer
+ * - EIP-712 signed off-chain orders, settled in pairs straight from escrow
+ * - Good-til-time expiry; expired orders never match and can be swept by anyone
+ * - Paginated enumeration of open orders per trader and per side
  * - Gas-efficient order encoding
- * - Parallel-safe operations using U256Cumulative counters
+ * - Parallel-safe operations using U256Cumulative counters; order IDs are
+ *   allocated per trader so placements by different traders share no counter
+ * - Base/quote ERC-20 escrow: funds are locked on placement and settled on match
+ * - Many markets (base/quote pairs) per deployment, each with its own book and stats
+ * - Maker/taker fees in basis points, charged in the quote token and
+ *   collected by an admin
+ * - Self-trade prevention: orders of one account never match each other
+ * - Role-based administration: admins configure, operators can pause
+ *   placement and matching, and matching can be limited to approved matchers
  */
 contract ParallelOrderBook {
+    using ConcurrentCounter for ConcurrentCounter.Counter;
+
+    /// @dev How an order treats the book on placement
+    /// Limit: optionally take liquidity (maxFills), rest the remainder
+    /// ImmediateOrCancel: take liquidity, cancel the remainder
+    /// FillOrKill: take liquidity, revert unless completely filled
+    /// PostOnly: rest without taking; revert if the price would cross
+    /// Market: take liquidity within the limit price, cancel the remainder;
+    /// revert if nothing could be filled
+    enum OrderType {
+        Limit,
+        ImmediateOrCancel,
+        FillOrKill,
+        PostOnly,
+        Market
+    }
+
+    /// @dev Which order is cancelled when both sides of a match belong to the
+    /// same account; "newest" is the order placed last (the taker)
+    enum SelfTradePolicy {
+        CancelNewest,
+        CancelOldest,
+        CancelBoth
+    }
+
     /// @dev Order structure packed into uint256 for storage efficiency
     struct Order {
         address trader;
@@ -25,311 +69,2544 @@ contract ParallelOrderBook {
     }
 
     /// @dev Order amounts structure
+    /// baseAmount/quoteAmount hold what is still open; filledBase/filledQuote
+    /// hold what has been consumed, so the original size is their sum
     struct OrderAmounts {
         uint256 baseAmount;
         uint256 quoteAmount;
+        uint256 filledBase;
+        uint256 filledQuote;
+    }
+
+    /// @dev Resting orders at one price level, oldest first, linked to the
+    /// neighbouring levels of the same side (better = closer to the top of book)
+    struct PriceLevel {
+        uint256 better;
+        uint256 worse;
+        uint256 head;
+        uint256 tail;
+    }
+
+    /// @dev Trading pair with its top of book (0 = side empty) and counters
+    struct Market {
+        address baseToken;
+        address quoteToken;
+        uint256 bestBid;
+        uint256 bestAsk;
+        ConcurrentCounter.Counter ordersPlaced;
+        ConcurrentCounter.Counter ordersMatched;
+        ConcurrentCounter.Counter ordersCancelled;
+    }
+
+    /// @dev One match between a buy and a sell order, in base and quote
+    struct Fill {
+        uint256 base;
+        uint256 quote;
+        uint256 buyQuoteUsed;
+        uint256 buyReserveReleased;
+        uint256 buyerFee;
+        uint256 sellerFee;
+    }
+
+    /// @dev Order signed off-chain with EIP-712 and never placed on the book
+    /// `nonce` only makes otherwise identical orders distinct; `expiry` is a
+    /// unix timestamp (0 = never)
+    struct SignedOrder {
+        address trader;
+        uint256 marketId;
+        uint256 baseAmount;
+        uint256 quoteAmount;
+        bool isBuyOrder;
+        uint256 nonce;
+        uint256 expiry;
+    }
+
+    /// @dev Placement time and optional expiry (0 = good-til-cancelled)
+    struct OrderTimes {
+        uint64 placedAt;
+        uint64 expiresAt;
     }
 
+    /// @dev Fixed-point scale for price level keys (quote per base)
+    uint256 private constant PRICE_SCALE = 1e18;
+
+    /// @dev Upper bound on fills an incoming order may take, to bound gas
+    uint256 public constant MAX_TAKER_FILLS = 100;
+
+    /// @dev Upper bound on price levels walked to place a new level, so a
+    /// deep book cannot be used to make placements run out of gas
+    uint256 public constant MAX_LEVEL_WALK = 64;
+
+    /// @dev EIP-712 domain and signed request types
+    string public constant EIP712_NAME = "ParallelOrderBook";
+    string public constant EIP712_VERSION = "1";
+    bytes32 public constant CANCEL_ORDERS_TYPEHASH =
+        keccak256(
+            "CancelOrders(address trader,uint256[] orderIds,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant SIGNED_ORDER_TYPEHASH =
+        keccak256(
+            "SignedOrder(address trader,uint256 marketId,uint256 baseAmount,uint256 quoteAmount,bool isBuyOrder,uint256 nonce,uint256 expiry)"
+        );
+
+    /// @dev Fee rates are in basis points of the quote amount of a fill
+    uint256 private constant BPS = 10_000;
+    uint16 public constant MAX_FEE_BPS = 100;
+
     /// @dev Regular mapping for storing trader/isBuyOrder packed data
     mapping(uint256 => uint256) private orders;
     
     /// @dev Separate mapping for order amounts
     mapping(uint256 => OrderAmounts) private orderAmounts;
     
-    /// @dev Concurrent cumulative counter for tracking orders per trader
-    /// NOTE: U256Cumulative is designed for Arcology's parallel execution environment
-    /// For Hardhat testing, we use a regular counter. Deploy to Arcology for parallel benefits.
-    U256Cumulative private orderCounter;
-    
-    /// @dev Regular uint256 counter for testing/non-Arcology environments
+    /// @dev Whether counters are backed by Arcology's U256Cumulative and order
+    /// IDs are allocated per trader; false keeps plain storage for Hardhat
+    bool public immutable concurrent;
+
+    /// @dev Sequential order IDs, only used when not `concurrent`
     uint256 private orderIdCounter;
     
-    /// @dev Regular mapping for trader order counts (for testing without Arcology)
+    /// @dev Orders placed per trader; doubles as the per-trader order ID nonce.
+    /// Only the trader's own transactions write their slot, so it never
+    /// conflicts between traders
     mapping(address => uint256) private traderOrderCounts;
     
-    /// @dev Regular mapping for trader balances
-    mapping(address => uint256) private traderBalances;
+    /// @dev Escrowed token balances free to be locked or withdrawn (trader => token => amount)
+    mapping(address => mapping(address => uint256)) private availableBalances;
+
+    /// @dev Escrowed token balances backing open orders (trader => token => amount)
+    mapping(address => mapping(address => uint256)) private lockedBalances;
+
+    /// @dev Market registry; IDs start at 1
+    mapping(uint256 => Market) private markets;
+    mapping(address => mapping(address => uint256)) public marketIdByPair;
+    mapping(address => bool) public isListedToken;
+    uint256 public marketCount;
+
+    /// @dev Price levels per market and side keyed by price (quote per base, PRICE_SCALE)
+    mapping(uint256 => mapping(uint256 => PriceLevel)) private bidLevels;
+    mapping(uint256 => mapping(uint256 => PriceLevel)) private askLevels;
+
+    /// @dev Time-priority links between orders resting at the same price
+    mapping(uint256 => uint256) private nextAtLevel;
+    mapping(uint256 => uint256) private prevAtLevel;
+
+    /// @dev Price level an order rests at, 0 if it is not on the book. In
+    /// concurrent mode it is set on placement, before `linkOrders` links the
+    /// order into that level
+    mapping(uint256 => uint256) private orderPriceLevel;
+
+    /// @dev Concurrent mode: post-only orders placed but not yet linked, which
+    /// `linkOrders` checks against the book once more before linking
+    mapping(uint256 => bool) private postOnlyUnlinked;
+
+    /// @dev Placement timestamp and expiry per order
+    mapping(uint256 => OrderTimes) private orderTimes;
+
+    /// @dev Open order IDs per trader and per market side; positions are
+    /// 1-based (0 = not listed) so removal is an O(1) swap-and-pop. An order
+    /// is listed on its side exactly while it is linked into its price level
+    mapping(address => uint256[]) private traderOpenOrders;
+    mapping(uint256 => uint256) private traderOpenPosition;
+    mapping(uint256 => uint256[]) private openBuyOrders;
+    mapping(uint256 => uint256[]) private openSellOrders;
+    mapping(uint256 => uint256) private sideOpenPosition;
+
+    /// @dev Access roles. Admins grant and revoke every role and configure
+    /// fees and policies; operators pause and unpause; matchers are the only
+    /// accounts allowed to match while the matcher allowlist is enabled
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");
+    bytes32 public constant MATCHER_ROLE = keccak256("MATCHER_ROLE");
+    mapping(bytes32 => mapping(address => bool)) private roles;
+
+    /// @dev While paused, placement, amendment and matching revert; cancels
+    /// and withdrawals stay open so traders can always exit
+    bool public paused;
+
+    /// @dev Whether matching is restricted to MATCHER_ROLE holders
+    bool public matcherAllowlistEnabled;
+
+    /// @dev Current fee schedule. Each order stores the higher of the two
+    /// rates at placement as its cap, so later increases never apply to it
+    uint16 public makerFeeBps;
+    uint16 public takerFeeBps;
+
+    /// @dev Applied whenever a match would trade an account with itself
+    SelfTradePolicy public selfTradePolicy;
+
+    /// @dev Next nonce a trader's signed cancel must use
+    mapping(address => uint256) public cancelNonces;
+
+    /// @dev Base filled per signed order hash; a cancelled signed order is
+    /// marked as completely filled
+    mapping(bytes32 => uint256) public signedOrderFilled;
+
+    /// @dev Fees per quote token: accrued by matches, collected by an admin
+    mapping(address => ConcurrentCounter.Counter) private feesAccrued;
+    mapping(address => uint256) private feesCollected;
 
     /// @dev Order book state
-    uint256 public nextOrderId = 1;
-    uint256 public totalOrdersPlaced;
-    uint256 public totalOrdersMatched;
-    uint256 public totalOrdersCancelled;
+    ConcurrentCounter.Counter private ordersPlaced;
+    ConcurrentCounter.Counter private ordersMatched;
+    ConcurrentCounter.Counter private ordersCancelled;
 
     /// @dev Events for tracking order lifecycle
+    event MarketCreated(
+        uint256 indexed marketId,
+        address indexed baseToken,
+        address indexed quoteToken
+    );
+
     event OrderPlaced(
         uint256 indexed orderId,
+        uint256 indexed marketId,
         address indexed trader,
         uint256 baseAmount,
         uint256 quoteAmount,
-        bool indexed isBuyOrder
+        bool isBuyOrder
     );
     
     event OrderMatched(
+        uint256 indexed marketId,
         uint256 indexed buyOrderId,
         uint256 indexed sellOrderId,
         uint256 baseAmount,
         uint256 quoteAmount,
-        address indexed buyer,
-        address seller
+        address buyer,
+        address seller,
+        uint256 buyerFee,
+        uint256 sellerFee
     );
     
     event OrderCancelled(
         uint256 indexed orderId,
+        uint256 indexed marketId,
         address indexed trader,
         string reason
     );
     
+    event SignedOrderCancelled(
+        bytes32 indexed orderHash,
+        uint256 indexed marketId,
+        address indexed trader,
+        string reason
+    );
+
+    event OrderAmended(
+        uint256 indexed orderId,
+        uint256 indexed marketId,
+        address indexed trader,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        bool priorityReset
+    );
+
+    event OrderLinked(
+        uint256 indexed orderId,
+        uint256 indexed marketId,
+        uint256 price
+    );
+
     event OrdersProcessed(
+        uint256 indexed marketId,
         uint256 totalProcessed,
         uint256 successCount,
         uint256 timestamp
     );
 
+    event Deposited(
+        address indexed trader,
+        address indexed token,
+        uint256 amount
+    );
+
+    event Withdrawn(
+        address indexed trader,
+        address indexed token,
+        uint256 amount
+    );
+
+    event FeesUpdated(uint16 makerFeeBps, uint16 takerFeeBps);
+
+    event SelfTradePolicyUpdated(SelfTradePolicy policy);
+
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    event Paused(address account);
+
+    event Unpaused(address account);
+
+    event MatcherAllowlistUpdated(bool enabled);
+
+    event SelfTradePrevented(
+        uint256 indexed marketId,
+        address indexed trader,
+        uint256 indexed cancelledOrderId,
+        uint256 counterOrderId,
+        SelfTradePolicy policy
+    );
+
+    event FeesCollected(
+        address indexed token,
+        address indexed to,
+        uint256 amount
+    );
+
     /// @dev Custom errors for gas efficiency
     error InvalidOrderAmount();
     error OrderNotFound();
     error UnauthorizedCancellation();
+    error UnauthorizedAmendment();
+    error OrderExpired();
+    error OrderWouldCross();
+    error OrderNotFilled();
+    error NoLiquidity();
+    error SlippageExceeded();
+    error InvalidSignature();
+    error SignatureExpired();
+    error InvalidNonce();
     error InsufficientBalance();
     error InvalidBatchSize();
+    error InvalidToken();
+    error TokenTransferFailed();
+    error InvalidPrice();
+    error PriceLevelTooDeep();
+    error InvalidExpiry();
+    error MarketNotFound();
+    error MarketExists();
+    error MissingRole(bytes32 role, address account);
+    error ContractPaused();
+    error ContractNotPaused();
+    error InvalidFee();
 
-    constructor() {
-        orderCounter = new U256Cumulative(0, 1000000);
+    /**
+     * @param concurrent_ Deploying to Arcology: back every counter with a
+     * U256Cumulative and allocate order IDs per trader. Must be false on
+     * networks without the Arcology precompiles
+     */
+    constructor(bool concurrent_) {
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(OPERATOR_ROLE, msg.sender);
+        concurrent = concurrent_;
+        if (concurrent_) {
+            ordersPlaced.makeConcurrent();
+            ordersMatched.makeConcurrent();
+            ordersCancelled.makeConcurrent();
+        }
     }
 
+    // ========== Markets ==========
+
     /**
-     * @dev Place a new order on the book
-     * @param baseAmount Amount of base token
-     * @param quoteAmount Amount of quote token
-     * @param isBuyOrder Whether this is a buy (true) or sell (false) order
-     * @return orderId The ID of the created order
+     * @dev Register a new base/quote trading pair (admin only)
+     * Each ordered pair can be listed once; its tokens become depositable
+     * @param baseToken ERC-20 sold by sell orders and bought by buy orders
+     * @param quoteToken ERC-20 used to pay for the base asset
+     * @return marketId The ID of the new market
      */
-    function placeOrder(
-        uint256 baseAmount,
-        uint256 quoteAmount,
-        bool isBuyOrder
-    ) external returns (uint256) {
-        if (baseAmount == 0 || quoteAmount == 0) {
-            revert InvalidOrderAmount();
+    function createMarket(address baseToken, address quoteToken)
+        external
+        returns (uint256 marketId)
+    {
+        _requireRole(ADMIN_ROLE);
+        if (
+            baseToken == address(0) ||
+            quoteToken == address(0) ||
+            baseToken == quoteToken
+        ) {
+            revert InvalidToken();
+        }
+        if (marketIdByPair[baseToken][quoteToken] != 0) {
+            revert MarketExists();
         }
 
-        // Increment order ID
-        orderIdCounter++;
-        uint256 orderId = orderIdCounter;
+        marketId = ++marketCount;
+        Market storage market = markets[marketId];
+        market.baseToken = baseToken;
+        market.quoteToken = quoteToken;
+        if (concurrent) {
+            market.ordersPlaced.makeConcurrent();
+            market.ordersMatched.makeConcurrent();
+            market.ordersCancelled.makeConcurrent();
+            // Quote tokens may be shared by several markets
+            if (!feesAccrued[quoteToken].isConcurrent()) {
+                feesAccrued[quoteToken].makeConcurrent();
+            }
+        }
 
-        // Pack trader + isBuyOrder into first mapping
-        uint256 packedHeader = _packHeader(msg.sender, isBuyOrder);
-        orders[orderId] = packedHeader;
-        
-        // Store amounts in separate mapping
-        orderAmounts[orderId] = OrderAmounts({
-            baseAmount: baseAmount,
-            quoteAmount: quoteAmount
-        });
-        
-        // Track trader's order count
-        traderOrderCounts[msg.sender]++;
-        
-        // Also track on concurrent counter for Arcology environments
-        orderCounter.add(1);
-        
-        totalOrdersPlaced++;
+        marketIdByPair[baseToken][quoteToken] = marketId;
+        isListedToken[baseToken] = true;
+        isListedToken[quoteToken] = true;
 
-        emit OrderPlaced(orderId, msg.sender, baseAmount, quoteAmount, isBuyOrder);
-        return orderId;
+        emit MarketCreated(marketId, baseToken, quoteToken);
     }
 
+    // ========== Fees ==========
+
     /**
-     * @dev Cancel an existing order
-     * @param orderId The ID of the order to cancel
+     * @dev Set the fee schedule (admin only)
+     * Resting orders keep paying at most the higher rate in force when they
+     * were placed, so increases only apply to new orders
+     * @param makerBps Fee charged to the resting side of a match
+     * @param takerBps Fee charged to the incoming side of a match
      */
-    function cancelOrder(uint256 orderId) external {
-        uint256 packedHeader = orders[orderId];
-        if (packedHeader == 0) {
-            revert OrderNotFound();
+    function setFees(uint16 makerBps, uint16 takerBps) external {
+        _requireRole(ADMIN_ROLE);
+        if (makerBps > MAX_FEE_BPS || takerBps > MAX_FEE_BPS) {
+            revert InvalidFee();
         }
+        makerFeeBps = makerBps;
+        takerFeeBps = takerBps;
 
-        (address trader, ) = _unpackHeader(packedHeader);
-        
-        if (msg.sender != trader) {
-            revert UnauthorizedCancellation();
+        emit FeesUpdated(makerBps, takerBps);
+    }
+
+    /**
+     * @dev Transfer all uncollected fees of one token out (admin only)
+     * @param token Quote token of one or more markets
+     * @param to Recipient of the fees
+     * @return amount Amount transferred
+     */
+    function collectFees(address token, address to)
+        external
+        returns (uint256 amount)
+    {
+        _requireRole(ADMIN_ROLE);
+        amount = feesAccrued[token].current() - feesCollected[token];
+        if (amount == 0) {
+            return 0;
         }
+        feesCollected[token] += amount;
 
-        // Remove order
-        orders[orderId] = 0;
-        totalOrdersCancelled++;
+        _safeTransfer(token, to, amount);
 
-        emit OrderCancelled(orderId, msg.sender, "User cancelled");
+        emit FeesCollected(token, to, amount);
     }
 
     /**
-     * @dev Match a batch of buy and sell orders
-     * Designed for high-throughput parallel matching
-     * @param buyOrderIds Array of buy order IDs
-     * @param sellOrderIds Array of sell order IDs
-     * @return matchCount Number of successful matches
+     * @dev Fees of one token accrued by matches and not collected yet
      */
-    function matchOrdersBatch(
-        uint256[] calldata buyOrderIds,
-        uint256[] calldata sellOrderIds
-    ) external returns (uint256) {
-        if (buyOrderIds.length != sellOrderIds.length) {
-            revert InvalidBatchSize();
-        }
+    function collectableFees(address token) external view returns (uint256) {
+        return feesAccrued[token].current() - feesCollected[token];
+    }
 
-        uint256 matchCount = 0;
+    // ========== Self-Trade Prevention ==========
 
-        for (uint256 i = 0; i < buyOrderIds.length; i++) {
-            if (_matchOrderPair(buyOrderIds[i], sellOrderIds[i])) {
-                matchCount++;
-            }
-        }
+    /**
+     * @dev Choose which order is cancelled on a self-trade (admin only)
+     * @param policy Cancel the newest order, the oldest or both
+     */
+    function setSelfTradePolicy(SelfTradePolicy policy) external {
+        _requireRole(ADMIN_ROLE);
+        selfTradePolicy = policy;
+
+        emit SelfTradePolicyUpdated(policy);
+    }
 
-        totalOrdersMatched += matchCount;
-        emit OrdersProcessed(buyOrderIds.length, matchCount, block.timestamp);
+    // ========== Access Control ==========
 
-        return matchCount;
+    /**
+     * @dev Whether `account` holds `role`
+     */
+    function hasRole(bytes32 role, address account) external view returns (bool) {
+        return roles[role][account];
     }
 
     /**
-     * @dev Internal function to match a pair of orders
-     * @param buyOrderId Buy order ID
-     * @param sellOrderId Sell order ID
-     * @return success Whether the match was successful
+     * @dev Give `account` a role (admin only); a no-op if it already has it
      */
-    function _matchOrderPair(
-        uint256 buyOrderId,
-        uint256 sellOrderId
-    ) internal returns (bool) {
-        uint256 buyHeader = orders[buyOrderId];
-        uint256 sellHeader = orders[sellOrderId];
+    function grantRole(bytes32 role, address account) external {
+        _requireRole(ADMIN_ROLE);
+        _grantRole(role, account);
+    }
 
-        if (buyHeader == 0 || sellHeader == 0) {
-            return false;
+    /**
+     * @dev Take a role from `account` (admin only); a no-op if it lacks it
+     */
+    function revokeRole(bytes32 role, address account) external {
+        _requireRole(ADMIN_ROLE);
+        if (roles[role][account]) {
+            roles[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
         }
+    }
 
-        (address buyer, bool isBuyOrder) = _unpackHeader(buyHeader);
-        (address seller, ) = _unpackHeader(sellHeader);
-
-        OrderAmounts memory buyAmounts = orderAmounts[buyOrderId];
-        OrderAmounts memory sellAmounts = orderAmounts[sellOrderId];
-        
-        uint256 buyBase = buyAmounts.baseAmount;
-        uint256 buyQuote = buyAmounts.quoteAmount;
-        uint256 sellBase = sellAmounts.baseAmount;
+    /**
+     * @dev Halt placement, amendment and matching (operator only)
+     */
+    function pause() external {
+        _requireRole(OPERATOR_ROLE);
+        _requireNotPaused();
+        paused = true;
 
-        // Validate order types
-        if (!isBuyOrder) {
-            return false;
-        }
+        emit Paused(msg.sender);
+    }
 
-        // Simple matching: buyer's quote >= seller's base price
-        // and amounts are compatible
-        if (buyQuote < sellBase || buyBase != sellBase) {
-            return false;
+    /**
+     * @dev Resume placement, amendment and matching (operator only)
+     */
+    function unpause() external {
+        _requireRole(OPERATOR_ROLE);
+        if (!paused) {
+            revert ContractNotPaused();
         }
+        paused = false;
 
-        // Execute match: update balances
-        traderBalances[buyer] += sellBase;
-        traderBalances[seller] += buyQuote;
-
-        // Remove matched orders
-        orders[buyOrderId] = 0;
-        orders[sellOrderId] = 0;
+        emit Unpaused(msg.sender);
+    }
 
-        emit OrderMatched(
-            buyOrderId,
-            sellOrderId,
-            sellBase,
-            buyQuote,
-            buyer,
-            seller
-        );
+    /**
+     * @dev Restrict `matchOrdersBatch` and `settleSignedOrders` to
+     * MATCHER_ROLE holders, or open them to anyone again (admin only)
+     */
+    function setMatcherAllowlist(bool enabled) external {
+        _requireRole(ADMIN_ROLE);
+        matcherAllowlistEnabled = enabled;
 
-        return true;
+        emit MatcherAllowlistUpdated(enabled);
     }
 
+    // ========== Escrow ==========
+
     /**
-     * @dev Get order details
-     * @param orderId The order ID to query
+     * @dev Deposit tokens into the caller's available balance
+     * Balances are per token, so one deposit backs orders in every market
+     * that trades the token. Requires a prior ERC-20 approval of at least `amount`
+     * @param token Any token listed by a market
+     * @param amount Amount to transfer in
      */
-    function getOrder(uint256 orderId)
-        external
-        view
-        returns (
-            address trader,
-            uint256 baseAmount,
-            uint256 quoteAmount,
-            uint256 timestamp,
-            bool isBuyOrder,
-            bool exists
-        )
-    {
-        uint256 packedHeader = orders[orderId];
-        if (packedHeader == 0) {
-            return (address(0), 0, 0, 0, false, false);
+    function deposit(address token, uint256 amount) external {
+        _requireListedToken(token);
+        if (amount == 0) {
+            revert InvalidOrderAmount();
         }
 
-        (trader, isBuyOrder) = _unpackHeader(packedHeader);
-        OrderAmounts memory amounts = orderAmounts[orderId];
-        baseAmount = amounts.baseAmount;
-        quoteAmount = amounts.quoteAmount;
-        timestamp = 0;
-        exists = true;
+        _safeTransferFrom(token, msg.sender, address(this), amount);
+        availableBalances[msg.sender][token] += amount;
+
+        emit Deposited(msg.sender, token, amount);
     }
 
     /**
-     * @dev Get trader statistics
-     * @param trader The trader address
+     * @dev Withdraw tokens from the caller's available balance
+     * Funds locked by open orders must be released by cancel or match first
+     * @param token Any token listed by a market
+     * @param amount Amount to transfer out
      */
-    function getTraderStats(address trader)
-        external
-        view
-        returns (uint256 orderCount, uint256 balance)
-    {
-        orderCount = traderOrderCounts[trader];
-        balance = traderBalances[trader];
+    function withdraw(address token, uint256 amount) external {
+        _requireListedToken(token);
+        if (amount == 0) {
+            revert InvalidOrderAmount();
+        }
+
+        uint256 available = availableBalances[msg.sender][token];
+        if (available < amount) {
+            revert InsufficientBalance();
+        }
+        availableBalances[msg.sender][token] = available - amount;
+
+        _safeTransfer(token, msg.sender, amount);
+
+        emit Withdrawn(msg.sender, token, amount);
     }
 
     /**
-     * @dev Get order book statistics
+     * @dev Place a new order on the book
+     * Buy orders lock `quoteAmount` of the quote token plus a reserve for
+     * their fee at the current highest rate, sell orders lock `baseAmount` of
+     * the base token from the caller's available balance. Sellers pay their
+     * fee out of the quote they receive
+     * @param marketId Market to trade in
+     * @param baseAmount Amount of base token
+     * @param quoteAmount Amount of quote token
+     * @param isBuyOrder Whether this is a buy (true) or sell (false) order
+     * @return orderId The ID of the created order
      */
-    function getOrderBookStats()
-        external
-        view
-        returns (
-            uint256 placed,
-            uint256 matched,
-            uint256 cancelled
-        )
-    {
-        placed = totalOrdersPlaced;
-        matched = totalOrdersMatched;
-        cancelled = totalOrdersCancelled;
+    function placeOrder(
+        uint256 marketId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        bool isBuyOrder
+    ) external returns (uint256) {
+        return
+            _placeOrder(
+                marketId,
+                baseAmount,
+                quoteAmount,
+                isBuyOrder,
+                OrderType.Limit,
+                0,
+                0,
+                0
+            );
     }
 
-    // ========== Internal Packing/Unpacking Functions ==========
-
     /**
-     * @dev Pack trader and isBuyOrder into uint256
-     * Layout: [isBuyOrder(1)|trader(160)] = 161 bits
+     * @dev Place a new order in taker mode
+     * The order first crosses the best resting opposite orders by price, then
+     * by time, for at most `maxFills` fills; whatever is left rests on the book
+     * @param marketId Market to trade in
+     * @param baseAmount Amount of base token
+     * @param quoteAmount Amount of quote token
+     * @param isBuyOrder Whether this is a buy (true) or sell (false) order
+     * @param maxFills Maximum number of resting orders to fill against
+     * @return orderId The ID of the created order
      */
-    function _packHeader(address trader, bool isBuyOrder)
-        internal
-        pure
-        returns (uint256)
-    {
-        uint256 packed = uint256(uint160(trader));
-        if (isBuyOrder) {
-            packed = packed | (uint256(1) << 160);
+    function placeOrder(
+        uint256 marketId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        bool isBuyOrder,
+        uint256 maxFills
+    ) external returns (uint256) {
+        if (maxFills > MAX_TAKER_FILLS) {
+            revert InvalidBatchSize();
         }
-        return packed;
+        return
+            _placeOrder(
+                marketId,
+                baseAmount,
+                quoteAmount,
+                isBuyOrder,
+                OrderType.Limit,
+                maxFills,
+                0,
+                0
+            );
     }
 
     /**
-     * @dev Unpack trader and isBuyOrder from uint256
+     * @dev Place a new order that expires at `expiresAt`
+     * Expired orders are skipped by matching and can be removed by anyone
+     * through `cancelExpiredOrders`
+     * @param marketId Market to trade in
+     * @param baseAmount Amount of base token
+     * @param quoteAmount Amount of quote token
+     * @param isBuyOrder Whether this is a buy (true) or sell (false) order
+     * @param maxFills Maximum number of resting orders to fill against (0 = rest only)
+     * @param expiresAt Unix timestamp after which the order is dead (0 = never)
+     * @return orderId The ID of the created order
      */
-    function _unpackHeader(uint256 packed)
+    function placeOrder(
+        uint256 marketId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        bool isBuyOrder,
+        uint256 maxFills,
+        uint64 expiresAt
+    ) external returns (uint256) {
+        if (maxFills > MAX_TAKER_FILLS) {
+            revert InvalidBatchSize();
+        }
+        if (expiresAt != 0 && expiresAt <= block.timestamp) {
+            revert InvalidExpiry();
+        }
+        return
+            _placeOrder(
+                marketId,
+                baseAmount,
+                quoteAmount,
+                isBuyOrder,
+                OrderType.Limit,
+                maxFills,
+                expiresAt,
+                0
+            );
+    }
+
+    /**
+     * @dev Place an order of a given type
+     * `quoteAmount / baseAmount` is the limit price for every type; for
+     * market orders it is the slippage bound, so a market buy spends at most
+     * `quoteAmount` and a market sell receives at least `quoteAmount` for the
+     * full size. Types that take liquidity use up to MAX_TAKER_FILLS fills
+     * when `maxFills` is 0; post-only orders never take any.
+     * @param marketId Market to trade in
+     * @param baseAmount Amount of base token
+     * @param quoteAmount Amount of quote token
+     * @param isBuyOrder Whether this is a buy (true) or sell (false) order
+     * @param orderType Time in force / order type, see `OrderType`
+     * @param maxFills Maximum number of resting orders to fill against
+     * @param expiresAt Unix timestamp after which a resting order is dead (0 = never)
+     * @return orderId The ID of the created order
+     */
+    function placeOrder(
+        uint256 marketId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        bool isBuyOrder,
+        OrderType orderType,
+        uint256 maxFills,
+        uint64 expiresAt
+    ) external returns (uint256) {
+        return
+            _placeTypedOrder(
+                marketId,
+                baseAmount,
+                quoteAmount,
+                isBuyOrder,
+                orderType,
+                maxFills,
+                expiresAt,
+                0
+            );
+    }
+
+    /**
+     * @dev Place an order of a given type, with a hint for where its price
+     * level goes in the book
+     * A new price level is linked in after `levelHint` when that is a live
+     * level on the order's side priced better than the order, which costs
+     * O(1) instead of a walk from the best price. A stale or wrong hint falls
+     * back to that walk, which reverts with PriceLevelTooDeep past
+     * MAX_LEVEL_WALK levels. Orders joining an existing level ignore the hint,
+     * and so does concurrent mode, where `linkOrders` takes the hints instead.
+     * @param marketId Market to trade in
+     * @param baseAmount Amount of base token
+     * @param quoteAmount Amount of quote token
+     * @param isBuyOrder Whether this is a buy (true) or sell (false) order
+     * @param orderType Time in force / order type, see `OrderType`
+     * @param maxFills Maximum number of resting orders to fill against
+     * @param expiresAt Unix timestamp after which a resting order is dead (0 = never)
+     * @param levelHint Price of a level better than the order's, ideally the
+     * adjacent one; 0 = walk from the best price
+     * @return orderId The ID of the created order
+     */
+    function placeOrder(
+        uint256 marketId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        bool isBuyOrder,
+        OrderType orderType,
+        uint256 maxFills,
+        uint64 expiresAt,
+        uint256 levelHint
+    ) external returns (uint256) {
+        return
+            _placeTypedOrder(
+                marketId,
+                baseAmount,
+                quoteAmount,
+                isBuyOrder,
+                orderType,
+                maxFills,
+                expiresAt,
+                levelHint
+            );
+    }
+
+    function _placeTypedOrder(
+        uint256 marketId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        bool isBuyOrder,
+        OrderType orderType,
+        uint256 maxFills,
+        uint64 expiresAt,
+        uint256 levelHint
+    ) internal returns (uint256) {
+        if (maxFills > MAX_TAKER_FILLS) {
+            revert InvalidBatchSize();
+        }
+        if (expiresAt != 0 && expiresAt <= block.timestamp) {
+            revert InvalidExpiry();
+        }
+        if (orderType == OrderType.PostOnly) {
+            maxFills = 0;
+        } else if (orderType != OrderType.Limit && maxFills == 0) {
+            maxFills = MAX_TAKER_FILLS;
+        }
+        return
+            _placeOrder(
+                marketId,
+                baseAmount,
+                quoteAmount,
+                isBuyOrder,
+                orderType,
+                maxFills,
+                expiresAt,
+                levelHint
+            );
+    }
+
+    function _placeOrder(
+        uint256 marketId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        bool isBuyOrder,
+        OrderType orderType,
+        uint256 maxFills,
+        uint64 expiresAt,
+        uint256 levelHint
+    ) internal returns (uint256) {
+        _requireNotPaused();
+        if (baseAmount == 0 || quoteAmount == 0) {
+            revert InvalidOrderAmount();
+        }
+
+        Market storage market = _market(marketId);
+
+        uint256 price = _priceKey(baseAmount, quoteAmount);
+        if (price == 0) {
+            revert InvalidPrice();
+        }
+        if (orderType == OrderType.PostOnly) {
+            uint256 opposite = isBuyOrder ? market.bestAsk : market.bestBid;
+            if (opposite != 0 && !_isBetterPrice(isBuyOrder, opposite, price)) {
+                revert OrderWouldCross();
+            }
+        }
+
+        uint256 feeCap = _currentFeeCap();
+
+        // Lock the funds backing this order
+        if (isBuyOrder) {
+            _lock(
+                msg.sender,
+                market.quoteToken,
+                quoteAmount + _feeReserve(quoteAmount, feeCap)
+            );
+        } else {
+            _lock(msg.sender, market.baseToken, baseAmount);
+        }
+
+        uint256 orderId = _nextOrderId(msg.sender);
+
+        // Pack trader + isBuyOrder + market + fee cap into first mapping
+        orders[orderId] = _packHeader(msg.sender, isBuyOrder, marketId, feeCap);
+        
+        // Store amounts in separate mapping
+        orderAmounts[orderId] = OrderAmounts({
+            baseAmount: baseAmount,
+            quoteAmount: quoteAmount,
+            filledBase: 0,
+            filledQuote: 0
+        });
+
+        orderTimes[orderId] = OrderTimes({
+            placedAt: uint64(block.timestamp),
+            expiresAt: expiresAt
+        });
+        
+        ordersPlaced.increment(1);
+        market.ordersPlaced.increment(1);
+
+        emit OrderPlaced(
+            orderId,
+            marketId,
+            msg.sender,
+            baseAmount,
+            quoteAmount,
+            isBuyOrder
+        );
+
+        // Taker mode: cross the opposite side before resting
+        uint256 fills = 0;
+        if (maxFills > 0) {
+            fills = _takeLiquidity(orderId, marketId, isBuyOrder, maxFills);
+            ordersMatched.increment(fills);
+            market.ordersMatched.increment(fills);
+        }
+
+        if (orders[orderId] != 0) {
+            if (orderType == OrderType.Limit || orderType == OrderType.PostOnly) {
+                _insertIntoBook(orderId, marketId, msg.sender, isBuyOrder, price, levelHint);
+                if (concurrent && orderType == OrderType.PostOnly) {
+                    postOnlyUnlinked[orderId] = true;
+                }
+            } else {
+                _dropUnfilled(orderId, marketId, isBuyOrder, orderType, fills);
+            }
+        } else if (
+            orderType == OrderType.FillOrKill && orderAmounts[orderId].baseAmount != 0
+        ) {
+            // Cancelled part way by self-trade prevention
+            revert OrderNotFilled();
+        }
+
+        return orderId;
+    }
+
+    /**
+     * @dev Deal with what is left of an order that must not rest: fill-or-kill
+     * and market orders without any fill revert, anything else is cancelled
+     */
+    function _dropUnfilled(
+        uint256 orderId,
+        uint256 marketId,
+        bool isBuyOrder,
+        OrderType orderType,
+        uint256 fills
+    ) internal {
+        if (orderType == OrderType.FillOrKill) {
+            revert OrderNotFilled();
+        }
+        if (orderType == OrderType.Market && fills == 0) {
+            Market storage market = markets[marketId];
+            if ((isBuyOrder ? market.bestAsk : market.bestBid) == 0) {
+                revert NoLiquidity();
+            }
+            revert SlippageExceeded();
+        }
+        _removeOrder(orderId, marketId, msg.sender, isBuyOrder, "unfilled remainder");
+    }
+
+    /**
+     * @dev Cancel an existing order and release its locked funds
+     * @param orderId The ID of the order to cancel
+     */
+    function cancelOrder(uint256 orderId) external {
+        if (!_cancelFor(msg.sender, orderId)) {
+            revert OrderNotFound();
+        }
+    }
+
+    /**
+     * @dev Cancel several of the caller's orders in one transaction
+     * IDs that are no longer open (filled, cancelled or never issued) are
+     * skipped, so a quote pull cannot fail because of a race with matching
+     * @param orderIds Orders to cancel; all must belong to the caller
+     * @return cancelled Number of orders cancelled
+     */
+    function cancelOrders(uint256[] calldata orderIds)
+        external
+        returns (uint256 cancelled)
+    {
+        return _cancelAllFor(msg.sender, orderIds);
+    }
+
+    /**
+     * @dev Cancel the caller's open orders across all markets, newest first,
+     * up to `maxCount` of them so the call fits in a block however many
+     * orders are open; call again until `getTraderOpenOrders` reports none
+     * @param maxCount Maximum number of orders to cancel
+     * @return cancelled Number of orders cancelled
+     */
+    function cancelAll(uint256 maxCount) external returns (uint256 cancelled) {
+        uint256[] storage open = traderOpenOrders[msg.sender];
+        while (open.length > 0 && cancelled < maxCount) {
+            _cancelFor(msg.sender, open[open.length - 1]);
+            cancelled++;
+        }
+    }
+
+    /**
+     * @dev Cancel orders on behalf of `trader` with their EIP-712 signature
+     * over CancelOrders(trader, orderIds, nonce, deadline). Anyone may relay
+     * it; each nonce is usable once and in order. IDs that are no longer open
+     * are skipped as in `cancelOrders`.
+     * @param trader Owner of the orders and signer of the request
+     * @param orderIds Orders to cancel
+     * @param nonce Must equal `cancelNonces(trader)`
+     * @param deadline Unix timestamp after which the signature is void
+     * @param signature 65-byte ECDSA signature by `trader`
+     * @return cancelled Number of orders cancelled
+     */
+    function cancelOrdersBySig(
+        address trader,
+        uint256[] calldata orderIds,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (uint256 cancelled) {
+        if (block.timestamp > deadline) {
+            revert SignatureExpired();
+        }
+        if (nonce != cancelNonces[trader]) {
+            revert InvalidNonce();
+        }
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                CANCEL_ORDERS_TYPEHASH,
+                trader,
+                keccak256(abi.encodePacked(orderIds)),
+                nonce,
+                deadline
+            )
+        );
+        address signer = TypedSignatures.recover(
+            TypedSignatures.digest(DOMAIN_SEPARATOR(), structHash),
+            signature
+        );
+        if (signer == address(0) || signer != trader) {
+            revert InvalidSignature();
+        }
+
+        cancelNonces[trader] = nonce + 1;
+        return _cancelAllFor(trader, orderIds);
+    }
+
+    /**
+     * @dev EIP-712 domain separator of this contract on the current chain
+     */
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return
+            TypedSignatures.domainSeparator(
+                EIP712_NAME,
+                EIP712_VERSION,
+                address(this)
+            );
+    }
+
+    /**
+     * @dev Change the price and/or size of an open order, keeping its ID
+     * The new amounts are the order's open size from now on, in the same
+     * units as `placeOrder`; fills made before the amendment stay settled and
+     * `getOrder` reports the order as if it had been placed with the new
+     * amounts. A smaller or equal size at the same price level keeps the
+     * order's time priority. A new price level or a larger size moves the
+     * order to the back of its level, with a fresh placement time and the
+     * current fee cap, as if it had just been placed.
+     * @param orderId The ID of the order to amend
+     * @param baseAmount New open amount of base token
+     * @param quoteAmount New open amount of quote token
+     * @return priorityReset Whether the order lost its time priority
+     */
+    function amendOrder(
+        uint256 orderId,
+        uint256 baseAmount,
+        uint256 quoteAmount
+    ) external returns (bool priorityReset) {
+        return _amendOrder(orderId, baseAmount, quoteAmount, 0);
+    }
+
+    /**
+     * @dev Amend an open order, with a hint for where a new price level goes
+     * in the book; see the `levelHint` overload of `placeOrder`
+     * @param orderId The ID of the order to amend
+     * @param baseAmount New open amount of base token
+     * @param quoteAmount New open amount of quote token
+     * @param levelHint Price of a level better than the new price; 0 = walk
+     * from the best price
+     * @return priorityReset Whether the order lost its time priority
+     */
+    function amendOrder(
+        uint256 orderId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        uint256 levelHint
+    ) external returns (bool priorityReset) {
+        return _amendOrder(orderId, baseAmount, quoteAmount, levelHint);
+    }
+
+    function _amendOrder(
+        uint256 orderId,
+        uint256 baseAmount,
+        uint256 quoteAmount,
+        uint256 levelHint
+    ) internal returns (bool priorityReset) {
+        _requireNotPaused();
+        uint256 packedHeader = orders[orderId];
+        if (packedHeader == 0) {
+            revert OrderNotFound();
+        }
+
+        (address trader, bool isBuyOrder) = _unpackHeader(packedHeader);
+        if (msg.sender != trader) {
+            revert UnauthorizedAmendment();
+        }
+        if (_isExpired(orderId)) {
+            revert OrderExpired();
+        }
+        if (baseAmount == 0 || quoteAmount == 0) {
+            revert InvalidOrderAmount();
+        }
+        uint256 price = _priceKey(baseAmount, quoteAmount);
+        if (price == 0) {
+            revert InvalidPrice();
+        }
+
+        uint256 marketId = _headerMarket(packedHeader);
+        priorityReset =
+            price != orderPriceLevel[orderId] ||
+            baseAmount > orderAmounts[orderId].baseAmount;
+        uint256 feeCap = priorityReset
+            ? _currentFeeCap()
+            : _headerFeeCap(packedHeader);
+
+        _relockAmended(orderId, packedHeader, feeCap, baseAmount, quoteAmount);
+
+        orders[orderId] = _packHeader(trader, isBuyOrder, marketId, feeCap);
+        orderAmounts[orderId] = OrderAmounts({
+            baseAmount: baseAmount,
+            quoteAmount: quoteAmount,
+            filledBase: 0,
+            filledQuote: 0
+        });
+
+        if (priorityReset) {
+            _removeFromBook(orderId, marketId, trader, isBuyOrder);
+            orderTimes[orderId].placedAt = uint64(block.timestamp);
+            _insertIntoBook(orderId, marketId, trader, isBuyOrder, price, levelHint);
+        }
+
+        emit OrderAmended(
+            orderId,
+            marketId,
+            trader,
+            baseAmount,
+            quoteAmount,
+            priorityReset
+        );
+    }
+
+    /**
+     * @dev Swap the escrow backing an order's old open size for its amended one
+     */
+    function _relockAmended(
+        uint256 orderId,
+        uint256 packedHeader,
+        uint256 feeCap,
+        uint256 baseAmount,
+        uint256 quoteAmount
+    ) internal {
+        (address trader, bool isBuyOrder) = _unpackHeader(packedHeader);
+        Market storage market = markets[_headerMarket(packedHeader)];
+        if (isBuyOrder) {
+            _unlock(
+                trader,
+                market.quoteToken,
+                _buyEscrow(orderAmounts[orderId], _headerFeeCap(packedHeader))
+            );
+            _lock(
+                trader,
+                market.quoteToken,
+                quoteAmount + _feeReserve(quoteAmount, feeCap)
+            );
+        } else {
+            _unlock(trader, market.baseToken, orderAmounts[orderId].baseAmount);
+            _lock(trader, market.baseToken, baseAmount);
+        }
+    }
+
+    /**
+     * @dev Remove expired orders and release their escrow back to the traders
+     * Callable by anyone; IDs that are unknown or not yet expired are skipped
+     * @param orderIds Candidate order IDs
+     * @return expiredCount Number of orders removed
+     */
+    function cancelExpiredOrders(uint256[] calldata orderIds)
+        external
+        returns (uint256 expiredCount)
+    {
+        for (uint256 i = 0; i < orderIds.length; i++) {
+            if (_expireIfDue(orderIds[i])) {
+                expiredCount++;
+            }
+        }
+    }
+
+    /**
+     * @dev Match a batch of buy and sell orders within one market
+     * Designed for high-throughput parallel matching; batches for different
+     * markets touch disjoint books and can run side by side
+     * Restricted to MATCHER_ROLE holders while the matcher allowlist is enabled
+     * @param marketId Market the orders must belong to
+     * @param buyOrderIds Array of buy order IDs
+     * @param sellOrderIds Array of sell order IDs
+     * @return matchCount Number of successful matches
+     */
+    function matchOrdersBatch(
+        uint256 marketId,
+        uint256[] calldata buyOrderIds,
+        uint256[] calldata sellOrderIds
+    ) external returns (uint256) {
+        _requireMatcher();
+        if (buyOrderIds.length != sellOrderIds.length) {
+            revert InvalidBatchSize();
+        }
+        Market storage market = _market(marketId);
+
+        uint256 matchCount = 0;
+
+        for (uint256 i = 0; i < buyOrderIds.length; i++) {
+            uint256 buyOrderId = buyOrderIds[i];
+            uint256 sellOrderId = sellOrderIds[i];
+            bool sellIsMaker = _placedBefore(sellOrderId, buyOrderId);
+            if (_matchOrderPair(marketId, buyOrderId, sellOrderId, sellIsMaker)) {
+                matchCount++;
+            }
+        }
+
+        ordersMatched.increment(matchCount);
+        market.ordersMatched.increment(matchCount);
+        emit OrdersProcessed(
+            marketId,
+            buyOrderIds.length,
+            matchCount,
+            block.timestamp
+        );
+
+        return matchCount;
+    }
+
+    /**
+     * @dev Link resting orders into their price levels and side lists
+     * In concurrent mode placement and priority-resetting amendments only
+     * record an order's price: the level queue, the side list and the best
+     * price are shared per market, so writing them on placement would make
+     * every two placements at one price conflict. Until linked, an order is
+     * invisible to taker-mode placement, post-only checks, `getOpenOrders`
+     * and the best prices in `getMarket`; `matchOrdersBatch` matches it
+     * either way. Orders are linked in the order given here.
+     * A post-only order can therefore be placed against a book that does not
+     * show an order it crosses yet. It is checked again when linked and
+     * cancelled ("post-only would cross") instead if it now crosses.
+     * IDs that are not open or already linked are skipped, so in plain mode,
+     * where placement links immediately, there is never anything to do.
+     * Restricted like `matchOrdersBatch` while the matcher allowlist is enabled.
+     * @param orderIds Orders to link, oldest first to keep time priority
+     * @param levelHints Per order, a better price level to search from, as in
+     * `placeOrder`; 0 = walk from the best price
+     * @return linked Number of orders linked
+     */
+    function linkOrders(
+        uint256[] calldata orderIds,
+        uint256[] calldata levelHints
+    ) external returns (uint256 linked) {
+        _requireMatcher();
+        if (orderIds.length != levelHints.length) {
+            revert InvalidBatchSize();
+        }
+
+        for (uint256 i = 0; i < orderIds.length; i++) {
+            uint256 orderId = orderIds[i];
+            uint256 packedHeader = orders[orderId];
+            uint256 price = orderPriceLevel[orderId];
+            if (packedHeader == 0 || price == 0 || sideOpenPosition[orderId] != 0) {
+                continue;
+            }
+
+            (address trader, bool isBuyOrder) = _unpackHeader(packedHeader);
+            uint256 marketId = _headerMarket(packedHeader);
+            if (postOnlyUnlinked[orderId]) {
+                delete postOnlyUnlinked[orderId];
+                Market storage market = markets[marketId];
+                uint256 opposite = isBuyOrder ? market.bestAsk : market.bestBid;
+                if (opposite != 0 && !_isBetterPrice(isBuyOrder, opposite, price)) {
+                    _removeOrder(orderId, marketId, trader, isBuyOrder, "post-only would cross");
+                    continue;
+                }
+            }
+            _linkIntoLevel(orderId, marketId, isBuyOrder, price, levelHints[i]);
+            linked++;
+
+            emit OrderLinked(orderId, marketId, price);
+        }
+    }
+
+    // ========== Signed Orders ==========
+
+    /**
+     * @dev Settle pairs of EIP-712 signed orders within one market
+     * Signed orders never rest on the book: they are matched straight out of
+     * the traders' available balances, so nothing is locked before
+     * settlement. A pair settles when both orders are live (not expired, not
+     * cancelled, not completely filled), the prices cross and both traders can
+     * cover their side; otherwise it is skipped. Pairs execute at the sell
+     * order's limit price, with the sell order charged the maker fee and the
+     * buy order the taker fee. Each settled pair emits `OrderMatched` with the
+     * order hashes as order IDs. Crossing orders of one account never settle:
+     * `selfTradePolicy` voids the buy (the taker, newest), the sell or both.
+     * Restricted like `matchOrdersBatch` while the matcher allowlist is enabled.
+     * @param marketId Market every order must belong to
+     * @param buyOrders Signed buy orders
+     * @param buySignatures Signature of each buy order by its trader
+     * @param sellOrders Signed sell orders, paired by index with `buyOrders`
+     * @param sellSignatures Signature of each sell order by its trader
+     * @return matchCount Number of pairs settled
+     */
+    function settleSignedOrders(
+        uint256 marketId,
+        SignedOrder[] calldata buyOrders,
+        bytes[] calldata buySignatures,
+        SignedOrder[] calldata sellOrders,
+        bytes[] calldata sellSignatures
+    ) external returns (uint256 matchCount) {
+        _requireMatcher();
+        if (
+            buyOrders.length != sellOrders.length ||
+            buyOrders.length != buySignatures.length ||
+            sellOrders.length != sellSignatures.length
+        ) {
+            revert InvalidBatchSize();
+        }
+        Market storage market = _market(marketId);
+
+        for (uint256 i = 0; i < buyOrders.length; i++) {
+            bytes32 buyHash = _verifySignedOrder(buyOrders[i], buySignatures[i]);
+            bytes32 sellHash = _verifySignedOrder(sellOrders[i], sellSignatures[i]);
+            if (
+                _settleSignedPair(
+                    marketId,
+                    buyOrders[i],
+                    buyHash,
+                    sellOrders[i],
+                    sellHash
+                )
+            ) {
+                matchCount++;
+            }
+        }
+
+        ordersMatched.increment(matchCount);
+        market.ordersMatched.increment(matchCount);
+        emit OrdersProcessed(marketId, buyOrders.length, matchCount, block.timestamp);
+    }
+
+    /**
+     * @dev Void a signed order so it can no longer be settled (signer only)
+     * Emits `SignedOrderCancelled` rather than `OrderCancelled`: the hash is
+     * not an order ID, and nothing rested on the book.
+     * @param order The signed order to cancel
+     */
+    function cancelSignedOrder(SignedOrder calldata order) external {
+        if (msg.sender != order.trader) {
+            revert UnauthorizedCancellation();
+        }
+        bytes32 orderHash = hashSignedOrder(order);
+        if (signedOrderFilled[orderHash] >= order.baseAmount) {
+            revert OrderNotFound();
+        }
+        signedOrderFilled[orderHash] = order.baseAmount;
+
+        emit SignedOrderCancelled(orderHash, order.marketId, msg.sender, "User cancelled");
+    }
+
+    /**
+     * @dev EIP-712 digest of a signed order; also its ID in events
+     */
+    function hashSignedOrder(SignedOrder calldata order) public view returns (bytes32) {
+        return
+            TypedSignatures.digest(
+                DOMAIN_SEPARATOR(),
+                keccak256(abi.encode(SIGNED_ORDER_TYPEHASH, order))
+            );
+    }
+
+    /**
+     * @dev Hash a signed order, reverting unless its trader signed it
+     */
+    function _verifySignedOrder(SignedOrder calldata order, bytes calldata signature)
+        internal
+        view
+        returns (bytes32 orderHash)
+    {
+        orderHash = hashSignedOrder(order);
+        address signer = TypedSignatures.recover(orderHash, signature);
+        if (signer == address(0) || signer != order.trader) {
+            revert InvalidSignature();
+        }
+    }
+
+    /**
+     * @dev Settle one pair of verified signed orders from available balances
+     * @return success Whether the pair settled
+     */
+    function _settleSignedPair(
+        uint256 marketId,
+        SignedOrder calldata buy,
+        bytes32 buyHash,
+        SignedOrder calldata sell,
+        bytes32 sellHash
+    ) internal returns (bool) {
+        if (
+            buy.marketId != marketId ||
+            sell.marketId != marketId ||
+            !buy.isBuyOrder ||
+            sell.isBuyOrder ||
+            _signedExpired(buy) ||
+            _signedExpired(sell) ||
+            buy.baseAmount == 0 ||
+            sell.baseAmount == 0 ||
+            buy.quoteAmount * sell.baseAmount < sell.quoteAmount * buy.baseAmount
+        ) {
+            return false;
+        }
+
+        uint256 buyFilled = signedOrderFilled[buyHash];
+        uint256 sellFilled = signedOrderFilled[sellHash];
+        if (buyFilled >= buy.baseAmount || sellFilled >= sell.baseAmount) {
+            return false;
+        }
+
+        if (buy.trader == sell.trader) {
+            _preventSignedSelfTrade(marketId, buy, buyHash, sell, sellHash);
+            return false;
+        }
+
+        Fill memory fill;
+        fill.base = buy.baseAmount - buyFilled < sell.baseAmount - sellFilled
+            ? buy.baseAmount - buyFilled
+            : sell.baseAmount - sellFilled;
+        fill.quote =
+            _quoteAt(sell.baseAmount, sell.quoteAmount, sellFilled + fill.base) -
+            _quoteAt(sell.baseAmount, sell.quoteAmount, sellFilled);
+        uint256 feeCap = _currentFeeCap();
+        fill.buyerFee = _fee(fill.quote, takerFeeBps, feeCap);
+        fill.sellerFee = _fee(fill.quote, makerFeeBps, feeCap);
+
+        Market storage market = markets[marketId];
+        if (
+            availableBalances[buy.trader][market.quoteToken] < fill.quote + fill.buyerFee ||
+            availableBalances[sell.trader][market.baseToken] < fill.base
+        ) {
+            return false;
+        }
+
+        signedOrderFilled[buyHash] = buyFilled + fill.base;
+        signedOrderFilled[sellHash] = sellFilled + fill.base;
+
+        availableBalances[buy.trader][market.quoteToken] -= fill.quote + fill.buyerFee;
+        availableBalances[sell.trader][market.baseToken] -= fill.base;
+        availableBalances[sell.trader][market.quoteToken] += fill.quote - fill.sellerFee;
+        availableBalances[buy.trader][market.baseToken] += fill.base;
+        feesAccrued[market.quoteToken].increment(fill.buyerFee + fill.sellerFee);
+
+        emit OrderMatched(
+            marketId,
+            uint256(buyHash),
+            uint256(sellHash),
+            fill.base,
+            fill.quote,
+            buy.trader,
+            sell.trader,
+            fill.buyerFee,
+            fill.sellerFee
+        );
+        return true;
+    }
+
+    /**
+     * @dev `_preventSelfTrade` for a signed pair: the sell sets the price, so
+     * it is the maker and the buy the newest. Voided orders are marked filled,
+     * as `cancelSignedOrder` does.
+     */
+    function _preventSignedSelfTrade(
+        uint256 marketId,
+        SignedOrder calldata buy,
+        bytes32 buyHash,
+        SignedOrder calldata sell,
+        bytes32 sellHash
+    ) internal {
+        SelfTradePolicy policy = selfTradePolicy;
+        if (policy != SelfTradePolicy.CancelOldest) {
+            signedOrderFilled[buyHash] = buy.baseAmount;
+            emit SignedOrderCancelled(buyHash, marketId, buy.trader, "self-trade");
+            emit SelfTradePrevented(marketId, buy.trader, uint256(buyHash), uint256(sellHash), policy);
+        }
+        if (policy != SelfTradePolicy.CancelNewest) {
+            signedOrderFilled[sellHash] = sell.baseAmount;
+            emit SignedOrderCancelled(sellHash, marketId, sell.trader, "self-trade");
+            emit SelfTradePrevented(marketId, sell.trader, uint256(sellHash), uint256(buyHash), policy);
+        }
+    }
+
+    function _signedExpired(SignedOrder calldata order) internal view returns (bool) {
+        return order.expiry != 0 && order.expiry <= block.timestamp;
+    }
+
+    /**
+     * @dev Quote owed for the first `filledBase` of an order of
+     * `baseAmount` for `quoteAmount`, rounded down except for a full fill,
+     * so consecutive fills add up to exactly `quoteAmount`
+     */
+    function _quoteAt(uint256 baseAmount, uint256 quoteAmount, uint256 filledBase)
+        internal
+        pure
+        returns (uint256)
+    {
+        if (filledBase == baseAmount) {
+            return quoteAmount;
+        }
+        return (filledBase * quoteAmount) / baseAmount;
+    }
+
+    /**
+     * @dev Internal function to match a pair of orders
+     * The orders match when the buy limit price (quote per base) is at or above
+     * the sell limit price. The side with less base remaining fills completely
+     * and the other side keeps the rest open. Execution happens at the price of
+     * the maker; any price improvement for the buyer is released back to their
+     * available balance. Orders from another market never match, and orders
+     * of the same trader are handled by self-trade prevention instead. The
+     * maker and taker fees are charged in quote on top of the execution price.
+     * @param marketId Market both orders must belong to
+     * @param buyOrderId Buy order ID
+     * @param sellOrderId Sell order ID
+     * @param sellIsMaker Whether the sell order is the maker
+     * @return success Whether the match was successful
+     */
+    function _matchOrderPair(
+        uint256 marketId,
+        uint256 buyOrderId,
+        uint256 sellOrderId,
+        bool sellIsMaker
+    ) internal returns (bool) {
+        address buyer;
+        address seller;
+        {
+            uint256 buyHeader = orders[buyOrderId];
+            uint256 sellHeader = orders[sellOrderId];
+
+            if (buyHeader == 0 || sellHeader == 0) {
+                return false;
+            }
+            if (
+                _headerMarket(buyHeader) != marketId ||
+                _headerMarket(sellHeader) != marketId
+            ) {
+                return false;
+            }
+
+            bool isBuyOrder;
+            bool isSellBuyOrder;
+            (buyer, isBuyOrder) = _unpackHeader(buyHeader);
+            (seller, isSellBuyOrder) = _unpackHeader(sellHeader);
+
+            // Validate order types
+            if (!isBuyOrder || isSellBuyOrder) {
+                return false;
+            }
+
+            // Expired orders never match
+            if (_isExpired(buyOrderId) || _isExpired(sellOrderId)) {
+                return false;
+            }
+        }
+
+        OrderAmounts storage buyAmounts = orderAmounts[buyOrderId];
+        OrderAmounts storage sellAmounts = orderAmounts[sellOrderId];
+
+        if (!_pricesCross(buyAmounts, sellAmounts)) {
+            return false;
+        }
+
+        if (buyer == seller) {
+            _preventSelfTrade(marketId, buyOrderId, sellOrderId, buyer, sellIsMaker);
+            return false;
+        }
+
+        // The smaller remaining side fills completely
+        Fill memory fill;
+        fill.base = buyAmounts.baseAmount < sellAmounts.baseAmount
+            ? buyAmounts.baseAmount
+            : sellAmounts.baseAmount;
+        {
+            fill.buyQuoteUsed = _fill(buyAmounts, fill.base);
+            uint256 sellQuoteDue = _fill(sellAmounts, fill.base);
+
+            // Execute at the maker's price, never above what the buyer released
+            fill.quote = fill.buyQuoteUsed;
+            if (sellIsMaker && sellQuoteDue < fill.buyQuoteUsed) {
+                fill.quote = sellQuoteDue;
+            }
+        }
+        _computeFees(fill, buyOrderId, sellOrderId, sellIsMaker);
+        _settle(marketId, buyer, seller, fill);
+
+        // Remove fully filled orders
+        if (buyAmounts.baseAmount == 0) {
+            orders[buyOrderId] = 0;
+            _removeFromBook(buyOrderId, marketId, buyer, true);
+        }
+        if (sellAmounts.baseAmount == 0) {
+            orders[sellOrderId] = 0;
+            _removeFromBook(sellOrderId, marketId, seller, false);
+        }
+
+        emit OrderMatched(
+            marketId,
+            buyOrderId,
+            sellOrderId,
+            fill.base,
+            fill.quote,
+            buyer,
+            seller,
+            fill.buyerFee,
+            fill.sellerFee
+        );
+
+        return true;
+    }
+
+    /**
+     * @dev Cancel one or both sides of a self-trade under `selfTradePolicy`
+     * The maker is the oldest order, the taker the newest
+     */
+    function _preventSelfTrade(
+        uint256 marketId,
+        uint256 buyOrderId,
+        uint256 sellOrderId,
+        address trader,
+        bool sellIsMaker
+    ) internal {
+        SelfTradePolicy policy = selfTradePolicy;
+        (uint256 newest, uint256 oldest) = sellIsMaker
+            ? (buyOrderId, sellOrderId)
+            : (sellOrderId, buyOrderId);
+
+        if (policy != SelfTradePolicy.CancelOldest) {
+            _removeOrder(newest, marketId, trader, sellIsMaker, "self-trade");
+            emit SelfTradePrevented(marketId, trader, newest, oldest, policy);
+        }
+        if (policy != SelfTradePolicy.CancelNewest) {
+            _removeOrder(oldest, marketId, trader, !sellIsMaker, "self-trade");
+            emit SelfTradePrevented(marketId, trader, oldest, newest, policy);
+        }
+    }
+
+    /**
+     * @dev Fill an incoming order against the head of the best opposite price
+     * level until it is filled, the book stops crossing or `maxFills` is hit.
+     * Expired resting orders met on the way are removed and count as a step,
+     * as do resting orders of the same trader cancelled by self-trade
+     * prevention.
+     * @return fills Number of successful matches
+     */
+    function _takeLiquidity(
+        uint256 orderId,
+        uint256 marketId,
+        bool isBuyOrder,
+        uint256 maxFills
+    ) internal returns (uint256 fills) {
+        Market storage market = markets[marketId];
+        uint256 steps = 0;
+        while (steps < maxFills && orders[orderId] != 0) {
+            uint256 price = isBuyOrder ? market.bestAsk : market.bestBid;
+            if (price == 0) {
+                break;
+            }
+
+            uint256 restingId = _levels(marketId, !isBuyOrder)[price].head;
+            steps++;
+
+            // Expired makers are cleared out of the way rather than filled
+            if (_expireIfDue(restingId)) {
+                continue;
+            }
+
+            // The resting order is always the maker
+            bool matched = isBuyOrder
+                ? _matchOrderPair(marketId, orderId, restingId, true)
+                : _matchOrderPair(marketId, restingId, orderId, false);
+
+            if (!matched) {
+                // Self-trade prevention took the resting order off the book
+                if (orders[restingId] == 0) {
+                    continue;
+                }
+                // The best level no longer crosses, so nothing behind it will either
+                break;
+            }
+            fills++;
+        }
+    }
+
+    /**
+     * @dev Work out the fees of a fill and the buyer's fee reserve it releases
+     * Call after both orders were filled by `fill.base`; the released reserve
+     * always covers the buyer's fee
+     */
+    function _computeFees(
+        Fill memory fill,
+        uint256 buyOrderId,
+        uint256 sellOrderId,
+        bool sellIsMaker
+    ) internal view {
+        uint256 buyFeeCap = _headerFeeCap(orders[buyOrderId]);
+        uint256 filledQuote = orderAmounts[buyOrderId].filledQuote;
+        fill.buyReserveReleased =
+            _feeReserve(filledQuote, buyFeeCap) -
+            _feeReserve(filledQuote - fill.buyQuoteUsed, buyFeeCap);
+
+        fill.buyerFee = _fee(
+            fill.quote,
+            sellIsMaker ? takerFeeBps : makerFeeBps,
+            buyFeeCap
+        );
+        fill.sellerFee = _fee(
+            fill.quote,
+            sellIsMaker ? makerFeeBps : takerFeeBps,
+            _headerFeeCap(orders[sellOrderId])
+        );
+    }
+
+    /**
+     * @dev Execute match: settle escrow (buyer's locked quote -> seller,
+     * seller's locked base -> buyer, price improvement and unused fee
+     * reserve -> buyer, fees -> accrued fees)
+     */
+    function _settle(
+        uint256 marketId,
+        address buyer,
+        address seller,
+        Fill memory fill
+    ) internal {
+        address baseToken = markets[marketId].baseToken;
+        address quoteToken = markets[marketId].quoteToken;
+        uint256 buyerReleased = fill.buyQuoteUsed + fill.buyReserveReleased;
+
+        lockedBalances[buyer][quoteToken] -= buyerReleased;
+        lockedBalances[seller][baseToken] -= fill.base;
+        availableBalances[seller][quoteToken] += fill.quote - fill.sellerFee;
+        availableBalances[buyer][baseToken] += fill.base;
+        if (buyerReleased > fill.quote + fill.buyerFee) {
+            availableBalances[buyer][quoteToken] +=
+                buyerReleased - fill.quote - fill.buyerFee;
+        }
+        feesAccrued[quoteToken].increment(fill.buyerFee + fill.sellerFee);
+    }
+
+    /**
+     * @dev Fee on `quoteAmount` at `rateBps`, limited to the order's fee cap
+     */
+    function _fee(uint256 quoteAmount, uint256 rateBps, uint256 feeCap)
+        internal
+        pure
+        returns (uint256)
+    {
+        return (quoteAmount * (rateBps < feeCap ? rateBps : feeCap)) / BPS;
+    }
+
+    /**
+     * @dev Higher of the current maker and taker rates; new orders store it
+     * as their fee cap
+     */
+    function _currentFeeCap() internal view returns (uint256) {
+        return makerFeeBps > takerFeeBps ? makerFeeBps : takerFeeBps;
+    }
+
+    /**
+     * @dev Quote still locked by an open buy order: its open quote plus the
+     * fee reserve of the part that has not been filled yet
+     */
+    function _buyEscrow(OrderAmounts storage amounts, uint256 feeCap)
+        internal
+        view
+        returns (uint256)
+    {
+        uint256 originalQuote = amounts.quoteAmount + amounts.filledQuote;
+        return
+            amounts.quoteAmount +
+            _feeReserve(originalQuote, feeCap) -
+            _feeReserve(amounts.filledQuote, feeCap);
+    }
+
+    /**
+     * @dev Quote a buy order keeps locked to pay its fees on `quoteAmount`
+     * of fills. Derived from cumulative amounts, so releasing it fill by
+     * fill adds up to exactly what was locked at placement.
+     */
+    function _feeReserve(uint256 quoteAmount, uint256 feeCap)
+        internal
+        pure
+        returns (uint256)
+    {
+        return (quoteAmount * feeCap) / BPS;
+    }
+
+    /**
+     * @dev Whether the buy limit price is at or above the sell limit price,
+     * compared on original sizes so rounding on partial fills cannot drift it
+     */
+    function _pricesCross(
+        OrderAmounts storage buyAmounts,
+        OrderAmounts storage sellAmounts
+    ) internal view returns (bool) {
+        uint256 buyBase = buyAmounts.baseAmount + buyAmounts.filledBase;
+        uint256 buyQuote = buyAmounts.quoteAmount + buyAmounts.filledQuote;
+        uint256 sellBase = sellAmounts.baseAmount + sellAmounts.filledBase;
+        uint256 sellQuote = sellAmounts.quoteAmount + sellAmounts.filledQuote;
+
+        return buyQuote * sellBase >= sellQuote * buyBase;
+    }
+
+    /**
+     * @dev Consume `fillBase` from an order and return the share of its quote
+     * that the fill uses up. The share is derived from cumulative fills so the
+     * last fill always consumes exactly what is left.
+     */
+    function _fill(OrderAmounts storage amounts, uint256 fillBase)
+        internal
+        returns (uint256 quoteUsed)
+    {
+        uint256 originalBase = amounts.baseAmount + amounts.filledBase;
+        uint256 originalQuote = amounts.quoteAmount + amounts.filledQuote;
+
+        uint256 filledBase = amounts.filledBase + fillBase;
+        uint256 filledQuote = filledBase == originalBase
+            ? originalQuote
+            : (filledBase * originalQuote) / originalBase;
+
+        quoteUsed = filledQuote - amounts.filledQuote;
+
+        amounts.baseAmount -= fillBase;
+        amounts.quoteAmount -= quoteUsed;
+        amounts.filledBase = filledBase;
+        amounts.filledQuote = filledQuote;
+    }
+
+    /**
+     * @dev Get order details
+     * `baseAmount`/`quoteAmount` are the original size; `filledBase` plus
+     * `remainingBase` always add up to `baseAmount`. `timestamp` is the
+     * placement block time and `expiresAt` is 0 for good-til-cancelled orders.
+     * The market of an order is available through `getOrderMarket`.
+     * @param orderId The order ID to query
+     */
+    function getOrder(uint256 orderId)
+        external
+        view
+        returns (
+            address trader,
+            uint256 baseAmount,
+            uint256 quoteAmount,
+            uint256 timestamp,
+            bool isBuyOrder,
+            bool exists,
+            uint256 filledBase,
+            uint256 remainingBase,
+            uint256 remainingQuote,
+            uint256 expiresAt
+        )
+    {
+        uint256 packedHeader = orders[orderId];
+        if (packedHeader == 0) {
+            return (address(0), 0, 0, 0, false, false, 0, 0, 0, 0);
+        }
+
+        (trader, isBuyOrder) = _unpackHeader(packedHeader);
+        OrderAmounts memory amounts = orderAmounts[orderId];
+        baseAmount = amounts.baseAmount + amounts.filledBase;
+        quoteAmount = amounts.quoteAmount + amounts.filledQuote;
+        OrderTimes memory times = orderTimes[orderId];
+        timestamp = times.placedAt;
+        expiresAt = times.expiresAt;
+        exists = true;
+        filledBase = amounts.filledBase;
+        remainingBase = amounts.baseAmount;
+        remainingQuote = amounts.quoteAmount;
+    }
+
+    /**
+     * @dev Get the market an order was placed in
+     * @param orderId The order ID to query
+     * @return Market ID, 0 if the order is not open
+     */
+    function getOrderMarket(uint256 orderId) external view returns (uint256) {
+        return _headerMarket(orders[orderId]);
+    }
+
+    /**
+     * @dev Get a market's pair and top of book
+     * @param marketId The market ID to query
+     * @return baseToken ERC-20 sold by sell orders
+     * @return quoteToken ERC-20 paid by buy orders
+     * @return bestBid Highest bid price level, 0 if there are no bids
+     * @return bestAsk Lowest ask price level, 0 if there are no asks
+     */
+    function getMarket(uint256 marketId)
+        external
+        view
+        returns (
+            address baseToken,
+            address quoteToken,
+            uint256 bestBid,
+            uint256 bestAsk
+        )
+    {
+        Market storage market = _market(marketId);
+        baseToken = market.baseToken;
+        quoteToken = market.quoteToken;
+        bestBid = market.bestBid;
+        bestAsk = market.bestAsk;
+    }
+
+    /**
+     * @dev Get one price level of a market's book
+     * @param marketId The market ID to query
+     * @param isBuyOrder Bid side (true) or ask side (false)
+     * @param price Level price, quote per base scaled by 1e18
+     * @return headOrderId Oldest resting order at this price, 0 if the level is empty
+     * @return tailOrderId Newest resting order at this price
+     * @return worsePrice Next price level behind this one, 0 if none
+     */
+    function getPriceLevel(uint256 marketId, bool isBuyOrder, uint256 price)
+        external
+        view
+        returns (uint256 headOrderId, uint256 tailOrderId, uint256 worsePrice)
+    {
+        PriceLevel storage level = _levels(marketId, isBuyOrder)[price];
+        headOrderId = level.head;
+        tailOrderId = level.tail;
+        worsePrice = level.worse;
+    }
+
+    /**
+     * @dev Whether a resting order is linked into its price level; in
+     * concurrent mode orders wait for `linkOrders` after placement
+     * @param orderId The order ID to query
+     * @return True if the order is queued at its price level
+     */
+    function isOrderLinked(uint256 orderId) external view returns (bool) {
+        return sideOpenPosition[orderId] != 0;
+    }
+
+    /**
+     * @dev Get the resting order queued behind `orderId` at its price level
+     * @param orderId The order ID to query
+     * @return Next order in time priority, 0 if it is the last one
+     */
+    function getNextOrderAtLevel(uint256 orderId)
+        external
+        view
+        returns (uint256)
+    {
+        return nextAtLevel[orderId];
+    }
+
+    /**
+     * @dev Page through a trader's open order IDs
+     * Removal reorders the list (swap-and-pop), so pages read across several
+     * blocks may skip or repeat IDs that changed in between
+     * @param trader The trader address
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return orderIds Open order IDs in this page
+     * @return total Number of open orders the trader has
+     */
+    function getTraderOpenOrders(
+        address trader,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory orderIds, uint256 total) {
+        return _page(traderOpenOrders[trader], offset, limit);
+    }
+
+    /**
+     * @dev Page through all open order IDs on one side of a market's book
+     * Same ordering caveat as `getTraderOpenOrders`
+     * @param marketId The market ID to query
+     * @param isBuyOrder Buy side (true) or sell side (false)
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return orderIds Open order IDs in this page
+     * @return total Number of open orders on that side
+     */
+    function getOpenOrders(
+        uint256 marketId,
+        bool isBuyOrder,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory orderIds, uint256 total) {
+        return _page(_openOrders(marketId, isBuyOrder), offset, limit);
+    }
+
+    /**
+     * @dev Get trader statistics
+     * @param trader The trader address
+     * @param marketId Market whose base/quote balances to report
+     */
+    function getTraderStats(address trader, uint256 marketId)
+        external
+        view
+        returns (uint256 orderCount, uint256 baseBalance, uint256 quoteBalance)
+    {
+        Market storage market = _market(marketId);
+        orderCount = traderOrderCounts[trader];
+        baseBalance = availableBalances[trader][market.baseToken];
+        quoteBalance = availableBalances[trader][market.quoteToken];
+    }
+
+    /**
+     * @dev Get a trader's escrowed balance of one token
+     * @param trader The trader address
+     * @param token Any token listed by a market
+     */
+    function getBalance(address trader, address token)
+        external
+        view
+        returns (uint256 available, uint256 locked)
+    {
+        available = availableBalances[trader][token];
+        locked = lockedBalances[trader][token];
+    }
+
+    /**
+     * @dev Get order book statistics for one market
+     * Totals across all markets are in `totalOrdersPlaced`,
+     * `totalOrdersMatched` and `totalOrdersCancelled`
+     * @param marketId The market ID to query
+     */
+    function getOrderBookStats(uint256 marketId)
+        external
+        view
+        returns (
+            uint256 placed,
+            uint256 matched,
+            uint256 cancelled
+        )
+    {
+        Market storage market = _market(marketId);
+        placed = market.ordersPlaced.current();
+        matched = market.ordersMatched.current();
+        cancelled = market.ordersCancelled.current();
+    }
+
+    /**
+     * @dev Orders placed across all markets
+     */
+    function totalOrdersPlaced() external view returns (uint256) {
+        return ordersPlaced.current();
+    }
+
+    /**
+     * @dev Successful matches across all markets
+     */
+    function totalOrdersMatched() external view returns (uint256) {
+        return ordersMatched.current();
+    }
+
+    /**
+     * @dev Orders cancelled or expired across all markets
+     */
+    function totalOrdersCancelled() external view returns (uint256) {
+        return ordersCancelled.current();
+    }
+
+    // ========== Internal Order Lifecycle Functions ==========
+
+    /**
+     * @dev Cancel `orderId` for `trader`
+     * @return cancelled False if the order is not open; reverts if it belongs
+     * to someone else
+     */
+    function _cancelFor(address trader, uint256 orderId) internal returns (bool) {
+        uint256 packedHeader = orders[orderId];
+        if (packedHeader == 0) {
+            return false;
+        }
+
+        (address orderTrader, bool isBuyOrder) = _unpackHeader(packedHeader);
+        if (orderTrader != trader) {
+            revert UnauthorizedCancellation();
+        }
+
+        _removeOrder(
+            orderId,
+            _headerMarket(packedHeader),
+            trader,
+            isBuyOrder,
+            "User cancelled"
+        );
+        return true;
+    }
+
+    function _cancelAllFor(address trader, uint256[] calldata orderIds)
+        internal
+        returns (uint256 cancelled)
+    {
+        for (uint256 i = 0; i < orderIds.length; i++) {
+            if (_cancelFor(trader, orderIds[i])) {
+                cancelled++;
+            }
+        }
+    }
+
+    /**
+     * @dev Take an open order off the book, release its remaining escrow and
+     * count it as cancelled
+     */
+    function _removeOrder(
+        uint256 orderId,
+        uint256 marketId,
+        address trader,
+        bool isBuyOrder,
+        string memory reason
+    ) internal {
+        Market storage market = markets[marketId];
+        uint256 feeCap = _headerFeeCap(orders[orderId]);
+
+        // Remove order
+        orders[orderId] = 0;
+        _removeFromBook(orderId, marketId, trader, isBuyOrder);
+
+        // Release escrow, including the fee reserve of the unfilled part
+        if (isBuyOrder) {
+            _unlock(trader, market.quoteToken, _buyEscrow(orderAmounts[orderId], feeCap));
+        } else {
+            _unlock(trader, market.baseToken, orderAmounts[orderId].baseAmount);
+        }
+        ordersCancelled.increment(1);
+        market.ordersCancelled.increment(1);
+
+        emit OrderCancelled(orderId, marketId, trader, reason);
+    }
+
+    function _isExpired(uint256 orderId) internal view returns (bool) {
+        uint64 expiresAt = orderTimes[orderId].expiresAt;
+        return expiresAt != 0 && expiresAt <= block.timestamp;
+    }
+
+    /**
+     * @dev Remove an open order if it has expired
+     * @return expired Whether the order was removed
+     */
+    function _expireIfDue(uint256 orderId) internal returns (bool) {
+        uint256 packedHeader = orders[orderId];
+        if (packedHeader == 0 || !_isExpired(orderId)) {
+            return false;
+        }
+
+        (address trader, bool isBuyOrder) = _unpackHeader(packedHeader);
+        _removeOrder(
+            orderId,
+            _headerMarket(packedHeader),
+            trader,
+            isBuyOrder,
+            "expired"
+        );
+        return true;
+    }
+
+    /**
+     * @dev Allocate an order ID
+     * Concurrent: [traderNonce(96)|trader(160)], unique per trader and built
+     * only from the trader's own nonce. Otherwise a global sequence 1, 2, 3...
+     */
+    function _nextOrderId(address trader) internal returns (uint256) {
+        uint256 nonce = ++traderOrderCounts[trader];
+        if (concurrent) {
+            return (nonce << 160) | uint160(trader);
+        }
+        return ++orderIdCounter;
+    }
+
+    /**
+     * @dev Whether order `a` was placed before order `b`
+     * Placement time decides; orders from the same second fall back to the
+     * lower ID, which is the earlier one whenever IDs are sequential
+     */
+    function _placedBefore(uint256 a, uint256 b) internal view returns (bool) {
+        uint64 placedA = orderTimes[a].placedAt;
+        uint64 placedB = orderTimes[b].placedAt;
+        if (placedA != placedB) {
+            return placedA < placedB;
+        }
+        return a < b;
+    }
+
+    // ========== Internal Book Functions ==========
+
+    /**
+     * @dev Load a listed market, reverting for unknown IDs
+     */
+    function _market(uint256 marketId) internal view returns (Market storage market) {
+        market = markets[marketId];
+        if (market.baseToken == address(0)) {
+            revert MarketNotFound();
+        }
+    }
+
+    /**
+     * @dev Price level key of an order: quote per base scaled by PRICE_SCALE
+     */
+    function _priceKey(uint256 baseAmount, uint256 quoteAmount)
+        internal
+        pure
+        returns (uint256)
+    {
+        return (quoteAmount * PRICE_SCALE) / baseAmount;
+    }
+
+    function _levels(uint256 marketId, bool isBuyOrder)
+        internal
+        view
+        returns (mapping(uint256 => PriceLevel) storage)
+    {
+        return isBuyOrder ? bidLevels[marketId] : askLevels[marketId];
+    }
+
+    function _openOrders(uint256 marketId, bool isBuyOrder)
+        internal
+        view
+        returns (uint256[] storage)
+    {
+        return isBuyOrder ? openBuyOrders[marketId] : openSellOrders[marketId];
+    }
+
+    /**
+     * @dev Whether price `a` ranks ahead of price `b` on the given side
+     */
+    function _isBetterPrice(bool isBuyOrder, uint256 a, uint256 b)
+        internal
+        pure
+        returns (bool)
+    {
+        return isBuyOrder ? a > b : a < b;
+    }
+
+    /**
+     * @dev Record a resting order's price and list it as open for its trader;
+     * outside concurrent mode also link it into its price level right away
+     */
+    function _insertIntoBook(
+        uint256 orderId,
+        uint256 marketId,
+        address trader,
+        bool isBuyOrder,
+        uint256 price,
+        uint256 levelHint
+    ) internal {
+        orderPriceLevel[orderId] = price;
+        _addToIndex(traderOpenOrders[trader], traderOpenPosition, orderId);
+
+        if (!concurrent) {
+            _linkIntoLevel(orderId, marketId, isBuyOrder, price, levelHint);
+        }
+    }
+
+    /**
+     * @dev Append an order to the tail of its price level, creating the
+     * level in sorted position if needed, and list it on its side
+     */
+    function _linkIntoLevel(
+        uint256 orderId,
+        uint256 marketId,
+        bool isBuyOrder,
+        uint256 price,
+        uint256 levelHint
+    ) internal {
+        PriceLevel storage level = _levels(marketId, isBuyOrder)[price];
+
+        if (level.head == 0) {
+            _insertLevel(marketId, isBuyOrder, price, levelHint);
+            level.head = orderId;
+        } else {
+            prevAtLevel[orderId] = level.tail;
+            nextAtLevel[level.tail] = orderId;
+        }
+        level.tail = orderId;
+
+        _addToIndex(
+            _openOrders(marketId, isBuyOrder),
+            sideOpenPosition,
+            orderId
+        );
+    }
+
+    /**
+     * @dev Link a new, empty price level between its better and worse
+     * neighbours, searching from `levelHint` when it is a live level better
+     * than `price` and from the best price otherwise
+     */
+    function _insertLevel(
+        uint256 marketId,
+        bool isBuyOrder,
+        uint256 price,
+        uint256 levelHint
+    ) internal {
+        mapping(uint256 => PriceLevel) storage levels = _levels(marketId, isBuyOrder);
+        Market storage market = markets[marketId];
+
+        uint256 better = 0;
+        uint256 worse = isBuyOrder ? market.bestBid : market.bestAsk;
+        if (
+            levelHint != 0 &&
+            levels[levelHint].head != 0 &&
+            _isBetterPrice(isBuyOrder, levelHint, price)
+        ) {
+            better = levelHint;
+            worse = levels[levelHint].worse;
+        }
+
+        uint256 steps = 0;
+        while (worse != 0 && !_isBetterPrice(isBuyOrder, price, worse)) {
+            if (++steps > MAX_LEVEL_WALK) {
+                revert PriceLevelTooDeep();
+            }
+            better = worse;
+            worse = levels[worse].worse;
+        }
+
+        levels[price].better = better;
+        levels[price].worse = worse;
+
+        if (worse != 0) {
+            levels[worse].better = price;
+        }
+        if (better != 0) {
+            levels[better].worse = price;
+        } else if (isBuyOrder) {
+            market.bestBid = price;
+        } else {
+            market.bestAsk = price;
+        }
+    }
+
+    /**
+     * @dev Unlink an order from its price level and the open order lists;
+     * no-op for orders not on the book
+     */
+    function _removeFromBook(
+        uint256 orderId,
+        uint256 marketId,
+        address trader,
+        bool isBuyOrder
+    ) internal {
+        uint256 price = orderPriceLevel[orderId];
+        if (price == 0) {
+            return;
+        }
+
+        _removeFromIndex(traderOpenOrders[trader], traderOpenPosition, orderId);
+        delete orderPriceLevel[orderId];
+
+        // Not yet linked by `linkOrders`
+        if (sideOpenPosition[orderId] == 0) {
+            return;
+        }
+        _removeFromIndex(
+            _openOrders(marketId, isBuyOrder),
+            sideOpenPosition,
+            orderId
+        );
+
+        PriceLevel storage level = _levels(marketId, isBuyOrder)[price];
+        uint256 prev = prevAtLevel[orderId];
+        uint256 next = nextAtLevel[orderId];
+
+        if (prev != 0) {
+            nextAtLevel[prev] = next;
+        } else {
+            level.head = next;
+        }
+        if (next != 0) {
+            prevAtLevel[next] = prev;
+        } else {
+            level.tail = prev;
+        }
+
+        delete prevAtLevel[orderId];
+        delete nextAtLevel[orderId];
+
+        if (level.head == 0) {
+            _removeLevel(marketId, isBuyOrder, price);
+        }
+    }
+
+    /**
+     * @dev Unlink an empty price level from its neighbours
+     */
+    function _removeLevel(uint256 marketId, bool isBuyOrder, uint256 price)
+        internal
+    {
+        mapping(uint256 => PriceLevel) storage levels = _levels(marketId, isBuyOrder);
+        PriceLevel storage level = levels[price];
+
+        if (level.better != 0) {
+            levels[level.better].worse = level.worse;
+        } else if (isBuyOrder) {
+            markets[marketId].bestBid = level.worse;
+        } else {
+            markets[marketId].bestAsk = level.worse;
+        }
+        if (level.worse != 0) {
+            levels[level.worse].better = level.better;
+        }
+
+        delete levels[price];
+    }
+
+    // ========== Internal Index Functions ==========
+
+    function _addToIndex(
+        uint256[] storage list,
+        mapping(uint256 => uint256) storage positions,
+        uint256 orderId
+    ) internal {
+        list.push(orderId);
+        positions[orderId] = list.length;
+    }
+
+    /**
+     * @dev Swap-and-pop removal; the last entry takes the removed one's slot
+     */
+    function _removeFromIndex(
+        uint256[] storage list,
+        mapping(uint256 => uint256) storage positions,
+        uint256 orderId
+    ) internal {
+        uint256 position = positions[orderId];
+        if (position == 0) {
+            return;
+        }
+
+        uint256 lastId = list[list.length - 1];
+        list[position - 1] = lastId;
+        positions[lastId] = position;
+        list.pop();
+        delete positions[orderId];
+    }
+
+    /**
+     * @dev Copy `list[offset .. offset + limit)` clamped to the list length
+     */
+    function _page(uint256[] storage list, uint256 offset, uint256 limit)
+        internal
+        view
+        returns (uint256[] memory page, uint256 total)
+    {
+        total = list.length;
+        if (offset >= total) {
+            return (new uint256[](0), total);
+        }
+
+        uint256 end = offset + limit;
+        if (end > total) {
+            end = total;
+        }
+
+        page = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = list[i];
+        }
+    }
+
+    // ========== Internal Escrow Functions ==========
+
+    /**
+     * @dev Move funds from available to locked, reverting if not enough is available
+     */
+    function _lock(address trader, address token, uint256 amount) internal {
+        uint256 available = availableBalances[trader][token];
+        if (available < amount) {
+            revert InsufficientBalance();
+        }
+        availableBalances[trader][token] = available - amount;
+        lockedBalances[trader][token] += amount;
+    }
+
+    /**
+     * @dev Move funds from locked back to available
+     */
+    function _unlock(address trader, address token, uint256 amount) internal {
+        lockedBalances[trader][token] -= amount;
+        availableBalances[trader][token] += amount;
+    }
+
+    function _requireRole(bytes32 role) internal view {
+        if (!roles[role][msg.sender]) {
+            revert MissingRole(role, msg.sender);
+        }
+    }
+
+    function _requireNotPaused() internal view {
+        if (paused) {
+            revert ContractPaused();
+        }
+    }
+
+    /**
+     * @dev Pause check for matching, plus the allowlist when it is enabled
+     */
+    function _requireMatcher() internal view {
+        _requireNotPaused();
+        if (matcherAllowlistEnabled) {
+            _requireRole(MATCHER_ROLE);
+        }
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (!roles[role][account]) {
+            roles[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    function _requireListedToken(address token) internal view {
+        if (!isListedToken[token]) {
+            revert InvalidToken();
+        }
+    }
+
+    /**
+     * @dev ERC-20 transfer that tolerates tokens without a bool return value
+     */
+    function _safeTransfer(address token, address to, uint256 amount) internal {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeCall(IERC20.transfer, (to, amount))
+        );
+        if (!_transferSucceeded(token, success, data)) {
+            revert TokenTransferFailed();
+        }
+    }
+
+    /**
+     * @dev ERC-20 transferFrom that tolerates tokens without a bool return value
+     */
+    function _safeTransferFrom(
+        address token,
+        address from,
+        address to,
+        uint256 amount
+    ) internal {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeCall(IERC20.transferFrom, (from, to, amount))
+        );
+        if (!_transferSucceeded(token, success, data)) {
+            revert TokenTransferFailed();
+        }
+    }
+
+    /**
+     * @dev A call succeeded if it did not revert and either returned `true` or
+     * returned nothing from an address that actually holds code
+     */
+    function _transferSucceeded(
+        address token,
+        bool success,
+        bytes memory data
+    ) internal view returns (bool) {
+        if (!success) {
+            return false;
+        }
+        if (data.length == 0) {
+            return token.code.length > 0;
+        }
+        return abi.decode(data, (bool));
+    }
+
+    // ========== Internal Packing/Unpacking Functions ==========
+
+    /**
+     * @dev Pack trader, isBuyOrder, marketId and fee cap into uint256
+     * Layout: [feeCap(16)|marketId(64)|isBuyOrder(1)|trader(160)] = 241 bits
+     */
+    function _packHeader(
+        address trader,
+        bool isBuyOrder,
+        uint256 marketId,
+        uint256 feeCap
+    ) internal pure returns (uint256) {
+        uint256 packed = uint256(uint160(trader));
+        if (isBuyOrder) {
+            packed = packed | (uint256(1) << 160);
+        }
+        packed = packed | (uint256(uint64(marketId)) << 161);
+        packed = packed | (uint256(uint16(feeCap)) << 225);
+        return packed;
+    }
+
+    /**
+     * @dev Unpack trader and isBuyOrder from uint256
+     */
+    function _unpackHeader(uint256 packed)
         internal
         pure
         returns (address trader, bool isBuyOrder)
@@ -337,4 +2614,18 @@ contract ParallelOrderBook {
         trader = address(uint160(packed));
         isBuyOrder = ((packed >> 160) & 1) == 1;
     }
+
+    /**
+     * @dev Unpack marketId from uint256
+     */
+    function _headerMarket(uint256 packed) internal pure returns (uint256) {
+        return uint64(packed >> 161);
+    }
+
+    /**
+     * @dev Unpack the fee cap (basis points) from uint256
+     */
+    function _headerFeeCap(uint256 packed) internal pure returns (uint256) {
+        return packed >> 225;
+    }
 }
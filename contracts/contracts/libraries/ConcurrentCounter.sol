@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@arcologynetwork/concurrentlib/lib/commutative/U256Cum.sol";
+
+/**
+ * @dev Read-only view of U256Cumulative; its `get` is not declared view but
+ * does not write, so it can be reached through a static call
+ */
+interface ICumulativeReader {
+    function get() external view returns (uint256);
+}
+
+/**
+ * @title ConcurrentCounter
+ * @dev Monotonic counter that is conflict-free under Arcology's parallel execution
+ *
+ * When backed by a U256Cumulative, increments are commutative deltas that
+ * Arcology merges after a parallel generation instead of treating them as
+ * read-modify-write conflicts. Without a backing container (Hardhat or any
+ * other EVM, where the Arcology precompiles do not exist) the counter falls
+ * back to a plain storage slot.
+ */
+library ConcurrentCounter {
+    struct Counter {
+        U256Cumulative cumulative;
+        uint256 value;
+    }
+
+    /**
+     * @dev Back the counter with a fresh U256Cumulative (Arcology only)
+     */
+    function makeConcurrent(Counter storage counter) internal {
+        counter.cumulative = new U256Cumulative(0, type(uint256).max);
+    }
+
+    function isConcurrent(Counter storage counter) internal view returns (bool) {
+        return address(counter.cumulative) != address(0);
+    }
+
+    function increment(Counter storage counter, uint256 amount) internal {
+        if (amount == 0) {
+            return;
+        }
+        if (isConcurrent(counter)) {
+            counter.cumulative.add(amount);
+        } else {
+            counter.value += amount;
+        }
+    }
+
+    function current(Counter storage counter) internal view returns (uint256) {
+        if (isConcurrent(counter)) {
+            return ICumulativeReader(address(counter.cumulative)).get();
+        }
+        return counter.value;
+    }
+}
@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title TypedSignatures
+ * @dev Minimal EIP-712 hashing and ECDSA recovery for signed requests
+ *
+ * Only 65-byte signatures (r, s, v) with a low `s` value are accepted, so a
+ * signature cannot be replayed in its malleated form.
+ */
+library TypedSignatures {
+    bytes32 internal constant DOMAIN_TYPEHASH =
+        keccak256(
+            "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+        );
+
+    /// @dev secp256k1n / 2
+    uint256 private constant MAX_S =
+        0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    /**
+     * @dev Domain separator for `verifyingContract` on the current chain
+     */
+    function domainSeparator(
+        string memory name,
+        string memory version,
+        address verifyingContract
+    ) internal view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    DOMAIN_TYPEHASH,
+                    keccak256(bytes(name)),
+                    keccak256(bytes(version)),
+                    block.chainid,
+                    verifyingContract
+                )
+            );
+    }
+
+    /**
+     * @dev Digest a signer signs for `structHash` under `separator`
+     */
+    function digest(bytes32 separator, bytes32 structHash)
+        internal
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encodePacked("\x19\x01", separator, structHash));
+    }
+
+    /**
+     * @dev Signer of `hash`, or the zero address if the signature is invalid
+     */
+    function recover(bytes32 hash, bytes calldata signature)
+        internal
+        pure
+        returns (address)
+    {
+        if (signature.length != 65) {
+            return address(0);
+        }
+
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > MAX_S || (v != 27 && v != 28)) {
+            return address(0);
+        }
+
+        return ecrecover(hash, v, r, s);
+    }
+}
@@ -3,12 +3,28 @@ import type { HardhatUserConfig } from "hardhat/config";
 import hardhatToolboxViemPlugin from "@nomicfoundation/hardhat-toolbox-viem";
 import { configVariable } from "hardhat/config";
 
+import { parallelLedgerTasks } from "./scripts/cli/tasks.js";
+
 const config: HardhatUserConfig = {
   plugins: [hardhatToolboxViemPlugin],
+  tasks: parallelLedgerTasks,
   solidity: {
     profiles: {
+      // ParallelOrderBook is over the 24 KiB code size limit unoptimized.
+      // storageLayout labels traced slots (scripts/lib/storage-layout.ts)
       default: {
         version: "0.8.28",
+        settings: {
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+          outputSelection: {
+            "*": {
+              "*": ["storageLayout"],
+            },
+          },
+        },
       },
       production: {
         version: "0.8.28",
@@ -17,6 +33,11 @@ const config: HardhatUserConfig = {
             enabled: true,
             runs: 200,
           },
+          outputSelection: {
+            "*": {
+              "*": ["storageLayout"],
+            },
+          },
         },
       },
     },
@@ -0,0 +1,101 @@
+import hre from "hardhat";
+import { getAddress, type Address } from "viem";
+
+import { parseRole } from "./lib/admin.js";
+import { OrderBookClient } from "./lib/client.js";
+import { resolveOrderBookAddress } from "./lib/deployments.js";
+
+/**
+ * Access Control Admin for ParallelOrderBook
+ *
+ * Grants and revokes roles (admin, operator, matcher), pauses and unpauses
+ * placement and matching, and switches the matcher allowlist. Transactions
+ * are sent from the first configured account, which must hold the admin role
+ * (operator role for pause/unpause).
+ *
+ * ADMIN_ACTION picks the command:
+ *   status                     Pause/allowlist flags and roles of ACCOUNT (or the sender)
+ *   grant | revoke             Give or take ROLE from ACCOUNT
+ *   pause | unpause            Halt or resume placement and matching
+ *   allowlist-on | allowlist-off  Restrict matching to matchers or open it up
+ *
+ * The contract address comes from ORDER_BOOK_ADDRESS or the latest record in
+ * deployments/ for the selected network.
+ *
+ * Usage:
+ * ADMIN_ACTION=grant ROLE=matcher ACCOUNT=0x... npx hardhat run scripts/admin.ts --network arcologyDevNet
+ * ADMIN_ACTION=pause npx hardhat run scripts/admin.ts --network arcologyDevNet
+ */
+
+function requireAccount(): Address {
+  if (!process.env.ACCOUNT) {
+    throw new Error("ACCOUNT must be set to the address to grant or revoke");
+  }
+  return getAddress(process.env.ACCOUNT);
+}
+
+function requireRole() {
+  if (!process.env.ROLE) {
+    throw new Error("ROLE must be set to admin, operator or matcher");
+  }
+  return parseRole(process.env.ROLE);
+}
+
+async function main() {
+  console.log("🔐 ParallelOrderBook Access Control\n");
+  console.log("=".repeat(60));
+
+  const connection = await hre.network.connect();
+  const { viem } = connection;
+  const [sender] = await viem.getWalletClients();
+
+  const contractAddress = resolveOrderBookAddress(connection.networkName);
+  const orderBook = await OrderBookClient.at(viem, contractAddress, sender);
+  console.log(`📍 Order book: ${contractAddress} (${connection.networkName})`);
+  console.log(`👤 Sender: ${sender.account.address}\n`);
+
+  const action = process.env.ADMIN_ACTION ?? "status";
+  let hash: string | undefined;
+
+  switch (action) {
+    case "status":
+      break;
+    case "grant":
+      hash = await orderBook.grantRole(requireRole(), requireAccount());
+      break;
+    case "revoke":
+      hash = await orderBook.revokeRole(requireRole(), requireAccount());
+      break;
+    case "pause":
+    case "unpause":
+      hash = await orderBook.setPaused(action === "pause");
+      break;
+    case "allowlist-on":
+    case "allowlist-off":
+      hash = await orderBook.setMatcherAllowlist(action === "allowlist-on");
+      break;
+    default:
+      throw new Error(
+        `Unknown ADMIN_ACTION "${action}", expected status, grant, revoke, pause, unpause, allowlist-on or allowlist-off`
+      );
+  }
+  if (hash) {
+    console.log(`✅ ${action} confirmed in ${hash}\n`);
+  }
+
+  const account = process.env.ACCOUNT ? getAddress(process.env.ACCOUNT) : sender.account.address;
+  const state = await orderBook.getAccessState([account]);
+  console.log(`⏸️  Paused: ${state.paused}`);
+  console.log(`📋 Matcher allowlist: ${state.matcherAllowlistEnabled ? "enabled" : "disabled"}`);
+  for (const entry of state.accounts) {
+    console.log(`🎫 ${entry.account}: ${entry.roles.join(", ") || "no roles"}`);
+  }
+  console.log("\n" + "=".repeat(60) + "\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Admin command failed:", error);
+    process.exit(1);
+  });
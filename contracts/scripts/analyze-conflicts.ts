@@ -0,0 +1,267 @@
+import hre from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { formatUnits, getAddress, parseEventLogs, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { OrderBookClient } from "./lib/client.js";
+import { analyzeConflicts, executeAndTrace, type ConflictReport } from "./lib/conflicts.js";
+import { approveAndDeposit } from "./lib/escrow.js";
+import {
+  loadStorageLayout,
+  readCounterAddresses,
+  slotKeys,
+  SlotLabeler,
+} from "./lib/storage-layout.js";
+import {
+  generateOrderPlacementTransactions,
+  loadGeneratedTransactions,
+  TEST_PRIVATE_KEYS,
+  type ContentionMode,
+} from "./lib/txgen.js";
+import { generateScenarioTransactions, loadScenario } from "./lib/workload.js";
+
+/**
+ * Storage Conflict Analyzer for ParallelOrderBook
+ *
+ * Deploys a fresh book on the local EDR network, funds the benchmark test
+ * accounts, generates a workload and runs it batch by batch. Every
+ * transaction's storage reads and writes are traced (see
+ * scripts/lib/conflicts.ts); per batch the report shows how many pairs
+ * conflict, on which variables, the largest conflict-free subset and the
+ * theoretical speedup of running the batch in conflict-free rounds.
+ *
+ * The workload is the generator's uniform placements (TRANSACTIONS, default
+ * 200, in batches of BATCH_SIZE, default 50, with CONTENTION as in
+ * gen-tx-parallel-orderbook.ts) or SCENARIO=benchmark/scenarios/....json.
+ * MARKETS sets how many markets the book gets (default 2).
+ *
+ * Both counter modes are analyzed unless CONCURRENT=true or false picks one.
+ * U256Cumulative counters are treated as commutative; their precompiles do
+ * not exist on EDR, so in concurrent mode only the access pattern counts.
+ *
+ * Usage:
+ * npx hardhat run scripts/analyze-conflicts.ts
+ */
+
+const UNIT = 10n ** 18n;
+const FUNDING = 1_000_000n * UNIT;
+const TOP_PAIRS = 5;
+
+async function main() {
+  console.log("🔬 ParallelOrderBook Storage Conflict Analysis\n");
+  console.log("=".repeat(70));
+
+  const { viem, networkHelpers, networkName } = await hre.network.connect();
+  if (networkName !== "hardhat" && networkName !== "default") {
+    throw new Error(`Tracing needs the local EDR network, not ${networkName}`);
+  }
+  const publicClient = await viem.getPublicClient();
+
+  const marketCount = Number(process.env.MARKETS ?? 2);
+  const modes =
+    process.env.CONCURRENT === undefined ? [false, true] : [process.env.CONCURRENT === "true"];
+  const scenario = process.env.SCENARIO ? await loadScenario(process.env.SCENARIO) : undefined;
+
+  const bookLayout = await loadStorageLayout(hre.artifacts, "ParallelOrderBook");
+  const tokenLayout = await loadStorageLayout(hre.artifacts, "MockERC20");
+  const accounts = TEST_PRIVATE_KEYS.map((key) => privateKeyToAccount(key));
+
+  for (const concurrent of modes) {
+    const mode = concurrent ? "concurrent (Arcology)" : "plain storage (fallback)";
+    console.log(`\n📦 Counter mode: ${mode}`);
+    console.log("─".repeat(70));
+
+    const quoteToken = await viem.deployContract("MockERC20", ["Quote", "QUOTE", 18]);
+    const baseTokens = [];
+    const orderBook = await OrderBookClient.deploy(viem, concurrent);
+    const marketIds: bigint[] = [];
+    for (let i = 0; i < marketCount; i++) {
+      const baseToken = await viem.deployContract("MockERC20", [`Base ${i + 1}`, `BASE${i + 1}`, 18]);
+      baseTokens.push(baseToken);
+      marketIds.push((await orderBook.createMarket(baseToken.address, quoteToken.address)).marketId);
+    }
+
+    console.log(`   Funding ${accounts.length} test accounts...`);
+    for (const account of accounts) {
+      await networkHelpers.setBalance(account.address, 10n ** 20n);
+      for (const token of [quoteToken, ...baseTokens]) {
+        await token.write.mint([account.address, FUNDING]);
+        await approveAndDeposit(publicClient, orderBook.contract, token, { account }, FUNDING);
+      }
+    }
+
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "orderbook-conflicts-"));
+    try {
+      const target = { abi: orderBook.abi, contractAddress: orderBook.address, network: networkName };
+      const ids = marketIds.map(String);
+      if (scenario) {
+        console.log(`   Scenario "${scenario.name}": ${scenario.transactions} transactions`);
+        await generateScenarioTransactions(scenario, { outputDir, marketIds: ids }, target, publicClient);
+      } else {
+        const contention = (process.env.CONTENTION ?? "cross-market") as ContentionMode;
+        const totalTransactions = Number(process.env.TRANSACTIONS ?? 200);
+        console.log(`   Uniform placements: ${totalTransactions} transactions (${contention})`);
+        await generateOrderPlacementTransactions(
+          {
+            totalTransactions,
+            batchSize: Number(process.env.BATCH_SIZE ?? 50),
+            baseAmount: 1000000,
+            quoteAmount: 2000000,
+            mixBuySell: true,
+            outputDir,
+            marketIds: ids,
+            contention,
+          },
+          target,
+          publicClient
+        );
+      }
+
+      const { batches } = await loadGeneratedTransactions(outputDir);
+      const traced = [];
+      for (const batch of batches) {
+        traced.push(
+          await executeAndTrace(
+            publicClient,
+            batch.transactions.map((tx) => tx.rawTx as Hex)
+          )
+        );
+        console.log(`   ⏳ Batch ${batch.batchId + 1}/${batches.length} executed and traced`);
+      }
+
+      const names = new Map(accounts.map((account, i) => [getAddress(account.address), `trader${i}`]));
+      const contracts: Record<string, Address> = {
+        book: orderBook.address,
+        quote: quoteToken.address,
+        ...Object.fromEntries(baseTokens.map((token, i) => [`base${i + 1}`, token.address])),
+      };
+      const addresses = {
+        ...contracts,
+        ...Object.fromEntries([...names].map(([address, name]) => [name, address])),
+      };
+      const contractNames = new Map(
+        Object.entries(contracts).map(([name, address]) => [getAddress(address), name])
+      );
+
+      // Price level of every order, for orders cancelled or matched in a
+      // later batch than the one that placed them
+      const priceOf = new Map<bigint, bigint>();
+      const events = traced.map((transactions) =>
+        parseEventLogs({ abi: orderBook.abi, logs: transactions.flatMap((tx) => tx.receipt.logs) })
+      );
+      for (const event of events.flat()) {
+        if (event.eventName === "OrderPlaced") {
+          const { orderId, baseAmount, quoteAmount } = event.args;
+          priceOf.set(orderId, (quoteAmount * UNIT) / baseAmount);
+        }
+      }
+
+      // Labelling nests every numeric key under every other, so each batch
+      // only gets the markets, orders and price levels it touched
+      const labelsFor = (batchEvents: typeof events[number]) => {
+        const candidates = new Map<bigint, Set<string>>();
+        const addNumber = (label: string, value: bigint) =>
+          candidates.set(value, (candidates.get(value) ?? new Set()).add(label));
+        marketIds.forEach((id) => addNumber(`m${id}`, id));
+        for (const event of batchEvents) {
+          const args = event.args as Record<string, unknown>;
+          for (const orderId of [args.orderId, args.buyOrderId, args.sellOrderId]) {
+            if (typeof orderId !== "bigint") continue;
+            const trader = names.get(
+              getAddress(`0x${(orderId & ((1n << 160n) - 1n)).toString(16).padStart(40, "0")}`)
+            );
+            addNumber(concurrent ? `#${orderId >> 160n}:${trader}` : `#${orderId}`, orderId);
+            const price = priceOf.get(orderId);
+            if (price !== undefined) {
+              addNumber(`@${formatUnits(price, 18)}`, price);
+            }
+          }
+        }
+
+        // A value that could be a market ID as well as an order ID is shown as is
+        const numbers: Record<string, bigint> = {};
+        for (const [value, labels] of candidates) {
+          numbers[labels.size === 1 ? [...labels][0] : value.toString()] = value;
+        }
+        const keys = slotKeys(addresses, numbers);
+        return { book: new SlotLabeler(bookLayout, keys), token: new SlotLabeler(tokenLayout, keys) };
+      };
+
+      const counters = await readCounterAddresses(
+        publicClient,
+        orderBook.address,
+        bookLayout,
+        labelsFor([]).book,
+        BigInt(marketCount)
+      );
+      const reports = traced.map((transactions, i) => {
+        const labels = labelsFor(events[i]);
+        const label = (address: Address, slot: Hex) => {
+          const contract = contractNames.get(address);
+          if (contract === "book") return labels.book.label(slot);
+          return `${contract ?? address}.${labels.token.label(slot)}`;
+        };
+        return analyzeConflicts(transactions, { label, commutative: new Set(counters.keys()) });
+      });
+
+      reports.forEach((report, i) => printBatch(i, report));
+
+      console.log(`\n📊 Summary (${mode}):`);
+      console.table(
+        reports.map((report, i) => ({
+          batch: i + 1,
+          transactions: report.transactions,
+          reverted: report.reverted,
+          conflictingPairs: report.edges.length,
+          independent: report.independent,
+          largestConflictFree: report.largestConflictFree.length + (report.exact ? "" : "+"),
+          rounds: report.rounds.length,
+          speedup: Number(report.speedup.toFixed(2)),
+          gasSpeedup: Number(report.gasSpeedup.toFixed(2)),
+        }))
+      );
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  }
+
+  console.log("\n" + "=".repeat(70));
+  console.log("Speedup assumes one round per conflict-free set and unlimited");
+  console.log("workers; a `+` marks a subset found within the search budget.");
+  console.log("=".repeat(70) + "\n");
+}
+
+function printBatch(index: number, report: ConflictReport) {
+  console.log(`\n📝 Batch ${index + 1}: ${report.transactions} transactions`);
+  console.log(`   Conflicting pairs: ${report.edges.length}, conflict-free: ${report.independent}`);
+  console.log(
+    `   Largest conflict-free subset: ${report.largestConflictFree.length}` +
+      (report.exact ? "" : " (search budget reached)")
+  );
+  console.log(
+    `   Rounds: ${report.rounds.length} (${report.rounds.map((round) => round.length).join(", ")})`
+  );
+  console.log(
+    `   Theoretical speedup: ${report.speedup.toFixed(2)}x, ${report.gasSpeedup.toFixed(2)}x by gas`
+  );
+
+  for (const { variable, kind, pairs } of report.variables) {
+    console.log(`   ⚠️  ${variable} (${kind}): ${pairs} pairs`);
+  }
+  const hottest = [...report.edges]
+    .sort((x, y) => y.slots.length - x.slots.length)
+    .slice(0, TOP_PAIRS);
+  for (const edge of hottest) {
+    const labels = [...new Set(edge.slots.map((slot) => slot.label))];
+    console.log(`   🔗 tx ${edge.a} ↔ tx ${edge.b}: ${labels.join(", ")}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Analysis failed:", error);
+    process.exit(1);
+  });
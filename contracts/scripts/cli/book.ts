@@ -0,0 +1,44 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { aggregateDepth, type DepthLevel } from "../lib/market-data.js";
+import {
+  connectLedger,
+  formatPrice,
+  openOrderBook,
+  printResult,
+  runCommand,
+  type BookArgs,
+} from "./common.js";
+
+interface BookCommandArgs extends BookArgs {
+  market: bigint;
+  levels: number;
+}
+
+/**
+ * `parallel-ledger book`: aggregated depth of one market, read from the
+ * contract's open order views. Prices are quote per base.
+ */
+export default async function book(args: BookCommandArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    const ctx = await connectLedger(args, hre);
+    const orderBook = await openOrderBook(ctx, args.address);
+
+    const orderIds = [
+      ...(await orderBook.getOpenOrderIds(args.market, true)),
+      ...(await orderBook.getOpenOrderIds(args.market, false)),
+    ];
+    const orders = await Promise.all(orderIds.map((orderId) => orderBook.getOrder(orderId)));
+    const { bids, asks } = aggregateDepth(args.market, orders, args.levels || undefined);
+
+    const rows = (side: string, levels: DepthLevel[]) =>
+      levels.map((level) => ({
+        side,
+        price: formatPrice(level.price),
+        baseAmount: level.baseAmount,
+        orders: level.orders,
+      }));
+
+    // Asks top down, so the spread sits in the middle of the table
+    printResult(ctx.format, [...rows("ask", asks).reverse(), ...rows("bid", bids)]);
+  });
+}
@@ -0,0 +1,53 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+
+import { connectLedger, openOrderBook, printResult, runCommand, type BookArgs } from "./common.js";
+
+interface CancelArgs extends BookArgs {
+  orderIds: bigint[];
+  all: boolean;
+  max: bigint;
+}
+
+/**
+ * `parallel-ledger cancel`: cancel some or all of `--account`'s orders
+ */
+export default async function cancel(args: CancelArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    if (args.all === args.orderIds.length > 0) {
+      throw new Error("Pass order IDs or --all, not both");
+    }
+    if (args.max <= 0n) {
+      throw new Error("--max must be positive");
+    }
+
+    const ctx = await connectLedger(args, hre);
+    const orderBook = await openOrderBook(ctx, args.address);
+
+    // A single ID goes through cancelOrder so a closed order reverts instead of being skipped
+    const results = [];
+    if (args.all) {
+      // cancelAll is bounded per transaction; repeat until a call comes up short
+      let result;
+      do {
+        result = await orderBook.cancelAll(args.max);
+        results.push(result);
+      } while (BigInt(result.cancelled.length) === args.max);
+    } else if (args.orderIds.length === 1) {
+      results.push(await orderBook.cancelOrder(args.orderIds[0]));
+    } else {
+      results.push(await orderBook.cancelOrders(args.orderIds));
+    }
+
+    printResult(
+      ctx.format,
+      results.flatMap((result) =>
+        result.cancelled.map((order) => ({
+          orderId: order.orderId,
+          marketId: order.marketId,
+          reason: order.reason,
+          hash: result.hash,
+        }))
+      )
+    );
+  });
+}
@@ -0,0 +1,206 @@
+import type { WalletClient } from "@nomicfoundation/hardhat-viem/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { BaseError, formatUnits, getAddress, isAddress, type Address } from "viem";
+
+import { isOrderBookError, OrderBookClient } from "../lib/client.js";
+import { loadDeployments, resolveOrderBookAddress } from "../lib/deployments.js";
+
+/**
+ * Shared plumbing of the `parallel-ledger` subcommands
+ *
+ * Every subcommand takes the same flags: Hardhat's `--network`, `--account`
+ * (index into the network's configured accounts, or one of their addresses),
+ * `--address` (the order book; default ORDER_BOOK_ADDRESS, then the latest
+ * deployment record for the network) and `--format table|json`. Results go to
+ * stdout in the chosen format and progress notes to stderr, so JSON output
+ * can be piped. A failed command, including a revert, prints the decoded
+ * custom error and sets a non-zero exit code.
+ */
+
+export type OutputFormat = "table" | "json";
+
+export interface CommonArgs {
+  account: string;
+  format: string;
+}
+
+export interface BookArgs extends CommonArgs {
+  address: string;
+}
+
+export type LedgerConnection = Awaited<
+  ReturnType<HardhatRuntimeEnvironment["network"]["connect"]>
+>;
+
+export interface LedgerContext {
+  connection: LedgerConnection;
+  networkName: string;
+  wallet: WalletClient;
+  format: OutputFormat;
+}
+
+export function parseFormat(format: string): OutputFormat {
+  if (format !== "table" && format !== "json") {
+    throw new Error(`--format must be table or json, got "${format}"`);
+  }
+  return format;
+}
+
+/**
+ * The configured account selected by `--account`: an index or an address
+ */
+export function selectWallet(wallets: WalletClient[], account: string): WalletClient {
+  if (isAddress(account)) {
+    const wallet = wallets.find(
+      (candidate) => getAddress(candidate.account.address) === getAddress(account)
+    );
+    if (!wallet) {
+      throw new Error(`Account ${account} is not configured for this network`);
+    }
+    return wallet;
+  }
+
+  const index = Number(account);
+  if (!Number.isInteger(index) || index < 0 || index >= wallets.length) {
+    throw new Error(
+      `--account must be an address or an index below ${wallets.length}, got "${account}"`
+    );
+  }
+  return wallets[index];
+}
+
+export async function connectLedger(
+  args: CommonArgs,
+  hre: HardhatRuntimeEnvironment
+): Promise<LedgerContext> {
+  const format = parseFormat(args.format);
+  const connection = await hre.network.connect();
+  const wallets = await connection.viem.getWalletClients();
+  return {
+    connection,
+    networkName: connection.networkName,
+    wallet: selectWallet(wallets, args.account),
+    format,
+  };
+}
+
+/**
+ * The order book selected by `--address`, sending from `--account`
+ */
+export async function openOrderBook(
+  ctx: LedgerContext,
+  address: string
+): Promise<OrderBookClient> {
+  const contractAddress = address
+    ? getAddress(address)
+    : resolveOrderBookAddress(ctx.networkName);
+  return OrderBookClient.at(ctx.connection.viem, contractAddress, ctx.wallet);
+}
+
+/**
+ * Block to start scanning events at when none is given: the deployment
+ * block recorded for `address`, else genesis
+ */
+export function deploymentBlockOf(address: Address): bigint {
+  const record = loadDeployments().find(
+    (candidate) => getAddress(candidate.contractAddress) === address
+  );
+  return BigInt(record?.deploymentBlock ?? 0);
+}
+
+/**
+ * Parse a comma separated ID list such as "1,2,3"
+ */
+export function parseIds(list: string): bigint[] {
+  return list
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0)
+    .map((id) => BigInt(id));
+}
+
+/**
+ * A price level key (quote per base scaled by 1e18) as a decimal price
+ */
+export function formatPrice(priceKey: bigint): string {
+  return formatUnits(priceKey, 18);
+}
+
+function jsonValue(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+function cell(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value) || (typeof value === "object" && value !== null)) {
+    return JSON.stringify(value, jsonValue);
+  }
+  return value;
+}
+
+/**
+ * Print a command's result: one record or a list of rows
+ */
+export function printResult(
+  format: OutputFormat,
+  result: Record<string, unknown> | Record<string, unknown>[]
+): void {
+  if (format === "json") {
+    console.log(JSON.stringify(result, jsonValue, 2));
+    return;
+  }
+
+  const rows = Array.isArray(result) ? result : [result];
+  if (rows.length === 0) {
+    console.log("(none)");
+    return;
+  }
+  const table = rows.map((row) =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [key, cell(value)]))
+  );
+  console.table(Array.isArray(result) ? table : table[0]);
+}
+
+/**
+ * Progress note; stderr keeps stdout parseable
+ */
+export function note(message: string): void {
+  console.error(message);
+}
+
+/**
+ * Run a subcommand, turning any failure into a printed error and a
+ * non-zero exit code instead of a stack trace
+ */
+export async function runCommand(
+  format: string,
+  command: () => Promise<void>
+): Promise<void> {
+  try {
+    await command();
+  } catch (error) {
+    process.exitCode = 1;
+    const message =
+      error instanceof BaseError
+        ? error.shortMessage
+        : error instanceof Error
+          ? error.message
+          : String(error);
+
+    if (format === "json") {
+      console.log(
+        JSON.stringify(
+          isOrderBookError(error)
+            ? { error: error.errorName, args: error.args, message }
+            : { error: "Error", message },
+          jsonValue,
+          2
+        )
+      );
+    } else {
+      console.error(`❌ ${message}`);
+    }
+  }
+}
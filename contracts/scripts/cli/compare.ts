@@ -0,0 +1,63 @@
+import { compareResults, loadResult } from "../lib/results.js";
+import { note, parseFormat, printResult, runCommand, type CommonArgs } from "./common.js";
+
+interface CompareArgs extends CommonArgs {
+  files: string[];
+  throughputThreshold: number;
+  latencyThreshold: number;
+  gasThreshold: number;
+}
+
+/**
+ * `parallel-ledger compare`: diff benchmark result files against the first
+ * one and fail when throughput, latency or gas regress past the thresholds.
+ * Reads files only, so `--network` and `--account` do not matter here.
+ * Regressions set a non-zero exit code.
+ */
+export default async function compare(args: CompareArgs) {
+  await runCommand(args.format, async () => {
+    const format = parseFormat(args.format);
+    if (args.files.length < 2) {
+      throw new Error("Give a baseline result file and at least one to compare against it");
+    }
+    const [baseline, ...candidates] = args.files.map((file) => ({
+      file,
+      result: loadResult(file),
+    }));
+
+    const comparison = compareResults(baseline, candidates, {
+      throughputPct: args.throughputThreshold,
+      latencyPct: args.latencyThreshold,
+      gasPct: args.gasThreshold,
+    });
+    for (const warning of comparison.warnings) {
+      note(`⚠️  ${warning}`);
+    }
+
+    const rows = comparison.metrics.map((metric) => ({
+      ...metric,
+      changePct: Number(metric.changePct.toFixed(2)),
+    }));
+    if (format === "json") {
+      printResult(format, {
+        baseline: comparison.baseline,
+        metrics: rows,
+        regressions: comparison.regressions.length,
+        warnings: comparison.warnings,
+      });
+    } else {
+      printResult(format, rows);
+    }
+
+    // Reported rather than thrown, so JSON output stays a single document
+    if (comparison.regressions.length > 0) {
+      process.exitCode = 1;
+      note(
+        `❌ ${comparison.regressions.length} regressions against ${baseline.file}: ` +
+          comparison.regressions
+            .map((metric) => `${metric.metric} ${metric.changePct.toFixed(1)}% in ${metric.file}`)
+            .join(", ")
+      );
+    }
+  });
+}
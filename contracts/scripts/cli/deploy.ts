@@ -0,0 +1,44 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { getAddress } from "viem";
+
+import { deployOrderBook } from "../lib/deploy.js";
+import { isArcologyNetwork, saveDeployment } from "../lib/deployments.js";
+import { connectLedger, note, printResult, runCommand, type CommonArgs } from "./common.js";
+
+interface DeployArgs extends CommonArgs {
+  baseToken: string;
+  quoteToken: string;
+  markets: number;
+}
+
+/**
+ * `parallel-ledger deploy`: deploy the book and its markets from `--account`
+ * and save a deployment record the other subcommands pick up
+ */
+export default async function deploy(args: DeployArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    const ctx = await connectLedger(args, hre);
+    const concurrent = isArcologyNetwork(ctx.networkName);
+    note(
+      `📦 Deploying ParallelOrderBook to ${ctx.networkName} ` +
+        `(${concurrent ? "concurrent" : "plain storage"} counters)...`
+    );
+
+    const { record } = await deployOrderBook(ctx.connection.viem, ctx.networkName, ctx.wallet, {
+      concurrent,
+      baseToken: args.baseToken ? getAddress(args.baseToken) : undefined,
+      quoteToken: args.quoteToken ? getAddress(args.quoteToken) : undefined,
+      marketCount: args.markets,
+    });
+    note(`💾 Deployment record saved to ${saveDeployment(record)}`);
+
+    printResult(ctx.format, {
+      network: record.network,
+      contractAddress: record.contractAddress,
+      markets: record.markets,
+      deployer: record.deployerAddress,
+      block: record.deploymentBlock,
+      chainId: record.chainId,
+    });
+  });
+}
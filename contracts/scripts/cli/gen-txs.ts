@@ -0,0 +1,128 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import * as path from "path";
+import { getAddress } from "viem";
+
+import { resolveMarketIds, resolveOrderBookAddress } from "../lib/deployments.js";
+import {
+  generateOrderPlacementTransactions,
+  parseGasProfile,
+  parseStartNonces,
+  type ContentionMode,
+} from "../lib/txgen.js";
+import { generateScenarioTransactions, loadScenario } from "../lib/workload.js";
+import {
+  connectLedger,
+  note,
+  parseIds,
+  printResult,
+  runCommand,
+  type BookArgs,
+} from "./common.js";
+
+interface GenTxsArgs extends BookArgs {
+  count: number;
+  batchSize: number;
+  base: number;
+  quote: number;
+  buysOnly: boolean;
+  markets: string;
+  contention: string;
+  startNonces: string;
+  gasProfile: string;
+  scenario: string;
+  out: string;
+}
+
+/**
+ * `parallel-ledger gen-txs`: write pre-signed placeOrder batches for the
+ * book at `--address`, to replay with `submit`. With `--scenario` the
+ * transactions follow a workload scenario file instead (see workload.ts)
+ * and the order shaping flags are ignored.
+ */
+export default async function genTxs(args: GenTxsArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    const ctx = await connectLedger(args, hre);
+    const contractAddress = args.address
+      ? getAddress(args.address)
+      : resolveOrderBookAddress(ctx.networkName);
+    const marketIds = args.markets ? parseIds(args.markets) : resolveMarketIds(ctx.networkName);
+    const publicClient = await ctx.connection.viem.getPublicClient();
+    const { abi } = await hre.artifacts.readArtifact("ParallelOrderBook");
+
+    const startNonces = args.startNonces ? parseStartNonces(args.startNonces) : undefined;
+    const gasProfile = args.gasProfile ? parseGasProfile(args.gasProfile) : undefined;
+    const target = { abi, contractAddress, network: ctx.networkName };
+    const onBatch = (batch: { batchId: number }, filePath: string) =>
+      note(`   ✅ Batch ${batch.batchId}: ${filePath}`);
+
+    if (args.scenario) {
+      const scenario = await loadScenario(args.scenario);
+      if (args.markets) {
+        scenario.markets = marketIds.map((id) => id.toString());
+      }
+      note(`📝 Signing scenario "${scenario.name}" for ${contractAddress} on ${ctx.networkName}...`);
+      const summary = await generateScenarioTransactions(
+        scenario,
+        {
+          outputDir: args.out,
+          marketIds: marketIds.map((id) => id.toString()),
+          startNonces,
+          gasProfile,
+        },
+        target,
+        publicClient,
+        onBatch
+      );
+      printResult(ctx.format, {
+        outputDir: args.out,
+        summary: path.join(args.out, "summary.json"),
+        scenario: scenario.name,
+        seed: scenario.seed,
+        contractAddress: summary.contractAddress,
+        network: summary.network,
+        chainId: summary.chainId,
+        marketIds: summary.marketIds.join(","),
+        operations: summary.operations,
+        crossingOrders: summary.crossingOrders,
+        substitutions: summary.substitutions,
+        sequential: summary.sequential,
+        batches: summary.totalBatches,
+        transactions: summary.totalTransactions,
+        estimatedGas: summary.totalEstimatedGas,
+      });
+      return;
+    }
+
+    note(`📝 Signing ${args.count} orders for ${contractAddress} on ${ctx.networkName}...`);
+    const summary = await generateOrderPlacementTransactions(
+      {
+        totalTransactions: args.count,
+        batchSize: args.batchSize,
+        baseAmount: args.base,
+        quoteAmount: args.quote,
+        mixBuySell: !args.buysOnly,
+        outputDir: args.out,
+        marketIds: marketIds.map((id) => id.toString()),
+        contention: args.contention as ContentionMode,
+        startNonces,
+        gasProfile,
+      },
+      target,
+      publicClient,
+      onBatch
+    );
+
+    printResult(ctx.format, {
+      outputDir: args.out,
+      summary: path.join(args.out, "summary.json"),
+      contractAddress: summary.contractAddress,
+      network: summary.network,
+      chainId: summary.chainId,
+      marketIds: summary.marketIds.join(","),
+      contention: summary.contention,
+      batches: summary.totalBatches,
+      transactions: summary.totalTransactions,
+      estimatedGas: summary.totalEstimatedGas,
+    });
+  });
+}
@@ -0,0 +1,74 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+
+import { IndexerDatabase } from "../lib/indexer-db.js";
+import { OrderBookIndexer } from "../lib/indexer.js";
+import { OrderBookKeeper } from "../lib/keeper.js";
+import {
+  connectLedger,
+  deploymentBlockOf,
+  note,
+  openOrderBook,
+  parseIds,
+  printResult,
+  runCommand,
+  type BookArgs,
+} from "./common.js";
+
+interface MatchArgs extends BookArgs {
+  market: bigint;
+  buyIds: string;
+  sellIds: string;
+  maxBatchGas: bigint;
+  fromBlock: bigint;
+}
+
+/**
+ * `parallel-ledger match`: submit the given buy/sell pairs, or let the keeper
+ * find every crossing pair and submit them in gas-bounded batches
+ */
+export default async function match(args: MatchArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    const ctx = await connectLedger(args, hre);
+    const orderBook = await openOrderBook(ctx, args.address);
+
+    if (args.buyIds || args.sellIds) {
+      const buyIds = parseIds(args.buyIds);
+      const sellIds = parseIds(args.sellIds);
+      if (buyIds.length !== sellIds.length || args.market === 0n) {
+        throw new Error("--buy-ids and --sell-ids must pair up, within one --market");
+      }
+
+      const result = await orderBook.matchOrders(args.market, buyIds, sellIds);
+      printResult(ctx.format, {
+        marketId: args.market,
+        processed: buyIds.length,
+        matched: result.matchCount,
+        cancelled: result.cancelled.map((order) => `${order.orderId} (${order.reason})`),
+        hash: result.hash,
+        gasUsed: result.gasUsed,
+      });
+      return;
+    }
+
+    const startBlock = args.fromBlock || deploymentBlockOf(orderBook.address);
+    note(`🔍 Mirroring the book from block ${startBlock}...`);
+    const indexer = new OrderBookIndexer(orderBook, new IndexerDatabase(), { startBlock });
+    const keeper = new OrderBookKeeper(orderBook, indexer, {
+      marketIds: args.market === 0n ? undefined : [args.market],
+      maxBatchGas: args.maxBatchGas,
+    });
+
+    const batches = await keeper.runOnce();
+    indexer.db.close();
+    printResult(
+      ctx.format,
+      batches.map((batch) => ({
+        marketId: batch.marketId,
+        processed: batch.processed,
+        matched: batch.matched,
+        hash: batch.hash,
+        gasUsed: batch.gasUsed,
+      }))
+    );
+  });
+}
@@ -0,0 +1,79 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { getAddress } from "viem";
+
+import { priceKey } from "../lib/market-data.js";
+import { OrderType } from "../lib/orders.js";
+import { connectLedger, openOrderBook, printResult, runCommand, type BookArgs } from "./common.js";
+
+interface PlaceArgs extends BookArgs {
+  side: string;
+  base: bigint;
+  quote: bigint;
+  market: bigint;
+  type: string;
+  maxFills: bigint;
+  expiresIn: bigint;
+}
+
+const ORDER_TYPES: Record<string, OrderType> = {
+  limit: OrderType.Limit,
+  ioc: OrderType.ImmediateOrCancel,
+  fok: OrderType.FillOrKill,
+  "post-only": OrderType.PostOnly,
+  market: OrderType.Market,
+};
+
+/**
+ * `parallel-ledger place`: place one order for `--account`
+ */
+export default async function place(args: PlaceArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    if (args.side !== "buy" && args.side !== "sell") {
+      throw new Error(`side must be buy or sell, got "${args.side}"`);
+    }
+    const orderType = ORDER_TYPES[args.type];
+    if (orderType === undefined) {
+      throw new Error(
+        `--type must be one of ${Object.keys(ORDER_TYPES).join(", ")}, got "${args.type}"`
+      );
+    }
+
+    const ctx = await connectLedger(args, hre);
+    const orderBook = await openOrderBook(ctx, args.address);
+
+    let expiresAt = 0n;
+    if (args.expiresIn > 0n) {
+      const { timestamp } = await orderBook.publicClient.getBlock();
+      expiresAt = timestamp + args.expiresIn;
+    }
+
+    const isBuyOrder = args.side === "buy";
+    const placed = await orderBook.placeOrder({
+      marketId: args.market,
+      baseAmount: args.base,
+      quoteAmount: args.quote,
+      isBuyOrder,
+      orderType,
+      maxFills: args.maxFills,
+      expiresAt,
+      levelHint: await orderBook.findLevelHint(
+        args.market,
+        isBuyOrder,
+        priceKey(args.base, args.quote)
+      ),
+    });
+
+    printResult(ctx.format, {
+      orderId: placed.orderId,
+      trader: getAddress(ctx.wallet.account.address),
+      marketId: args.market,
+      side: args.side,
+      fills: placed.fills.length,
+      filledBase: placed.fills.reduce((sum, fill) => sum + fill.baseAmount, 0n),
+      cancelled: placed.cancelled.map((order) => `${order.orderId} (${order.reason})`),
+      hash: placed.hash,
+      block: placed.blockNumber,
+      gasUsed: placed.gasUsed,
+    });
+  });
+}
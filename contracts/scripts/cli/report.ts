@@ -0,0 +1,50 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+
+import {
+  connectLedger,
+  deploymentBlockOf,
+  note,
+  openOrderBook,
+  printResult,
+  runCommand,
+  type BookArgs,
+} from "./common.js";
+
+interface ReportArgs extends BookArgs {
+  fromBlock: bigint;
+}
+
+/**
+ * `parallel-ledger report`: fees each trader paid per quote token, from the
+ * OrderMatched events, next to what the owner can still collect
+ */
+export default async function report(args: ReportArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    const ctx = await connectLedger(args, hre);
+    const orderBook = await openOrderBook(ctx, args.address);
+
+    const fromBlock = args.fromBlock || deploymentBlockOf(orderBook.address);
+    const { makerFeeBps, takerFeeBps } = await orderBook.getFeeSchedule();
+    note(`📐 Maker ${makerFeeBps} bps, taker ${takerFeeBps} bps; scanning from block ${fromBlock}`);
+
+    const revenue = await orderBook.getFeeRevenueByTrader({ fromBlock });
+    const quoteTokens = [...new Set(revenue.map((entry) => entry.quoteToken))];
+    const collectable = new Map<string, bigint>();
+    for (const token of quoteTokens) {
+      collectable.set(token, await orderBook.collectableFees(token));
+    }
+
+    printResult(
+      ctx.format,
+      revenue.map((entry) => ({
+        trader: entry.trader,
+        quoteToken: entry.quoteToken,
+        fills: entry.fills,
+        asBuyer: entry.asBuyer,
+        asSeller: entry.asSeller,
+        total: entry.total,
+        collectable: collectable.get(entry.quoteToken),
+      }))
+    );
+  });
+}
@@ -0,0 +1,53 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import {
+  connectLedger,
+  formatPrice,
+  openOrderBook,
+  printResult,
+  runCommand,
+  type BookArgs,
+} from "./common.js";
+
+interface StatsArgs extends BookArgs {
+  market: bigint;
+}
+
+/**
+ * `parallel-ledger stats`: order counters, best prices and fees per market,
+ * or for one `--market`
+ */
+export default async function stats(args: StatsArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    const ctx = await connectLedger(args, hre);
+    const orderBook = await openOrderBook(ctx, args.address);
+
+    const markets =
+      args.market === 0n ? await orderBook.listMarkets() : [await orderBook.getMarket(args.market)];
+    const { makerFeeBps, takerFeeBps } = await orderBook.getFeeSchedule();
+
+    // A best price of 0 means the side is empty
+    const price = (key: bigint) => (key === 0n ? "-" : formatPrice(key));
+    const rows: Record<string, unknown>[] = [];
+    for (const market of markets) {
+      const { placed, matched, cancelled } = await orderBook.getStats(market.marketId);
+      rows.push({
+        marketId: market.marketId,
+        baseToken: market.baseToken,
+        quoteToken: market.quoteToken,
+        bestBid: price(market.bestBid),
+        bestAsk: price(market.bestAsk),
+        placed,
+        matched,
+        cancelled,
+        makerFeeBps,
+        takerFeeBps,
+      });
+    }
+
+    if (args.market === 0n) {
+      const totals = await orderBook.getTotals();
+      rows.push({ marketId: "total", ...totals });
+    }
+    printResult(ctx.format, rows);
+  });
+}
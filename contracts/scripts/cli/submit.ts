@@ -0,0 +1,127 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+
+import { collectEnvironment, replayResult, saveResult } from "../lib/results.js";
+import { replayTransactions } from "../lib/submit.js";
+import { loadGeneratedTransactions } from "../lib/txgen.js";
+import { connectLedger, note, printResult, runCommand, type CommonArgs } from "./common.js";
+
+interface SubmitArgs extends CommonArgs {
+  dir: string;
+  concurrency: number;
+  rate: number;
+  timeout: number;
+  results: string;
+}
+
+/**
+ * `parallel-ledger submit`: replay the raw transactions written by `gen-txs`
+ * and report inclusion latency, per-block counts and revert reasons.
+ * Transactions are already signed, so `--account` does not matter here.
+ * Runs the generator marks sequential ignore `--concurrency` and go out one
+ * at a time, each after the previous one's block.
+ * `--results` saves a benchmark result file there for `compare`.
+ */
+export default async function submit(args: SubmitArgs, hre: HardhatRuntimeEnvironment) {
+  await runCommand(args.format, async () => {
+    const ctx = await connectLedger(args, hre);
+    const { summary, batches } = await loadGeneratedTransactions(args.dir);
+    const publicClient = await ctx.connection.viem.getPublicClient();
+
+    const chainId = await publicClient.getChainId();
+    if (summary.chainId !== undefined && summary.chainId !== chainId) {
+      throw new Error(
+        `${args.dir} is signed for chain ${summary.chainId} (${summary.network}), ` +
+          `${ctx.networkName} is chain ${chainId}`
+      );
+    }
+    if (summary.network !== ctx.networkName) {
+      note(`⚠️  ${args.dir} was generated for ${summary.network}, submitting to ${ctx.networkName}`);
+    }
+    note(
+      `🚀 Replaying ${summary.totalTransactions} transactions, ` +
+        (summary.sequential ? "one block at a time" : `${args.concurrency} in flight`) +
+        (args.rate > 0 ? ` at ${args.rate}/s` : "") +
+        "..."
+    );
+
+    const { abi } = await hre.artifacts.readArtifact("ParallelOrderBook");
+    const report = await replayTransactions(
+      publicClient,
+      batches,
+      {
+        concurrency: args.concurrency,
+        ratePerSecond: args.rate,
+        inclusionTimeoutMs: args.timeout * 1000,
+        abi,
+        sequential: summary.sequential,
+      },
+      (included, total) => note(`   ${included}/${total} included`)
+    );
+
+    const totals = {
+      sent: report.sent,
+      succeeded: report.succeeded,
+      reverted: report.reverted,
+      rejected: report.rejected,
+      pending: report.pending,
+      gasUsed: report.gasUsed,
+      durationMs: report.durationMs,
+      throughput: Number(report.throughput.toFixed(1)),
+    };
+    const latency = report.latencyMs;
+    const blocks = report.blocks.map((block) => ({ ...block }));
+
+    if (ctx.format === "json") {
+      printResult(ctx.format, {
+        ...totals,
+        latencyMs: latency ?? null,
+        blocks,
+        revertReasons: report.revertReasons,
+        rejections: report.rejections,
+      });
+    } else {
+      printResult(ctx.format, {
+        ...totals,
+        p50LatencyMs: latency?.p50 ?? "-",
+        p95LatencyMs: latency?.p95 ?? "-",
+        p99LatencyMs: latency?.p99 ?? "-",
+        maxLatencyMs: latency?.max ?? "-",
+      });
+      printResult(ctx.format, blocks);
+      if (report.revertReasons.length > 0 || report.rejections.length > 0) {
+        printResult(ctx.format, [
+          ...report.revertReasons.map((entry) => ({ kind: "reverted", ...entry })),
+          ...report.rejections.map((entry) => ({ kind: "rejected", ...entry })),
+        ]);
+      }
+    }
+
+    if (args.results !== "") {
+      const file = saveResult(
+        args.results,
+        "replay",
+        replayResult(
+          "parallel-ledger submit",
+          collectEnvironment(ctx.networkName, chainId),
+          {
+            txDir: args.dir,
+            transactions: summary.totalTransactions,
+            concurrency: summary.sequential ? 1 : args.concurrency,
+            ratePerSecond: args.rate,
+          },
+          report
+        )
+      );
+      note(`💾 Result saved to ${file}`);
+    }
+
+    const failed = report.reverted + report.rejected + report.pending;
+    if (failed > 0) {
+      const first = report.revertReasons[0] ?? report.rejections[0];
+      throw new Error(
+        `${failed}/${report.sent} transactions failed` +
+          (first ? `; most common: ${first.reason} (${first.count})` : "")
+      );
+    }
+  });
+}
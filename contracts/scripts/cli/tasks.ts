@@ -0,0 +1,292 @@
+import { emptyTask, task } from "hardhat/config";
+import { ArgumentType } from "hardhat/types/arguments";
+
+/**
+ * `parallel-ledger` CLI: one Hardhat task per subcommand, so the network
+ * comes from Hardhat's `--network` and each action module is only loaded
+ * when its subcommand runs. See common.ts for the shared flags.
+ *
+ * Usage:
+ * npx hardhat parallel-ledger <subcommand> [flags] --network arcologyDevNet
+ * npx hardhat parallel-ledger <subcommand> --help
+ */
+
+const NAMESPACE = "parallel-ledger";
+
+function ledgerTask(name: string, description: string) {
+  return task([NAMESPACE, name], description)
+    .addOption({
+      name: "account",
+      description: "Index of the configured account to send from, or its address",
+      defaultValue: "0",
+    })
+    .addOption({
+      name: "format",
+      description: "Output format: table or json",
+      defaultValue: "table",
+    });
+}
+
+/** Subcommands that talk to a deployed order book */
+function bookTask(name: string, description: string) {
+  return ledgerTask(name, description).addOption({
+    name: "address",
+    description:
+      "ParallelOrderBook address (default: ORDER_BOOK_ADDRESS, then the latest deployment record)",
+    defaultValue: "",
+  });
+}
+
+export const parallelLedgerTasks = [
+  emptyTask(NAMESPACE, "Deploy, trade on and benchmark ParallelOrderBook").build(),
+
+  ledgerTask("deploy", "Deploy ParallelOrderBook and its markets, saving a deployment record")
+    .addOption({
+      name: "baseToken",
+      description: "Base token of market 1 (default: deploy a MockERC20 pair)",
+      defaultValue: "",
+    })
+    .addOption({
+      name: "quoteToken",
+      description: "Quote token of every market (default: deploy a MockERC20 pair)",
+      defaultValue: "",
+    })
+    .addOption({
+      name: "markets",
+      description: "Markets to list; extra ones get a MockERC20 base",
+      type: ArgumentType.INT,
+      defaultValue: 1,
+    })
+    .setAction(() => import("./deploy.js"))
+    .build(),
+
+  bookTask("place", "Place an order")
+    .addPositionalArgument({ name: "side", description: "buy or sell" })
+    .addPositionalArgument({
+      name: "base",
+      description: "Base amount, in the token's smallest unit",
+      type: ArgumentType.BIGINT,
+    })
+    .addPositionalArgument({
+      name: "quote",
+      description: "Quote amount, in the token's smallest unit",
+      type: ArgumentType.BIGINT,
+    })
+    .addOption({
+      name: "market",
+      description: "Market to trade in",
+      type: ArgumentType.BIGINT,
+      defaultValue: 1n,
+    })
+    .addOption({
+      name: "type",
+      description: "limit, ioc, fok, post-only or market",
+      defaultValue: "limit",
+    })
+    .addOption({
+      name: "maxFills",
+      description: "Resting orders to take on placement, 0 = rest only",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .addOption({
+      name: "expiresIn",
+      description: "Seconds until the order expires, 0 = good-til-cancelled",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .setAction(() => import("./place.js"))
+    .build(),
+
+  bookTask("cancel", "Cancel orders of the account")
+    .addVariadicArgument({
+      name: "orderIds",
+      description: "Orders to cancel",
+      type: ArgumentType.BIGINT,
+      defaultValue: [],
+    })
+    .addFlag({ name: "all", description: "Cancel every open order of the account" })
+    .addOption({
+      name: "max",
+      description: "Orders cancelled per transaction with --all",
+      type: ArgumentType.BIGINT,
+      defaultValue: 100n,
+    })
+    .setAction(() => import("./cancel.js"))
+    .build(),
+
+  bookTask("match", "Match the given pairs, or every crossing pair through the keeper")
+    .addOption({
+      name: "market",
+      description: "Market to match, 0 = every market with open orders",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .addOption({ name: "buyIds", description: "Comma separated buy order IDs", defaultValue: "" })
+    .addOption({ name: "sellIds", description: "Comma separated sell order IDs", defaultValue: "" })
+    .addOption({
+      name: "maxBatchGas",
+      description: "Gas budget of one keeper batch",
+      type: ArgumentType.BIGINT,
+      defaultValue: 10_000_000n,
+    })
+    .addOption({
+      name: "fromBlock",
+      description: "First block the keeper mirrors, 0 = the deployment block",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .setAction(() => import("./match.js"))
+    .build(),
+
+  bookTask("book", "Show the aggregated depth of a market")
+    .addOption({
+      name: "market",
+      description: "Market to show",
+      type: ArgumentType.BIGINT,
+      defaultValue: 1n,
+    })
+    .addOption({
+      name: "levels",
+      description: "Price levels per side, 0 = all",
+      type: ArgumentType.INT,
+      defaultValue: 10,
+    })
+    .setAction(() => import("./book.js"))
+    .build(),
+
+  bookTask("stats", "Show order counters and best prices per market")
+    .addOption({
+      name: "market",
+      description: "Market to show, 0 = every market plus totals",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .setAction(() => import("./stats.js"))
+    .build(),
+
+  bookTask("gen-txs", "Write pre-signed batches of placements or a workload scenario")
+    .addOption({
+      name: "count",
+      description: "Transactions to generate",
+      type: ArgumentType.INT,
+      defaultValue: 1000,
+    })
+    .addOption({
+      name: "batchSize",
+      description: "Transactions per batch file",
+      type: ArgumentType.INT,
+      defaultValue: 50,
+    })
+    .addOption({
+      name: "base",
+      description: "Base amount per order",
+      type: ArgumentType.INT,
+      defaultValue: 1000000,
+    })
+    .addOption({
+      name: "quote",
+      description: "Quote amount per order",
+      type: ArgumentType.INT,
+      defaultValue: 2000000,
+    })
+    .addFlag({ name: "buysOnly", description: "Only buy orders instead of alternating sides" })
+    .addOption({
+      name: "markets",
+      description:
+        "Comma separated market IDs (default: the scenario's, then the deployment record's markets)",
+      defaultValue: "",
+    })
+    .addOption({
+      name: "contention",
+      description: "within-market or cross-market",
+      defaultValue: "cross-market",
+    })
+    .addOption({
+      name: "startNonces",
+      description: 'First nonce per account index, e.g. "0=7,1=12" (default: its pending nonce)',
+      defaultValue: "",
+    })
+    .addOption({
+      name: "gasProfile",
+      description: 'Gas limit per function, e.g. "placeOrder=350000" (default: estimate each transaction)',
+      defaultValue: "",
+    })
+    .addOption({
+      name: "scenario",
+      description: "Workload scenario file (JSON or YAML) to generate instead of uniform placements",
+      defaultValue: "",
+    })
+    .addOption({
+      name: "out",
+      description: "Output directory",
+      defaultValue: "benchmark/order-placement",
+    })
+    .setAction(() => import("./gen-txs.js"))
+    .build(),
+
+  ledgerTask("submit", "Replay the raw transactions written by gen-txs and report inclusion")
+    .addPositionalArgument({ name: "dir", description: "gen-txs output directory (its --out)" })
+    .addOption({
+      name: "concurrency",
+      description: "Transactions in flight at once",
+      type: ArgumentType.INT,
+      defaultValue: 16,
+    })
+    .addOption({
+      name: "rate",
+      description: "Transactions sent per second, 0 = unthrottled",
+      type: ArgumentType.FLOAT,
+      defaultValue: 0,
+    })
+    .addOption({
+      name: "timeout",
+      description: "Seconds to wait for inclusion after the last send",
+      type: ArgumentType.INT,
+      defaultValue: 120,
+    })
+    .addOption({
+      name: "results",
+      description: "Directory to save a benchmark result file in (default: don't save)",
+      defaultValue: "",
+    })
+    .setAction(() => import("./submit.js"))
+    .build(),
+
+  ledgerTask("compare", "Compare benchmark result files against the first and flag regressions")
+    .addVariadicArgument({
+      name: "files",
+      description: "Result files, the baseline first",
+      defaultValue: [],
+    })
+    .addOption({
+      name: "throughputThreshold",
+      description: "Tolerated drop in throughput or speedup, in percent",
+      type: ArgumentType.FLOAT,
+      defaultValue: 10,
+    })
+    .addOption({
+      name: "latencyThreshold",
+      description: "Tolerated rise in p50/p95/p99 latency, in percent",
+      type: ArgumentType.FLOAT,
+      defaultValue: 10,
+    })
+    .addOption({
+      name: "gasThreshold",
+      description: "Tolerated rise in gas per transaction, in percent",
+      type: ArgumentType.FLOAT,
+      defaultValue: 5,
+    })
+    .setAction(() => import("./compare.js"))
+    .build(),
+
+  bookTask("report", "Report fees paid per trader and what is left to collect")
+    .addOption({
+      name: "fromBlock",
+      description: "First block to scan, 0 = the deployment block",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .setAction(() => import("./report.js"))
+    .build(),
+];
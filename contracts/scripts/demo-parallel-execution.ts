@@ -1,176 +1,238 @@
 import hre from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseEventLogs, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { OrderBookClient } from "./lib/client.js";
+import {
+  executeTransactions,
+  traceTransactions,
+  type TracedTransaction,
+} from "./lib/conflicts.js";
+import { approveAndDeposit } from "./lib/escrow.js";
+import {
+  loadStorageLayout,
+  readCounterAddresses,
+  slotKeys,
+  SlotLabeler,
+} from "./lib/storage-layout.js";
+import {
+  collectEnvironment,
+  RESULTS_SCHEMA_VERSION,
+  saveResult,
+  type BenchmarkResult,
+} from "./lib/results.js";
+import {
+  simulateOptimisticExecution,
+  type ConflictPolicy,
+  type ScheduleReport,
+} from "./lib/scheduler.js";
+import { loadGeneratedTransactions, TEST_PRIVATE_KEYS } from "./lib/txgen.js";
+import { generateScenarioTransactions, parseScenario } from "./lib/workload.js";
 
 /**
- * Demo Script - Parallel Order Book Simulation
- * 
- * This script simulates parallel execution and benchmarking of the ParallelOrderBook
- * contract without requiring actual DevNet deployment. Perfect for demos!
- * 
+ * Demo Script - Parallel Order Book Execution
+ *
+ * Executes a small seeded workload against the real ParallelOrderBook on
+ * Hardhat's EDR network, traces it once executed (tracing is not part of the
+ * timed execution), then estimates what Arcology-style optimistic
+ * parallel execution would make of it. No DevNet needed, so it works for
+ * demos.
+ *
  * Shows:
  * - Test accounts from examples/account/accounts_20.txt
- * - Parallel transaction simulation
- * - Performance metrics and benchmarking
- * - Throughput calculations
- * - Speedup factor demonstration
- * 
+ * - Order placement and batch matching, executed and traced on EDR
+ * - Per-transaction gas and storage read/write sets
+ * - A deterministic N-worker optimistic scheduler (scripts/lib/scheduler.ts)
+ *   replaying those traces: conflicts, re-executions and speedup
+ *
+ * WORKERS sets the modelled worker count (default 8) and POLICY what happens
+ * to a transaction that loses a conflict: "reexecute" (default) runs it again
+ * in the next generation, "revert" drops it. CONCURRENT=false deploys the
+ * plain-storage counters instead of Arcology's U256Cumulative ones.
+ *
  * Usage:
  * npx hardhat run scripts/demo-parallel-execution.ts --network hardhat
  */
 
-// Test accounts from examples/account/accounts_20.txt
-const TEST_ACCOUNTS = [
-  "0xaB01a3BfC5de6b5Fc481e18F274ADBdbA9B111f0",
-  "0x21522c86A586e696961b68aa39632948D9F11170",
-  "0xa75Cd05BF16BbeA1759DE2A66c0472131BC5Bd8D",
-  "0x2c7161284197e40E83B1b657e98B3bb8FF3C90ed",
-  "0x57170608aE58b7d62dCdC3cbDb564C05dDBB7eee",
-  "0x9F79316c20f3F83Fcf43deE8a1CeA185A47A5c45",
-  "0x9f9E0F23aFd5404b34006678c900629183c9A25d",
-  "0xd7cB260c7658589fe68789F2d678e1e85F7e4831",
-];
-
-interface TestResults {
-  totalTransactions: number;
-  successfulTransactions: number;
-  failedTransactions: number;
-  totalTimeMs: number;
-  transactionsPerSecond: number;
-  averageTimePerTx: number;
-  ordersPlaced: number;
-  ordersMatched: number;
-  speedupFactor: number;
-  theoreticalSequentialTime: number;
-  actualParallelTime: number;
-  testAccounts: string[];
-  timestamp: string;
-}
+const UNIT = 10n ** 18n;
+const FUNDING = 1_000_000n * UNIT;
+const WORKER_SWEEP = [1, 2, 4, 8, 16, 32];
 
-async function simulateParallelExecution() {
+async function runParallelExecutionDemo() {
   console.log("🚀 ParallelOrderBook - Parallel Execution Demo\n");
   console.log("=".repeat(70));
-  console.log("This demo shows parallel transaction execution using test accounts");
-  console.log("from examples/account/accounts_20.txt");
+  console.log("This demo executes orders from the test accounts in");
+  console.log("examples/account/accounts_20.txt and models their parallel execution");
   console.log("=".repeat(70) + "\n");
 
-  console.log("📊 Test Accounts Available:");
-  TEST_ACCOUNTS.forEach((addr, idx) => {
-    console.log(`   ${idx + 1}. ${addr}`);
-  });
-  console.log("");
-
   // Configuration
   const PARALLEL_BATCH_SIZE = 10;
   const NUM_BATCHES = 3;
   const TOTAL_TRANSACTIONS = PARALLEL_BATCH_SIZE * NUM_BATCHES;
-  const MS_PER_TRANSACTION = 85; // Realistic gas time per transaction
+  const NUM_ACCOUNTS = 8;
+  const WORKERS = Number(process.env.WORKERS ?? 8);
+  const POLICY = (process.env.POLICY ?? "reexecute") as ConflictPolicy;
+  const CONCURRENT = process.env.CONCURRENT !== "false";
+
+  const { viem, networkHelpers, networkName } = await hre.network.connect();
+  if (networkName !== "hardhat" && networkName !== "default") {
+    throw new Error(`The demo traces transactions on the local EDR network, not ${networkName}`);
+  }
+  const publicClient = await viem.getPublicClient();
+
+  const accounts = TEST_PRIVATE_KEYS.slice(0, NUM_ACCOUNTS).map((key) => privateKeyToAccount(key));
+  console.log("📊 Test Accounts:");
+  accounts.forEach((account, idx) => {
+    console.log(`   ${idx + 1}. ${account.address}`);
+  });
+  console.log("");
 
   console.log("📋 Test Parameters:");
   console.log(`   - Transactions per batch: ${PARALLEL_BATCH_SIZE}`);
   console.log(`   - Number of batches: ${NUM_BATCHES}`);
   console.log(`   - Total transactions: ${TOTAL_TRANSACTIONS}`);
-  console.log(`   - Simulated time per tx: ${MS_PER_TRANSACTION}ms\n`);
+  console.log(`   - Counter mode: ${CONCURRENT ? "concurrent (U256Cumulative)" : "plain storage"}`);
+  console.log(`   - Modelled workers: ${WORKERS}, conflicts ${POLICY === "revert" ? "reverted" : "re-executed"}\n`);
+
+  // Placements around a mid price, some crossing it, plus matching calls
+  // that pair up earlier crossing orders
+  const scenario = parseScenario({
+    name: "demo",
+    seed: 2024,
+    transactions: TOTAL_TRANSACTIONS,
+    batchSize: PARALLEL_BATCH_SIZE,
+    mix: { place: 80, match: 20 },
+    traders: { count: NUM_ACCOUNTS },
+    orders: {
+      baseAmount: { min: "100", max: "1000" },
+      midPrice: "2",
+      tickBps: 50,
+      priceLevels: 4,
+      crossingFraction: 0.4,
+    },
+    match: { pairsPerCall: 3 },
+    gasProfile: { placeOrder: 600000, matchOrdersBatch: 2000000 },
+  });
+
+  console.log("⚙️  Setting up the order book on EDR...");
+  const baseToken = await viem.deployContract("MockERC20", ["Base", "BASE", 18]);
+  const quoteToken = await viem.deployContract("MockERC20", ["Quote", "QUOTE", 18]);
+  const orderBook = await OrderBookClient.deploy(viem, CONCURRENT);
+  const { marketId } = await orderBook.createMarket(baseToken.address, quoteToken.address);
+  for (const account of accounts) {
+    await networkHelpers.setBalance(account.address, 10n ** 20n);
+    for (const token of [baseToken, quoteToken]) {
+      await token.write.mint([account.address, FUNDING]);
+      await approveAndDeposit(publicClient, orderBook.contract, token, { account }, FUNDING);
+    }
+  }
 
-  // Calculate theoretical sequential time
-  const theoreticalSequentialTime = TOTAL_TRANSACTIONS * MS_PER_TRANSACTION;
-  console.log(`⏱️  Theoretical sequential execution time: ${theoreticalSequentialTime}ms\n`);
+  const txDir = fs.mkdtempSync(path.join(os.tmpdir(), "orderbook-demo-"));
+  let batches;
+  try {
+    await generateScenarioTransactions(
+      scenario,
+      { outputDir: txDir, marketIds: [marketId.toString()] },
+      { abi: orderBook.abi, contractAddress: orderBook.address, network: networkName },
+      publicClient
+    );
+    ({ batches } = await loadGeneratedTransactions(txDir));
+  } finally {
+    fs.rmSync(txDir, { recursive: true, force: true });
+  }
+  console.log(`   ✅ Book ${orderBook.address}, market ${marketId}, ${batches.length} batches signed\n`);
 
   // ============================================================
-  // PHASE 1: Parallel Order Placement
+  // PHASE 1: Execute on EDR
   // ============================================================
-  console.log("📝 PHASE 1: Parallel Order Placement");
+  console.log("📝 PHASE 1: Order Placement and Matching on EDR");
   console.log("─".repeat(70));
 
-  let totalOrdersPlaced = 0;
-  const startTimePhase1 = Date.now();
+  const traced: TracedTransaction[][] = [];
+  let ordersPlaced = 0;
+  let ordersMatched = 0;
+  let executionTimeMs = 0;
+  let tracingTimeMs = 0;
 
-  for (let batch = 0; batch < NUM_BATCHES; batch++) {
-    console.log(`\nBatch ${batch + 1}/${NUM_BATCHES}:`);
+  for (const batch of batches) {
+    console.log(`\nBatch ${batch.batchId + 1}/${batches.length}:`);
+    console.log(`   ⏳ Executing ${batch.transactions.length} transactions...`);
     const batchStartTime = Date.now();
-
-    // Simulate parallel transactions
-    const placementPromises = [];
-    for (let i = 0; i < PARALLEL_BATCH_SIZE; i++) {
-      const traderIndex = i % TEST_ACCOUNTS.length;
-      const trader = TEST_ACCOUNTS[traderIndex];
-      const amount = Math.floor(Math.random() * 1000) + 100;
-      const quote = amount * (Math.floor(Math.random() * 20) + 1);
-      const isBuy = Math.random() > 0.5;
-
-      // Create simulated transaction
-      const txPromise = new Promise((resolve) => {
-        // Simulate execution time with some variance
-        const executionTime = MS_PER_TRANSACTION + Math.random() * 20 - 10;
-        setTimeout(() => {
-          resolve({
-            success: true,
-            orderId: batch * PARALLEL_BATCH_SIZE + i + 1,
-            trader,
-            amount,
-            quote,
-            isBuy,
-            executionTime,
-          });
-        }, executionTime);
-      });
-
-      placementPromises.push(txPromise);
-    }
-
-    // Execute all transactions in parallel
-    console.log(`   ⏳ Executing ${placementPromises.length} transactions in parallel...`);
-    const txResults = await Promise.all(placementPromises);
-
-    // Count results
-    const successful = txResults.filter((r: any) => r.success).length;
-    const failed = PARALLEL_BATCH_SIZE - successful;
-
-    totalOrdersPlaced += successful;
-
+    const receipts = await executeTransactions(
+      publicClient,
+      batch.transactions.map((tx) => tx.rawTx as Hex)
+    );
     const batchTimeMs = Date.now() - batchStartTime;
-    const batchTxPerSec = (PARALLEL_BATCH_SIZE / batchTimeMs) * 1000;
+    executionTimeMs += batchTimeMs;
+
+    // Traced after the clock stops, so throughput is execution alone
+    const traceStartTime = Date.now();
+    const transactions = await traceTransactions(publicClient, receipts);
+    const traceTimeMs = Date.now() - traceStartTime;
+    tracingTimeMs += traceTimeMs;
+    traced.push(transactions);
+
+    const events = parseEventLogs({
+      abi: orderBook.abi,
+      logs: transactions.flatMap((tx) => tx.receipt.logs),
+    });
+    const placed = events.filter((event) => event.eventName === "OrderPlaced");
+    ordersPlaced += placed.length;
+    ordersMatched += events.filter((event) => event.eventName === "OrderMatched").length;
 
-    console.log(`   ✅ Successful: ${successful}/${PARALLEL_BATCH_SIZE}`);
-    console.log(`   ⏱️  Batch time: ${batchTimeMs}ms`);
-    console.log(`   ⚡ Throughput: ${batchTxPerSec.toFixed(2)} tx/s`);
+    const successful = transactions.filter((tx) => tx.receipt.status === "success").length;
+    const gasUsed = transactions.reduce((sum, tx) => sum + tx.receipt.gasUsed, 0n);
+    console.log(`   ✅ Successful: ${successful}/${transactions.length}`);
+    console.log(`   ⛽ Gas used: ${gasUsed}`);
+    console.log(`   ⏱️  Batch time: ${batchTimeMs}ms (tracing afterwards: ${traceTimeMs}ms)`);
 
     // Show a few transaction details
     console.log(`   📦 Sample orders:`);
-    txResults.slice(0, 3).forEach((tx: any) => {
-      const orderType = tx.isBuy ? "BUY" : "SELL";
-      console.log(`      - Order #${tx.orderId}: ${orderType} ${tx.amount} base for ${tx.quote} quote (from ${tx.trader.slice(0, 8)}...)`);
+    placed.slice(0, 3).forEach((event) => {
+      const { orderId, trader, baseAmount, quoteAmount, isBuyOrder } = event.args;
+      console.log(
+        `      - Order ${CONCURRENT ? `#${orderId >> 160n}` : `#${orderId}`}: ` +
+          `${isBuyOrder ? "BUY" : "SELL"} ${baseAmount} base for ${quoteAmount} quote ` +
+          `(from ${trader.slice(0, 8)}...)`
+      );
     });
   }
 
-  const phase1TimeMs = Date.now() - startTimePhase1;
-
   // ============================================================
-  // PHASE 2: Order Matching
+  // PHASE 2: Optimistic Parallel Execution Model
   // ============================================================
-  console.log("\n\n🔄 PHASE 2: Batch Order Matching");
+  console.log(`\n\n🔄 PHASE 2: Optimistic Parallel Execution (${WORKERS} workers)`);
   console.log("─".repeat(70));
 
-  const startTimePhase2 = Date.now();
-  console.log(`\n⏳ Matching ${totalOrdersPlaced} orders...\n`);
-
-  // Simulate order matching in batches
-  let totalOrdersMatched = 0;
-  const matchBatchSize = Math.floor(totalOrdersPlaced / 5);
-
-  for (let i = 0; i < 5; i++) {
-    const batchStartTime = Date.now();
-    
-    // Simulate matching time
-    const matchTime = matchBatchSize * 15; // 15ms per match on average
-    await new Promise(resolve => setTimeout(resolve, matchTime));
-
-    const ordersInThisBatch = Math.min(matchBatchSize, totalOrdersPlaced - totalOrdersMatched);
-    totalOrdersMatched += ordersInThisBatch;
-
-    const batchTimeMs = Date.now() - batchStartTime;
-    console.log(`   ✅ Matched batch ${i + 1}/5: ${ordersInThisBatch} orders in ${batchTimeMs}ms`);
-  }
-
-  const phase2TimeMs = Date.now() - startTimePhase2;
+  // Writes into the U256Cumulative counters commute, so they never conflict
+  const layout = await loadStorageLayout(hre.artifacts, "ParallelOrderBook");
+  const labels = new SlotLabeler(layout, slotKeys({}, { [`m${marketId}`]: marketId }));
+  const counters = await readCounterAddresses(publicClient, orderBook.address, layout, labels, marketId);
+  const commutative = new Set(counters.keys());
+
+  const model = (workers: number) =>
+    traced.map((transactions) =>
+      simulateOptimisticExecution(transactions, { workers, policy: POLICY, commutative })
+    );
+  const schedules = model(WORKERS);
+
+  schedules.forEach((schedule, idx) => {
+    console.log(`\nBatch ${idx + 1}/${schedules.length}:`);
+    schedule.generations.forEach((generation, round) => {
+      console.log(
+        `   Generation ${round + 1}: ${generation.executed.length} executed, ` +
+          `${generation.committed.length} committed, ${generation.aborted.length} conflicted ` +
+          `(${generation.gas} gas)`
+      );
+    });
+    console.log(
+      `   ⚡ Speedup ${schedule.speedup.toFixed(2)}x, conflict rate ` +
+        `${(schedule.conflictRate * 100).toFixed(1)}%`
+    );
+  });
 
   // ============================================================
   // PHASE 3: Performance Analysis
@@ -178,75 +240,107 @@ async function simulateParallelExecution() {
   console.log("\n\n📈 PHASE 3: Performance Analysis");
   console.log("─".repeat(70));
 
-  const totalTimeMs = phase1TimeMs + phase2TimeMs;
-  const transactionsPerSecond = (TOTAL_TRANSACTIONS / totalTimeMs) * 1000;
-  const averageTimePerTx = totalTimeMs / TOTAL_TRANSACTIONS;
-  const speedupFactor = theoreticalSequentialTime / totalTimeMs;
+  const total = combine(schedules);
+  const successfulTransactions = traced
+    .flat()
+    .filter((tx) => tx.receipt.status === "success").length;
+  const failedTransactions = TOTAL_TRANSACTIONS - successfulTransactions;
+  const transactionsPerSecond = (TOTAL_TRANSACTIONS / executionTimeMs) * 1000;
+  const averageTimePerTx = executionTimeMs / TOTAL_TRANSACTIONS;
 
   console.log(`
-✨ Parallel Execution Results:
-   • Phase 1 (Order Placement): ${phase1TimeMs}ms
-   • Phase 2 (Order Matching): ${phase2TimeMs}ms
-   • Total execution time: ${totalTimeMs}ms
-   
-📊 Performance Metrics:
+✨ Execution on EDR (sequential, tracing excluded):
    • Total transactions: ${TOTAL_TRANSACTIONS}
-   • Successful: ${TOTAL_TRANSACTIONS}
-   • Failed: 0
-   • Success rate: 100.0%
+   • Successful: ${successfulTransactions}
+   • Failed: ${failedTransactions}
+   • Success rate: ${((successfulTransactions / TOTAL_TRANSACTIONS) * 100).toFixed(1)}%
+   • Orders placed: ${ordersPlaced}, fills: ${ordersMatched}
    • Throughput: ${transactionsPerSecond.toFixed(2)} tx/s
    • Average time per tx: ${averageTimePerTx.toFixed(2)}ms
-   
-🎯 Parallel Execution Speedup:
-   • Theoretical sequential time: ${theoreticalSequentialTime}ms
-   • Actual parallel time: ${totalTimeMs}ms
-   • Speedup factor: ${speedupFactor.toFixed(2)}x
-   
+   • Tracing (not counted above): ${tracingTimeMs}ms
+
+🎯 Modelled Parallel Execution (${WORKERS} workers, ${POLICY}):
+   • Sequential gas: ${total.sequentialGas}
+   • Parallel gas (busiest worker per generation): ${total.parallelGas}
+   • Speedup factor: ${total.speedup.toFixed(2)}x
+   • Generations: ${total.generations}
+   • Conflict rate: ${(total.conflictRate * 100).toFixed(1)}% of executions
+   • Re-executions: ${total.reexecuted}, reverted by conflicts: ${total.reverted}
+   • Worker utilization: ${(total.utilization * 100).toFixed(1)}%
+`);
+
+  console.log("📊 Speedup by worker count:");
+  console.table(
+    WORKER_SWEEP.map((workers) => {
+      const sweep = combine(model(workers));
+      return {
+        workers,
+        speedup: Number(sweep.speedup.toFixed(2)),
+        conflictRate: `${(sweep.conflictRate * 100).toFixed(1)}%`,
+        generations: sweep.generations,
+        utilization: `${(sweep.utilization * 100).toFixed(1)}%`,
+      };
+    })
+  );
+
+  console.log(`
 ✅ Analysis:
-   ${speedupFactor > 2.0 ? "🚀 Excellent parallel execution!" : 
-     speedupFactor > 1.5 ? "⭐ Good parallel execution!" :
-     speedupFactor > 1.2 ? "✓ Decent parallel execution!" :
+   ${total.speedup > 2.0 ? "🚀 Excellent parallel execution!" :
+     total.speedup > 1.5 ? "⭐ Good parallel execution!" :
+     total.speedup > 1.2 ? "✓ Decent parallel execution!" :
      "⚠️ Mostly sequential execution"}
-   
-   With Arcology's parallel execution engine:
-   - Orders placed concurrently without conflicts
-   - U256Cumulative ensures consistent counters
-   - Batch matching operations optimized
-   - No serialization bottlenecks
+   ${total.conflictRate === 0
+     ? "No transaction lost a conflict."
+     : `${(total.conflictRate * 100).toFixed(1)}% of executions lost a storage conflict; ` +
+       "scripts/analyze-conflicts.ts shows on which variables."}
 `);
 
   // ============================================================
   // Results Summary
   // ============================================================
-  const results: TestResults = {
-    totalTransactions: TOTAL_TRANSACTIONS,
-    successfulTransactions: TOTAL_TRANSACTIONS,
-    failedTransactions: 0,
-    totalTimeMs,
-    transactionsPerSecond,
-    averageTimePerTx,
-    ordersPlaced: totalOrdersPlaced,
-    ordersMatched: totalOrdersMatched,
-    speedupFactor,
-    theoreticalSequentialTime,
-    actualParallelTime: totalTimeMs,
-    testAccounts: TEST_ACCOUNTS,
-    timestamp: new Date().toISOString(),
+  const result: BenchmarkResult = {
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    script: "demo-parallel-execution",
+    environment: collectEnvironment(networkName, await publicClient.getChainId()),
+    config: {
+      seed: scenario.seed,
+      transactions: TOTAL_TRANSACTIONS,
+      batchSize: PARALLEL_BATCH_SIZE,
+      accounts: NUM_ACCOUNTS,
+      counterMode: CONCURRENT ? "concurrent" : "plain",
+      workers: WORKERS,
+      conflictPolicy: POLICY,
+    },
+    metrics: {
+      transactions: TOTAL_TRANSACTIONS,
+      succeeded: successfulTransactions,
+      failed: failedTransactions,
+      durationMs: executionTimeMs,
+      throughput: transactionsPerSecond,
+      gasUsed: total.sequentialGas.toString(),
+      averageGasPerTransaction: (total.sequentialGas / BigInt(TOTAL_TRANSACTIONS)).toString(),
+      speedup: total.speedup,
+      conflictRate: total.conflictRate,
+    },
+    details: {
+      ordersPlaced,
+      ordersMatched,
+      generations: total.generations,
+      reexecutions: total.reexecuted,
+      conflictReverts: total.reverted,
+      parallelGas: total.parallelGas.toString(),
+      workerUtilization: total.utilization,
+      tracingMs: tracingTimeMs,
+      testAccounts: accounts.map((account) => account.address),
+    },
   };
 
   console.log("\n📝 Full Results Summary:");
-  console.log(JSON.stringify(results, null, 2));
+  console.log(JSON.stringify(result, null, 2));
 
   // Save results to file
-  const fs = await import("fs");
-  const path = await import("path");
   const resultsDir = path.join(process.cwd(), "demo-results");
-  if (!fs.existsSync(resultsDir)) {
-    fs.mkdirSync(resultsDir);
-  }
-
-  const resultsFile = path.join(resultsDir, `demo-results-${Date.now()}.json`);
-  fs.writeFileSync(resultsFile, JSON.stringify(results, null, 2));
+  const resultsFile = saveResult(resultsDir, "demo-results", result);
   console.log(`\n💾 Results saved to: ${resultsFile}`);
 
   // Create a summary report
@@ -256,49 +350,80 @@ async function simulateParallelExecution() {
 ║          ParallelOrderBook - Parallel Execution Demo          ║
 ╚════════════════════════════════════════════════════════════════╝
 
-Test Date: ${results.timestamp}
-Test Accounts Used: ${results.testAccounts.length} (from examples/account/accounts_20.txt)
-
-EXECUTION SUMMARY:
-├─ Total Transactions: ${results.totalTransactions}
-├─ Successful: ${results.successfulTransactions}
-├─ Failed: ${results.failedTransactions}
-├─ Success Rate: ${((results.successfulTransactions / results.totalTransactions) * 100).toFixed(1)}%
-└─ Orders Matched: ${results.ordersMatched}
-
-TIMING ANALYSIS:
-├─ Theoretical Sequential Time: ${results.theoreticalSequentialTime}ms
-├─ Actual Parallel Time: ${results.actualParallelTime}ms
-├─ Speedup Factor: ${results.speedupFactor.toFixed(2)}x
-└─ Average Time Per Transaction: ${results.averageTimePerTx.toFixed(2)}ms
-
-THROUGHPUT METRICS:
-├─ Transactions Per Second: ${results.transactionsPerSecond.toFixed(2)} tx/s
-└─ Concurrent Execution: ${NUM_BATCHES} batches × ${PARALLEL_BATCH_SIZE} parallel tx
-
-KEY FINDINGS:
-✅ Parallel execution demonstrated at ${results.speedupFactor.toFixed(2)}x
-✅ All ${results.totalTransactions} transactions processed successfully
-✅ No conflicts or serialization bottlenecks observed
-✅ Throughput: ${results.transactionsPerSecond.toFixed(0)} transactions per second
-
-ARCOLOGY FEATURES DEMONSTRATED:
-✓ Concurrent order placement (no serialization)
-✓ Batch order matching operations
-✓ U256Cumulative for conflict-free counters
-✓ Parallel-safe order book operations
-✓ High-throughput transaction processing
+Test Date: ${result.environment.recordedAt}
+Test Accounts Used: ${accounts.length} (from examples/account/accounts_20.txt)
+Counter Mode: ${result.config.counterMode}
+
+EXECUTION SUMMARY (EDR):
+├─ Total Transactions: ${TOTAL_TRANSACTIONS}
+├─ Successful: ${successfulTransactions}
+├─ Failed: ${failedTransactions}
+├─ Success Rate: ${((successfulTransactions / TOTAL_TRANSACTIONS) * 100).toFixed(1)}%
+├─ Orders Placed: ${ordersPlaced}
+└─ Fills: ${ordersMatched}
+
+PARALLEL EXECUTION MODEL:
+├─ Workers: ${WORKERS}
+├─ Conflict Policy: ${POLICY}
+├─ Sequential Gas: ${total.sequentialGas}
+├─ Parallel Gas: ${total.parallelGas}
+├─ Speedup Factor: ${total.speedup.toFixed(2)}x
+├─ Conflict Rate: ${(total.conflictRate * 100).toFixed(1)}%
+├─ Re-executions: ${total.reexecuted}
+└─ Worker Utilization: ${(total.utilization * 100).toFixed(1)}%
+
+THROUGHPUT METRICS (EDR, sequential, tracing excluded):
+├─ Transactions Per Second: ${transactionsPerSecond.toFixed(2)} tx/s
+├─ Average Time Per Transaction: ${averageTimePerTx.toFixed(2)}ms
+└─ Tracing Time: ${tracingTimeMs}ms
+
+HOW THE MODEL WORKS:
+Every batch runs as one block. Each generation executes the pending
+transactions on ${WORKERS} workers and lasts as long as the busiest one, in
+gas. A transaction whose reads or writes clash with an earlier committed
+one ${POLICY === "revert" ? "is reverted" : "runs again in the next generation"}. U256Cumulative counter updates
+commute and never conflict. Gas and read/write sets come from the EDR
+traces above.
 
 ═════════════════════════════════════════════════════════════════
 Generated with ParallelOrderBook Demo
-Ready for Arcology DevNet deployment
 ═════════════════════════════════════════════════════════════════
 `;
 
   fs.writeFileSync(reportFile, report);
   console.log(`\n📄 Report saved to: ${reportFile}`);
 
-  return results;
+  return result;
+}
+
+/**
+ * Totals over the batches' schedules, each batch being one block
+ */
+function combine(schedules: ScheduleReport[]) {
+  const sum = (pick: (schedule: ScheduleReport) => number) =>
+    schedules.reduce((total, schedule) => total + pick(schedule), 0);
+  const sumGas = (pick: (schedule: ScheduleReport) => bigint) =>
+    schedules.reduce((total, schedule) => total + pick(schedule), 0n);
+
+  const executions = sum((schedule) => schedule.executions);
+  const aborted = sum((schedule) => schedule.reexecuted + schedule.reverted);
+  const parallelGas = sumGas((schedule) => schedule.parallelGas);
+  const workerGas = sum((schedule) => schedule.utilization * Number(schedule.parallelGas));
+  return {
+    generations: sum((schedule) => schedule.generations.length),
+    reexecuted: sum((schedule) => schedule.reexecuted),
+    reverted: sum((schedule) => schedule.reverted),
+    conflictRate: executions > 0 ? aborted / executions : 0,
+    sequentialGas: sumGas((schedule) => schedule.sequentialGas),
+    parallelGas,
+    speedup: parallelGas > 0n ? Number(sumGas((schedule) => schedule.committedGas)) / Number(parallelGas) : 0,
+    utilization: parallelGas > 0n ? workerGas / Number(parallelGas) : 0,
+  };
 }
 
-simulateParallelExecution().catch(console.error);
+runParallelExecutionDemo()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Demo failed:", error);
+    process.exit(1);
+  });
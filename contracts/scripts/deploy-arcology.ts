@@ -1,11 +1,23 @@
 import hre from "hardhat";
-import { JsonRpcProvider, Wallet, ContractFactory } from "ethers";
+import { formatEther, type Address } from "viem";
+
+import { deployOrderBook } from "./lib/deploy.js";
+import { saveDeployment } from "./lib/deployments.js";
 
 /**
  * Deployment script for ParallelOrderBook on Arcology
  * 
- * Uses test accounts from examples/account/accounts_20.txt
+ * Uses test accounts from examples/account/accounts_20.txt; the network's
+ * first configured account (ARCOLOGY_PRIVATE_KEY or test account #1) deploys.
+ *
+ * The book hosts one market per base/quote pair. Set BASE_TOKEN_ADDRESS and
+ * QUOTE_TOKEN_ADDRESS to list existing tokens as the first market; otherwise a
+ * MockERC20 pair is deployed alongside it. MARKET_COUNT (default 1) lists
+ * extra markets, each with a fresh MockERC20 base against the same quote token,
+ * so benchmarks can compare within-market and cross-market contention.
  * 
+ * `npx hardhat parallel-ledger deploy` does the same from the command line.
+ *
  * Usage:
  * npx hardhat run scripts/deploy-arcology.ts --network arcologyDevNet
  */
@@ -28,86 +40,56 @@ async function main() {
   });
   console.log("");
 
-  // Connect to Arcology DevNet
-  const rpcUrl = "http://localhost:8545";
-  const provider = new JsonRpcProvider(rpcUrl);
-  
-  // Private key from test accounts
-  const privateKey = "0x5bb1315c3ffa654c89f1f8b27f93cb4ef6b0474c4797cf2eb40d1bdd98dc26e7";
-  const wallet = new Wallet(privateKey, provider);
+  // Connect to the selected network (--network arcologyDevNet)
+  const connection = await hre.network.connect();
+  const { viem } = connection;
+  const publicClient = await viem.getPublicClient();
+  const [wallet] = await viem.getWalletClients();
 
-  console.log(`📍 Deploying with account: ${wallet.address}`);
+  console.log(`📍 Deploying with account: ${wallet.account.address}`);
 
   // Check balance
-  const balance = await provider.getBalance(wallet.address);
-  const balanceInEth = Number(balance) / 1e18;
-  console.log(`💰 Account balance: ${balanceInEth.toFixed(4)} ETH\n`);
+  const balance = await publicClient.getBalance({ address: wallet.account.address });
+  console.log(`💰 Account balance: ${Number(formatEther(balance)).toFixed(4)} ETH\n`);
 
   if (balance === 0n) {
     console.warn("⚠️  Warning: Account has 0 balance. Deployment may fail.");
     console.log("   Please ensure account has ETH for gas fees.\n");
   }
 
-  // Get contract artifact
-  const artifact = await hre.artifacts.readArtifact("ParallelOrderBook");
-  const factory = new ContractFactory(artifact.abi, artifact.bytecode, wallet);
-
-  // Deploy ParallelOrderBook
-  console.log("📦 Deploying ParallelOrderBook contract...");
-  const orderBook = await factory.deploy();
-  
-  // Wait for deployment with error handling
-  let deploymentReceipt;
-  try {
-    deploymentReceipt = await orderBook.waitForDeployment();
-  } catch (error: any) {
-    // If deployment receipt shows failed status, contract might still be deployed
-    if (orderBook.target) {
-      console.log("⚠️  Deployment transaction reverted, but contract exists at address");
-    } else {
-      throw error;
-    }
+  const marketCount = Number(process.env.MARKET_COUNT ?? "1");
+  const baseToken = process.env.BASE_TOKEN_ADDRESS as Address | undefined;
+  const quoteToken = process.env.QUOTE_TOKEN_ADDRESS as Address | undefined;
+  if (!baseToken || !quoteToken) {
+    console.log("🪙 No token pair configured, deploying MockERC20 base/quote...");
   }
-  
-  const contractAddress = orderBook.target || await orderBook.getAddress();
 
-  console.log(`✅ ParallelOrderBook deployed to: ${contractAddress}\n`);
+  // Arcology: U256Cumulative counters and per-trader order IDs
+  console.log(`📦 Deploying ParallelOrderBook contract with ${marketCount} market(s)...`);
+  const { record } = await deployOrderBook(viem, connection.networkName, wallet, {
+    concurrent: true,
+    baseToken,
+    quoteToken,
+    marketCount,
+  });
+  const contractAddress = record.contractAddress;
 
-  // Get block number and chain info
-  const blockNumber = await provider.getBlockNumber();
-  const network = await provider.getNetwork();
+  console.log(`✅ ParallelOrderBook deployed to: ${contractAddress}\n`);
+  console.log(`   - Quote token: ${record.quoteToken}`);
+  for (const market of record.markets ?? []) {
+    console.log(`   - Market ${market.marketId}: ${market.baseToken} / ${market.quoteToken}`);
+  }
+  console.log("");
 
   // Verify deployment
   console.log("🔍 Verifying deployment...");
-  console.log(`   - Contract deployed successfully at block ${blockNumber}`);
+  console.log(`   - Contract deployed successfully at block ${record.deploymentBlock}`);
   console.log(`   - Transaction confirmed\n`);
 
-  // Save deployment info
-  const deploymentInfo = {
-    network: "arcologyDevNet",
-    contractAddress: contractAddress,
-    deployerAddress: wallet.address,
-    deploymentBlock: blockNumber.toString(),
-    timestamp: new Date().toISOString(),
-    chainId: network.chainId.toString(),
-  };
-
   console.log("📝 Deployment Info:");
-  console.log(JSON.stringify(deploymentInfo, null, 2));
-
-  // Save to file
-  const fs = await import("fs");
-  const path = await import("path");
-  const deploymentsDir = path.join(process.cwd(), "deployments");
-  if (!fs.existsSync(deploymentsDir)) {
-    fs.mkdirSync(deploymentsDir);
-  }
+  console.log(JSON.stringify(record, null, 2));
 
-  const filename = path.join(
-    deploymentsDir,
-    `ParallelOrderBook-arcology-${Date.now()}.json`
-  );
-  fs.writeFileSync(filename, JSON.stringify(deploymentInfo, null, 2));
+  const filename = saveDeployment(record);
   console.log(`\n💾 Deployment info saved to: ${filename}`);
 
   return contractAddress;
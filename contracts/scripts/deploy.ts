@@ -1,10 +1,19 @@
-import { ethers } from "hardhat";
+import hre from "hardhat";
+import { getAddress } from "viem";
+
+import { OrderBookClient } from "./lib/client.js";
 
 async function main() {
-  const ParallelOrderBook = await ethers.getContractFactory("ParallelOrderBook");
-  const orderBook = await ParallelOrderBook.deploy();
+  const { viem } = await hre.network.connect();
+  // Plain-storage counters; deploy-arcology.ts enables the concurrent ones
+  const orderBook = await OrderBookClient.deploy(viem, false);
 
-  await orderBook.deployed();
+  if (process.env.BASE_TOKEN_ADDRESS && process.env.QUOTE_TOKEN_ADDRESS) {
+    await orderBook.createMarket(
+      getAddress(process.env.BASE_TOKEN_ADDRESS),
+      getAddress(process.env.QUOTE_TOKEN_ADDRESS)
+    );
+  }
 
   console.log("ParallelOrderBook deployed to:", orderBook.address);
 }
@@ -14,4 +23,4 @@ main()
   .catch((error) => {
     console.error(error);
     process.exit(1);
-  });
\ No newline at end of file
+  });
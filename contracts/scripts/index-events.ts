@@ -0,0 +1,109 @@
+import * as fs from "fs";
+import * as path from "path";
+import hre from "hardhat";
+
+import { OrderBookClient } from "./lib/client.js";
+import {
+  loadLatestDeployment,
+  resolveOrderBookAddress,
+} from "./lib/deployments.js";
+import { IndexerDatabase } from "./lib/indexer-db.js";
+import { OrderBookIndexer, type SyncResult } from "./lib/indexer.js";
+
+/**
+ * Event Indexer for ParallelOrderBook
+ *
+ * Rebuilds orders, fills, batch results and escrow balances from the
+ * contract's events into a SQLite database (indexer/<network>.db, or
+ * INDEXER_DB), then prints a summary. Rerunning resumes from the stored
+ * checkpoint; blocks dropped by a reorg are undone before indexing.
+ *
+ * The contract address comes from ORDER_BOOK_ADDRESS or the latest record in
+ * deployments/ for the selected network. A new database starts at FROM_BLOCK,
+ * else the deployment block. INDEXER_FOLLOW=1 keeps polling every
+ * POLL_INTERVAL_MS (default 2000) until interrupted; CONFIRMATIONS holds back
+ * the newest blocks.
+ *
+ * Usage:
+ * npx hardhat run scripts/index-events.ts --network arcologyDevNet
+ * INDEXER_FOLLOW=1 npx hardhat run scripts/index-events.ts --network arcologyDevNet
+ */
+
+function logSync(result: SyncResult) {
+  if (result.reorgedTo !== undefined) {
+    console.log(`⚠️  Reorg detected, rolled back to block ${result.reorgedTo}`);
+  }
+  if (result.fromBlock !== undefined) {
+    console.log(
+      `📥 Indexed blocks ${result.fromBlock}-${result.toBlock} (${result.events} events)`
+    );
+  }
+}
+
+async function main() {
+  console.log("🗂️  ParallelOrderBook Event Indexer\n");
+  console.log("=".repeat(60));
+
+  const connection = await hre.network.connect();
+  const { viem } = connection;
+
+  const contractAddress = resolveOrderBookAddress(connection.networkName);
+  const orderBook = await OrderBookClient.at(viem, contractAddress);
+  console.log(`📍 Order book: ${contractAddress} (${connection.networkName})`);
+
+  const dbPath =
+    process.env.INDEXER_DB ??
+    path.join(process.cwd(), "indexer", `${connection.networkName}.db`);
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new IndexerDatabase(dbPath);
+  console.log(`💾 Database: ${dbPath}`);
+
+  const startBlock = BigInt(
+    process.env.FROM_BLOCK ??
+      loadLatestDeployment(connection.networkName)?.deploymentBlock ??
+      0
+  );
+  const indexer = new OrderBookIndexer(orderBook, db, {
+    startBlock,
+    confirmations: BigInt(process.env.CONFIRMATIONS ?? 0),
+  });
+
+  const checkpoint = indexer.checkpoint;
+  console.log(
+    checkpoint
+      ? `⏩ Resuming after block ${checkpoint.blockNumber}\n`
+      : `🆕 Starting at block ${startBlock}\n`
+  );
+
+  if (process.env.INDEXER_FOLLOW === "1") {
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    console.log("👀 Following new blocks, Ctrl-C to stop");
+    await indexer.follow(Number(process.env.POLL_INTERVAL_MS ?? 2000), controller.signal, logSync);
+  } else {
+    logSync(await indexer.sync());
+  }
+
+  const open = db.getOrders({ status: "open" });
+  const fills = db.getFills();
+  const batches = db.getBatches();
+  const matched = batches.reduce((sum, batch) => sum + batch.successCount, 0n);
+  const processed = batches.reduce((sum, batch) => sum + batch.totalProcessed, 0n);
+
+  console.log("\n📊 Indexed State");
+  console.log(`   Open orders: ${open.length} (${open.filter((order) => order.isBuyOrder).length} bids)`);
+  console.log(`   Fills: ${fills.length}`);
+  console.log(`   Batches: ${batches.length} (${matched}/${processed} pairs matched)`);
+  console.log(`   Balances: ${db.getBalances().length} trader/token pairs`);
+  console.log(`   Checkpoint: block ${indexer.checkpoint?.blockNumber ?? "none"}`);
+
+  db.close();
+  console.log("\n" + "=".repeat(60) + "\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Indexing failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,107 @@
+import hre from "hardhat";
+
+import { OrderBookClient } from "./lib/client.js";
+import {
+  loadLatestDeployment,
+  resolveOrderBookAddress,
+} from "./lib/deployments.js";
+import { IndexerDatabase } from "./lib/indexer-db.js";
+import { OrderBookIndexer } from "./lib/indexer.js";
+import { OrderBookKeeper, type BatchReport } from "./lib/keeper.js";
+
+/**
+ * Matching Keeper for ParallelOrderBook
+ *
+ * Mirrors the book from contract events, finds buy/sell pairs that cross
+ * under the contract's matching rule and submits them in gas-bounded
+ * matchOrdersBatch calls, logging the OrdersProcessed success ratio of every
+ * batch. Runs a round every POLL_INTERVAL_MS (default 5000) until
+ * interrupted, or a single round with KEEPER_ONCE=1.
+ *
+ * Batches are sent from the first configured account, which needs the
+ * matcher role while the matcher allowlist is enabled. MAX_BATCH_GAS
+ * (default 10000000) and MAX_BATCH_PAIRS (default 100) bound each call;
+ * MARKET_IDS restricts the markets. The mirror lives in memory unless
+ * INDEXER_DB names a database file (see index-events.ts), and starts at
+ * FROM_BLOCK or the deployment block.
+ *
+ * The contract address comes from ORDER_BOOK_ADDRESS or the latest record in
+ * deployments/ for the selected network.
+ *
+ * Usage:
+ * npx hardhat run scripts/keeper.ts --network arcologyDevNet
+ * KEEPER_ONCE=1 MAX_BATCH_GAS=5000000 npx hardhat run scripts/keeper.ts --network arcologyDevNet
+ */
+
+function logBatch(batch: BatchReport) {
+  const ratio = batch.processed === 0 ? 0 : (Number(batch.matched) / batch.processed) * 100;
+  console.log(
+    `   ✅ Market ${batch.marketId}: matched ${batch.matched}/${batch.processed} pairs ` +
+      `(${ratio.toFixed(1)}%), gas ${batch.gasUsed} - ${batch.hash}`
+  );
+}
+
+async function main() {
+  console.log("🤖 ParallelOrderBook Matching Keeper\n");
+  console.log("=".repeat(60));
+
+  const connection = await hre.network.connect();
+  const { viem } = connection;
+  const [matcher] = await viem.getWalletClients();
+
+  const contractAddress = resolveOrderBookAddress(connection.networkName);
+  const orderBook = await OrderBookClient.at(viem, contractAddress, matcher);
+  console.log(`📍 Order book: ${contractAddress} (${connection.networkName})`);
+  console.log(`👤 Matcher: ${matcher.account.address}`);
+
+  const startBlock = BigInt(
+    process.env.FROM_BLOCK ??
+      loadLatestDeployment(connection.networkName)?.deploymentBlock ??
+      0
+  );
+  const db = new IndexerDatabase(process.env.INDEXER_DB);
+  const indexer = new OrderBookIndexer(orderBook, db, { startBlock });
+
+  const marketIds = process.env.MARKET_IDS
+    ? process.env.MARKET_IDS.split(",").map((id) => BigInt(id.trim()))
+    : undefined;
+  const keeper = new OrderBookKeeper(orderBook, indexer, {
+    marketIds,
+    maxBatchGas: process.env.MAX_BATCH_GAS ? BigInt(process.env.MAX_BATCH_GAS) : undefined,
+    maxBatchPairs: process.env.MAX_BATCH_PAIRS ? Number(process.env.MAX_BATCH_PAIRS) : undefined,
+  });
+  console.log(`🎯 Markets: ${marketIds?.join(", ") ?? "all with open orders"}\n`);
+
+  if (process.env.KEEPER_ONCE === "1") {
+    const batches = await keeper.runOnce(logBatch);
+    if (batches.length === 0) {
+      console.log("   💤 No crossing orders");
+    }
+  } else {
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    console.log("👀 Matching every round, Ctrl-C to stop");
+    await keeper.run(Number(process.env.POLL_INTERVAL_MS ?? 5000), controller.signal, logBatch);
+  }
+
+  const stats = keeper.stats;
+  console.log("\n📊 Keeper Summary");
+  console.log(`   Rounds: ${stats.rounds}`);
+  console.log(`   Batches: ${stats.batches}`);
+  console.log(`   Pairs matched: ${stats.matched}/${stats.processed}`);
+  if (stats.linked > 0) {
+    console.log(`   Orders linked: ${stats.linked}`);
+  }
+  console.log(`   Success ratio: ${(stats.successRatio * 100).toFixed(1)}%`);
+  console.log(`   Gas used: ${stats.gasUsed}`);
+
+  db.close();
+  console.log("\n" + "=".repeat(60) + "\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Keeper failed:", error);
+    process.exit(1);
+  });
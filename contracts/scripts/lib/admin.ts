@@ -0,0 +1,143 @@
+import type {
+  PublicClient,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import { keccak256, toHex, type Address, type Hash, type Hex } from "viem";
+
+import type { OrderBookContract } from "./escrow.js";
+
+/**
+ * Access control helpers for ParallelOrderBook
+ *
+ * Admins grant and revoke roles and configure fees and policies, operators
+ * pause and unpause placement and matching, and matchers are the only
+ * accounts allowed to match while the matcher allowlist is enabled. The
+ * deployer starts out as admin and operator.
+ */
+
+/** Role IDs, equal to the contract's *_ROLE constants */
+export const Role = {
+  Admin: keccak256(toHex("ADMIN_ROLE")),
+  Operator: keccak256(toHex("OPERATOR_ROLE")),
+  Matcher: keccak256(toHex("MATCHER_ROLE")),
+} as const;
+
+export type RoleName = keyof typeof Role;
+
+export interface AccessState {
+  paused: boolean;
+  matcherAllowlistEnabled: boolean;
+  /** Roles held by each queried account */
+  accounts: { account: Address; roles: RoleName[] }[];
+}
+
+/**
+ * Resolve a role from its name, case-insensitively ("matcher", "ADMIN", ...)
+ */
+export function parseRole(name: string): Hex {
+  const match = (Object.keys(Role) as RoleName[]).find(
+    (role) => role.toLowerCase() === name.toLowerCase()
+  );
+  if (!match) {
+    throw new Error(
+      `Unknown role "${name}", expected one of ${Object.keys(Role).join(", ")}`
+    );
+  }
+  return Role[match];
+}
+
+async function send(publicClient: PublicClient, pending: Promise<Hash>): Promise<Hash> {
+  const hash = await pending;
+  await publicClient.waitForTransactionReceipt({ hash });
+  return hash;
+}
+
+/**
+ * Give `account` a role; `admin` must hold the admin role
+ */
+export async function grantRole(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  admin: WalletClient,
+  role: Hex,
+  account: Address
+): Promise<Hash> {
+  return send(
+    publicClient,
+    orderBook.write.grantRole([role, account], { account: admin.account })
+  );
+}
+
+/**
+ * Take a role from `account`; `admin` must hold the admin role
+ */
+export async function revokeRole(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  admin: WalletClient,
+  role: Hex,
+  account: Address
+): Promise<Hash> {
+  return send(
+    publicClient,
+    orderBook.write.revokeRole([role, account], { account: admin.account })
+  );
+}
+
+/**
+ * Pause or unpause placement and matching; `operator` must hold the operator role
+ */
+export async function setPaused(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  operator: WalletClient,
+  paused: boolean
+): Promise<Hash> {
+  const options = { account: operator.account };
+  return send(
+    publicClient,
+    paused ? orderBook.write.pause(options) : orderBook.write.unpause(options)
+  );
+}
+
+/**
+ * Restrict matching to matchers or open it to anyone; `admin` must hold the
+ * admin role
+ */
+export async function setMatcherAllowlist(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  admin: WalletClient,
+  enabled: boolean
+): Promise<Hash> {
+  return send(
+    publicClient,
+    orderBook.write.setMatcherAllowlist([enabled], { account: admin.account })
+  );
+}
+
+/**
+ * Pause and allowlist flags plus the roles each of `accounts` holds
+ */
+export async function getAccessState(
+  orderBook: OrderBookContract,
+  accounts: Address[]
+): Promise<AccessState> {
+  const [paused, matcherAllowlistEnabled] = await Promise.all([
+    orderBook.read.paused(),
+    orderBook.read.matcherAllowlistEnabled(),
+  ]);
+
+  const held = [];
+  for (const account of accounts) {
+    const roles: RoleName[] = [];
+    for (const name of Object.keys(Role) as RoleName[]) {
+      if (await orderBook.read.hasRole([Role[name], account])) {
+        roles.push(name);
+      }
+    }
+    held.push({ account, roles });
+  }
+
+  return { paused, matcherAllowlistEnabled, accounts: held };
+}
@@ -0,0 +1,682 @@
+import type {
+  HardhatViemHelpers,
+  PublicClient,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  encodeFunctionData,
+  isHex,
+  parseEventLogs,
+  type Address,
+  type ContractErrorName,
+  type Hash,
+  type Hex,
+  type TransactionReceipt,
+} from "viem";
+
+import {
+  getAccessState,
+  grantRole,
+  revokeRole,
+  setMatcherAllowlist,
+  setPaused,
+  type AccessState,
+} from "./admin.js";
+import {
+  approveAndDeposit,
+  getEscrowBalance,
+  withdrawFromBook,
+  type EscrowBalance,
+  type OrderBookContract,
+  type TokenContract,
+} from "./escrow.js";
+import { getFeeRevenueByTrader, type BlockRange, type FeeRevenue } from "./fees.js";
+import { findLevelHint, listMarkets, readMarket, type MarketView } from "./markets.js";
+import {
+  amendOrder,
+  getOpenOrderIds,
+  getTraderOpenOrderIds,
+  OrderType,
+  readOrder,
+  type OrderAmendment,
+  type OrderView,
+} from "./orders.js";
+
+/**
+ * Typed client for ParallelOrderBook
+ *
+ * One access layer for scripts: typed methods for placing, cancelling and
+ * matching orders and for the views, built on the compiled artifact through
+ * hardhat-viem. Every call that reverts with one of the contract's custom
+ * errors throws an `OrderBookError` carrying the decoded error name and
+ * arguments, and writes return typed results decoded from their receipts
+ * (the placed `orderId`, the fills, the cancelled IDs...).
+ */
+
+export type OrderBookAbi = OrderBookContract["abi"];
+export type OrderBookErrorName = ContractErrorName<OrderBookAbi>;
+
+/**
+ * A call reverted with one of ParallelOrderBook's custom errors
+ */
+export class OrderBookError<
+  TName extends OrderBookErrorName = OrderBookErrorName,
+> extends Error {
+  readonly errorName: TName;
+  /** Decoded error arguments, in declaration order */
+  readonly args: readonly unknown[];
+
+  constructor(errorName: TName, args: readonly unknown[], options?: ErrorOptions) {
+    const formatted = args.map(String).join(", ");
+    super(`ParallelOrderBook reverted with ${errorName}(${formatted})`, options);
+    this.name = "OrderBookError";
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
+/**
+ * Whether `error` is an `OrderBookError`, optionally of one specific kind
+ */
+export function isOrderBookError<TName extends OrderBookErrorName>(
+  error: unknown,
+  errorName?: TName
+): error is OrderBookError<TName> {
+  return (
+    error instanceof OrderBookError &&
+    (errorName === undefined || error.errorName === errorName)
+  );
+}
+
+/**
+ * Decode the custom error behind a failed call, if it is one of the book's.
+ * Works on viem errors and on anything carrying raw revert data.
+ */
+export function decodeOrderBookError(
+  abi: OrderBookAbi,
+  error: unknown
+): OrderBookError | undefined {
+  if (error instanceof OrderBookError) {
+    return error;
+  }
+
+  if (error instanceof BaseError) {
+    const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError && reverted.data?.errorName) {
+      const decoded = reverted.data as { errorName: string; args?: readonly unknown[] };
+      if (abi.some((item) => item.type === "error" && item.name === decoded.errorName)) {
+        return new OrderBookError(decoded.errorName as OrderBookErrorName, decoded.args ?? [], {
+          cause: error,
+        });
+      }
+    }
+  }
+
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      const decoded = decodeErrorResult({ abi, data });
+      return new OrderBookError(decoded.errorName, decoded.args ?? [], {
+        cause: error,
+      });
+    } catch {
+      // Not one of ours (e.g. a token's revert)
+    }
+  }
+  return undefined;
+}
+
+function findRevertData(error: unknown, depth = 0): Hex | undefined {
+  if (typeof error !== "object" || error === null || depth > 8) {
+    return undefined;
+  }
+  const { data, cause } = error as { data?: unknown; cause?: unknown };
+  if (typeof data === "string" && isHex(data) && data.length >= 10) {
+    return data;
+  }
+  if (typeof data === "object" && data !== null) {
+    const nested = findRevertData(data, depth + 1);
+    if (nested) {
+      return nested;
+    }
+  }
+  return findRevertData(cause, depth + 1);
+}
+
+export interface PlaceOrderParams {
+  marketId: bigint;
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  isBuyOrder: boolean;
+  /** Defaults to a limit order */
+  orderType?: OrderType;
+  /** Resting orders to take on placement, 0 = rest only */
+  maxFills?: bigint;
+  /** Unix timestamp, 0 = good-til-cancelled */
+  expiresAt?: bigint;
+  /** Price of a better level to link a new level after, see `findLevelHint` */
+  levelHint?: bigint;
+}
+
+/** One fill as reported by OrderMatched */
+export interface OrderFill {
+  marketId: bigint;
+  buyOrderId: bigint;
+  sellOrderId: bigint;
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  buyer: Address;
+  seller: Address;
+  buyerFee: bigint;
+  sellerFee: bigint;
+}
+
+/** One removed order as reported by OrderCancelled */
+export interface CancelledOrder {
+  orderId: bigint;
+  marketId: bigint;
+  trader: Address;
+  reason: string;
+}
+
+export interface TransactionResult {
+  hash: Hash;
+  gasUsed: bigint;
+  blockNumber: bigint;
+}
+
+export interface PlacedOrder extends TransactionResult {
+  orderId: bigint;
+  /** Fills taken on placement */
+  fills: OrderFill[];
+  /** Orders removed on placement: unfilled remainders, self-trades, expired makers */
+  cancelled: CancelledOrder[];
+}
+
+export interface MatchResult extends TransactionResult {
+  matchCount: bigint;
+  fills: OrderFill[];
+  cancelled: CancelledOrder[];
+}
+
+export interface LinkResult extends TransactionResult {
+  /** Orders linked into their price levels, from OrderLinked */
+  linked: bigint[];
+}
+
+export interface CancelResult extends TransactionResult {
+  cancelled: CancelledOrder[];
+}
+
+export interface AmendResult extends TransactionResult, OrderAmendment {}
+
+export interface MarketCreated extends TransactionResult {
+  marketId: bigint;
+}
+
+export interface OrderBookStats {
+  placed: bigint;
+  matched: bigint;
+  cancelled: bigint;
+}
+
+export interface FeeSchedule {
+  makerFeeBps: number;
+  takerFeeBps: number;
+}
+
+/**
+ * Calldata for a `placeOrder` call; picks the plain overload unless an order
+ * type, fill budget, expiry or level hint is set
+ */
+export function encodePlaceOrder(abi: OrderBookAbi, params: PlaceOrderParams): Hex {
+  const { marketId, baseAmount, quoteAmount, isBuyOrder } = params;
+  if (params.levelHint !== undefined) {
+    return encodeFunctionData({
+      abi,
+      functionName: "placeOrder",
+      args: [
+        marketId,
+        baseAmount,
+        quoteAmount,
+        isBuyOrder,
+        params.orderType ?? OrderType.Limit,
+        params.maxFills ?? 0n,
+        params.expiresAt ?? 0n,
+        params.levelHint,
+      ],
+    });
+  }
+  if (
+    params.orderType === undefined &&
+    params.maxFills === undefined &&
+    params.expiresAt === undefined
+  ) {
+    return encodeFunctionData({
+      abi,
+      functionName: "placeOrder",
+      args: [marketId, baseAmount, quoteAmount, isBuyOrder],
+    });
+  }
+  return encodeFunctionData({
+    abi,
+    functionName: "placeOrder",
+    args: [
+      marketId,
+      baseAmount,
+      quoteAmount,
+      isBuyOrder,
+      params.orderType ?? OrderType.Limit,
+      params.maxFills ?? 0n,
+      params.expiresAt ?? 0n,
+    ],
+  });
+}
+
+export class OrderBookClient {
+  readonly contract: OrderBookContract;
+  readonly publicClient: PublicClient;
+  readonly wallet: WalletClient | undefined;
+
+  constructor(
+    contract: OrderBookContract,
+    publicClient: PublicClient,
+    wallet?: WalletClient
+  ) {
+    this.contract = contract;
+    this.publicClient = publicClient;
+    this.wallet = wallet;
+  }
+
+  /**
+   * Deploy a new order book; `concurrent` selects Arcology's concurrent
+   * counters (see `isArcologyNetwork`)
+   */
+  static async deploy(
+    viem: HardhatViemHelpers,
+    concurrent: boolean,
+    wallet?: WalletClient
+  ): Promise<OrderBookClient> {
+    const publicClient = await viem.getPublicClient();
+    const sender = wallet ?? (await viem.getWalletClients())[0];
+    const contract = await viem.deployContract("ParallelOrderBook", [concurrent], {
+      client: { wallet: sender },
+    });
+    return new OrderBookClient(contract, publicClient, sender);
+  }
+
+  /**
+   * Attach to a deployed order book, sending from `wallet` (default: the
+   * first configured account, if any)
+   */
+  static async at(
+    viem: HardhatViemHelpers,
+    address: Address,
+    wallet?: WalletClient
+  ): Promise<OrderBookClient> {
+    const publicClient = await viem.getPublicClient();
+    const sender = wallet ?? (await viem.getWalletClients())[0];
+    const contract = await viem.getContractAt("ParallelOrderBook", address, {
+      client: { public: publicClient, wallet: sender },
+    });
+    return new OrderBookClient(contract, publicClient, sender);
+  }
+
+  get address(): Address {
+    return this.contract.address;
+  }
+
+  get abi(): OrderBookAbi {
+    return this.contract.abi;
+  }
+
+  /**
+   * The same order book, sending from another account
+   */
+  connect(wallet: WalletClient): OrderBookClient {
+    return new OrderBookClient(this.contract, this.publicClient, wallet);
+  }
+
+  // ========== Orders ==========
+
+  async placeOrder(params: PlaceOrderParams): Promise<PlacedOrder> {
+    const data = encodePlaceOrder(this.abi, params);
+    const receipt = await this.send(() =>
+      this.signer.sendTransaction({ account: this.account, to: this.address, data })
+    );
+
+    const [placed] = parseEventLogs({
+      abi: this.abi,
+      eventName: "OrderPlaced",
+      logs: receipt.logs,
+    });
+    if (!placed) {
+      throw new Error(`placeOrder emitted no OrderPlaced (${receipt.transactionHash})`);
+    }
+    return {
+      ...this.result(receipt),
+      orderId: placed.args.orderId,
+      fills: this.fills(receipt),
+      cancelled: this.cancellations(receipt),
+    };
+  }
+
+  async amendOrder(
+    orderId: bigint,
+    baseAmount: bigint,
+    quoteAmount: bigint,
+    levelHint?: bigint
+  ): Promise<AmendResult> {
+    const amendment = await this.call(() =>
+      amendOrder(
+        this.publicClient,
+        this.contract,
+        this.signer,
+        orderId,
+        baseAmount,
+        quoteAmount,
+        levelHint
+      )
+    );
+    const receipt = await this.publicClient.getTransactionReceipt({
+      hash: amendment.transactionHash,
+    });
+    return { ...this.result(receipt), ...amendment };
+  }
+
+  async cancelOrder(orderId: bigint): Promise<CancelResult> {
+    return this.cancelWith(() =>
+      this.contract.write.cancelOrder([orderId], { account: this.account })
+    );
+  }
+
+  /**
+   * Cancel several of the sender's orders; IDs no longer open are skipped
+   */
+  async cancelOrders(orderIds: bigint[]): Promise<CancelResult> {
+    return this.cancelWith(() =>
+      this.contract.write.cancelOrders([orderIds], { account: this.account })
+    );
+  }
+
+  /**
+   * Cancel up to `maxCount` of the sender's open orders, newest first
+   */
+  async cancelAll(maxCount: bigint): Promise<CancelResult> {
+    return this.cancelWith(() =>
+      this.contract.write.cancelAll([maxCount], { account: this.account })
+    );
+  }
+
+  /**
+   * Sweep expired orders of any trader; IDs not yet expired are skipped
+   */
+  async cancelExpiredOrders(orderIds: bigint[]): Promise<CancelResult> {
+    return this.cancelWith(() =>
+      this.contract.write.cancelExpiredOrders([orderIds], { account: this.account })
+    );
+  }
+
+  /**
+   * Match buy/sell pairs (by index) within one market
+   */
+  async matchOrders(
+    marketId: bigint,
+    buyOrderIds: bigint[],
+    sellOrderIds: bigint[]
+  ): Promise<MatchResult> {
+    const receipt = await this.send(() =>
+      this.contract.write.matchOrdersBatch([marketId, buyOrderIds, sellOrderIds], {
+        account: this.account,
+      })
+    );
+    const [processed] = parseEventLogs({
+      abi: this.abi,
+      eventName: "OrdersProcessed",
+      logs: receipt.logs,
+    });
+    return {
+      ...this.result(receipt),
+      matchCount: processed?.args.successCount ?? 0n,
+      fills: this.fills(receipt),
+      cancelled: this.cancellations(receipt),
+    };
+  }
+
+  /**
+   * Link resting orders into their price levels (concurrent mode defers
+   * this from placement); IDs not open or already linked are skipped
+   */
+  async linkOrders(orderIds: bigint[], levelHints: bigint[]): Promise<LinkResult> {
+    const receipt = await this.send(() =>
+      this.contract.write.linkOrders([orderIds, levelHints], { account: this.account })
+    );
+    const linked = parseEventLogs({
+      abi: this.abi,
+      eventName: "OrderLinked",
+      logs: receipt.logs,
+    }).map((log) => log.args.orderId);
+    return { ...this.result(receipt), linked };
+  }
+
+  async isOrderLinked(orderId: bigint): Promise<boolean> {
+    return this.call(() => this.contract.read.isOrderLinked([orderId]));
+  }
+
+  /**
+   * Gas `matchOrders` would use for these pairs against the current state
+   */
+  async estimateMatchGas(
+    marketId: bigint,
+    buyOrderIds: bigint[],
+    sellOrderIds: bigint[]
+  ): Promise<bigint> {
+    return this.call(() =>
+      this.contract.estimateGas.matchOrdersBatch([marketId, buyOrderIds, sellOrderIds], {
+        account: this.account,
+      })
+    );
+  }
+
+  // ========== Markets and Escrow ==========
+
+  async createMarket(baseToken: Address, quoteToken: Address): Promise<MarketCreated> {
+    const receipt = await this.send(() =>
+      this.contract.write.createMarket([baseToken, quoteToken], { account: this.account })
+    );
+    const [created] = parseEventLogs({
+      abi: this.abi,
+      eventName: "MarketCreated",
+      logs: receipt.logs,
+    });
+    if (!created) {
+      throw new Error(`createMarket emitted no MarketCreated (${receipt.transactionHash})`);
+    }
+    return { ...this.result(receipt), marketId: created.args.marketId };
+  }
+
+  /**
+   * Approve and deposit `amount` of `token` for the sender
+   */
+  async deposit(token: TokenContract, amount: bigint): Promise<Hash> {
+    return this.call(() =>
+      approveAndDeposit(this.publicClient, this.contract, token, this.signer, amount)
+    );
+  }
+
+  async withdraw(token: Address, amount: bigint): Promise<Hash> {
+    return this.call(() =>
+      withdrawFromBook(this.publicClient, this.contract, token, this.signer, amount)
+    );
+  }
+
+  // ========== Administration ==========
+
+  async grantRole(role: Hex, account: Address): Promise<Hash> {
+    return this.call(() =>
+      grantRole(this.publicClient, this.contract, this.signer, role, account)
+    );
+  }
+
+  async revokeRole(role: Hex, account: Address): Promise<Hash> {
+    return this.call(() =>
+      revokeRole(this.publicClient, this.contract, this.signer, role, account)
+    );
+  }
+
+  async setPaused(paused: boolean): Promise<Hash> {
+    return this.call(() => setPaused(this.publicClient, this.contract, this.signer, paused));
+  }
+
+  async setMatcherAllowlist(enabled: boolean): Promise<Hash> {
+    return this.call(() =>
+      setMatcherAllowlist(this.publicClient, this.contract, this.signer, enabled)
+    );
+  }
+
+  // ========== Views ==========
+
+  async getOrder(orderId: bigint): Promise<OrderView> {
+    return this.call(() => readOrder(this.contract, orderId));
+  }
+
+  /**
+   * Level hint for a new order at `price`, see `findLevelHint`
+   */
+  async findLevelHint(marketId: bigint, isBuyOrder: boolean, price: bigint): Promise<bigint> {
+    return this.call(() => findLevelHint(this.contract, marketId, isBuyOrder, price));
+  }
+
+  async getMarket(marketId: bigint): Promise<MarketView> {
+    return this.call(() => readMarket(this.contract, marketId));
+  }
+
+  async listMarkets(): Promise<MarketView[]> {
+    return this.call(() => listMarkets(this.contract));
+  }
+
+  async getOpenOrderIds(marketId: bigint, isBuyOrder: boolean): Promise<bigint[]> {
+    return this.call(() => getOpenOrderIds(this.contract, marketId, isBuyOrder));
+  }
+
+  async getTraderOpenOrderIds(trader: Address): Promise<bigint[]> {
+    return this.call(() => getTraderOpenOrderIds(this.contract, trader));
+  }
+
+  async getBalance(trader: Address, token: Address): Promise<EscrowBalance> {
+    return this.call(() => getEscrowBalance(this.contract, trader, token));
+  }
+
+  async getStats(marketId: bigint): Promise<OrderBookStats> {
+    const [placed, matched, cancelled] = await this.call(() =>
+      this.contract.read.getOrderBookStats([marketId])
+    );
+    return { placed, matched, cancelled };
+  }
+
+  /**
+   * Counters across all markets
+   */
+  async getTotals(): Promise<OrderBookStats> {
+    const [placed, matched, cancelled] = await Promise.all([
+      this.contract.read.totalOrdersPlaced(),
+      this.contract.read.totalOrdersMatched(),
+      this.contract.read.totalOrdersCancelled(),
+    ]);
+    return { placed, matched, cancelled };
+  }
+
+  async getFeeSchedule(): Promise<FeeSchedule> {
+    const [makerFeeBps, takerFeeBps] = await Promise.all([
+      this.contract.read.makerFeeBps(),
+      this.contract.read.takerFeeBps(),
+    ]);
+    return { makerFeeBps, takerFeeBps };
+  }
+
+  async collectableFees(token: Address): Promise<bigint> {
+    return this.contract.read.collectableFees([token]);
+  }
+
+  /**
+   * Fees paid per trader and quote token, from OrderMatched events
+   */
+  async getFeeRevenueByTrader(range: BlockRange = {}): Promise<FeeRevenue[]> {
+    return getFeeRevenueByTrader(this.contract, range);
+  }
+
+  /**
+   * Pause and allowlist flags plus the roles each of `accounts` holds
+   */
+  async getAccessState(accounts: Address[]): Promise<AccessState> {
+    return getAccessState(this.contract, accounts);
+  }
+
+  // ========== Internals ==========
+
+  private get signer(): WalletClient {
+    if (!this.wallet) {
+      throw new Error("OrderBookClient has no wallet; use connect(wallet) to send transactions");
+    }
+    return this.wallet;
+  }
+
+  private get account(): WalletClient["account"] {
+    return this.signer.account;
+  }
+
+  /**
+   * Run a read or a helper, rethrowing reverts as `OrderBookError`
+   */
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw decodeOrderBookError(this.abi, error) ?? error;
+    }
+  }
+
+  /**
+   * Send a transaction and wait for a successful receipt
+   */
+  private async send(write: () => Promise<Hash>): Promise<TransactionReceipt> {
+    const hash = await this.call(write);
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  private async cancelWith(write: () => Promise<Hash>): Promise<CancelResult> {
+    const receipt = await this.send(write);
+    return { ...this.result(receipt), cancelled: this.cancellations(receipt) };
+  }
+
+  private result(receipt: TransactionReceipt): TransactionResult {
+    return {
+      hash: receipt.transactionHash,
+      gasUsed: receipt.gasUsed,
+      blockNumber: receipt.blockNumber,
+    };
+  }
+
+  private fills(receipt: TransactionReceipt): OrderFill[] {
+    return parseEventLogs({
+      abi: this.abi,
+      eventName: "OrderMatched",
+      logs: receipt.logs,
+    }).map((log) => log.args);
+  }
+
+  private cancellations(receipt: TransactionReceipt): CancelledOrder[] {
+    return parseEventLogs({
+      abi: this.abi,
+      eventName: "OrderCancelled",
+      logs: receipt.logs,
+    }).map((log) => log.args);
+  }
+}
@@ -0,0 +1,374 @@
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+import {
+  getAddress,
+  keccak256,
+  type Address,
+  type Hash,
+  type Hex,
+  type TransactionReceipt,
+} from "viem";
+
+import { traceStorageAccess, type StorageAccess } from "./trace.js";
+
+/**
+ * Storage conflict analysis for a batch of transactions
+ *
+ * Each transaction is executed in order on a local EDR network and traced
+ * with the prestate tracer for the slots it read and wrote. Two transactions
+ * conflict when one writes a slot the other reads or writes: an optimistic
+ * parallel executor such as Arcology's would roll one of them back. Writes to
+ * commutative contracts (the U256Cumulative counters) are left out, since
+ * Arcology merges those instead.
+ *
+ * From the conflict graph the analysis derives the largest set of
+ * transactions that can all run in one parallel round, and a greedy split of
+ * the whole batch into conflict-free rounds. Batch size over the number of
+ * rounds is the theoretical speedup; weighting each round by its most
+ * expensive transaction gives the same in gas.
+ *
+ * Access sets come from sequential execution, so a transaction whose path
+ * depends on an earlier one (a taker crossing an order placed just before)
+ * is traced on the path it took serially.
+ */
+
+/** What the analyses need of a transaction: its accesses, gas and status */
+export interface TracedAccess {
+  receipt: Pick<TransactionReceipt, "status" | "gasUsed">;
+  reads: StorageAccess[];
+  writes: StorageAccess[];
+}
+
+export interface TracedTransaction extends TracedAccess {
+  hash: Hash;
+  from: Address;
+  receipt: TransactionReceipt;
+}
+
+export type ConflictKind = "write-write" | "read-write";
+
+export interface SlotConflict {
+  address: Address;
+  slot: Hex;
+  label: string;
+  kind: ConflictKind;
+}
+
+/** Two conflicting transactions, by index in the batch, and the slots they share */
+export interface ConflictEdge {
+  a: number;
+  b: number;
+  slots: SlotConflict[];
+}
+
+/** Conflicting pairs per variable, mapping keys folded (`markets[].bestBid`) */
+export interface VariableConflicts {
+  variable: string;
+  kind: ConflictKind;
+  pairs: number;
+}
+
+export interface ConflictAnalysisOptions {
+  /** Readable name of a storage slot */
+  label: (address: Address, slot: Hex) => string;
+  /** Contracts whose writes commute and never conflict */
+  commutative?: ReadonlySet<Address>;
+  /** Search steps per graph component before settling for the greedy set (default 100000) */
+  searchBudget?: number;
+}
+
+export interface ConflictReport {
+  transactions: number;
+  reverted: number;
+  edges: ConflictEdge[];
+  /** Transactions that conflict with no other */
+  independent: number;
+  variables: VariableConflicts[];
+  /** Largest set of mutually conflict-free transactions */
+  largestConflictFree: number[];
+  /** False when a component was too large to search exhaustively */
+  exact: boolean;
+  /** Conflict-free rounds from greedy colouring, largest first */
+  rounds: number[][];
+  /** Transactions per round on average */
+  speedup: number;
+  /** Total gas over the summed gas of each round's most expensive transaction */
+  gasSpeedup: number;
+}
+
+const DEFAULT_SEARCH_BUDGET = 100_000;
+
+/**
+ * Send the raw transactions one by one, each once the previous one is mined.
+ * Reverting transactions are mined too and yield their receipts.
+ */
+export async function executeTransactions(
+  publicClient: PublicClient,
+  rawTxs: Hex[]
+): Promise<TransactionReceipt[]> {
+  const receipts: TransactionReceipt[] = [];
+  for (const rawTx of rawTxs) {
+    const hash = keccak256(rawTx);
+    try {
+      await publicClient.sendRawTransaction({ serializedTransaction: rawTx });
+    } catch (error) {
+      // Hardhat mines a reverting transaction and still fails the send
+      const known = await publicClient.getTransaction({ hash }).then(() => true, () => false);
+      if (!known) {
+        throw error;
+      }
+    }
+    receipts.push(await publicClient.waitForTransactionReceipt({ hash }));
+  }
+  return receipts;
+}
+
+/**
+ * Trace the storage reads and writes of mined transactions; reverting ones
+ * still read storage
+ */
+export async function traceTransactions(
+  publicClient: PublicClient,
+  receipts: TransactionReceipt[],
+  onProgress?: (traced: number, total: number) => void
+): Promise<TracedTransaction[]> {
+  const traced: TracedTransaction[] = [];
+  for (const receipt of receipts) {
+    const hash = receipt.transactionHash;
+    const { reads, writes } = await traceStorageAccess(publicClient, hash);
+    traced.push({
+      hash,
+      from: getAddress(receipt.from),
+      receipt,
+      reads,
+      writes,
+    });
+    onProgress?.(traced.length, receipts.length);
+  }
+  return traced;
+}
+
+/**
+ * Send the raw transactions one by one, then trace them
+ */
+export async function executeAndTrace(
+  publicClient: PublicClient,
+  rawTxs: Hex[],
+  onProgress?: (traced: number, total: number) => void
+): Promise<TracedTransaction[]> {
+  const receipts = await executeTransactions(publicClient, rawTxs);
+  return traceTransactions(publicClient, receipts, onProgress);
+}
+
+/**
+ * Build the conflict graph of traced transactions and summarize it
+ */
+export function analyzeConflicts(
+  transactions: TracedAccess[],
+  options: ConflictAnalysisOptions
+): ConflictReport {
+  const commutative = options.commutative ?? new Set<Address>();
+  const counted = (access: StorageAccess) => !commutative.has(access.address);
+
+  // Who read and who wrote each slot
+  const slots = new Map<string, { access: StorageAccess; readers: number[]; writers: number[] }>();
+  const touch = (access: StorageAccess, index: number, role: "readers" | "writers") => {
+    const id = `${access.address}:${access.slot}`;
+    const entry = slots.get(id) ?? { access, readers: [], writers: [] };
+    entry[role].push(index);
+    slots.set(id, entry);
+  };
+  transactions.forEach((tx, index) => {
+    tx.reads.filter(counted).forEach((access) => touch(access, index, "readers"));
+    tx.writes.filter(counted).forEach((access) => touch(access, index, "writers"));
+  });
+
+  const edges = new Map<string, ConflictEdge>();
+  const conflict = (i: number, j: number, access: StorageAccess, kind: ConflictKind) => {
+    const [a, b] = i < j ? [i, j] : [j, i];
+    const id = `${a}:${b}`;
+    const edge = edges.get(id) ?? { a, b, slots: [] };
+    edge.slots.push({ ...access, label: options.label(access.address, access.slot), kind });
+    edges.set(id, edge);
+  };
+  for (const { access, readers, writers } of slots.values()) {
+    writers.forEach((writer, w) => {
+      writers.slice(w + 1).forEach((other) => conflict(writer, other, access, "write-write"));
+      readers.forEach((reader) => conflict(writer, reader, access, "read-write"));
+    });
+  }
+
+  const sortedEdges = [...edges.values()].sort((x, y) => x.a - y.a || x.b - y.b);
+  const neighbours = transactions.map(() => new Set<number>());
+  for (const { a, b } of sortedEdges) {
+    neighbours[a].add(b);
+    neighbours[b].add(a);
+  }
+
+  const { set, exact } = largestConflictFreeSet(
+    neighbours,
+    options.searchBudget ?? DEFAULT_SEARCH_BUDGET
+  );
+  const rounds = conflictFreeRounds(neighbours);
+  const gas = transactions.map((tx) => tx.receipt.gasUsed);
+  const totalGas = gas.reduce((sum, used) => sum + used, 0n);
+  const roundGas = rounds.reduce(
+    (sum, round) => sum + round.reduce((max, i) => (gas[i] > max ? gas[i] : max), 0n),
+    0n
+  );
+
+  return {
+    transactions: transactions.length,
+    reverted: transactions.filter((tx) => tx.receipt.status !== "success").length,
+    edges: sortedEdges,
+    independent: neighbours.filter((adjacent) => adjacent.size === 0).length,
+    variables: variableConflicts(sortedEdges),
+    largestConflictFree: set,
+    exact,
+    rounds,
+    speedup: rounds.length > 0 ? transactions.length / rounds.length : 0,
+    gasSpeedup: roundGas > 0n ? Number(totalGas) / Number(roundGas) : 0,
+  };
+}
+
+/**
+ * Fold the mapping keys and array indices out of a slot label, so
+ * `bidLevels[m1][@2].tail` and `bidLevels[m2][@3].tail` count together
+ */
+export function variableOf(label: string): string {
+  return label.replace(/\[[^\]]*\]/g, "[]").replace(/slot 0x[0-9a-f]+$/, "(unlabelled)");
+}
+
+function variableConflicts(edges: ConflictEdge[]): VariableConflicts[] {
+  const pairs = new Map<string, VariableConflicts>();
+  for (const edge of edges) {
+    // A pair counts once per variable and kind, however many slots it shares
+    const seen = new Set<string>();
+    for (const { label, kind } of edge.slots) {
+      const variable = variableOf(label);
+      const id = `${variable}:${kind}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const entry = pairs.get(id) ?? { variable, kind, pairs: 0 };
+      entry.pairs++;
+      pairs.set(id, entry);
+    }
+  }
+  return [...pairs.values()].sort((a, b) => b.pairs - a.pairs || a.variable.localeCompare(b.variable));
+}
+
+/**
+ * Maximum independent set of the conflict graph, searched per connected
+ * component by branch and bound. A component that exhausts `budget` search
+ * steps keeps the best set found so far, starting from a greedy one.
+ */
+export function largestConflictFreeSet(
+  neighbours: ReadonlySet<number>[],
+  budget: number
+): { set: number[]; exact: boolean } {
+  const set: number[] = [];
+  let exact = true;
+  const assigned = new Set<number>();
+
+  for (let start = 0; start < neighbours.length; start++) {
+    if (assigned.has(start)) continue;
+    const component = [start];
+    assigned.add(start);
+    for (let i = 0; i < component.length; i++) {
+      for (const next of neighbours[component[i]]) {
+        if (!assigned.has(next)) {
+          assigned.add(next);
+          component.push(next);
+        }
+      }
+    }
+
+    let best = greedyIndependentSet(component, neighbours);
+    let steps = 0;
+    const search = (candidates: number[], chosen: number[]): void => {
+      if (chosen.length + candidates.length <= best.length) return;
+      if (++steps > budget) return;
+
+      // Branch on the candidate with the most conflicts left among the others
+      const remaining = new Set(candidates);
+      let pivot = candidates[0];
+      let degree = -1;
+      for (const candidate of candidates) {
+        const count = conflictsWithin(candidate, remaining, neighbours);
+        if (count > degree) {
+          pivot = candidate;
+          degree = count;
+        }
+      }
+      if (degree <= 0) {
+        best = [...chosen, ...candidates];
+        return;
+      }
+      search(
+        candidates.filter((other) => other !== pivot && !neighbours[pivot].has(other)),
+        [...chosen, pivot]
+      );
+      search(candidates.filter((other) => other !== pivot), chosen);
+    };
+    search(component, []);
+
+    exact &&= steps <= budget;
+    set.push(...best);
+  }
+  return { set: set.sort((a, b) => a - b), exact };
+}
+
+function conflictsWithin(
+  node: number,
+  nodes: ReadonlySet<number>,
+  neighbours: ReadonlySet<number>[]
+): number {
+  let count = 0;
+  for (const other of neighbours[node]) {
+    if (nodes.has(other)) count++;
+  }
+  return count;
+}
+
+/** Repeatedly take the node with the fewest conflicts left */
+function greedyIndependentSet(nodes: number[], neighbours: ReadonlySet<number>[]): number[] {
+  const remaining = new Set(nodes);
+  const chosen: number[] = [];
+  while (remaining.size > 0) {
+    let pick = -1;
+    let degree = Infinity;
+    for (const node of remaining) {
+      const count = conflictsWithin(node, remaining, neighbours);
+      if (count < degree) {
+        pick = node;
+        degree = count;
+      }
+    }
+    chosen.push(pick);
+    remaining.delete(pick);
+    neighbours[pick].forEach((other) => remaining.delete(other));
+  }
+  return chosen;
+}
+
+/**
+ * Greedy colouring, most conflicted transactions first: each round is
+ * conflict-free, though not necessarily the fewest rounds possible
+ */
+function conflictFreeRounds(neighbours: ReadonlySet<number>[]): number[][] {
+  const order = neighbours
+    .map((adjacent, index) => ({ index, degree: adjacent.size }))
+    .sort((x, y) => y.degree - x.degree || x.index - y.index);
+  const colour = new Map<number, number>();
+  const rounds: number[][] = [];
+  for (const { index } of order) {
+    const taken = new Set([...neighbours[index]].map((other) => colour.get(other)));
+    let round = 0;
+    while (taken.has(round)) round++;
+    colour.set(index, round);
+    (rounds[round] ??= []).push(index);
+  }
+  return rounds
+    .map((round) => round.sort((a, b) => a - b))
+    .sort((x, y) => y.length - x.length || x[0] - y[0]);
+}
+
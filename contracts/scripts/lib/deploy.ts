@@ -0,0 +1,91 @@
+import type {
+  HardhatViemHelpers,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import { getAddress, type Address } from "viem";
+
+import { OrderBookClient } from "./client.js";
+import type { DeploymentRecord, MarketRecord } from "./deployments.js";
+
+/**
+ * Deploys ParallelOrderBook with its first markets and describes the result
+ * as a deployment record, for deploy-arcology.ts and `parallel-ledger deploy`
+ */
+
+export interface DeployOptions {
+  /** Concurrent (U256Cumulative) counters, see `isArcologyNetwork` */
+  concurrent: boolean;
+  /** Pair listed as market 1; a MockERC20 pair is deployed when either is unset */
+  baseToken?: Address;
+  quoteToken?: Address;
+  /** Markets to list (default 1); each extra one gets a fresh MockERC20 base against the same quote */
+  marketCount?: number;
+}
+
+export interface Deployment {
+  orderBook: OrderBookClient;
+  record: DeploymentRecord;
+}
+
+export async function deployOrderBook(
+  viem: HardhatViemHelpers,
+  network: string,
+  wallet: WalletClient,
+  options: DeployOptions
+): Promise<Deployment> {
+  const marketCount = options.marketCount ?? 1;
+  if (!Number.isInteger(marketCount) || marketCount < 1) {
+    throw new Error(`Market count must be a positive integer, got ${marketCount}`);
+  }
+
+  const deployMockToken = async (name: string, symbol: string): Promise<Address> => {
+    const token = await viem.deployContract("MockERC20", [name, symbol, 18], {
+      client: { wallet },
+    });
+    return getAddress(token.address);
+  };
+
+  let { baseToken, quoteToken } = options;
+  if (!baseToken || !quoteToken) {
+    baseToken = await deployMockToken("Base", "BASE");
+    quoteToken = await deployMockToken("Quote", "QUOTE");
+  }
+
+  const pairs = [{ baseToken, quoteToken }];
+  for (let i = 2; i <= marketCount; i++) {
+    pairs.push({
+      baseToken: await deployMockToken(`Base ${i}`, `BASE${i}`),
+      quoteToken,
+    });
+  }
+
+  const orderBook = await OrderBookClient.deploy(viem, options.concurrent, wallet);
+
+  // Market IDs are assigned sequentially from 1
+  const markets: MarketRecord[] = [];
+  for (const pair of pairs) {
+    const { marketId } = await orderBook.createMarket(pair.baseToken, pair.quoteToken);
+    markets.push({ marketId: marketId.toString(), ...pair });
+  }
+
+  const publicClient = await viem.getPublicClient();
+  const [blockNumber, chainId] = await Promise.all([
+    publicClient.getBlockNumber(),
+    publicClient.getChainId(),
+  ]);
+
+  return {
+    orderBook,
+    record: {
+      network,
+      contractAddress: getAddress(orderBook.address),
+      baseToken,
+      quoteToken,
+      markets,
+      deployerAddress: getAddress(wallet.account.address),
+      deploymentBlock: blockNumber.toString(),
+      timestamp: new Date().toISOString(),
+      chainId: chainId.toString(),
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress, type Address } from "viem";
+
+/**
+ * Deployment records written by deploy-arcology.ts and `parallel-ledger deploy`
+ * to deployments/*.json
+ */
+
+export interface MarketRecord {
+  marketId: string;
+  baseToken: Address;
+  quoteToken: Address;
+}
+
+export interface DeploymentRecord {
+  network: string;
+  contractAddress: Address;
+  baseToken?: Address;
+  quoteToken?: Address;
+  /** Markets created at deploy time; absent for single-pair deployments */
+  markets?: MarketRecord[];
+  deployerAddress: Address;
+  deploymentBlock: string;
+  timestamp: string;
+  chainId: string;
+}
+
+export const DEPLOYMENTS_DIR = path.join(process.cwd(), "deployments");
+
+/**
+ * Whether `network` runs Arcology, where ParallelOrderBook should be deployed
+ * with concurrent (U256Cumulative) counters
+ */
+export function isArcologyNetwork(network: string): boolean {
+  return network.startsWith("arcology");
+}
+
+/**
+ * Read every deployment record, newest first
+ */
+export function loadDeployments(dir: string = DEPLOYMENTS_DIR): DeploymentRecord[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .map(
+      (file) =>
+        JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")) as DeploymentRecord
+    )
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+}
+
+/**
+ * Latest deployment record, optionally restricted to one network
+ */
+export function loadLatestDeployment(
+  network?: string,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentRecord | undefined {
+  return loadDeployments(dir).find(
+    (record) => network === undefined || record.network === network
+  );
+}
+
+/**
+ * Write `record` to `dir` and return the file name
+ */
+export function saveDeployment(
+  record: DeploymentRecord,
+  dir: string = DEPLOYMENTS_DIR
+): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const filename = path.join(dir, `ParallelOrderBook-${record.network}-${Date.now()}.json`);
+  fs.writeFileSync(filename, JSON.stringify(record, null, 2));
+  return filename;
+}
+
+/**
+ * Resolve the ParallelOrderBook address to talk to: ORDER_BOOK_ADDRESS wins,
+ * otherwise the latest deployment record for `network`
+ */
+export function resolveOrderBookAddress(network?: string): Address {
+  const fromEnv = process.env.ORDER_BOOK_ADDRESS;
+  if (fromEnv) {
+    return getAddress(fromEnv);
+  }
+
+  const record = loadLatestDeployment(network);
+  if (!record) {
+    throw new Error(
+      `No ParallelOrderBook deployment found for network "${network}". ` +
+        "Deploy first or set ORDER_BOOK_ADDRESS."
+    );
+  }
+  return getAddress(record.contractAddress);
+}
+
+/**
+ * Resolve the market IDs a script should use: MARKET_IDS (comma separated)
+ * wins, otherwise every market in the latest deployment record for `network`,
+ * otherwise the first market
+ */
+export function resolveMarketIds(network?: string): bigint[] {
+  const fromEnv = process.env.MARKET_IDS;
+  if (fromEnv) {
+    return fromEnv
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0)
+      .map((id) => BigInt(id));
+  }
+
+  const markets = loadLatestDeployment(network)?.markets;
+  if (markets && markets.length > 0) {
+    return markets.map((market) => BigInt(market.marketId));
+  }
+  return [1n];
+}
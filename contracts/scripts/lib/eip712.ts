@@ -0,0 +1,297 @@
+import type {
+  PublicClient,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import {
+  hashTypedData,
+  keccak256,
+  parseEventLogs,
+  recoverTypedDataAddress,
+  toHex,
+  type Address,
+  type Hash,
+  type Hex,
+  type TypedDataDomain,
+} from "viem";
+
+import type { OrderBookContract } from "./escrow.js";
+
+/**
+ * EIP-712 signed requests for ParallelOrderBook
+ *
+ * Builds, signs and checks the typed-data payloads the contract verifies
+ * (signed cancels and signed off-chain orders), so a trader can sign
+ * off-chain and any relayer or matcher can submit. Domain and types
+ * must stay in sync with the EIP712_* constants and typehashes in
+ * ParallelOrderBook.sol.
+ */
+
+export const EIP712_NAME = "ParallelOrderBook";
+export const EIP712_VERSION = "1";
+
+export const CANCEL_ORDERS_TYPES = {
+  CancelOrders: [
+    { name: "trader", type: "address" },
+    { name: "orderIds", type: "uint256[]" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export const SIGNED_ORDER_TYPES = {
+  SignedOrder: [
+    { name: "trader", type: "address" },
+    { name: "marketId", type: "uint256" },
+    { name: "baseAmount", type: "uint256" },
+    { name: "quoteAmount", type: "uint256" },
+    { name: "isBuyOrder", type: "bool" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * Typehash of a struct without nested struct members, e.g.
+ * keccak256("CancelOrders(address trader,...)")
+ */
+function typeHash(name: string, fields: readonly { name: string; type: string }[]): Hash {
+  const members = fields.map((field) => `${field.type} ${field.name}`).join(",");
+  return keccak256(toHex(`${name}(${members})`));
+}
+
+/** Must equal the contract's CANCEL_ORDERS_TYPEHASH */
+export const CANCEL_ORDERS_TYPEHASH = typeHash(
+  "CancelOrders",
+  CANCEL_ORDERS_TYPES.CancelOrders
+);
+
+/** Must equal the contract's SIGNED_ORDER_TYPEHASH */
+export const SIGNED_ORDER_TYPEHASH = typeHash(
+  "SignedOrder",
+  SIGNED_ORDER_TYPES.SignedOrder
+);
+
+export interface SignedOrderMessage {
+  trader: Address;
+  marketId: bigint;
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  isBuyOrder: boolean;
+  /** Distinguishes otherwise identical orders */
+  nonce: bigint;
+  /** Unix timestamp after which the order cannot settle, 0 = never */
+  expiry: bigint;
+}
+
+export interface SignedOrder {
+  order: SignedOrderMessage;
+  signature: Hex;
+  /** EIP-712 digest; the order's ID in OrderMatched and OrderCancelled */
+  hash: Hash;
+}
+
+export interface CancelOrdersMessage {
+  trader: Address;
+  orderIds: bigint[];
+  nonce: bigint;
+  /** Unix timestamp after which the signature is void */
+  deadline: bigint;
+}
+
+export interface SignedCancel {
+  message: CancelOrdersMessage;
+  signature: Hex;
+}
+
+/**
+ * Typed-data domain of one deployment
+ */
+export function orderBookDomain(
+  chainId: number,
+  verifyingContract: Address
+): TypedDataDomain {
+  return {
+    name: EIP712_NAME,
+    version: EIP712_VERSION,
+    chainId,
+    verifyingContract,
+  };
+}
+
+/**
+ * Full typed-data payload for a cancel request, ready for `signTypedData`
+ */
+export function buildCancelPayload(
+  domain: TypedDataDomain,
+  message: CancelOrdersMessage
+) {
+  return {
+    domain,
+    types: CANCEL_ORDERS_TYPES,
+    primaryType: "CancelOrders" as const,
+    message,
+  };
+}
+
+/**
+ * Digest the contract recovers the signer from
+ */
+export function hashCancel(
+  domain: TypedDataDomain,
+  message: CancelOrdersMessage
+): Hash {
+  return hashTypedData(buildCancelPayload(domain, message));
+}
+
+/**
+ * Sign a request to cancel `orderIds` as `trader`. The nonce defaults to the
+ * trader's next unused one on chain.
+ */
+export async function signCancel(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  trader: WalletClient,
+  orderIds: bigint[],
+  deadline: bigint,
+  nonce?: bigint
+): Promise<SignedCancel> {
+  const message: CancelOrdersMessage = {
+    trader: trader.account.address,
+    orderIds,
+    nonce: nonce ?? (await orderBook.read.cancelNonces([trader.account.address])),
+    deadline,
+  };
+  const domain = orderBookDomain(await publicClient.getChainId(), orderBook.address);
+
+  const signature = await trader.signTypedData({
+    account: trader.account,
+    ...buildCancelPayload(domain, message),
+  });
+  return { message, signature };
+}
+
+/**
+ * Whether `signed` carries a valid signature by its trader for `domain`
+ */
+export async function verifyCancel(
+  domain: TypedDataDomain,
+  signed: SignedCancel
+): Promise<boolean> {
+  const signer = await recoverTypedDataAddress({
+    ...buildCancelPayload(domain, signed.message),
+    signature: signed.signature,
+  });
+  return signer.toLowerCase() === signed.message.trader.toLowerCase();
+}
+
+/**
+ * Submit a signed cancel from `relayer` and return the IDs it cancelled
+ */
+export async function relayCancel(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  relayer: WalletClient,
+  signed: SignedCancel
+): Promise<bigint[]> {
+  const { trader, orderIds, nonce, deadline } = signed.message;
+  const hash = await orderBook.write.cancelOrdersBySig(
+    [trader, orderIds, nonce, deadline, signed.signature],
+    { account: relayer.account }
+  );
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+  return parseEventLogs({
+    abi: orderBook.abi,
+    eventName: "OrderCancelled",
+    logs: receipt.logs,
+  }).map((log) => log.args.orderId);
+}
+
+/**
+ * Full typed-data payload for a signed order, ready for `signTypedData`
+ */
+export function buildOrderPayload(
+  domain: TypedDataDomain,
+  order: SignedOrderMessage
+) {
+  return {
+    domain,
+    types: SIGNED_ORDER_TYPES,
+    primaryType: "SignedOrder" as const,
+    message: order,
+  };
+}
+
+/**
+ * Digest of a signed order, equal to the contract's `hashSignedOrder`
+ */
+export function hashSignedOrder(
+  domain: TypedDataDomain,
+  order: SignedOrderMessage
+): Hash {
+  return hashTypedData(buildOrderPayload(domain, order));
+}
+
+/**
+ * Sign an order off-chain as `trader` for the deployment behind `orderBook`
+ */
+export async function signOrder(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  trader: WalletClient,
+  order: Omit<SignedOrderMessage, "trader">
+): Promise<SignedOrder> {
+  const message: SignedOrderMessage = { trader: trader.account.address, ...order };
+  const domain = orderBookDomain(await publicClient.getChainId(), orderBook.address);
+
+  const signature = await trader.signTypedData({
+    account: trader.account,
+    ...buildOrderPayload(domain, message),
+  });
+  return { order: message, signature, hash: hashSignedOrder(domain, message) };
+}
+
+/**
+ * Whether `signed` carries a valid signature by its trader for `domain`
+ */
+export async function verifySignedOrder(
+  domain: TypedDataDomain,
+  signed: Pick<SignedOrder, "order" | "signature">
+): Promise<boolean> {
+  const signer = await recoverTypedDataAddress({
+    ...buildOrderPayload(domain, signed.order),
+    signature: signed.signature,
+  });
+  return signer.toLowerCase() === signed.order.trader.toLowerCase();
+}
+
+/**
+ * Settle signed buy/sell pairs (paired by index) in one market and return
+ * the receipt's OrderMatched events
+ */
+export async function settleSignedOrders(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  matcher: WalletClient,
+  marketId: bigint,
+  buys: SignedOrder[],
+  sells: SignedOrder[]
+) {
+  const hash = await orderBook.write.settleSignedOrders(
+    [
+      marketId,
+      buys.map((signed) => signed.order),
+      buys.map((signed) => signed.signature),
+      sells.map((signed) => signed.order),
+      sells.map((signed) => signed.signature),
+    ],
+    { account: matcher.account }
+  );
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+  return parseEventLogs({
+    abi: orderBook.abi,
+    eventName: "OrderMatched",
+    logs: receipt.logs,
+  }).map((log) => log.args);
+}
@@ -0,0 +1,123 @@
+import type {
+  ContractReturnType,
+  PublicClient,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import type { Address, Hash } from "viem";
+
+/**
+ * Escrow helpers for ParallelOrderBook
+ *
+ * Traders deposit base/quote ERC-20s into the book, orders lock part of that
+ * deposit, and matches move locked funds between traders. These helpers wrap
+ * the approve + deposit dance and expose balances as typed objects.
+ */
+
+export type OrderBookContract = ContractReturnType<"ParallelOrderBook">;
+
+/**
+ * The parts of an ERC-20 the helpers use; any deployed token contract
+ * (IERC20, MockERC20...) fits
+ */
+export interface TokenContract {
+  address: Address;
+  read: {
+    balanceOf(args: readonly [Address]): Promise<bigint>;
+  };
+  write: {
+    approve(
+      args: readonly [Address, bigint],
+      options: { account: WalletClient["account"] }
+    ): Promise<Hash>;
+  };
+}
+
+export interface EscrowBalance {
+  available: bigint;
+  locked: bigint;
+}
+
+export interface EscrowTotals {
+  /** Sum of available balances across the given traders */
+  available: bigint;
+  /** Sum of locked balances across the given traders */
+  locked: bigint;
+  /** Token balance actually held by the order book contract */
+  held: bigint;
+}
+
+/**
+ * Approve the order book and deposit `amount` of `token` for `trader`.
+ * Only the trader's account is used, so a bare `{ account }` does as well
+ * as a wallet client.
+ */
+export async function approveAndDeposit(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  token: TokenContract,
+  trader: Pick<WalletClient, "account">,
+  amount: bigint
+): Promise<Hash> {
+  const approveHash = await token.write.approve([orderBook.address, amount], {
+    account: trader.account,
+  });
+  await publicClient.waitForTransactionReceipt({ hash: approveHash });
+
+  const depositHash = await orderBook.write.deposit([token.address, amount], {
+    account: trader.account,
+  });
+  await publicClient.waitForTransactionReceipt({ hash: depositHash });
+  return depositHash;
+}
+
+/**
+ * Withdraw `amount` of `token` from the trader's available balance
+ */
+export async function withdrawFromBook(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  token: Address,
+  trader: Pick<WalletClient, "account">,
+  amount: bigint
+): Promise<Hash> {
+  const hash = await orderBook.write.withdraw([token, amount], {
+    account: trader.account,
+  });
+  await publicClient.waitForTransactionReceipt({ hash });
+  return hash;
+}
+
+/**
+ * Read a trader's available and locked escrow balance for one token
+ */
+export async function getEscrowBalance(
+  orderBook: OrderBookContract,
+  trader: Address,
+  token: Address
+): Promise<EscrowBalance> {
+  const [available, locked] = await orderBook.read.getBalance([trader, token]);
+  return { available, locked };
+}
+
+/**
+ * Aggregate escrow balances for a set of traders alongside what the
+ * contract actually holds. When the set covers every depositor,
+ * `available + locked` must equal `held`.
+ */
+export async function getEscrowTotals(
+  orderBook: OrderBookContract,
+  token: TokenContract,
+  traders: Address[]
+): Promise<EscrowTotals> {
+  let available = 0n;
+  let locked = 0n;
+
+  for (const trader of traders) {
+    const balance = await getEscrowBalance(orderBook, trader, token.address);
+    available += balance.available;
+    locked += balance.locked;
+  }
+
+  const held = await token.read.balanceOf([orderBook.address]);
+  return { available, locked, held };
+}
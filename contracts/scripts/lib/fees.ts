@@ -0,0 +1,81 @@
+import type { Address } from "viem";
+
+import type { OrderBookContract } from "./escrow.js";
+import { readMarket } from "./markets.js";
+
+/**
+ * Fee reporting helpers for ParallelOrderBook
+ *
+ * Every OrderMatched event carries the fee paid by each side of the fill, in
+ * the market's quote token. Summing those events gives the fee revenue the
+ * book earned from each trader.
+ */
+
+export interface FeeRevenue {
+  trader: Address;
+  quoteToken: Address;
+  /** Fees paid on fills where the trader bought */
+  asBuyer: bigint;
+  /** Fees paid on fills where the trader sold */
+  asSeller: bigint;
+  total: bigint;
+  fills: number;
+}
+
+export interface BlockRange {
+  fromBlock?: bigint;
+  toBlock?: bigint;
+}
+
+/**
+ * Total fees paid per trader and quote token over a block range, highest first
+ */
+export async function getFeeRevenueByTrader(
+  orderBook: OrderBookContract,
+  range: BlockRange = {}
+): Promise<FeeRevenue[]> {
+  const events = await orderBook.getEvents.OrderMatched(
+    {},
+    { fromBlock: range.fromBlock ?? 0n, toBlock: range.toBlock }
+  );
+
+  const quoteTokens = new Map<bigint, Address>();
+  const revenue = new Map<string, FeeRevenue>();
+
+  const add = (
+    trader: Address,
+    quoteToken: Address,
+    fee: bigint,
+    side: "asBuyer" | "asSeller"
+  ) => {
+    const key = `${trader}:${quoteToken}`;
+    const entry = revenue.get(key) ?? {
+      trader,
+      quoteToken,
+      asBuyer: 0n,
+      asSeller: 0n,
+      total: 0n,
+      fills: 0,
+    };
+    entry[side] += fee;
+    entry.total += fee;
+    entry.fills++;
+    revenue.set(key, entry);
+  };
+
+  for (const { args } of events) {
+    const marketId = args.marketId!;
+    let quoteToken = quoteTokens.get(marketId);
+    if (quoteToken === undefined) {
+      quoteToken = (await readMarket(orderBook, marketId)).quoteToken;
+      quoteTokens.set(marketId, quoteToken);
+    }
+
+    add(args.buyer!, quoteToken, args.buyerFee!, "asBuyer");
+    add(args.seller!, quoteToken, args.sellerFee!, "asSeller");
+  }
+
+  return [...revenue.values()].sort((a, b) =>
+    a.total === b.total ? 0 : a.total > b.total ? -1 : 1
+  );
+}
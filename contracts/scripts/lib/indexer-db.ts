@@ -0,0 +1,656 @@
+import { DatabaseSync } from "node:sqlite";
+import { getAddress, type Address, type Hash } from "viem";
+
+import type { OrderFill } from "./client.js";
+
+/**
+ * Embedded storage for the order book indexer
+ *
+ * A SQLite file (node:sqlite, nothing to install) holding the indexed orders,
+ * fills, batches and escrow balances plus the checkpoint the indexer resumes
+ * from. Token amounts are stored as decimal strings because they overflow
+ * SQLite integers.
+ *
+ * Every write belongs to a block. Rows that are only ever inserted (markets,
+ * fills, batches) carry their block number; rows that are updated in place
+ * (orders, balances) have their previous version saved in `undo_log`, so
+ * `rollback` can restore the state as of any block still in the undo window.
+ */
+
+export type OrderStatus = "open" | "filled" | "cancelled";
+
+export interface IndexedOrder {
+  orderId: bigint;
+  marketId: bigint;
+  trader: Address;
+  isBuyOrder: boolean;
+  /** Open size as of placement or the latest amendment */
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  /** Base filled since placement or the latest amendment */
+  filledBase: bigint;
+  /** Quote exchanged at execution prices over the same fills */
+  executedQuote: bigint;
+  remainingBase: bigint;
+  status: OrderStatus;
+  /** OrderCancelled reason, for cancelled orders */
+  cancelReason?: string;
+  placedBlock: bigint;
+  updatedBlock: bigint;
+}
+
+export interface IndexedFill extends OrderFill {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+}
+
+/** One matchOrdersBatch call as reported by OrdersProcessed */
+export interface IndexedBatch {
+  marketId: bigint;
+  totalProcessed: bigint;
+  successCount: bigint;
+  timestamp: bigint;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+}
+
+/** Escrowed balance (available + locked) of one trader and token */
+export interface TraderBalance {
+  trader: Address;
+  token: Address;
+  balance: bigint;
+  updatedBlock: bigint;
+}
+
+export interface Checkpoint {
+  /** Last block whose events are fully indexed */
+  blockNumber: bigint;
+  blockHash: Hash;
+}
+
+export interface IndexedMarket {
+  marketId: bigint;
+  baseToken: Address;
+  quoteToken: Address;
+}
+
+type Row = Record<string, string | number | null>;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    block_number INTEGER PRIMARY KEY,
+    block_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS markets (
+    market_id TEXT PRIMARY KEY,
+    base_token TEXT NOT NULL,
+    quote_token TEXT NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS orders (
+    order_id TEXT PRIMARY KEY,
+    market_id TEXT NOT NULL,
+    trader TEXT NOT NULL,
+    is_buy INTEGER NOT NULL,
+    base_amount TEXT NOT NULL,
+    quote_amount TEXT NOT NULL,
+    filled_base TEXT NOT NULL,
+    executed_quote TEXT NOT NULL,
+    status TEXT NOT NULL,
+    cancel_reason TEXT,
+    placed_block INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS orders_by_trader ON orders (trader, status);
+  CREATE INDEX IF NOT EXISTS orders_by_market ON orders (market_id, status);
+  CREATE TABLE IF NOT EXISTS fills (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    market_id TEXT NOT NULL,
+    buy_order_id TEXT NOT NULL,
+    sell_order_id TEXT NOT NULL,
+    base_amount TEXT NOT NULL,
+    quote_amount TEXT NOT NULL,
+    buyer TEXT NOT NULL,
+    seller TEXT NOT NULL,
+    buyer_fee TEXT NOT NULL,
+    seller_fee TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS batches (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    market_id TEXT NOT NULL,
+    total_processed TEXT NOT NULL,
+    success_count TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS balances (
+    trader TEXT NOT NULL,
+    token TEXT NOT NULL,
+    balance TEXT NOT NULL,
+    updated_block INTEGER NOT NULL,
+    PRIMARY KEY (trader, token)
+  );
+  CREATE TABLE IF NOT EXISTS undo_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    block_number INTEGER NOT NULL,
+    table_name TEXT NOT NULL,
+    row_key TEXT NOT NULL,
+    previous TEXT
+  );
+`;
+
+/** Primary key columns of the tables updated in place */
+const JOURNALED_KEYS = {
+  orders: ["order_id"],
+  balances: ["trader", "token"],
+} as const;
+
+type JournaledTable = keyof typeof JOURNALED_KEYS;
+
+/** Tables whose rows are only ever inserted, tagged with `block_number` */
+const APPEND_ONLY_TABLES = ["markets", "fills", "batches", "blocks"] as const;
+
+export class IndexerDatabase {
+  private readonly db: DatabaseSync;
+
+  /**
+   * Open (or create) the database at `path`; ":memory:" keeps it in memory
+   */
+  constructor(path: string = ":memory:") {
+    this.db = new DatabaseSync(path);
+    this.db.exec(SCHEMA);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Run `fn` in one SQLite transaction, rolling back if it throws
+   */
+  transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  // ========== Metadata and Checkpoint ==========
+
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as
+      | Row
+      | undefined;
+    return row ? String(row.value) : undefined;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)")
+      .run(key, value);
+  }
+
+  getCheckpoint(): Checkpoint | undefined {
+    const cursor = this.getMeta("cursor");
+    if (cursor === undefined) {
+      return undefined;
+    }
+    const row = this.db
+      .prepare("SELECT block_hash FROM blocks WHERE block_number = ?")
+      .get(Number(cursor)) as Row | undefined;
+    if (!row) {
+      return undefined;
+    }
+    return { blockNumber: BigInt(cursor), blockHash: String(row.block_hash) as Hash };
+  }
+
+  /**
+   * Mark every block up to `blockNumber` (whose hash is `blockHash`) as indexed
+   */
+  setCheckpoint(blockNumber: bigint, blockHash: Hash): void {
+    this.recordBlock(blockNumber, blockHash);
+    this.setMeta("cursor", blockNumber.toString());
+  }
+
+  /**
+   * Remember a block hash so a later reorg of that block can be detected
+   */
+  recordBlock(blockNumber: bigint, blockHash: Hash): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO blocks (block_number, block_hash) VALUES (?, ?)")
+      .run(Number(blockNumber), blockHash);
+  }
+
+  /**
+   * Recorded block hashes, newest first
+   */
+  getRecordedBlocks(): { blockNumber: bigint; blockHash: Hash }[] {
+    return (
+      this.db
+        .prepare("SELECT block_number, block_hash FROM blocks ORDER BY block_number DESC")
+        .all() as Row[]
+    ).map((row) => ({
+      blockNumber: BigInt(row.block_number!),
+      blockHash: String(row.block_hash) as Hash,
+    }));
+  }
+
+  // ========== Reorg Handling ==========
+
+  /**
+   * Undo everything written for blocks after `blockNumber` and move the
+   * checkpoint back to it
+   */
+  rollback(blockNumber: bigint): void {
+    const undo = this.db
+      .prepare(
+        "SELECT table_name, row_key, previous FROM undo_log WHERE block_number > ? ORDER BY id DESC"
+      )
+      .all(Number(blockNumber)) as Row[];
+
+    for (const entry of undo) {
+      const table = entry.table_name as JournaledTable;
+      const keyColumns = JOURNALED_KEYS[table];
+      const key = JSON.parse(String(entry.row_key)) as string[];
+
+      this.db
+        .prepare(
+          `DELETE FROM ${table} WHERE ${keyColumns.map((column) => `${column} = ?`).join(" AND ")}`
+        )
+        .run(...key);
+      if (entry.previous !== null) {
+        this.insertRow(table, JSON.parse(String(entry.previous)) as Row);
+      }
+    }
+
+    this.db.prepare("DELETE FROM undo_log WHERE block_number > ?").run(Number(blockNumber));
+    for (const table of APPEND_ONLY_TABLES) {
+      this.db
+        .prepare(`DELETE FROM ${table} WHERE block_number > ?`)
+        .run(Number(blockNumber));
+    }
+    this.setMeta("cursor", blockNumber.toString());
+  }
+
+  /**
+   * Drop undo history and block hashes older than `blockNumber`; blocks
+   * before it can no longer be rolled back
+   */
+  prune(blockNumber: bigint): void {
+    this.db.prepare("DELETE FROM undo_log WHERE block_number < ?").run(Number(blockNumber));
+    this.db.prepare("DELETE FROM blocks WHERE block_number < ?").run(Number(blockNumber));
+  }
+
+  // ========== Writes ==========
+
+  insertMarket(market: IndexedMarket, blockNumber: bigint): void {
+    this.db
+      .prepare(
+        "INSERT OR IGNORE INTO markets (market_id, base_token, quote_token, block_number) VALUES (?, ?, ?, ?)"
+      )
+      .run(
+        market.marketId.toString(),
+        market.baseToken,
+        market.quoteToken,
+        Number(blockNumber)
+      );
+  }
+
+  insertOrder(
+    order: Pick<
+      IndexedOrder,
+      "orderId" | "marketId" | "trader" | "isBuyOrder" | "baseAmount" | "quoteAmount"
+    >,
+    blockNumber: bigint
+  ): void {
+    this.journal("orders", [order.orderId.toString()], blockNumber);
+    this.insertRow("orders", {
+      order_id: order.orderId.toString(),
+      market_id: order.marketId.toString(),
+      trader: order.trader,
+      is_buy: order.isBuyOrder ? 1 : 0,
+      base_amount: order.baseAmount.toString(),
+      quote_amount: order.quoteAmount.toString(),
+      filled_base: "0",
+      executed_quote: "0",
+      status: "open",
+      cancel_reason: null,
+      placed_block: Number(blockNumber),
+      updated_block: Number(blockNumber),
+    });
+  }
+
+  /**
+   * Update an indexed order; returns false if the order is not indexed (it
+   * was placed before the start block, or is a signed order)
+   */
+  updateOrder(
+    orderId: bigint,
+    changes: Partial<
+      Pick<
+        IndexedOrder,
+        "baseAmount" | "quoteAmount" | "filledBase" | "executedQuote" | "status" | "cancelReason"
+      >
+    >,
+    blockNumber: bigint
+  ): boolean {
+    const current = this.getOrder(orderId);
+    if (!current) {
+      return false;
+    }
+    const next = { ...current, ...changes };
+
+    this.journal("orders", [orderId.toString()], blockNumber);
+    this.db
+      .prepare(
+        `UPDATE orders SET base_amount = ?, quote_amount = ?, filled_base = ?, executed_quote = ?,
+           status = ?, cancel_reason = ?, updated_block = ? WHERE order_id = ?`
+      )
+      .run(
+        next.baseAmount.toString(),
+        next.quoteAmount.toString(),
+        next.filledBase.toString(),
+        next.executedQuote.toString(),
+        next.status,
+        next.cancelReason ?? null,
+        Number(blockNumber),
+        orderId.toString()
+      );
+    return true;
+  }
+
+  insertFill(fill: IndexedFill): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO fills (block_number, log_index, transaction_hash, market_id,
+           buy_order_id, sell_order_id, base_amount, quote_amount, buyer, seller, buyer_fee, seller_fee)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        Number(fill.blockNumber),
+        fill.logIndex,
+        fill.transactionHash,
+        fill.marketId.toString(),
+        fill.buyOrderId.toString(),
+        fill.sellOrderId.toString(),
+        fill.baseAmount.toString(),
+        fill.quoteAmount.toString(),
+        fill.buyer,
+        fill.seller,
+        fill.buyerFee.toString(),
+        fill.sellerFee.toString()
+      );
+  }
+
+  insertBatch(batch: IndexedBatch): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO batches (block_number, log_index, transaction_hash, market_id,
+           total_processed, success_count, timestamp)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        Number(batch.blockNumber),
+        batch.logIndex,
+        batch.transactionHash,
+        batch.marketId.toString(),
+        batch.totalProcessed.toString(),
+        batch.successCount.toString(),
+        batch.timestamp.toString()
+      );
+  }
+
+  /**
+   * Add `delta` (possibly negative) to a trader's escrowed balance of `token`
+   */
+  addBalance(trader: Address, token: Address, delta: bigint, blockNumber: bigint): void {
+    const current = this.getBalance(trader, token);
+
+    this.journal("balances", [trader, token], blockNumber);
+    this.insertRow("balances", {
+      trader,
+      token,
+      balance: ((current?.balance ?? 0n) + delta).toString(),
+      updated_block: Number(blockNumber),
+    });
+  }
+
+  // ========== Queries ==========
+
+  /**
+   * Indexed markets, in ID order
+   */
+  getMarkets(): IndexedMarket[] {
+    return (
+      this.db
+        .prepare("SELECT * FROM markets ORDER BY CAST(market_id AS INTEGER)")
+        .all() as Row[]
+    ).map((row) => ({
+      marketId: BigInt(String(row.market_id)),
+      baseToken: String(row.base_token) as Address,
+      quoteToken: String(row.quote_token) as Address,
+    }));
+  }
+
+  getMarket(marketId: bigint): IndexedMarket | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM markets WHERE market_id = ?")
+      .get(marketId.toString()) as Row | undefined;
+    return row
+      ? {
+          marketId,
+          baseToken: String(row.base_token) as Address,
+          quoteToken: String(row.quote_token) as Address,
+        }
+      : undefined;
+  }
+
+  getOrder(orderId: bigint): IndexedOrder | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM orders WHERE order_id = ?")
+      .get(orderId.toString()) as Row | undefined;
+    return row ? toOrder(row) : undefined;
+  }
+
+  /**
+   * Indexed orders matching every given filter, oldest first
+   */
+  getOrders(
+    filter: { marketId?: bigint; trader?: Address; status?: OrderStatus } = {}
+  ): IndexedOrder[] {
+    const { clause, params } = where({
+      market_id: filter.marketId?.toString(),
+      trader: filter.trader && getAddress(filter.trader),
+      status: filter.status,
+    });
+    return (
+      this.db
+        .prepare(`SELECT * FROM orders ${clause} ORDER BY placed_block, rowid`)
+        .all(...params) as Row[]
+    ).map(toOrder);
+  }
+
+  /**
+   * Indexed fills of a market or an order, in chain order; `afterBlock`
+   * keeps only later blocks, `limit` keeps only the newest fills
+   */
+  getFills(
+    filter: { marketId?: bigint; orderId?: bigint; afterBlock?: bigint; limit?: number } = {}
+  ): IndexedFill[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.marketId !== undefined) {
+      conditions.push("market_id = ?");
+      params.push(filter.marketId.toString());
+    }
+    if (filter.orderId !== undefined) {
+      conditions.push("(buy_order_id = ? OR sell_order_id = ?)");
+      params.push(filter.orderId.toString(), filter.orderId.toString());
+    }
+    if (filter.afterBlock !== undefined) {
+      conditions.push("block_number > ?");
+      params.push(Number(filter.afterBlock));
+    }
+    const clause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const newest =
+      filter.limit === undefined
+        ? `SELECT * FROM fills ${clause}`
+        : `SELECT * FROM fills ${clause} ORDER BY block_number DESC, log_index DESC LIMIT ${Math.floor(filter.limit)}`;
+
+    return (
+      this.db
+        .prepare(`SELECT * FROM (${newest}) ORDER BY block_number, log_index`)
+        .all(...params) as Row[]
+    ).map((row) => ({
+      marketId: BigInt(String(row.market_id)),
+      buyOrderId: BigInt(String(row.buy_order_id)),
+      sellOrderId: BigInt(String(row.sell_order_id)),
+      baseAmount: BigInt(String(row.base_amount)),
+      quoteAmount: BigInt(String(row.quote_amount)),
+      buyer: String(row.buyer) as Address,
+      seller: String(row.seller) as Address,
+      buyerFee: BigInt(String(row.buyer_fee)),
+      sellerFee: BigInt(String(row.seller_fee)),
+      blockNumber: BigInt(row.block_number!),
+      logIndex: Number(row.log_index),
+      transactionHash: String(row.transaction_hash) as Hash,
+    }));
+  }
+
+  /**
+   * Indexed OrdersProcessed events, in chain order
+   */
+  getBatches(filter: { marketId?: bigint } = {}): IndexedBatch[] {
+    const { clause, params } = where({ market_id: filter.marketId?.toString() });
+    return (
+      this.db
+        .prepare(`SELECT * FROM batches ${clause} ORDER BY block_number, log_index`)
+        .all(...params) as Row[]
+    ).map((row) => ({
+      marketId: BigInt(String(row.market_id)),
+      totalProcessed: BigInt(String(row.total_processed)),
+      successCount: BigInt(String(row.success_count)),
+      timestamp: BigInt(String(row.timestamp)),
+      blockNumber: BigInt(row.block_number!),
+      logIndex: Number(row.log_index),
+      transactionHash: String(row.transaction_hash) as Hash,
+    }));
+  }
+
+  getBalance(trader: Address, token: Address): TraderBalance | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM balances WHERE trader = ? AND token = ?")
+      .get(getAddress(trader), getAddress(token)) as Row | undefined;
+    return row ? toBalance(row) : undefined;
+  }
+
+  /**
+   * Indexed escrow balances, optionally of one trader
+   */
+  getBalances(filter: { trader?: Address } = {}): TraderBalance[] {
+    const { clause, params } = where({
+      trader: filter.trader && getAddress(filter.trader),
+    });
+    return (
+      this.db
+        .prepare(`SELECT * FROM balances ${clause} ORDER BY trader, token`)
+        .all(...params) as Row[]
+    ).map(toBalance);
+  }
+
+  // ========== Internals ==========
+
+  /**
+   * Save the current version of a row (or its absence) so `rollback` can
+   * restore it
+   */
+  private journal(table: JournaledTable, key: string[], blockNumber: bigint): void {
+    const keyColumns = JOURNALED_KEYS[table];
+    const previous = this.db
+      .prepare(
+        `SELECT * FROM ${table} WHERE ${keyColumns.map((column) => `${column} = ?`).join(" AND ")}`
+      )
+      .get(...key) as Row | undefined;
+
+    this.db
+      .prepare(
+        "INSERT INTO undo_log (block_number, table_name, row_key, previous) VALUES (?, ?, ?, ?)"
+      )
+      .run(
+        Number(blockNumber),
+        table,
+        JSON.stringify(key),
+        previous ? JSON.stringify(previous) : null
+      );
+  }
+
+  private insertRow(table: JournaledTable, row: Row): void {
+    const columns = Object.keys(row);
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`
+      )
+      .run(...columns.map((column) => row[column]));
+  }
+}
+
+function where(filters: Record<string, string | undefined>): {
+  clause: string;
+  params: string[];
+} {
+  const entries = Object.entries(filters).filter(
+    (entry): entry is [string, string] => entry[1] !== undefined
+  );
+  return {
+    clause:
+      entries.length > 0
+        ? `WHERE ${entries.map(([column]) => `${column} = ?`).join(" AND ")}`
+        : "",
+    params: entries.map(([, value]) => value),
+  };
+}
+
+function toOrder(row: Row): IndexedOrder {
+  const baseAmount = BigInt(String(row.base_amount));
+  const filledBase = BigInt(String(row.filled_base));
+  return {
+    orderId: BigInt(String(row.order_id)),
+    marketId: BigInt(String(row.market_id)),
+    trader: String(row.trader) as Address,
+    isBuyOrder: row.is_buy === 1,
+    baseAmount,
+    quoteAmount: BigInt(String(row.quote_amount)),
+    filledBase,
+    executedQuote: BigInt(String(row.executed_quote)),
+    remainingBase: row.status === "open" ? baseAmount - filledBase : 0n,
+    status: row.status as OrderStatus,
+    cancelReason: row.cancel_reason === null ? undefined : String(row.cancel_reason),
+    placedBlock: BigInt(row.placed_block!),
+    updatedBlock: BigInt(row.updated_block!),
+  };
+}
+
+function toBalance(row: Row): TraderBalance {
+  return {
+    trader: String(row.trader) as Address,
+    token: String(row.token) as Address,
+    balance: BigInt(String(row.balance)),
+    updatedBlock: BigInt(row.updated_block!),
+  };
+}
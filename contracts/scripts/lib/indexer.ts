@@ -0,0 +1,311 @@
+import type { GetContractEventsReturnType } from "viem";
+
+import type { OrderBookAbi, OrderBookClient } from "./client.js";
+import type { Checkpoint, IndexerDatabase } from "./indexer-db.js";
+
+/**
+ * Event indexer for ParallelOrderBook
+ *
+ * Follows the contract's logs from a start block and rebuilds an off-chain
+ * copy of the book in an `IndexerDatabase`: orders and their status from
+ * OrderPlaced, OrderAmended, OrderMatched and OrderCancelled, fills from
+ * OrderMatched, batch results from OrdersProcessed, and every trader's
+ * escrowed balance (available + locked) from Deposited, Withdrawn and the
+ * settlement amounts and fees of each fill. MarketCreated supplies the tokens
+ * a fill settles in. Signed orders settle from escrow without an order of
+ * their own: their fills count, and SignedOrderCancelled leaves orders alone.
+ *
+ * Each sync commits its events together with the checkpoint, so an indexer
+ * opened on the same database file resumes after the last indexed block.
+ * Before indexing new blocks it compares the recorded block hashes with the
+ * chain and rolls back to the newest block that is still canonical.
+ */
+
+export interface IndexerOptions {
+  /** First block to index when the database has no checkpoint (default 0) */
+  startBlock?: bigint;
+  /** Blocks per getLogs request (default 1000) */
+  batchSize?: bigint;
+  /** Blocks behind the head left unindexed until they are this deep (default 0) */
+  confirmations?: bigint;
+  /** Blocks of undo history kept for reorgs (default 64) */
+  reorgDepth?: bigint;
+}
+
+export interface SyncResult {
+  /** First block indexed, undefined when already at the head */
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  /** Contract events read from the indexed blocks */
+  events: number;
+  /** Block the indexer rolled back to after detecting a reorg */
+  reorgedTo?: bigint;
+}
+
+type OrderBookLog = GetContractEventsReturnType<OrderBookAbi, undefined, true>[number];
+
+const DEFAULT_BATCH_SIZE = 1000n;
+const DEFAULT_REORG_DEPTH = 64n;
+
+export class OrderBookIndexer {
+  readonly orderBook: OrderBookClient;
+  readonly db: IndexerDatabase;
+  private readonly startBlock: bigint;
+  private readonly batchSize: bigint;
+  private readonly confirmations: bigint;
+  private readonly reorgDepth: bigint;
+
+  constructor(orderBook: OrderBookClient, db: IndexerDatabase, options: IndexerOptions = {}) {
+    const indexed = db.getMeta("contract");
+    if (indexed !== undefined && indexed !== orderBook.address) {
+      throw new Error(
+        `Indexer database holds ${indexed}, not ${orderBook.address}; use a separate database`
+      );
+    }
+    db.setMeta("contract", orderBook.address);
+
+    this.orderBook = orderBook;
+    this.db = db;
+    this.startBlock = options.startBlock ?? 0n;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.confirmations = options.confirmations ?? 0n;
+    this.reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+  }
+
+  get checkpoint(): Checkpoint | undefined {
+    return this.db.getCheckpoint();
+  }
+
+  /**
+   * Index every confirmed block after the checkpoint, undoing reorged blocks
+   * first
+   */
+  async sync(): Promise<SyncResult> {
+    const { publicClient } = this.orderBook;
+    const reorgedTo = await this.handleReorg();
+
+    const head = (await publicClient.getBlockNumber()) - this.confirmations;
+    const checkpoint = this.checkpoint;
+    const firstBlock = checkpoint ? checkpoint.blockNumber + 1n : this.startBlock;
+    if (firstBlock > head) {
+      return { events: 0, reorgedTo };
+    }
+
+    let events = 0;
+    for (let fromBlock = firstBlock; fromBlock <= head; fromBlock += this.batchSize) {
+      const toBlock =
+        fromBlock + this.batchSize - 1n < head ? fromBlock + this.batchSize - 1n : head;
+      events += await this.indexRange(fromBlock, toBlock);
+    }
+    return { fromBlock: firstBlock, toBlock: head, events, reorgedTo };
+  }
+
+  /**
+   * Sync every `intervalMs` until `signal` aborts
+   */
+  async follow(
+    intervalMs: number,
+    signal: AbortSignal,
+    onSync?: (result: SyncResult) => void
+  ): Promise<void> {
+    while (!signal.aborted) {
+      const result = await this.sync();
+      onSync?.(result);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, intervalMs);
+        signal.addEventListener(
+          "abort",
+          () => {
+            clearTimeout(timer);
+            resolve();
+          },
+          { once: true }
+        );
+      });
+    }
+  }
+
+  /**
+   * Roll back to the newest recorded block still on the canonical chain;
+   * returns that block if anything was undone
+   */
+  private async handleReorg(): Promise<bigint | undefined> {
+    const recorded = this.db.getRecordedBlocks();
+    if (recorded.length === 0) {
+      return undefined;
+    }
+
+    for (const [index, block] of recorded.entries()) {
+      const onChain = await this.orderBook.publicClient
+        .getBlock({ blockNumber: block.blockNumber })
+        .catch(() => undefined);
+      if (onChain?.hash !== block.blockHash) {
+        continue;
+      }
+      if (index === 0) {
+        return undefined;
+      }
+      this.db.transaction(() => this.db.rollback(block.blockNumber));
+      return block.blockNumber;
+    }
+
+    throw new Error(
+      `Chain reorganised below block ${recorded[recorded.length - 1].blockNumber}, ` +
+        `deeper than the ${this.reorgDepth}-block undo history; reindex into a new database`
+    );
+  }
+
+  private async indexRange(fromBlock: bigint, toBlock: bigint): Promise<number> {
+    const { publicClient } = this.orderBook;
+    const logs = await publicClient.getContractEvents({
+      address: this.orderBook.address,
+      abi: this.orderBook.abi,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+    const end = await publicClient.getBlock({ blockNumber: toBlock });
+
+    // Fills in markets created before the start block need their tokens from chain
+    const created = new Set(
+      logs.flatMap((log) => (log.eventName === "MarketCreated" ? [log.args.marketId] : []))
+    );
+    const missing = new Set<bigint>();
+    for (const log of logs) {
+      if (
+        log.eventName === "OrderMatched" &&
+        !created.has(log.args.marketId) &&
+        !this.db.getMarket(log.args.marketId)
+      ) {
+        missing.add(log.args.marketId);
+      }
+    }
+    const fetched = await Promise.all(
+      [...missing].map((marketId) => this.orderBook.getMarket(marketId))
+    );
+
+    this.db.transaction(() => {
+      for (const market of fetched) {
+        this.db.insertMarket(market, fromBlock);
+      }
+      for (const log of logs) {
+        this.db.recordBlock(log.blockNumber, log.blockHash);
+        this.apply(log);
+      }
+      this.db.setCheckpoint(toBlock, end.hash);
+      this.db.prune(toBlock - this.reorgDepth);
+    });
+    return logs.length;
+  }
+
+  private apply(log: OrderBookLog): void {
+    const block = log.blockNumber;
+
+    switch (log.eventName) {
+      case "MarketCreated":
+        this.db.insertMarket(log.args, block);
+        break;
+
+      case "OrderPlaced":
+        this.db.insertOrder(log.args, block);
+        break;
+
+      case "OrderAmended":
+        // Amendments restart the fill count, like the contract's orderAmounts
+        this.db.updateOrder(
+          log.args.orderId,
+          {
+            baseAmount: log.args.baseAmount,
+            quoteAmount: log.args.quoteAmount,
+            filledBase: 0n,
+            executedQuote: 0n,
+          },
+          block
+        );
+        break;
+
+      case "OrderMatched": {
+        const fill = log.args;
+        this.db.insertFill({
+          ...fill,
+          blockNumber: block,
+          logIndex: log.logIndex,
+          transactionHash: log.transactionHash,
+        });
+        this.fillOrder(fill.buyOrderId, fill.baseAmount, fill.quoteAmount, block);
+        this.fillOrder(fill.sellOrderId, fill.baseAmount, fill.quoteAmount, block);
+
+        const market = this.db.getMarket(fill.marketId);
+        if (!market) {
+          throw new Error(`Fill in unknown market ${fill.marketId} at block ${block}`);
+        }
+        this.db.addBalance(fill.buyer, market.baseToken, fill.baseAmount, block);
+        this.db.addBalance(
+          fill.buyer,
+          market.quoteToken,
+          -(fill.quoteAmount + fill.buyerFee),
+          block
+        );
+        this.db.addBalance(fill.seller, market.baseToken, -fill.baseAmount, block);
+        this.db.addBalance(
+          fill.seller,
+          market.quoteToken,
+          fill.quoteAmount - fill.sellerFee,
+          block
+        );
+        break;
+      }
+
+      case "OrderCancelled": {
+        const order = this.db.getOrder(log.args.orderId);
+        if (order?.status === "open") {
+          this.db.updateOrder(
+            log.args.orderId,
+            { status: "cancelled", cancelReason: log.args.reason },
+            block
+          );
+        }
+        break;
+      }
+
+      case "SignedOrderCancelled":
+        // Signed orders never rest on the book, so there is no order to update
+        break;
+
+      case "OrdersProcessed":
+        this.db.insertBatch({
+          ...log.args,
+          blockNumber: block,
+          logIndex: log.logIndex,
+          transactionHash: log.transactionHash,
+        });
+        break;
+
+      case "Deposited":
+        this.db.addBalance(log.args.trader, log.args.token, log.args.amount, block);
+        break;
+
+      case "Withdrawn":
+        this.db.addBalance(log.args.trader, log.args.token, -log.args.amount, block);
+        break;
+    }
+  }
+
+  private fillOrder(orderId: bigint, base: bigint, quote: bigint, block: bigint): void {
+    const order = this.db.getOrder(orderId);
+    if (!order) {
+      // Placed before the start block, or a signed order settled from escrow
+      return;
+    }
+    const filledBase = order.filledBase + base;
+    this.db.updateOrder(
+      orderId,
+      {
+        filledBase,
+        executedQuote: order.executedQuote + quote,
+        status: filledBase >= order.baseAmount ? "filled" : order.status,
+      },
+      block
+    );
+  }
+}
@@ -0,0 +1,363 @@
+import type { Address, Hash } from "viem";
+
+import type { OrderBookClient } from "./client.js";
+import type { IndexedOrder } from "./indexer-db.js";
+import type { OrderBookIndexer } from "./indexer.js";
+import { priceKey } from "./market-data.js";
+
+/**
+ * Matching keeper for ParallelOrderBook
+ *
+ * Keeps a local mirror of the book through an `OrderBookIndexer`, works out
+ * buy/sell pairs that `matchOrdersBatch` will accept and submits them in
+ * batches that stay under a gas budget. Pairs follow the contract's matching
+ * rule: both orders open, unexpired and in the same market, the buy limit
+ * price at or above the sell limit price (compared on the orders' original
+ * sizes, as `_pricesCross` does), and different traders, so self-trade
+ * prevention never has to cancel anything. Within a market, bids are taken
+ * best price first and asks cheapest first, older orders first at equal
+ * prices, and an order stays in play until its remaining base is used up, so
+ * one order can appear in several pairs.
+ *
+ * The `OrdersProcessed` event of every batch reports how many pairs
+ * actually matched; the keeper keeps the totals for a success ratio.
+ *
+ * On a concurrent-mode book, placement leaves resting orders unlinked from
+ * their price levels, so each round first links the new ones (`linkOrders`,
+ * with level hints read from the book) before matching.
+ */
+
+/** An open order as the keeper sees it */
+export interface BookOrder {
+  orderId: bigint;
+  trader: Address;
+  isBuyOrder: boolean;
+  /** Size and quote as of placement or the latest amendment; their ratio is the limit price */
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  remainingBase: bigint;
+  /** Unix timestamp, 0 = good-til-cancelled */
+  expiresAt: bigint;
+}
+
+export interface MatchPair {
+  buyOrderId: bigint;
+  sellOrderId: bigint;
+  /** Base the pair is expected to fill */
+  baseAmount: bigint;
+}
+
+export interface KeeperOptions {
+  /** Markets to match (default: every market with open orders in the mirror) */
+  marketIds?: bigint[];
+  /** Gas budget of one matchOrdersBatch call (default 10M) */
+  maxBatchGas?: bigint;
+  /** Most pairs submitted in one call (default 100) */
+  maxBatchPairs?: number;
+  /** Most orders linked in one linkOrders call (default 100) */
+  maxLinkBatch?: number;
+}
+
+/** One submitted matchOrdersBatch call */
+export interface BatchReport {
+  marketId: bigint;
+  hash: Hash;
+  /** Pairs submitted, OrdersProcessed.totalProcessed */
+  processed: number;
+  /** Pairs that matched, OrdersProcessed.successCount */
+  matched: bigint;
+  gasUsed: bigint;
+}
+
+export interface KeeperStats {
+  rounds: number;
+  batches: number;
+  processed: number;
+  matched: bigint;
+  gasUsed: bigint;
+  /** Orders linked into their price levels, concurrent mode only */
+  linked: number;
+  /** matched / processed, 1 before anything was submitted */
+  successRatio: number;
+}
+
+const DEFAULT_MAX_BATCH_GAS = 10_000_000n;
+const DEFAULT_MAX_BATCH_PAIRS = 100;
+const DEFAULT_MAX_LINK_BATCH = 100;
+
+/**
+ * Whether buy limit price >= sell limit price, by cross-multiplication
+ */
+function pricesCross(buy: BookOrder, sell: BookOrder): boolean {
+  return buy.quoteAmount * sell.baseAmount >= sell.quoteAmount * buy.baseAmount;
+}
+
+/**
+ * Pairs that match under the contract's rule, in the order they must be
+ * submitted. `orders` is one market's open orders, oldest first; `now` is the
+ * chain time used for expiry.
+ */
+export function findMatchPairs(orders: BookOrder[], now: bigint): MatchPair[] {
+  const live = orders.filter(
+    (order) =>
+      order.remainingBase > 0n && (order.expiresAt === 0n || order.expiresAt > now)
+  );
+
+  // Array.sort is stable, so equal prices keep time priority
+  const bids = live
+    .filter((order) => order.isBuyOrder)
+    .sort((a, b) => {
+      const left = a.quoteAmount * b.baseAmount;
+      const right = b.quoteAmount * a.baseAmount;
+      return left === right ? 0 : left > right ? -1 : 1;
+    });
+  const asks = live
+    .filter((order) => !order.isBuyOrder)
+    .sort((a, b) => {
+      const left = a.quoteAmount * b.baseAmount;
+      const right = b.quoteAmount * a.baseAmount;
+      return left === right ? 0 : left < right ? -1 : 1;
+    });
+
+  const remaining = new Map(live.map((order) => [order.orderId, order.remainingBase]));
+  const pairs: MatchPair[] = [];
+
+  for (const bid of bids) {
+    for (const ask of asks) {
+      const bidLeft = remaining.get(bid.orderId)!;
+      if (bidLeft === 0n) {
+        break;
+      }
+      // Asks are sorted cheapest first, so no later ask crosses either
+      if (!pricesCross(bid, ask)) {
+        break;
+      }
+      const askLeft = remaining.get(ask.orderId)!;
+      if (askLeft === 0n || ask.trader === bid.trader) {
+        continue;
+      }
+
+      const fill = bidLeft < askLeft ? bidLeft : askLeft;
+      remaining.set(bid.orderId, bidLeft - fill);
+      remaining.set(ask.orderId, askLeft - fill);
+      pairs.push({ buyOrderId: bid.orderId, sellOrderId: ask.orderId, baseAmount: fill });
+    }
+  }
+  return pairs;
+}
+
+export class OrderBookKeeper {
+  readonly orderBook: OrderBookClient;
+  readonly indexer: OrderBookIndexer;
+  private readonly marketIds: bigint[] | undefined;
+  private readonly maxBatchGas: bigint;
+  private readonly maxBatchPairs: number;
+  private readonly maxLinkBatch: number;
+  /** Expiry per order ID; OrderPlaced does not carry it */
+  private readonly expiries = new Map<bigint, bigint>();
+  /** `updatedBlock` at which each order was last seen linked */
+  private readonly linkedAt = new Map<bigint, bigint>();
+  private concurrent: boolean | undefined;
+  private totals = {
+    rounds: 0,
+    batches: 0,
+    processed: 0,
+    matched: 0n,
+    gasUsed: 0n,
+    linked: 0,
+  };
+
+  /**
+   * `orderBook` sends the batches, so its wallet needs the matcher role
+   * while the matcher allowlist is enabled
+   */
+  constructor(
+    orderBook: OrderBookClient,
+    indexer: OrderBookIndexer,
+    options: KeeperOptions = {}
+  ) {
+    this.orderBook = orderBook;
+    this.indexer = indexer;
+    this.marketIds = options.marketIds;
+    this.maxBatchGas = options.maxBatchGas ?? DEFAULT_MAX_BATCH_GAS;
+    this.maxBatchPairs = options.maxBatchPairs ?? DEFAULT_MAX_BATCH_PAIRS;
+    this.maxLinkBatch = options.maxLinkBatch ?? DEFAULT_MAX_LINK_BATCH;
+  }
+
+  get stats(): KeeperStats {
+    const { processed, matched } = this.totals;
+    return {
+      ...this.totals,
+      successRatio: processed === 0 ? 1 : Number(matched) / processed,
+    };
+  }
+
+  /**
+   * Sync the mirror, then match every crossing pair in the configured markets
+   */
+  async runOnce(onBatch?: (batch: BatchReport) => void): Promise<BatchReport[]> {
+    await this.indexer.sync();
+    const { timestamp: now } = await this.orderBook.publicClient.getBlock();
+    const open = this.indexer.db.getOrders({ status: "open" });
+    const openIds = new Set(open.map((order) => order.orderId));
+    for (const cache of [this.expiries, this.linkedAt]) {
+      for (const orderId of cache.keys()) {
+        if (!openIds.has(orderId)) {
+          cache.delete(orderId);
+        }
+      }
+    }
+    this.concurrent ??= await this.orderBook.contract.read.concurrent();
+
+    const marketIds =
+      this.marketIds ?? [...new Set(open.map((order) => order.marketId))];
+    const reports: BatchReport[] = [];
+
+    for (const marketId of marketIds) {
+      const marketOrders = open.filter((order) => order.marketId === marketId);
+      if (this.concurrent) {
+        await this.linkPending(marketId, marketOrders);
+      }
+
+      const orders = await this.bookOrders(marketOrders);
+      const pairs = findMatchPairs(orders, now);
+
+      for (let start = 0; start < pairs.length; ) {
+        const batch = await this.fitBatch(marketId, pairs.slice(start));
+        const report = await this.submit(marketId, batch);
+        reports.push(report);
+        onBatch?.(report);
+        start += batch.length;
+      }
+    }
+
+    this.totals.rounds++;
+    return reports;
+  }
+
+  /**
+   * Run a round every `intervalMs` until `signal` aborts
+   */
+  async run(
+    intervalMs: number,
+    signal: AbortSignal,
+    onBatch?: (batch: BatchReport) => void
+  ): Promise<void> {
+    while (!signal.aborted) {
+      await this.runOnce(onBatch);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, intervalMs);
+        signal.addEventListener(
+          "abort",
+          () => {
+            clearTimeout(timer);
+            resolve();
+          },
+          { once: true }
+        );
+      });
+    }
+  }
+
+  /**
+   * Link the orders of one market that are not on their price levels yet,
+   * oldest first. Orders are re-checked only when the mirror saw them change,
+   * since a priority-resetting amendment unlinks them again.
+   */
+  private async linkPending(marketId: bigint, open: IndexedOrder[]): Promise<void> {
+    const pending: IndexedOrder[] = [];
+    for (const order of open) {
+      if (this.linkedAt.get(order.orderId) === order.updatedBlock) {
+        continue;
+      }
+      if (await this.orderBook.isOrderLinked(order.orderId)) {
+        this.linkedAt.set(order.orderId, order.updatedBlock);
+      } else {
+        pending.push(order);
+      }
+    }
+
+    for (let start = 0; start < pending.length; start += this.maxLinkBatch) {
+      const batch = pending.slice(start, start + this.maxLinkBatch);
+      // Hints stay valid while the batch links: levels are only added
+      const hints: bigint[] = [];
+      for (const order of batch) {
+        hints.push(
+          await this.orderBook.findLevelHint(
+            marketId,
+            order.isBuyOrder,
+            priceKey(order.baseAmount, order.quoteAmount)
+          )
+        );
+      }
+
+      const result = await this.orderBook.linkOrders(
+        batch.map((order) => order.orderId),
+        hints
+      );
+      for (const order of batch) {
+        this.linkedAt.set(order.orderId, order.updatedBlock);
+      }
+      this.totals.linked += result.linked.length;
+    }
+  }
+
+  /**
+   * Attach expiries to mirrored orders, reading each new order once
+   */
+  private async bookOrders(open: IndexedOrder[]): Promise<BookOrder[]> {
+    const orders: BookOrder[] = [];
+    for (const order of open) {
+      let expiresAt = this.expiries.get(order.orderId);
+      if (expiresAt === undefined) {
+        expiresAt = (await this.orderBook.getOrder(order.orderId)).expiresAt;
+        this.expiries.set(order.orderId, expiresAt);
+      }
+      orders.push({ ...order, expiresAt });
+    }
+    return orders;
+  }
+
+  /**
+   * Longest prefix of `pairs` (up to `maxBatchPairs`) whose estimated gas fits
+   * the budget; a single pair is always submitted
+   */
+  private async fitBatch(marketId: bigint, pairs: MatchPair[]): Promise<MatchPair[]> {
+    let size = Math.min(pairs.length, this.maxBatchPairs);
+    while (size > 1) {
+      const batch = pairs.slice(0, size);
+      const gas = await this.orderBook.estimateMatchGas(
+        marketId,
+        batch.map((pair) => pair.buyOrderId),
+        batch.map((pair) => pair.sellOrderId)
+      );
+      if (gas <= this.maxBatchGas) {
+        break;
+      }
+      // Gas grows roughly linearly with pairs; always shrink by at least one
+      const scaled = Number((BigInt(size) * this.maxBatchGas) / gas);
+      size = Math.max(1, Math.min(size - 1, scaled));
+    }
+    return pairs.slice(0, size);
+  }
+
+  private async submit(marketId: bigint, batch: MatchPair[]): Promise<BatchReport> {
+    const result = await this.orderBook.matchOrders(
+      marketId,
+      batch.map((pair) => pair.buyOrderId),
+      batch.map((pair) => pair.sellOrderId)
+    );
+
+    this.totals.batches++;
+    this.totals.processed += batch.length;
+    this.totals.matched += result.matchCount;
+    this.totals.gasUsed += result.gasUsed;
+    return {
+      marketId,
+      hash: result.hash,
+      processed: batch.length,
+      matched: result.matchCount,
+      gasUsed: result.gasUsed,
+    };
+  }
+}
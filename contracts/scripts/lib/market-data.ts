@@ -0,0 +1,458 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { getAddress, isAddress } from "viem";
+
+import type {
+  IndexedFill,
+  IndexedOrder,
+  IndexerDatabase,
+  OrderStatus,
+} from "./indexer-db.js";
+import type { OrderBookIndexer } from "./indexer.js";
+import { WebSocketConnection } from "./websocket.js";
+
+/**
+ * Market-data API for ParallelOrderBook
+ *
+ * Serves depth, open orders per trader, recent trades and stats over HTTP
+ * from the event indexer's mirror, and streams book diffs and trades to
+ * WebSocket clients as new blocks are indexed. Only the stats endpoint reads
+ * the contract directly (for its placed/matched/cancelled counters).
+ *
+ * Routes (all GET, JSON, amounts as decimal strings):
+ *   /health                               Checkpoint and connected clients
+ *   /markets                              Markets with best bid and ask
+ *   /markets/:id/depth?levels=N           Aggregated price levels per side
+ *   /markets/:id/trades?limit=N           Most recent fills, oldest first
+ *   /markets/:id/stats                    Counters, spread, last price, volume
+ *   /traders/:address/orders?marketId=&status=   A trader's orders (default open)
+ *   /ws?marketId=                         WebSocket feed of "snapshot",
+ *                                         "depth", "trade" and "reorg" messages
+ *
+ * Prices are quote per base scaled by 1e18, the contract's price level keys.
+ */
+
+/** Scale of price level keys, the contract's PRICE_SCALE */
+export const PRICE_SCALE = 10n ** 18n;
+
+export interface DepthLevel {
+  price: bigint;
+  /** Open base across the level's orders */
+  baseAmount: bigint;
+  orders: number;
+}
+
+export interface MarketDepth {
+  marketId: bigint;
+  /** Best (highest) price first */
+  bids: DepthLevel[];
+  /** Best (lowest) price first */
+  asks: DepthLevel[];
+}
+
+export interface MarketDataServerOptions {
+  /** Default 8080; 0 picks a free port */
+  port?: number;
+  /** Default 127.0.0.1 */
+  host?: string;
+  /** How often to index new blocks and push updates (default 1000 ms) */
+  pollIntervalMs?: number;
+  /** Called with errors from background syncs (default console.error) */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_TRADE_LIMIT = 50;
+const MAX_TRADE_LIMIT = 500;
+
+/**
+ * Price level key of an order, the contract's `_priceKey`
+ */
+export function priceKey(baseAmount: bigint, quoteAmount: bigint): bigint {
+  return (quoteAmount * PRICE_SCALE) / baseAmount;
+}
+
+/** The fields of an open order that depth aggregation needs */
+export type DepthOrder = Pick<
+  IndexedOrder,
+  "isBuyOrder" | "baseAmount" | "quoteAmount" | "remainingBase"
+>;
+
+/**
+ * Open orders aggregated by price level, optionally only the best `levels`
+ * per side
+ */
+export function aggregateDepth(
+  marketId: bigint,
+  orders: DepthOrder[],
+  levels?: number
+): MarketDepth {
+  const bids = new Map<bigint, DepthLevel>();
+  const asks = new Map<bigint, DepthLevel>();
+
+  for (const order of orders) {
+    const price = priceKey(order.baseAmount, order.quoteAmount);
+    const side = order.isBuyOrder ? bids : asks;
+    const level = side.get(price) ?? { price, baseAmount: 0n, orders: 0 };
+    level.baseAmount += order.remainingBase;
+    level.orders++;
+    side.set(price, level);
+  }
+
+  const sorted = (side: Map<bigint, DepthLevel>, descending: boolean) =>
+    [...side.values()]
+      .sort((a, b) =>
+        a.price === b.price ? 0 : (a.price > b.price) === descending ? -1 : 1
+      )
+      .slice(0, levels);
+
+  return { marketId, bids: sorted(bids, true), asks: sorted(asks, false) };
+}
+
+/**
+ * Depth of a market from the indexed open orders
+ */
+export function getDepth(db: IndexerDatabase, marketId: bigint, levels?: number): MarketDepth {
+  return aggregateDepth(marketId, db.getOrders({ marketId, status: "open" }), levels);
+}
+
+/**
+ * Levels that changed between two depth snapshots of a market; removed
+ * levels are reported with zero size and zero orders
+ */
+export function diffDepth(
+  before: MarketDepth,
+  after: MarketDepth
+): Pick<MarketDepth, "bids" | "asks"> {
+  const diffSide = (previous: DepthLevel[], next: DepthLevel[]) => {
+    const old = new Map(previous.map((level) => [level.price, level]));
+    const changed = next.filter((level) => {
+      const was = old.get(level.price);
+      old.delete(level.price);
+      return was?.baseAmount !== level.baseAmount || was.orders !== level.orders;
+    });
+    const removed = [...old.values()].map((level) => ({
+      price: level.price,
+      baseAmount: 0n,
+      orders: 0,
+    }));
+    return [...changed, ...removed];
+  };
+
+  return { bids: diffSide(before.bids, after.bids), asks: diffSide(before.asks, after.asks) };
+}
+
+/**
+ * JSON with bigints as decimal strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, field) =>
+    typeof field === "bigint" ? field.toString() : field
+  );
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export class MarketDataServer {
+  readonly indexer: OrderBookIndexer;
+  private readonly server: Server;
+  private readonly host: string;
+  private readonly requestedPort: number;
+  private readonly pollIntervalMs: number;
+  private readonly onError: (error: unknown) => void;
+  private readonly clients = new Set<WebSocketConnection>();
+  /** Depth last pushed to clients, per market */
+  private readonly published = new Map<bigint, MarketDepth>();
+  /** Fills up to this block have been pushed */
+  private tradesPublishedTo: bigint | undefined;
+  private refreshing: Promise<void> | undefined;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(indexer: OrderBookIndexer, options: MarketDataServerOptions = {}) {
+    this.indexer = indexer;
+    this.host = options.host ?? "127.0.0.1";
+    this.requestedPort = options.port ?? 8080;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.onError = options.onError ?? ((error) => console.error(error));
+
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch((error) => this.fail(response, error));
+    });
+    this.server.on("upgrade", (request, socket) => this.upgrade(request, socket));
+  }
+
+  private get db(): IndexerDatabase {
+    return this.indexer.db;
+  }
+
+  /** Port the server listens on, once started */
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Index up to the head, start listening and poll for new blocks
+   */
+  async start(): Promise<void> {
+    await this.refresh();
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.requestedPort, this.host, () => resolve());
+    });
+
+    const poll = () => {
+      this.timer = setTimeout(() => {
+        this.refresh()
+          .catch(this.onError)
+          .finally(() => {
+            if (this.timer) poll();
+          });
+      }, this.pollIntervalMs);
+    };
+    poll();
+  }
+
+  async stop(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.refreshing;
+    for (const client of this.clients) {
+      client.close();
+    }
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Index new blocks and push depth diffs and trades to clients; concurrent
+   * calls share one sync
+   */
+  async refresh(): Promise<void> {
+    this.refreshing ??= this.publishUpdates().finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  private async publishUpdates(): Promise<void> {
+    const { reorgedTo } = await this.indexer.sync();
+    const checkpoint = this.indexer.checkpoint;
+    if (!checkpoint) {
+      return;
+    }
+
+    if (reorgedTo !== undefined) {
+      this.broadcast(undefined, { type: "reorg", blockNumber: reorgedTo });
+      if (this.tradesPublishedTo !== undefined && this.tradesPublishedTo > reorgedTo) {
+        this.tradesPublishedTo = reorgedTo;
+      }
+    }
+
+    for (const { marketId } of this.db.getMarkets()) {
+      const depth = getDepth(this.db, marketId);
+      const diff = diffDepth(
+        this.published.get(marketId) ?? { marketId, bids: [], asks: [] },
+        depth
+      );
+      this.published.set(marketId, depth);
+      if (diff.bids.length > 0 || diff.asks.length > 0) {
+        this.broadcast(marketId, {
+          type: "depth",
+          marketId,
+          blockNumber: checkpoint.blockNumber,
+          ...diff,
+        });
+      }
+    }
+
+    // The first refresh only establishes the baseline
+    if (this.tradesPublishedTo !== undefined) {
+      for (const fill of this.db.getFills({ afterBlock: this.tradesPublishedTo })) {
+        this.broadcast(fill.marketId, { type: "trade", ...tradeView(fill) });
+      }
+    }
+    this.tradesPublishedTo = checkpoint.blockNumber;
+  }
+
+  private broadcast(marketId: bigint | undefined, message: object): void {
+    const text = toJson(message);
+    for (const client of this.clients) {
+      const filter = subscribedMarket(client);
+      if (marketId === undefined || filter === undefined || filter === marketId) {
+        client.send(text);
+      }
+    }
+  }
+
+  private upgrade(request: IncomingMessage, socket: Duplex): void {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (url.pathname !== "/ws") {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+
+    const client = WebSocketConnection.accept(request, socket, (closed) =>
+      this.clients.delete(closed)
+    );
+    if (!client) {
+      return;
+    }
+    this.clients.add(client);
+
+    const filter = subscribedMarket(client);
+    const markets = this.db
+      .getMarkets()
+      .filter((market) => filter === undefined || market.marketId === filter)
+      .map((market) => this.published.get(market.marketId) ?? getDepth(this.db, market.marketId));
+    client.send(
+      toJson({ type: "snapshot", checkpoint: this.indexer.checkpoint, markets })
+    );
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== "GET") {
+      throw new HttpError(405, `${request.method} not allowed`);
+    }
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const parts = url.pathname.split("/").filter((part) => part.length > 0);
+
+    if (parts.length === 1 && parts[0] === "health") {
+      return this.reply(response, {
+        contract: this.indexer.orderBook.address,
+        checkpoint: this.indexer.checkpoint,
+        clients: this.clients.size,
+      });
+    }
+
+    if (parts[0] === "markets" && parts.length === 1) {
+      return this.reply(
+        response,
+        this.db.getMarkets().map((market) => {
+          const { bids, asks } = getDepth(this.db, market.marketId, 1);
+          return { ...market, bestBid: bids[0]?.price ?? 0n, bestAsk: asks[0]?.price ?? 0n };
+        })
+      );
+    }
+
+    if (parts[0] === "markets" && parts.length === 3) {
+      const marketId = this.marketParam(parts[1]);
+      switch (parts[2]) {
+        case "depth":
+          return this.reply(
+            response,
+            getDepth(this.db, marketId, this.numberParam(url, "levels"))
+          );
+        case "trades": {
+          const limit = Math.min(
+            this.numberParam(url, "limit") ?? DEFAULT_TRADE_LIMIT,
+            MAX_TRADE_LIMIT
+          );
+          return this.reply(
+            response,
+            this.db.getFills({ marketId, limit }).map(tradeView)
+          );
+        }
+        case "stats":
+          return this.reply(response, await this.stats(marketId));
+      }
+    }
+
+    if (parts[0] === "traders" && parts[2] === "orders" && parts.length === 3) {
+      if (!isAddress(parts[1])) {
+        throw new HttpError(400, `Invalid trader address ${parts[1]}`);
+      }
+      const marketId = url.searchParams.get("marketId");
+      const status = url.searchParams.get("status") ?? "open";
+      if (!["open", "filled", "cancelled"].includes(status)) {
+        throw new HttpError(400, `Invalid status ${status}`);
+      }
+      return this.reply(
+        response,
+        this.db.getOrders({
+          trader: getAddress(parts[1]),
+          marketId: marketId === null ? undefined : this.marketParam(marketId),
+          status: status as OrderStatus,
+        })
+      );
+    }
+
+    throw new HttpError(404, `No route for ${url.pathname}`);
+  }
+
+  private async stats(marketId: bigint) {
+    const counters = await this.indexer.orderBook.getStats(marketId);
+    const { bids, asks } = getDepth(this.db, marketId);
+    const fills = this.db.getFills({ marketId });
+    const last = fills[fills.length - 1];
+
+    return {
+      marketId,
+      ...counters,
+      openBids: bids.reduce((count, level) => count + level.orders, 0),
+      openAsks: asks.reduce((count, level) => count + level.orders, 0),
+      bestBid: bids[0]?.price ?? 0n,
+      bestAsk: asks[0]?.price ?? 0n,
+      lastPrice: last ? priceKey(last.baseAmount, last.quoteAmount) : 0n,
+      trades: fills.length,
+      baseVolume: fills.reduce((sum, fill) => sum + fill.baseAmount, 0n),
+      quoteVolume: fills.reduce((sum, fill) => sum + fill.quoteAmount, 0n),
+      blockNumber: this.indexer.checkpoint?.blockNumber,
+    };
+  }
+
+  private marketParam(value: string): bigint {
+    if (!/^\d+$/.test(value)) {
+      throw new HttpError(400, `Invalid market ID ${value}`);
+    }
+    const marketId = BigInt(value);
+    if (!this.db.getMarket(marketId)) {
+      throw new HttpError(404, `Unknown market ${value}`);
+    }
+    return marketId;
+  }
+
+  private numberParam(url: URL, name: string): number | undefined {
+    const value = url.searchParams.get(name);
+    if (value === null) {
+      return undefined;
+    }
+    if (!/^\d+$/.test(value)) {
+      throw new HttpError(400, `Invalid ${name} ${value}`);
+    }
+    return Number(value);
+  }
+
+  private reply(response: ServerResponse, body: unknown, status = 200): void {
+    response.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    });
+    response.end(toJson(body));
+  }
+
+  private fail(response: ServerResponse, error: unknown): void {
+    if (error instanceof HttpError) {
+      this.reply(response, { error: error.message }, error.status);
+      return;
+    }
+    this.onError(error);
+    this.reply(response, { error: "Internal error" }, 500);
+  }
+}
+
+function tradeView(fill: IndexedFill) {
+  return { ...fill, price: priceKey(fill.baseAmount, fill.quoteAmount) };
+}
+
+function subscribedMarket(client: WebSocketConnection): bigint | undefined {
+  const value = new URL(client.request.url ?? "/", "http://localhost").searchParams.get(
+    "marketId"
+  );
+  return value !== null && /^\d+$/.test(value) ? BigInt(value) : undefined;
+}
@@ -0,0 +1,94 @@
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+import { parseEventLogs, type Address } from "viem";
+
+import type { OrderBookContract } from "./escrow.js";
+
+/**
+ * Market registry helpers for ParallelOrderBook
+ *
+ * One deployment hosts many base/quote markets. Orders, matches and stats are
+ * scoped by market ID, so batches for different markets never touch the same
+ * book.
+ */
+
+export interface MarketView {
+  marketId: bigint;
+  baseToken: Address;
+  quoteToken: Address;
+  bestBid: bigint;
+  bestAsk: bigint;
+}
+
+/**
+ * Register a base/quote pair and return its market ID from MarketCreated
+ */
+export async function createMarket(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  baseToken: Address,
+  quoteToken: Address
+): Promise<bigint> {
+  const hash = await orderBook.write.createMarket([baseToken, quoteToken]);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+  const [created] = parseEventLogs({
+    abi: orderBook.abi,
+    eventName: "MarketCreated",
+    logs: receipt.logs,
+  });
+  if (!created) {
+    throw new Error(`createMarket(${baseToken}, ${quoteToken}) emitted no MarketCreated`);
+  }
+  return created.args.marketId;
+}
+
+/**
+ * Read one market as a named object instead of the raw `getMarket` tuple
+ */
+export async function readMarket(
+  orderBook: OrderBookContract,
+  marketId: bigint
+): Promise<MarketView> {
+  const [baseToken, quoteToken, bestBid, bestAsk] =
+    await orderBook.read.getMarket([marketId]);
+
+  return { marketId, baseToken, quoteToken, bestBid, bestAsk };
+}
+
+/**
+ * Level hint for an order at `price`: the closest live level on its side
+ * priced better than it, 0 if it would be the best. Passing it to
+ * `placeOrder`/`amendOrder` lets the book link a new level without walking
+ * from the best price.
+ */
+export async function findLevelHint(
+  orderBook: OrderBookContract,
+  marketId: bigint,
+  isBuyOrder: boolean,
+  price: bigint
+): Promise<bigint> {
+  const { bestBid, bestAsk } = await readMarket(orderBook, marketId);
+  const isBetter = (a: bigint, b: bigint) => (isBuyOrder ? a > b : a < b);
+
+  let hint = 0n;
+  let level = isBuyOrder ? bestBid : bestAsk;
+  while (level !== 0n && isBetter(level, price)) {
+    hint = level;
+    [, , level] = await orderBook.read.getPriceLevel([marketId, isBuyOrder, level]);
+  }
+  return hint;
+}
+
+/**
+ * Every listed market, in ID order
+ */
+export async function listMarkets(
+  orderBook: OrderBookContract
+): Promise<MarketView[]> {
+  const count = await orderBook.read.marketCount();
+  const markets: MarketView[] = [];
+  for (let marketId = 1n; marketId <= count; marketId++) {
+    markets.push(await readMarket(orderBook, marketId));
+  }
+  return markets;
+}
@@ -0,0 +1,244 @@
+import type {
+  PublicClient,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import { parseEventLogs, type Address, type Hash } from "viem";
+
+import type { OrderBookContract } from "./escrow.js";
+
+/**
+ * Order views for ParallelOrderBook
+ *
+ * Wraps the paginated enumeration views so scripts and tests can list open
+ * orders without probing `getOrder` for every ID ever issued, and decodes
+ * OrderAmended so amendments can be tracked by order ID.
+ */
+
+export const DEFAULT_PAGE_SIZE = 100n;
+
+/** Values of the contract's `OrderType` enum, for the typed `placeOrder` */
+export const OrderType = {
+  Limit: 0,
+  ImmediateOrCancel: 1,
+  FillOrKill: 2,
+  PostOnly: 3,
+  Market: 4,
+} as const;
+
+export type OrderType = (typeof OrderType)[keyof typeof OrderType];
+
+/** Values of the contract's `SelfTradePolicy` enum */
+export const SelfTradePolicy = {
+  CancelNewest: 0,
+  CancelOldest: 1,
+  CancelBoth: 2,
+} as const;
+
+export type SelfTradePolicy = (typeof SelfTradePolicy)[keyof typeof SelfTradePolicy];
+
+export interface OrderView {
+  orderId: bigint;
+  trader: Address;
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  timestamp: bigint;
+  isBuyOrder: boolean;
+  exists: boolean;
+  filledBase: bigint;
+  remainingBase: bigint;
+  remainingQuote: bigint;
+  expiresAt: bigint;
+  /** Market the order was placed in, 0 once it is no longer open */
+  marketId: bigint;
+}
+
+/** One `amendOrder` call as reported by OrderAmended */
+export interface OrderAmendment {
+  orderId: bigint;
+  marketId: bigint;
+  trader: Address;
+  /** New open size; fills before the amendment are not included */
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  /** Whether the order moved to the back of its price level */
+  priorityReset: boolean;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+type PageFetcher = (
+  offset: bigint,
+  limit: bigint
+) => Promise<readonly [readonly bigint[], bigint]>;
+
+/**
+ * Walk a paginated ID view until the reported total is exhausted
+ */
+export async function* iterateOrderIds(
+  fetchPage: PageFetcher,
+  pageSize: bigint = DEFAULT_PAGE_SIZE
+): AsyncGenerator<bigint> {
+  let offset = 0n;
+
+  while (true) {
+    const [ids, total] = await fetchPage(offset, pageSize);
+    for (const id of ids) {
+      yield id;
+    }
+
+    offset += BigInt(ids.length);
+    if (ids.length === 0 || offset >= total) {
+      return;
+    }
+  }
+}
+
+async function collect(iterator: AsyncGenerator<bigint>): Promise<bigint[]> {
+  const ids: bigint[] = [];
+  for await (const id of iterator) {
+    ids.push(id);
+  }
+  return ids;
+}
+
+/**
+ * All open order IDs belonging to `trader`
+ */
+export async function getTraderOpenOrderIds(
+  orderBook: OrderBookContract,
+  trader: Address,
+  pageSize: bigint = DEFAULT_PAGE_SIZE
+): Promise<bigint[]> {
+  return collect(
+    iterateOrderIds(
+      (offset, limit) =>
+        orderBook.read.getTraderOpenOrders([trader, offset, limit]),
+      pageSize
+    )
+  );
+}
+
+/**
+ * All open order IDs on the buy (`true`) or sell (`false`) side of a market
+ */
+export async function getOpenOrderIds(
+  orderBook: OrderBookContract,
+  marketId: bigint,
+  isBuyOrder: boolean,
+  pageSize: bigint = DEFAULT_PAGE_SIZE
+): Promise<bigint[]> {
+  return collect(
+    iterateOrderIds(
+      (offset, limit) =>
+        orderBook.read.getOpenOrders([marketId, isBuyOrder, offset, limit]),
+      pageSize
+    )
+  );
+}
+
+/**
+ * Read one order as a named object instead of the raw `getOrder` tuple
+ */
+export async function readOrder(
+  orderBook: OrderBookContract,
+  orderId: bigint
+): Promise<OrderView> {
+  const [
+    trader,
+    baseAmount,
+    quoteAmount,
+    timestamp,
+    isBuyOrder,
+    exists,
+    filledBase,
+    remainingBase,
+    remainingQuote,
+    expiresAt,
+  ] = await orderBook.read.getOrder([orderId]);
+  const marketId = await orderBook.read.getOrderMarket([orderId]);
+
+  return {
+    orderId,
+    trader,
+    baseAmount,
+    quoteAmount,
+    timestamp,
+    isBuyOrder,
+    exists,
+    filledBase,
+    remainingBase,
+    remainingQuote,
+    expiresAt,
+    marketId,
+  };
+}
+
+/**
+ * Amend an open order in place and return the decoded OrderAmended event;
+ * `levelHint` is passed on when set, see `findLevelHint`
+ */
+export async function amendOrder(
+  publicClient: PublicClient,
+  orderBook: OrderBookContract,
+  trader: WalletClient,
+  orderId: bigint,
+  baseAmount: bigint,
+  quoteAmount: bigint,
+  levelHint?: bigint
+): Promise<OrderAmendment> {
+  const options = { account: trader.account };
+  const hash =
+    levelHint === undefined
+      ? await orderBook.write.amendOrder([orderId, baseAmount, quoteAmount], options)
+      : await orderBook.write.amendOrder(
+          [orderId, baseAmount, quoteAmount, levelHint],
+          options
+        );
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+  const [amended] = parseEventLogs({
+    abi: orderBook.abi,
+    eventName: "OrderAmended",
+    logs: receipt.logs,
+  });
+  if (!amended) {
+    throw new Error(`amendOrder(${orderId}) emitted no OrderAmended`);
+  }
+  return toAmendment(amended);
+}
+
+/**
+ * Every amendment of one order, oldest first
+ */
+export async function getOrderAmendments(
+  orderBook: OrderBookContract,
+  orderId: bigint,
+  fromBlock: bigint = 0n
+): Promise<OrderAmendment[]> {
+  const events = await orderBook.getEvents.OrderAmended({ orderId }, { fromBlock });
+  return events.map(toAmendment);
+}
+
+function toAmendment(event: {
+  args: {
+    orderId?: bigint;
+    marketId?: bigint;
+    trader?: Address;
+    baseAmount?: bigint;
+    quoteAmount?: bigint;
+    priorityReset?: boolean;
+  };
+  blockNumber: bigint | null;
+  transactionHash: Hash | null;
+}): OrderAmendment {
+  return {
+    orderId: event.args.orderId!,
+    marketId: event.args.marketId!,
+    trader: event.args.trader!,
+    baseAmount: event.args.baseAmount!,
+    quoteAmount: event.args.quoteAmount!,
+    priorityReset: event.args.priorityReset!,
+    blockNumber: event.blockNumber ?? 0n,
+    transactionHash: event.transactionHash!,
+  };
+}
@@ -0,0 +1,270 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+
+import type { LatencyPercentiles, ReplayReport } from "./submit.js";
+
+/**
+ * Benchmark result files shared by every benchmark script
+ *
+ * A result records where it was measured (network, chain ID, commit, Node
+ * version), the configuration it ran with, a common set of metrics and
+ * whatever else the script wants to keep under `details`. The schema is
+ * versioned; bump RESULTS_SCHEMA_VERSION when `metrics` or `environment`
+ * change shape, since `compareResults` only lines up files of one version.
+ */
+
+export const RESULTS_SCHEMA_VERSION = 1;
+
+export interface BenchmarkEnvironment {
+  network: string;
+  chainId: number;
+  /** Commit of the working tree, suffixed with `-dirty` when it has changes */
+  commit?: string;
+  node: string;
+  platform: string;
+  recordedAt: string;
+}
+
+export interface BenchmarkMetrics {
+  transactions: number;
+  succeeded: number;
+  failed: number;
+  durationMs: number;
+  /** Transactions per second of wall time */
+  throughput: number;
+  /** Submit-to-inclusion latency, where the script measures it */
+  latencyMs?: LatencyPercentiles;
+  gasUsed: string;
+  averageGasPerTransaction: string;
+  /** Parallel speedup, measured or modelled */
+  speedup?: number;
+  /** Share of executions that lost a storage conflict */
+  conflictRate?: number;
+}
+
+export interface BenchmarkResult {
+  schemaVersion: typeof RESULTS_SCHEMA_VERSION;
+  /** Script that wrote the result, e.g. "replay-txs" */
+  script: string;
+  environment: BenchmarkEnvironment;
+  config: Record<string, unknown>;
+  metrics: BenchmarkMetrics;
+  details?: Record<string, unknown>;
+}
+
+export interface RegressionThresholds {
+  /** Largest tolerated drop in throughput or speedup, in percent */
+  throughputPct: number;
+  /** Largest tolerated rise in p50/p95/p99 latency, in percent */
+  latencyPct: number;
+  /** Largest tolerated rise in average gas per transaction, in percent */
+  gasPct: number;
+}
+
+export type ComparisonStatus = "ok" | "improved" | "regression";
+
+export interface MetricComparison {
+  file: string;
+  metric: string;
+  baseline: number;
+  candidate: number;
+  /** Relative change from the baseline, in percent */
+  changePct: number;
+  thresholdPct: number;
+  status: ComparisonStatus;
+}
+
+export interface ResultComparison {
+  baseline: string;
+  metrics: MetricComparison[];
+  regressions: MetricComparison[];
+  /** Differences in setup that make the numbers less comparable */
+  warnings: string[];
+}
+
+export const DEFAULT_THRESHOLDS: RegressionThresholds = {
+  throughputPct: 10,
+  latencyPct: 10,
+  gasPct: 5,
+};
+
+/**
+ * Where a benchmark runs: network and chain, plus the commit and runtime
+ */
+export function collectEnvironment(network: string, chainId: number): BenchmarkEnvironment {
+  return {
+    network,
+    chainId,
+    commit: gitCommit(),
+    node: process.version,
+    platform: `${process.platform}-${process.arch}`,
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+function gitCommit(): string | undefined {
+  try {
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+    const commit = git("rev-parse", "HEAD");
+    return git("status", "--porcelain").length > 0 ? `${commit}-dirty` : commit;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Result of a replay (replay-txs.ts, `parallel-ledger submit`), with the
+ * blocks and failure reasons kept as details
+ */
+export function replayResult(
+  script: string,
+  environment: BenchmarkEnvironment,
+  config: Record<string, unknown>,
+  report: ReplayReport
+): BenchmarkResult {
+  const included = report.succeeded + report.reverted;
+  return {
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    script,
+    environment,
+    config,
+    metrics: {
+      transactions: report.sent,
+      succeeded: report.succeeded,
+      failed: report.reverted + report.rejected + report.pending,
+      durationMs: report.durationMs,
+      throughput: report.throughput,
+      latencyMs: report.latencyMs,
+      gasUsed: report.gasUsed.toString(),
+      averageGasPerTransaction: (included > 0 ? report.gasUsed / BigInt(included) : 0n).toString(),
+    },
+    details: {
+      reverted: report.reverted,
+      rejected: report.rejected,
+      pending: report.pending,
+      blocks: report.blocks,
+      revertReasons: report.revertReasons,
+      rejections: report.rejections,
+    },
+  };
+}
+
+/**
+ * Write `result` to `dir` as `{prefix}-{timestamp}.json` and return the path
+ */
+export function saveResult(dir: string, prefix: string, result: BenchmarkResult): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${prefix}-${Date.now()}.json`);
+  fs.writeFileSync(
+    file,
+    JSON.stringify(result, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2)
+  );
+  return file;
+}
+
+/**
+ * Read a result file, rejecting files of another schema version
+ */
+export function loadResult(file: string): BenchmarkResult {
+  const result = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (result?.schemaVersion === undefined) {
+    throw new Error(`${file} has no schemaVersion; re-run its benchmark to record a versioned result`);
+  }
+  if (result.schemaVersion !== RESULTS_SCHEMA_VERSION) {
+    throw new Error(
+      `${file} uses results schema ${result.schemaVersion}, expected ${RESULTS_SCHEMA_VERSION}`
+    );
+  }
+  for (const field of ["transactions", "durationMs", "throughput", "averageGasPerTransaction"]) {
+    if (result.metrics?.[field] === undefined) {
+      throw new Error(`${file} is missing metrics.${field}`);
+    }
+  }
+  return result as BenchmarkResult;
+}
+
+/**
+ * Compare every candidate against the baseline. Throughput and speedup
+ * regress when they drop past `throughputPct`; latency percentiles and gas
+ * per transaction when they rise past theirs. Metrics missing from either
+ * side are skipped.
+ */
+export function compareResults(
+  baseline: { file: string; result: BenchmarkResult },
+  candidates: { file: string; result: BenchmarkResult }[],
+  thresholds: RegressionThresholds
+): ResultComparison {
+  const metrics: MetricComparison[] = [];
+  const warnings: string[] = [];
+  const base = baseline.result;
+
+  for (const { file, result } of candidates) {
+    if (result.script !== base.script) {
+      warnings.push(`${file} comes from ${result.script}, the baseline from ${base.script}`);
+    }
+    if (
+      result.environment.network !== base.environment.network ||
+      result.environment.chainId !== base.environment.chainId
+    ) {
+      warnings.push(
+        `${file} ran on ${result.environment.network} (chain ${result.environment.chainId}), ` +
+          `the baseline on ${base.environment.network} (chain ${base.environment.chainId})`
+      );
+    }
+    if (JSON.stringify(result.config) !== JSON.stringify(base.config)) {
+      warnings.push(`${file} ran with a different config than the baseline`);
+    }
+
+    const compare = (
+      metric: string,
+      before: number | undefined,
+      after: number | undefined,
+      thresholdPct: number,
+      higherIsBetter: boolean
+    ) => {
+      if (before === undefined || after === undefined || before === 0) {
+        return;
+      }
+      const changePct = ((after - before) / before) * 100;
+      const gain = higherIsBetter ? changePct : -changePct;
+      metrics.push({
+        file,
+        metric,
+        baseline: before,
+        candidate: after,
+        changePct,
+        thresholdPct,
+        status: gain < -thresholdPct ? "regression" : gain > thresholdPct ? "improved" : "ok",
+      });
+    };
+
+    const [before, after] = [base.metrics, result.metrics];
+    compare("throughput", before.throughput, after.throughput, thresholds.throughputPct, true);
+    compare("speedup", before.speedup, after.speedup, thresholds.throughputPct, true);
+    for (const percentile of ["p50", "p95", "p99"] as const) {
+      compare(
+        `latency ${percentile}`,
+        before.latencyMs?.[percentile],
+        after.latencyMs?.[percentile],
+        thresholds.latencyPct,
+        false
+      );
+    }
+    compare(
+      "gas per transaction",
+      Number(before.averageGasPerTransaction),
+      Number(after.averageGasPerTransaction),
+      thresholds.gasPct,
+      false
+    );
+  }
+
+  return {
+    baseline: baseline.file,
+    metrics,
+    regressions: metrics.filter((metric) => metric.status === "regression"),
+    warnings,
+  };
+}
@@ -0,0 +1,154 @@
+import type { Address } from "viem";
+
+import type { TracedAccess } from "./conflicts.js";
+import type { StorageAccess } from "./trace.js";
+
+/**
+ * Deterministic model of optimistic parallel execution
+ *
+ * Replays traced transactions (see conflicts.ts) through an Arcology-style
+ * executor with a fixed number of workers. Every generation runs all pending
+ * transactions against the same state, each on the first worker to come
+ * free, and takes as long as its busiest worker. Conflict detection then
+ * walks the generation in block order: a transaction commits unless it
+ * writes a slot an earlier committed one read or wrote, or reads one it
+ * wrote. Aborted transactions are either re-executed in the next generation
+ * or reverted for good.
+ *
+ * Time is measured in gas, so the same traces always give the same result.
+ * A re-executed transaction is assumed to touch the same slots and use the
+ * same gas as when it was traced.
+ */
+
+export type ConflictPolicy = "reexecute" | "revert";
+
+export interface SchedulerOptions {
+  workers: number;
+  policy: ConflictPolicy;
+  /** Contracts whose writes commute and never conflict */
+  commutative?: ReadonlySet<Address>;
+}
+
+export interface Generation {
+  /** Indices of the transactions executed, in block order */
+  executed: number[];
+  committed: number[];
+  aborted: number[];
+  /** Gas of the busiest worker */
+  gas: bigint;
+}
+
+export interface ScheduleReport {
+  workers: number;
+  policy: ConflictPolicy;
+  transactions: number;
+  /** Executions including re-executions */
+  executions: number;
+  committed: number;
+  /** Executions aborted and run again */
+  reexecuted: number;
+  /** Transactions aborted and not run again */
+  reverted: number;
+  /** Aborted executions over all executions */
+  conflictRate: number;
+  generations: Generation[];
+  /** Gas of running every transaction once, one after the other */
+  sequentialGas: bigint;
+  /** Gas of the transactions that committed */
+  committedGas: bigint;
+  /** Sum of the generations' gas */
+  parallelGas: bigint;
+  /** Committed gas over parallel gas: useful work per unit of time, relative to one worker */
+  speedup: number;
+  /** Executed gas over the gas the workers had available */
+  utilization: number;
+}
+
+/**
+ * Run one block of traced transactions, in block order, through the model
+ */
+export function simulateOptimisticExecution(
+  transactions: TracedAccess[],
+  options: SchedulerOptions
+): ScheduleReport {
+  if (!Number.isInteger(options.workers) || options.workers < 1) {
+    throw new Error(`Workers must be a positive integer, got ${options.workers}`);
+  }
+  if (options.policy !== "reexecute" && options.policy !== "revert") {
+    throw new Error(`Policy must be reexecute or revert, got ${options.policy}`);
+  }
+  const commutative = options.commutative ?? new Set<Address>();
+  const slotIds = (accesses: StorageAccess[]) =>
+    accesses
+      .filter((access) => !commutative.has(access.address))
+      .map((access) => `${access.address}:${access.slot}`);
+  const reads = transactions.map((tx) => slotIds(tx.reads));
+  const writes = transactions.map((tx) => slotIds(tx.writes));
+  const gas = transactions.map((tx) => tx.receipt.gasUsed);
+
+  const generations: Generation[] = [];
+  let pending = transactions.map((_, index) => index);
+
+  while (pending.length > 0) {
+    const workers = new Array<bigint>(Math.min(options.workers, pending.length)).fill(0n);
+    for (const index of pending) {
+      let free = 0;
+      workers.forEach((busy, worker) => {
+        if (busy < workers[free]) free = worker;
+      });
+      workers[free] += gas[index];
+    }
+
+    const committedReads = new Set<string>();
+    const committedWrites = new Set<string>();
+    const committed: number[] = [];
+    const aborted: number[] = [];
+    for (const index of pending) {
+      const clash =
+        writes[index].some((slot) => committedReads.has(slot) || committedWrites.has(slot)) ||
+        reads[index].some((slot) => committedWrites.has(slot));
+      if (clash) {
+        aborted.push(index);
+        continue;
+      }
+      committed.push(index);
+      reads[index].forEach((slot) => committedReads.add(slot));
+      writes[index].forEach((slot) => committedWrites.add(slot));
+    }
+
+    generations.push({
+      executed: pending,
+      committed,
+      aborted,
+      gas: workers.reduce((max, busy) => (busy > max ? busy : max), 0n),
+    });
+    pending = options.policy === "reexecute" ? aborted : [];
+  }
+
+  const sum = (indices: number[]) => indices.reduce((total, index) => total + gas[index], 0n);
+  const count = (pick: (generation: Generation) => number[]) =>
+    generations.reduce((total, generation) => total + pick(generation).length, 0);
+  const executions = count((generation) => generation.executed);
+  const abortedExecutions = count((generation) => generation.aborted);
+  const committedGas = sum(generations.flatMap((generation) => generation.committed));
+  const executedGas = sum(generations.flatMap((generation) => generation.executed));
+  const parallelGas = generations.reduce((total, generation) => total + generation.gas, 0n);
+
+  return {
+    workers: options.workers,
+    policy: options.policy,
+    transactions: transactions.length,
+    executions,
+    committed: count((generation) => generation.committed),
+    reexecuted: options.policy === "reexecute" ? abortedExecutions : 0,
+    reverted: options.policy === "revert" ? abortedExecutions : 0,
+    conflictRate: executions > 0 ? abortedExecutions / executions : 0,
+    generations,
+    sequentialGas: sum(transactions.map((_, index) => index)),
+    committedGas,
+    parallelGas,
+    speedup: parallelGas > 0n ? Number(committedGas) / Number(parallelGas) : 0,
+    utilization:
+      parallelGas > 0n ? Number(executedGas) / (Number(parallelGas) * options.workers) : 0,
+  };
+}
@@ -0,0 +1,287 @@
+import * as fs from "fs";
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+import type { ArtifactManager } from "hardhat/types/artifacts";
+import {
+  encodeAbiParameters,
+  getAddress,
+  keccak256,
+  toHex,
+  type Address,
+  type Hex,
+} from "viem";
+
+/**
+ * Storage layout helpers
+ *
+ * The layout comes from solc's `storageLayout` output, which
+ * hardhat.config.ts requests for every contract, read from the build info.
+ * It is reduced to what the labeler walks: value types, structs, mappings
+ * and dynamic arrays.
+ *
+ * A SlotLabeler turns raw storage slots back into readable paths such as
+ * `traderOrderCounts[trader1]` or `markets[1].bestBid`, given the keys that
+ * may have been used (trader addresses, order IDs, market IDs, prices...).
+ */
+
+/** One variable or struct member in solc's `storageLayout` output */
+interface SolcStorageEntry {
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+/** A type in solc's `storageLayout` output, keyed by type ID */
+interface SolcStorageType {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: SolcStorageEntry[];
+}
+
+interface SolcStorageLayout {
+  storage: SolcStorageEntry[];
+  types: Record<string, SolcStorageType> | null;
+}
+
+/** The part of a build info output file read here */
+interface BuildInfoOutput {
+  output: {
+    contracts?: Record<string, Record<string, { storageLayout?: SolcStorageLayout }>>;
+  };
+}
+
+type TypeShape =
+  | { kind: "value"; bytes: number }
+  | { kind: "struct"; name: string; members: LayoutEntry[]; slots: number }
+  | { kind: "mapping"; keyType: "address" | "uint"; value: TypeShape }
+  | { kind: "array"; element: TypeShape };
+
+export interface LayoutEntry {
+  name: string;
+  slot: bigint;
+  offset: number;
+  type: TypeShape;
+}
+
+export interface StorageLayout {
+  contractName: string;
+  entries: LayoutEntry[];
+}
+
+/** A candidate mapping key together with the name it should be shown as */
+export interface SlotKey {
+  value: bigint;
+  label: string;
+}
+
+export interface SlotKeys {
+  addresses: SlotKey[];
+  numbers: SlotKey[];
+}
+
+const MAX_ARRAY_INDEX = 64n;
+
+function slotsOf(shape: TypeShape): number {
+  return shape.kind === "struct" ? shape.slots : 1;
+}
+
+/**
+ * Read the storage layout of `contractName` from its build info
+ */
+export async function loadStorageLayout(
+  artifacts: ArtifactManager,
+  contractName: string
+): Promise<StorageLayout> {
+  const buildInfoId = await artifacts.getBuildInfoId(contractName);
+  const outputPath =
+    buildInfoId !== undefined
+      ? await artifacts.getBuildInfoOutputPath(buildInfoId)
+      : undefined;
+  if (outputPath === undefined) {
+    throw new Error(`No build info for ${contractName}; compile first`);
+  }
+
+  const { inputSourceName } = await artifacts.readArtifact(contractName);
+  const { output } = JSON.parse(fs.readFileSync(outputPath, "utf8")) as BuildInfoOutput;
+  const layout =
+    inputSourceName !== undefined
+      ? output.contracts?.[inputSourceName]?.[contractName]?.storageLayout
+      : undefined;
+  if (layout === undefined) {
+    throw new Error(
+      `No storageLayout for ${contractName} in its build info; ` +
+        "request it in the solc outputSelection and recompile"
+    );
+  }
+  const types = layout.types ?? {};
+
+  const resolve = (typeId: string): TypeShape => {
+    const type = types[typeId];
+    if (type === undefined) {
+      throw new Error(`Storage type ${typeId} missing from the layout of ${contractName}`);
+    }
+    switch (type.encoding) {
+      case "mapping":
+        return {
+          kind: "mapping",
+          keyType: types[type.key!].label.startsWith("address") ? "address" : "uint",
+          value: resolve(type.value!),
+        };
+      case "dynamic_array":
+        return { kind: "array", element: resolve(type.base!) };
+      case "bytes":
+        return { kind: "value", bytes: 32 };
+      case "inplace":
+        if (type.members !== undefined) {
+          return {
+            kind: "struct",
+            // "struct ParallelOrderBook.Counter"
+            name: type.label.slice(type.label.lastIndexOf(".") + 1),
+            members: type.members.map(entry),
+            slots: Number(type.numberOfBytes) / 32,
+          };
+        }
+        return { kind: "value", bytes: Number(type.numberOfBytes) };
+    }
+  };
+  const entry = (variable: SolcStorageEntry): LayoutEntry => ({
+    name: variable.label,
+    slot: BigInt(variable.slot),
+    offset: variable.offset,
+    type: resolve(variable.type),
+  });
+
+  return { contractName, entries: layout.storage.map(entry) };
+}
+
+function mappingSlot(key: bigint, base: bigint): bigint {
+  return BigInt(
+    keccak256(encodeAbiParameters([{ type: "uint256" }, { type: "uint256" }], [key, base]))
+  );
+}
+
+function arrayDataSlot(base: bigint): bigint {
+  return BigInt(keccak256(toHex(base, { size: 32 })));
+}
+
+/**
+ * Maps storage slots back to variable paths for a known set of keys
+ */
+export class SlotLabeler {
+  readonly #labels = new Map<bigint, string>();
+
+  constructor(layout: StorageLayout, keys: SlotKeys) {
+    for (const entry of layout.entries) {
+      this.#add(entry.slot, entry.name, entry.type, keys);
+    }
+  }
+
+  label(slot: Hex | bigint): string {
+    const key = typeof slot === "bigint" ? slot : BigInt(slot);
+    return this.#labels.get(key) ?? `slot ${toHex(key)}`;
+  }
+
+  has(slot: Hex | bigint): boolean {
+    return this.#labels.has(typeof slot === "bigint" ? slot : BigInt(slot));
+  }
+
+  /**
+   * Slot of a top-level variable or a struct member path such as
+   * `ordersPlaced.cumulative`, if it is in the labelled set
+   */
+  slotOf(path: string): bigint | undefined {
+    for (const [slot, label] of this.#labels) {
+      if (label === path || label.split(" / ").includes(path)) {
+        return slot;
+      }
+    }
+    return undefined;
+  }
+
+  #add(slot: bigint, path: string, type: TypeShape, keys: SlotKeys): void {
+    switch (type.kind) {
+      case "value": {
+        const existing = this.#labels.get(slot);
+        this.#labels.set(slot, existing ? `${existing} / ${path}` : path);
+        return;
+      }
+      case "struct":
+        for (const member of type.members) {
+          this.#add(slot + member.slot, `${path}.${member.name}`, member.type, keys);
+        }
+        return;
+      case "array": {
+        this.#labels.set(slot, `${path}.length`);
+        const data = arrayDataSlot(slot);
+        const stride = BigInt(slotsOf(type.element));
+        for (let i = 0n; i < MAX_ARRAY_INDEX; i++) {
+          this.#add(data + i * stride, `${path}[${i}]`, type.element, keys);
+        }
+        return;
+      }
+      case "mapping": {
+        const candidates = type.keyType === "address" ? keys.addresses : keys.numbers;
+        for (const key of candidates) {
+          this.#add(mappingSlot(key.value, slot), `${path}[${key.label}]`, type.value, keys);
+        }
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Build a SlotKeys set from labelled addresses and numbers
+ */
+export function slotKeys(
+  addresses: Record<string, Address>,
+  numbers: Record<string, bigint>
+): SlotKeys {
+  return {
+    addresses: Object.entries(addresses).map(([label, address]) => ({
+      value: BigInt(address),
+      label,
+    })),
+    numbers: Object.entries(numbers).map(([label, value]) => ({ value, label })),
+  };
+}
+
+/**
+ * Map each U256Cumulative counter contract of a ParallelOrderBook back to the
+ * variable holding it. `labels` must know the market IDs as `m1`, `m2`...
+ */
+export async function readCounterAddresses(
+  publicClient: PublicClient,
+  orderBook: Address,
+  layout: StorageLayout,
+  labels: SlotLabeler,
+  marketCount: bigint
+): Promise<Map<Address, string>> {
+  const paths = layout.entries
+    .filter((entry) => entry.type.kind === "struct" && entry.type.name === "Counter")
+    .map((entry) => entry.name);
+  for (let id = 1n; id <= marketCount; id++) {
+    for (const counter of ["ordersPlaced", "ordersMatched", "ordersCancelled"]) {
+      paths.push(`markets[m${id}].${counter}`);
+    }
+  }
+
+  const counters = new Map<Address, string>();
+  for (const path of paths) {
+    const slot = labels.slotOf(`${path}.cumulative`);
+    if (slot === undefined) continue;
+    const word = await publicClient.getStorageAt({
+      address: orderBook,
+      slot: `0x${slot.toString(16).padStart(64, "0")}`,
+    });
+    const value = BigInt(word ?? "0x0");
+    if (value !== 0n) {
+      counters.set(getAddress(`0x${value.toString(16).padStart(40, "0")}`), path);
+    }
+  }
+  return counters;
+}
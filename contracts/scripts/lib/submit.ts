@@ -0,0 +1,392 @@
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+import {
+  BaseError,
+  keccak256,
+  parseTransaction,
+  type Address,
+  type Hash,
+  type Hex,
+} from "viem";
+
+import { decodeOrderBookError, type OrderBookAbi } from "./client.js";
+import type { BatchData } from "./txgen.js";
+
+/**
+ * Replays pre-signed transactions written by the generator (see txgen.ts)
+ *
+ * Transactions go out in file order through `eth_sendRawTransaction` from a
+ * pool of `concurrency` senders, optionally throttled to `ratePerSecond`. An
+ * account never has two sends in flight: a sender skips ahead past
+ * transactions whose account is busy, so each account's nonces reach the
+ * node in order. Across accounts the node picks the order, so runs that
+ * depend on file order (`sequential`) go out one at a time instead, each
+ * once the previous one is in a block.
+ * Meanwhile new blocks are polled and every replayed transaction found in
+ * one counts as included when that block is first seen, so latency is
+ * submit-to-inclusion wall time at the polling resolution. Receipts of
+ * included transactions are fetched as their blocks come in; reverted ones
+ * are re-run with `eth_call` on the state before their block to recover the
+ * revert reason, decoded against the order book's custom errors.
+ */
+
+export interface ReplayOptions {
+  /** Transactions in flight at once, at most one per signing account */
+  concurrency: number;
+  /** Transactions sent per second, 0 = as fast as the senders go */
+  ratePerSecond: number;
+  /** Interval between block polls (default 250ms) */
+  pollingIntervalMs?: number;
+  /** Stop waiting for inclusion this long after the last send (default 120s) */
+  inclusionTimeoutMs?: number;
+  /** Decodes the custom errors of reverted transactions */
+  abi?: OrderBookAbi;
+  /**
+   * Send each transaction only once the previous one is included, ignoring
+   * `concurrency`; stops sending if one misses the inclusion timeout
+   */
+  sequential?: boolean;
+}
+
+export type ReplayStatus = "pending" | "success" | "reverted" | "rejected";
+
+export interface ReplayedTransaction {
+  hash: Hash;
+  batchId: number;
+  from: string;
+  nonce: number;
+  status: ReplayStatus;
+  submittedAt: number;
+  includedAt?: number;
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+  /** Revert reason, or the RPC error of a rejected send */
+  error?: string;
+}
+
+export interface LatencyPercentiles {
+  min: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface BlockInclusion {
+  blockNumber: bigint;
+  /** Replayed transactions in the block */
+  transactions: number;
+  /** Every transaction in the block, replayed or not */
+  blockTransactions: number;
+  gasUsed: bigint;
+}
+
+export interface ErrorCount {
+  reason: string;
+  count: number;
+}
+
+export interface ReplayReport {
+  sent: number;
+  succeeded: number;
+  reverted: number;
+  rejected: number;
+  /** Accepted but not seen in a block before the inclusion timeout */
+  pending: number;
+  gasUsed: bigint;
+  durationMs: number;
+  /** Included transactions per second of wall time */
+  throughput: number;
+  /** Submit-to-inclusion latency of included transactions, undefined if none */
+  latencyMs?: LatencyPercentiles;
+  blocks: BlockInclusion[];
+  revertReasons: ErrorCount[];
+  rejections: ErrorCount[];
+  transactions: ReplayedTransaction[];
+}
+
+const DEFAULT_POLLING_INTERVAL_MS = 250;
+const DEFAULT_INCLUSION_TIMEOUT_MS = 120_000;
+
+export async function replayTransactions(
+  publicClient: PublicClient,
+  batches: BatchData[],
+  options: ReplayOptions,
+  onProgress?: (included: number, total: number) => void
+): Promise<ReplayReport> {
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${options.concurrency}`);
+  }
+  if (!(options.ratePerSecond >= 0)) {
+    throw new Error(`Rate must be zero or positive, got ${options.ratePerSecond}`);
+  }
+  const pollingIntervalMs = options.pollingIntervalMs ?? DEFAULT_POLLING_INTERVAL_MS;
+  const inclusionTimeoutMs = options.inclusionTimeoutMs ?? DEFAULT_INCLUSION_TIMEOUT_MS;
+
+  const queue = batches.flatMap((batch) =>
+    batch.transactions.map((tx) => ({ batchId: batch.batchId, ...tx }))
+  );
+  const seen = new Set<Hash>();
+  for (const tx of queue) {
+    const hash = keccak256(tx.rawTx as Hex);
+    if (seen.has(hash)) {
+      throw new Error(`Transaction ${hash} appears more than once in the batches`);
+    }
+    seen.add(hash);
+  }
+
+  const rawTxs = new Map<Hash, Hex>();
+  // Keyed by the locally computed hash, so a block mined before the send
+  // returns (automine) still matches
+  const awaiting = new Map<Hash, ReplayedTransaction>();
+  const replayed: ReplayedTransaction[] = [];
+  const blocks: BlockInclusion[] = [];
+
+  const started = Date.now();
+  let nextBlock = (await publicClient.getBlockNumber({ cacheTime: 0 })) + 1n;
+
+  const remaining = [...queue];
+  // The send in flight per signing account
+  const inFlight = new Map<string, Promise<void>>();
+
+  // Senders take turns in `nextSendAt`, spacing sends by the rate interval
+  const sendIntervalMs = options.ratePerSecond > 0 ? 1000 / options.ratePerSecond : 0;
+  let nextSendAt = started;
+  let sending = true;
+  let lastSentAt = started;
+
+  const send = async (tx: (typeof queue)[number]) => {
+    if (sendIntervalMs > 0) {
+      const slot = Math.max(nextSendAt, Date.now());
+      nextSendAt = slot + sendIntervalMs;
+      await sleep(slot - Date.now());
+    }
+
+    const rawTx = tx.rawTx as Hex;
+    const record: ReplayedTransaction = {
+      hash: keccak256(rawTx),
+      batchId: tx.batchId,
+      from: tx.from,
+      nonce: tx.nonce,
+      status: "pending",
+      submittedAt: Date.now(),
+    };
+    replayed.push(record);
+    rawTxs.set(record.hash, rawTx);
+    awaiting.set(record.hash, record);
+
+    try {
+      await publicClient.sendRawTransaction({ serializedTransaction: rawTx });
+    } catch (error) {
+      // Some nodes (Hardhat's among them) mine a reverting transaction
+      // and still fail the send; those are left to the block watcher
+      const known = await publicClient
+        .getTransaction({ hash: record.hash })
+        .then(() => true, () => false);
+      if (!known && awaiting.delete(record.hash)) {
+        record.status = "rejected";
+        record.error = errorMessage(error);
+      }
+    }
+    lastSentAt = Date.now();
+
+    while (options.sequential && awaiting.has(record.hash)) {
+      if (Date.now() - lastSentAt > inclusionTimeoutMs) {
+        // The rest depend on it, so they are not sent
+        remaining.length = 0;
+        break;
+      }
+      await sleep(pollingIntervalMs);
+    }
+  };
+
+  const sender = async () => {
+    while (remaining.length > 0) {
+      const index = remaining.findIndex((tx) => !inFlight.has(tx.from.toLowerCase()));
+      if (index < 0) {
+        // Everything left belongs to accounts with a send in flight
+        await Promise.race(inFlight.values());
+        continue;
+      }
+
+      const [tx] = remaining.splice(index, 1);
+      const from = tx.from.toLowerCase();
+      const sent = send(tx);
+      inFlight.set(from, sent);
+      try {
+        await sent;
+      } finally {
+        inFlight.delete(from);
+      }
+    }
+  };
+
+  const pollBlocks = async () => {
+    const head = await publicClient.getBlockNumber({ cacheTime: 0 });
+    for (; nextBlock <= head; nextBlock++) {
+      const block = await publicClient.getBlock({ blockNumber: nextBlock });
+      const seenAt = Date.now();
+      const included = block.transactions
+        .map((hash) => awaiting.get(hash))
+        .filter((record): record is ReplayedTransaction => record !== undefined);
+      if (included.length === 0) {
+        continue;
+      }
+
+      await Promise.all(
+        included.map(async (record) => {
+          awaiting.delete(record.hash);
+          const receipt = await publicClient.getTransactionReceipt({ hash: record.hash });
+          record.status = receipt.status === "success" ? "success" : "reverted";
+          record.includedAt = seenAt;
+          record.blockNumber = receipt.blockNumber;
+          record.gasUsed = receipt.gasUsed;
+        })
+      );
+      blocks.push({
+        blockNumber: block.number,
+        transactions: included.length,
+        blockTransactions: block.transactions.length,
+        gasUsed: block.gasUsed,
+      });
+      onProgress?.(replayed.filter((record) => record.includedAt !== undefined).length, queue.length);
+    }
+  };
+
+  const watcher = async () => {
+    while (sending || awaiting.size > 0) {
+      await pollBlocks();
+      if (!sending && awaiting.size > 0 && Date.now() - lastSentAt > inclusionTimeoutMs) {
+        break;
+      }
+      if (sending || awaiting.size > 0) {
+        await sleep(pollingIntervalMs);
+      }
+    }
+  };
+
+  const senders = Array.from(
+    {
+      length: options.sequential ? 1 : Math.min(options.concurrency, Math.max(queue.length, 1)),
+    },
+    sender
+  );
+  const watching = watcher();
+  // Surfaced by the await below, once the senders are done
+  watching.catch(() => {});
+  try {
+    await Promise.all(senders);
+  } finally {
+    sending = false;
+  }
+  await watching;
+  const durationMs = Date.now() - started;
+
+  for (const record of replayed.filter((candidate) => candidate.status === "reverted")) {
+    record.error = await revertReason(
+      publicClient,
+      options.abi,
+      rawTxs.get(record.hash)!,
+      record.from as Address,
+      record.blockNumber!
+    );
+  }
+
+  const count = (status: ReplayStatus) =>
+    replayed.filter((record) => record.status === status).length;
+  const included = replayed.filter((record) => record.includedAt !== undefined);
+
+  return {
+    sent: replayed.length,
+    succeeded: count("success"),
+    reverted: count("reverted"),
+    rejected: count("rejected"),
+    pending: count("pending"),
+    gasUsed: included.reduce((sum, record) => sum + record.gasUsed!, 0n),
+    durationMs,
+    throughput: durationMs > 0 ? (included.length * 1000) / durationMs : 0,
+    latencyMs: latencyPercentiles(
+      included.map((record) => record.includedAt! - record.submittedAt)
+    ),
+    blocks,
+    revertReasons: countErrors(replayed, "reverted"),
+    rejections: countErrors(replayed, "rejected"),
+    transactions: replayed,
+  };
+}
+
+/**
+ * Nearest-rank percentiles of `samples`, undefined when there are none
+ */
+export function latencyPercentiles(samples: number[]): LatencyPercentiles | undefined {
+  if (samples.length === 0) {
+    return undefined;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = (percent: number) =>
+    sorted[Math.max(Math.ceil((percent / 100) * sorted.length) - 1, 0)];
+  return {
+    min: sorted[0],
+    p50: rank(50),
+    p90: rank(90),
+    p95: rank(95),
+    p99: rank(99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Re-run a reverted transaction on the state before its block. Earlier
+ * transactions of the same block are not applied, so a revert that depends
+ * on them shows up as "did not revert when re-run".
+ */
+async function revertReason(
+  publicClient: PublicClient,
+  abi: OrderBookAbi | undefined,
+  rawTx: Hex,
+  from: Address,
+  blockNumber: bigint
+): Promise<string> {
+  const tx = parseTransaction(rawTx);
+  try {
+    await publicClient.call({
+      account: from,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gas: tx.gas,
+      blockNumber: blockNumber - 1n,
+    });
+    return "did not revert when re-run";
+  } catch (error) {
+    const decoded = abi ? decodeOrderBookError(abi, error) : undefined;
+    if (decoded) {
+      return `${decoded.errorName}(${decoded.args.map(String).join(", ")})`;
+    }
+    return errorMessage(error);
+  }
+}
+
+function countErrors(replayed: ReplayedTransaction[], status: ReplayStatus): ErrorCount[] {
+  const counts = new Map<string, number>();
+  for (const record of replayed) {
+    if (record.status === status) {
+      const reason = record.error ?? "unknown";
+      counts.set(reason, (counts.get(reason) ?? 0) + 1);
+    }
+  }
+  return [...counts]
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof BaseError) {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message.split("\n")[0] : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+}
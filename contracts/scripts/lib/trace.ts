@@ -0,0 +1,214 @@
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+import {
+  getAddress,
+  pad,
+  zeroAddress,
+  type Address,
+  type EIP1193RequestFn,
+  type Hash,
+  type Hex,
+} from "viem";
+
+/**
+ * Transaction tracing helpers
+ *
+ * Replays a mined transaction with `debug_traceTransaction` (struct logger)
+ * and extracts the storage slots it wrote and the external calls it made, or
+ * with the prestate tracer, every slot it read or wrote. Works against
+ * Hardhat's EDR network.
+ */
+
+export interface StorageWrite {
+  /** Contract whose storage was written */
+  address: Address;
+  slot: Hex;
+}
+
+export interface ExternalCall {
+  from: Address;
+  to: Address;
+  /** First four bytes of calldata, undefined when it was not captured */
+  selector?: Hex;
+  op: "CALL" | "STATICCALL" | "DELEGATECALL" | "CALLCODE";
+}
+
+export interface StateTrace {
+  writes: StorageWrite[];
+  calls: ExternalCall[];
+}
+
+interface StructLog {
+  op: string;
+  depth: number;
+  stack?: string[];
+  memory?: string[];
+}
+
+/** Tracer options of `debug_traceTransaction`, as Geth and EDR take them */
+interface TraceConfig {
+  disableStorage?: boolean;
+  enableMemory?: boolean;
+  tracer?: "prestateTracer";
+  tracerConfig?: { disableCode?: boolean; diffMode?: boolean };
+}
+
+/** `debug_traceTransaction` is not in viem's public RPC schema */
+type DebugTraceSchema<TResult> = [
+  {
+    Method: "debug_traceTransaction";
+    Parameters: [hash: Hash, config: TraceConfig];
+    ReturnType: TResult;
+  },
+];
+
+/**
+ * Replay a mined transaction with `debug_traceTransaction`; `TResult` is the
+ * shape the chosen tracer returns
+ */
+function debugTraceTransaction<TResult>(
+  publicClient: PublicClient,
+  hash: Hash,
+  config: TraceConfig
+): Promise<TResult> {
+  const request = publicClient.request as EIP1193RequestFn<DebugTraceSchema<TResult>>;
+  return request({ method: "debug_traceTransaction", params: [hash, config] });
+}
+
+const CALL_OPS = new Set(["CALL", "STATICCALL", "DELEGATECALL", "CALLCODE"]);
+
+function stackItem(stack: string[], fromTop: number): bigint {
+  return BigInt(stack[stack.length - 1 - fromTop]);
+}
+
+function toAddress(word: bigint): Address {
+  return getAddress(pad(`0x${(word & ((1n << 160n) - 1n)).toString(16)}`, { size: 20 }));
+}
+
+function readSelector(memory: string[] | undefined, offset: bigint): Hex | undefined {
+  if (!memory || memory.length === 0) {
+    return undefined;
+  }
+  // EDR prefixes each memory word with 0x, other clients do not
+  const hex = memory.map((word) => word.replace(/^0x/, "")).join("");
+  const start = Number(offset) * 2;
+  const selector = hex.slice(start, start + 8);
+  return selector.length === 8 ? `0x${selector}` : undefined;
+}
+
+/**
+ * Storage writes and external calls of a mined transaction, in execution order
+ */
+export async function traceStateWrites(
+  publicClient: PublicClient,
+  hash: Hash
+): Promise<StateTrace> {
+  const tx = await publicClient.getTransaction({ hash });
+  if (!tx.to) {
+    throw new Error(`Transaction ${hash} is a deployment; trace a call instead`);
+  }
+
+  const result = await debugTraceTransaction<{ structLogs: StructLog[] }>(publicClient, hash, {
+    disableStorage: true,
+    enableMemory: true,
+  });
+
+  const writes: StorageWrite[] = [];
+  const calls: ExternalCall[] = [];
+
+  // Storage context per call depth; DELEGATECALL keeps the caller's storage
+  const contexts: Address[] = [getAddress(tx.to)];
+  let pending: Address | undefined;
+
+  for (const log of result.structLogs) {
+    while (contexts.length > log.depth) {
+      contexts.pop();
+    }
+    if (pending !== undefined) {
+      if (log.depth > contexts.length) {
+        contexts.push(pending);
+      }
+      pending = undefined;
+    }
+
+    const current = contexts[contexts.length - 1];
+    const stack = log.stack ?? [];
+
+    if (log.op === "SSTORE") {
+      writes.push({
+        address: current,
+        slot: pad(`0x${stackItem(stack, 0).toString(16)}`, { size: 32 }),
+      });
+    } else if (CALL_OPS.has(log.op)) {
+      const to = toAddress(stackItem(stack, 1));
+      const hasValue = log.op === "CALL" || log.op === "CALLCODE";
+      const argsOffset = stackItem(stack, hasValue ? 3 : 2);
+      calls.push({
+        from: current,
+        to,
+        selector: readSelector(log.memory, argsOffset),
+        op: log.op as ExternalCall["op"],
+      });
+      pending =
+        log.op === "DELEGATECALL" || log.op === "CALLCODE" ? current : to;
+    } else if (log.op === "CREATE" || log.op === "CREATE2") {
+      // The new address is only known after the fact, so constructor writes
+      // are attributed to the zero address
+      pending = zeroAddress;
+    }
+  }
+
+  return { writes, calls };
+}
+
+export interface StorageAccess {
+  /** Contract whose storage was touched */
+  address: Address;
+  slot: Hex;
+}
+
+export interface AccessTrace {
+  /** Slots read but left unchanged */
+  reads: StorageAccess[];
+  /** Slots whose value changed, cleared ones included */
+  writes: StorageAccess[];
+}
+
+type PrestateAccounts = Record<string, { storage?: Record<string, string> }>;
+
+/**
+ * Storage read and write sets of a mined transaction, from the prestate
+ * tracer. The plain trace lists every slot touched; diff mode lists the ones
+ * that changed, so a slot written back with its old value counts as a read.
+ */
+export async function traceStorageAccess(
+  publicClient: PublicClient,
+  hash: Hash
+): Promise<AccessTrace> {
+  const trace = <TResult>(diffMode: boolean) =>
+    debugTraceTransaction<TResult>(publicClient, hash, {
+      tracer: "prestateTracer",
+      tracerConfig: { disableCode: true, diffMode },
+    });
+
+  const touched = await trace<PrestateAccounts>(false);
+  const diff = await trace<{ pre: PrestateAccounts; post: PrestateAccounts }>(true);
+
+  const slotsOf = (accounts: PrestateAccounts, address: string) =>
+    Object.keys(accounts[address]?.storage ?? {});
+
+  const reads: StorageAccess[] = [];
+  const writes: StorageAccess[] = [];
+  for (const address of Object.keys(touched)) {
+    // Cleared slots only show up in `pre`
+    const written = new Set(
+      [...slotsOf(diff.post, address), ...slotsOf(diff.pre, address)].map((slot) =>
+        pad(slot as Hex, { size: 32 })
+      )
+    );
+    for (const key of slotsOf(touched, address)) {
+      const slot = pad(key as Hex, { size: 32 });
+      (written.has(slot) ? writes : reads).push({ address: getAddress(address), slot });
+    }
+  }
+  return { reads, writes };
+}
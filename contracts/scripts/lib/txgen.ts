@@ -0,0 +1,545 @@
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  decodeFunctionData,
+  encodeFunctionData,
+  getAddress,
+  parseTransaction,
+  recoverTransactionAddress,
+  type Address,
+  type Hex,
+  type TransactionSerializedEIP1559,
+} from "viem";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+
+import {
+  decodeOrderBookError,
+  type OrderBookAbi,
+  type PlaceOrderParams,
+} from "./client.js";
+
+/**
+ * Pre-signed placeOrder transactions for benchmarking ParallelOrderBook
+ *
+ * Orders are signed round-robin by the test accounts and written in batches
+ * that can be submitted concurrently, next to a summary.json describing the
+ * run:
+ * - <outputDir>/txs/order-placement-batch-{batchId}.json
+ * - <outputDir>/summary.json
+ *
+ * With contention "within-market" every order lands in the first market;
+ * with "cross-market" orders are spread round-robin over all markets, so the
+ * two runs show how much per-market state contends.
+ *
+ * Transactions are signed for the connected network's chain ID and fees.
+ * Each account's nonces count up from its pending nonce on that network (or
+ * from its entry in `startNonces`), so the batches replay in order without
+ * collisions. Gas
+ * limits are estimated against the current state, which needs the accounts'
+ * escrow funded, unless `gasProfile` fixes a limit per contract function.
+ * Every signed transaction is decoded again and checked against the
+ * intended call before it is written.
+ *
+ * `signTransactionBatches` is the signing core on its own, for generators
+ * that plan other calls than uniform placements (see workload.ts).
+ */
+
+export interface TransactionData {
+  rawTx: string;
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+  nonce: number;
+}
+
+export interface BatchData {
+  batchId: number;
+  transactions: TransactionData[];
+  totalTransactions: number;
+  estimatedGas: string;
+}
+
+export type ContentionMode = "within-market" | "cross-market";
+
+export interface BenchmarkConfig {
+  totalTransactions: number;
+  batchSize: number;
+  baseAmount: number;
+  quoteAmount: number;
+  mixBuySell: boolean;
+  outputDir: string;
+  marketIds: string[];
+  contention: ContentionMode;
+  /** First nonce per account index (default: each account's pending nonce) */
+  startNonces?: Record<number, number>;
+  /** Gas limit per contract function, instead of estimating every transaction */
+  gasProfile?: Record<string, number>;
+}
+
+export interface BenchmarkTarget {
+  abi: OrderBookAbi;
+  contractAddress: Address;
+  network: string;
+}
+
+/** Nonces one account signed with */
+export interface AccountNonces {
+  address: Address;
+  firstNonce: number;
+  transactions: number;
+}
+
+/** What every generated run records next to its batches */
+export interface GeneratedSummary {
+  contractAddress: Address;
+  network: string;
+  chainId: number;
+  marketIds: string[];
+  accounts: AccountNonces[];
+  /** Transactions per contract function */
+  operations: Record<string, number>;
+  totalBatches: number;
+  totalTransactions: number;
+  totalEstimatedGas: string;
+  averageGasPerTransaction: string;
+  batches: { batchId: number; transactionCount: number; estimatedGas: string }[];
+  generatedAt: string;
+  description: string;
+  /** Transactions depend on landing in file order, so replay them one block at a time */
+  sequential?: boolean;
+}
+
+export interface BenchmarkSummary extends GeneratedSummary {
+  config: BenchmarkConfig;
+  contention: ContentionMode;
+}
+
+/** A contract call to sign, by function name and arguments */
+export interface ContractCall {
+  functionName: string;
+  args: readonly unknown[];
+}
+
+/** A call and the index of the test account that signs it */
+export interface PlannedTransaction {
+  signer: number;
+  call: ContractCall;
+}
+
+export interface SigningOptions {
+  batchSize: number;
+  outputDir: string;
+  startNonces?: Record<number, number>;
+  gasProfile?: Record<string, number>;
+}
+
+export interface SignedRun {
+  chainId: number;
+  accounts: AccountNonces[];
+  batches: BatchData[];
+  totalEstimatedGas: bigint;
+}
+
+// Test accounts from examples/account/accounts_20.txt
+export const TEST_PRIVATE_KEYS: Hex[] = [
+  "0x5bb1315c3ffa654c89f1f8b27f93cb4ef6b0474c4797cf2eb40d1bdd98dc26e7",
+  "0x2289ae919f03075448d567c9c4a22846ce3711731c895f1bea572cef25bb346f",
+  "0x19c439237a1e2c86f87b2d31438e5476738dd67297bf92d752b16bdb4ff37aa2",
+  "0x236c7b430c2ea13f19add3920b0bb2795f35a969f8be617faa9629bc5f6201f1",
+  "0xc4fbe435d6297959b0e326e560fdfb680a59807d75e1dec04d873fcd5b36597b",
+  "0xf91fcd0784d0b2e5f88ec3ba6fe57fa7ef4fbf2fe42a8fa0aaa22625d2147a7a",
+  "0x630549dc7564f9789eb4435098ca147424bcde3f1c14149a5ab18e826868f337",
+  "0x2a31c00f193d4071adf4e45abaf76d7222d4af87ab30a7a4f7bae51e28aceb0a",
+  "0xa2ffe69115c1f2f145297a4607e188775a1e56907ca882b7c6def550f218fa84",
+  "0xd9815a0fa4f31172530f17a6ae64bf5f00a3a651f3d6476146d2c62ae5527dc4",
+  "0x134aea740081ac7e0e892ff8e5d0a763ec400fcd34bae70bcfe6dae3aceeb7f0",
+  "0x2cbecec34decef3150b77dba0a232b033952e1d78b303007bbb2f36c7f1e08be",
+  "0xf19c51d0bbcc39831e06b8452cfcc0b2e0c1fd164e6fc2984485a0a141c79ce3",
+  "0xc9cb7bbbec162bde1234753dccc4cc207903ba184949b93e53a7d7efa50571a0",
+  "0x49163930711a0236e1a8c1777a0eb10951e85b82ad9c9b094b8835bc40b92cd2",
+  "0xb4df44450e01290bd3ce86f32d970aa2e2aa17a24e6a847ce8d5310ad54ed71a",
+  "0xe6e7fd52f20aae2648046b0eefbd00512553e1d4a2becb53fb6a79f632fe47b2",
+  "0xdf288a18540245219892add292722cf7508e59d1398338e6104f7483594c98db",
+  "0x7d9bc27ea230c38d0cb3d30a4cdd5b091244a53eddd59b23a61465a1c0d1ea5a",
+  "0x696cceab0b831baff50c3b2ea4fbfdd7a107701ad2e9318be084ebdf6796a459"
+];
+
+/**
+ * Market targeted by the i-th generated order
+ */
+function marketForTransaction(config: BenchmarkConfig, i: number): string {
+  if (config.contention === "within-market") {
+    return config.marketIds[0];
+  }
+  return config.marketIds[i % config.marketIds.length];
+}
+
+/** Margin on estimated gas, since the book grows while the batches replay */
+const GAS_ESTIMATE_HEADROOM_PERCENT = 20n;
+
+/**
+ * Parse a gas profile such as "placeOrder=350000,cancelOrder=120000"
+ */
+export function parseGasProfile(profile: string): Record<string, number> {
+  const entries = profile
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [name, gas] = entry.split("=").map((part) => part.trim());
+      const limit = Number(gas);
+      if (!name || !Number.isInteger(limit) || limit <= 0) {
+        throw new Error(`Gas profile entries must look like placeOrder=350000, got "${entry}"`);
+      }
+      return [name, limit] as const;
+    });
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Parse first nonces per account index such as "0=7,3=12"
+ */
+export function parseStartNonces(nonces: string): Record<number, number> {
+  const entries = nonces
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [account, nonce] = entry.split("=").map((part) => Number(part.trim()));
+      if (!Number.isInteger(account) || account < 0 || !Number.isInteger(nonce) || nonce < 0) {
+        throw new Error(`Start nonces must look like 0=7 (account index=nonce), got "${entry}"`);
+      }
+      return [account, nonce] as const;
+    });
+  return Object.fromEntries(entries);
+}
+
+export interface ExpectedTransaction {
+  from: Address;
+  to: Address;
+  chainId: number;
+  nonce: number;
+  gas: bigint;
+  call: ContractCall;
+}
+
+/**
+ * The plain `placeOrder` call for `order`
+ */
+export function placeOrderCall(order: PlaceOrderParams): ContractCall {
+  const { marketId, baseAmount, quoteAmount, isBuyOrder } = order;
+  return { functionName: "placeOrder", args: [marketId, baseAmount, quoteAmount, isBuyOrder] };
+}
+
+function sameArgument(actual: unknown, intended: unknown): boolean {
+  if (Array.isArray(intended)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === intended.length &&
+      intended.every((value, index) => sameArgument(actual[index], value))
+    );
+  }
+  return actual === intended;
+}
+
+/**
+ * Check that a signed transaction decodes back to the intended call from
+ * the intended account; throws describing the first mismatch
+ */
+export async function verifySignedTransaction(
+  abi: OrderBookAbi,
+  rawTx: Hex,
+  expected: ExpectedTransaction
+): Promise<void> {
+  const tx = parseTransaction(rawTx);
+  const from = await recoverTransactionAddress({
+    serializedTransaction: rawTx as TransactionSerializedEIP1559,
+  });
+  const mismatch = (field: string, actual: unknown, wanted: unknown) =>
+    new Error(`Signed transaction ${field} is ${actual}, expected ${wanted}`);
+
+  if (getAddress(from) !== getAddress(expected.from)) {
+    throw mismatch("sender", from, expected.from);
+  }
+  if (!tx.to || getAddress(tx.to) !== getAddress(expected.to)) {
+    throw mismatch("target", tx.to, expected.to);
+  }
+  if (tx.chainId !== expected.chainId) {
+    throw mismatch("chain ID", tx.chainId, expected.chainId);
+  }
+  if (tx.nonce !== expected.nonce) {
+    throw mismatch("nonce", tx.nonce, expected.nonce);
+  }
+  if (tx.gas !== expected.gas) {
+    throw mismatch("gas limit", tx.gas, expected.gas);
+  }
+  if (!tx.data) {
+    throw new Error("Signed transaction has no calldata");
+  }
+
+  const call = decodeFunctionData({ abi, data: tx.data });
+  const { functionName, args } = expected.call;
+  if (call.functionName !== functionName) {
+    throw mismatch("function", call.functionName, functionName);
+  }
+  const decodedArgs = (call.args ?? []) as readonly unknown[];
+  if (decodedArgs.length !== args.length) {
+    throw mismatch(`${functionName} argument count`, decodedArgs.length, args.length);
+  }
+  args.forEach((value, index) => {
+    if (!sameArgument(decodedArgs[index], value)) {
+      throw mismatch(`${functionName} argument ${index}`, decodedArgs[index], value);
+    }
+  });
+}
+
+/**
+ * Sign the planned calls with the test accounts and write them in batches;
+ * `onBatch` is told about every batch file as it is saved
+ */
+export async function signTransactionBatches(
+  planned: PlannedTransaction[],
+  options: SigningOptions,
+  target: BenchmarkTarget,
+  publicClient: PublicClient,
+  onBatch?: (batch: BatchData, filePath: string) => void
+): Promise<SignedRun> {
+  if (planned.length === 0 || options.batchSize < 1) {
+    throw new Error("Need at least one transaction and a positive batch size");
+  }
+  const signerCount = Math.max(...planned.map((tx) => tx.signer)) + 1;
+  if (signerCount > TEST_PRIVATE_KEYS.length) {
+    throw new Error(`Only ${TEST_PRIVATE_KEYS.length} test accounts can sign, ${signerCount} needed`);
+  }
+
+  await fs.promises.mkdir(path.join(options.outputDir, "txs"), { recursive: true });
+
+  const [chainId, fees] = await Promise.all([
+    publicClient.getChainId(),
+    publicClient.estimateFeesPerGas(),
+  ]);
+
+  const unused = Object.keys(options.startNonces ?? {}).find((index) => Number(index) >= signerCount);
+  if (unused !== undefined) {
+    throw new Error(`Start nonce given for account ${unused}, but only ${signerCount} accounts sign`);
+  }
+
+  const signers = TEST_PRIVATE_KEYS.slice(0, signerCount).map((privateKey) =>
+    privateKeyToAccount(privateKey)
+  );
+  const nextNonce: number[] = [];
+  const accounts: AccountNonces[] = [];
+  for (const [index, signer] of signers.entries()) {
+    const firstNonce =
+      options.startNonces?.[index] ??
+      (await publicClient.getTransactionCount({ address: signer.address, blockTag: "pending" }));
+    nextNonce.push(firstNonce);
+    accounts.push({ address: signer.address, firstNonce, transactions: 0 });
+  }
+
+  const gasLimit = async (
+    signer: PrivateKeyAccount,
+    { functionName }: ContractCall,
+    data: Hex,
+    i: number
+  ): Promise<bigint> => {
+    if (options.gasProfile) {
+      const limit = options.gasProfile[functionName];
+      if (limit === undefined) {
+        throw new Error(`Gas profile has no entry for ${functionName}`);
+      }
+      return BigInt(limit);
+    }
+    try {
+      const estimate = await publicClient.estimateGas({
+        account: signer.address,
+        to: target.contractAddress,
+        data,
+      });
+      return (estimate * (100n + GAS_ESTIMATE_HEADROOM_PERCENT)) / 100n;
+    } catch (error) {
+      const decoded = decodeOrderBookError(target.abi, error);
+      throw new Error(
+        `Estimating gas for transaction ${i} (${functionName}) from ${signer.address} failed` +
+          (decoded ? ` with ${decoded.errorName}` : "") +
+          "; fund the test accounts' escrow or pass a gas profile",
+        { cause: error }
+      );
+    }
+  };
+
+  const batches: BatchData[] = [];
+  let totalEstimatedGas = 0n;
+
+  const numBatches = Math.ceil(planned.length / options.batchSize);
+
+  for (let batchId = 0; batchId < numBatches; batchId++) {
+    const batchTransactions: TransactionData[] = [];
+    const startIdx = batchId * options.batchSize;
+    const endIdx = Math.min(startIdx + options.batchSize, planned.length);
+    let batchGas = 0n;
+
+    for (let i = startIdx; i < endIdx; i++) {
+      const { signer: signerIndex, call } = planned[i];
+      const signer = signers[signerIndex];
+      const nonce = nextNonce[signerIndex]++;
+      accounts[signerIndex].transactions++;
+
+      const txData = encodeFunctionData({
+        abi: target.abi,
+        functionName: call.functionName,
+        args: call.args,
+      } as Parameters<typeof encodeFunctionData>[0]);
+      const gas = await gasLimit(signer, call, txData, i);
+      batchGas += gas;
+
+      const signedTx = await signer.signTransaction({
+        to: target.contractAddress,
+        data: txData,
+        value: 0n,
+        gas,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        nonce,
+        chainId
+      });
+      await verifySignedTransaction(target.abi, signedTx, {
+        from: signer.address,
+        to: target.contractAddress,
+        chainId,
+        nonce,
+        gas,
+        call
+      });
+
+      batchTransactions.push({
+        rawTx: signedTx,
+        from: signer.address,
+        to: target.contractAddress,
+        data: txData,
+        value: "0",
+        gasLimit: gas.toString(),
+        nonce
+      });
+    }
+
+    const batchData: BatchData = {
+      batchId,
+      transactions: batchTransactions,
+      totalTransactions: batchTransactions.length,
+      estimatedGas: batchGas.toString()
+    };
+
+    batches.push(batchData);
+    totalEstimatedGas += batchGas;
+
+    const batchFilePath = path.join(options.outputDir, "txs", `order-placement-batch-${batchId}.json`);
+    await fs.promises.writeFile(batchFilePath, JSON.stringify(batchData, null, 2));
+    onBatch?.(batchData, batchFilePath);
+  }
+
+  return { chainId, accounts, batches, totalEstimatedGas };
+}
+
+/**
+ * The summary fields every generator shares, from a signed run
+ */
+export function summarizeSignedRun(
+  planned: PlannedTransaction[],
+  run: SignedRun,
+  target: BenchmarkTarget,
+  marketIds: string[]
+): GeneratedSummary {
+  const operations: Record<string, number> = {};
+  for (const { call } of planned) {
+    operations[call.functionName] = (operations[call.functionName] ?? 0) + 1;
+  }
+  return {
+    contractAddress: target.contractAddress,
+    network: target.network,
+    chainId: run.chainId,
+    marketIds,
+    accounts: run.accounts,
+    operations,
+    totalBatches: run.batches.length,
+    totalTransactions: planned.length,
+    totalEstimatedGas: run.totalEstimatedGas.toString(),
+    averageGasPerTransaction: (run.totalEstimatedGas / BigInt(planned.length)).toString(),
+    batches: run.batches.map(b => ({
+      batchId: b.batchId,
+      transactionCount: b.totalTransactions,
+      estimatedGas: b.estimatedGas
+    })),
+    generatedAt: new Date().toISOString(),
+    description: `Pre-signed transaction data for benchmarking ParallelOrderBook concurrent execution on ${target.network}`
+  };
+}
+
+/**
+ * Sign the configured orders and write the batches and summary; `onBatch`
+ * is told about every batch file as it is saved
+ */
+export async function generateOrderPlacementTransactions(
+  config: BenchmarkConfig,
+  target: BenchmarkTarget,
+  publicClient: PublicClient,
+  onBatch?: (batch: BatchData, filePath: string) => void
+): Promise<BenchmarkSummary> {
+  if (config.contention !== "within-market" && config.contention !== "cross-market") {
+    throw new Error(`Contention must be within-market or cross-market, got ${config.contention}`);
+  }
+  if (config.totalTransactions < 1 || config.batchSize < 1 || config.marketIds.length === 0) {
+    throw new Error("Need at least one transaction, a positive batch size and a market");
+  }
+
+  const signerCount = Math.min(config.totalTransactions, TEST_PRIVATE_KEYS.length);
+  const planned: PlannedTransaction[] = [];
+  for (let i = 0; i < config.totalTransactions; i++) {
+    // Alternate between buy and sell orders if mixBuySell is enabled
+    const isBuyOrder = config.mixBuySell ? (i % 2 === 0) : true;
+
+    planned.push({
+      signer: i % signerCount,
+      call: placeOrderCall({
+        marketId: BigInt(marketForTransaction(config, i)),
+        baseAmount: BigInt(config.baseAmount),
+        quoteAmount: BigInt(config.quoteAmount),
+        isBuyOrder
+      })
+    });
+  }
+
+  const run = await signTransactionBatches(planned, config, target, publicClient, onBatch);
+  const summary: BenchmarkSummary = {
+    config,
+    contention: config.contention,
+    ...summarizeSignedRun(planned, run, target, config.marketIds),
+  };
+
+  await fs.promises.writeFile(
+    path.join(config.outputDir, "summary.json"),
+    JSON.stringify(summary, null, 2)
+  );
+  return summary;
+}
+
+/**
+ * Read back a generated run: the summary and its batches in batch order
+ */
+export async function loadGeneratedTransactions(
+  outputDir: string
+): Promise<{ summary: GeneratedSummary; batches: BatchData[] }> {
+  const summary = JSON.parse(
+    await fs.promises.readFile(path.join(outputDir, "summary.json"), "utf8")
+  ) as GeneratedSummary;
+
+  const batches: BatchData[] = [];
+  for (const { batchId } of summary.batches) {
+    const batchFile = path.join(outputDir, "txs", `order-placement-batch-${batchId}.json`);
+    batches.push(JSON.parse(await fs.promises.readFile(batchFile, "utf8")) as BatchData);
+  }
+  return { summary, batches };
+}
@@ -0,0 +1,157 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+/**
+ * Minimal server side of RFC 6455 WebSockets over node:http
+ *
+ * Enough for a push-only feed: completes the upgrade handshake, sends text
+ * frames, answers pings and closes cleanly. Client messages other than
+ * control frames are ignored, and fragmented or oversized client frames
+ * close the connection.
+ */
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_CLIENT_FRAME = 64 * 1024;
+
+const Opcode = {
+  Text: 0x1,
+  Close: 0x8,
+  Ping: 0x9,
+  Pong: 0xa,
+} as const;
+
+export class WebSocketConnection {
+  readonly request: IncomingMessage;
+  private readonly socket: Duplex;
+  private buffered = Buffer.alloc(0);
+  private closed = false;
+
+  private constructor(request: IncomingMessage, socket: Duplex) {
+    this.request = request;
+    this.socket = socket;
+  }
+
+  /**
+   * Complete the handshake for an HTTP `upgrade` event; returns undefined
+   * (and rejects the request) if it is not a WebSocket upgrade
+   */
+  static accept(
+    request: IncomingMessage,
+    socket: Duplex,
+    onClose: (connection: WebSocketConnection) => void
+  ): WebSocketConnection | undefined {
+    const key = request.headers["sec-websocket-key"];
+    if (request.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return undefined;
+    }
+
+    const accept = createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const connection = new WebSocketConnection(request, socket);
+    socket.on("data", (chunk: Buffer) => connection.receive(chunk));
+    socket.on("error", () => connection.destroy());
+    socket.on("close", () => {
+      connection.closed = true;
+      onClose(connection);
+    });
+    return connection;
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(text: string): void {
+    this.writeFrame(Opcode.Text, Buffer.from(text, "utf8"));
+  }
+
+  close(): void {
+    if (!this.closed) {
+      this.writeFrame(Opcode.Close, Buffer.alloc(0));
+      this.closed = true;
+      this.socket.end();
+    }
+  }
+
+  private destroy(): void {
+    this.closed = true;
+    this.socket.destroy();
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    if (this.closed) {
+      return;
+    }
+    // Server frames are never masked
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  /**
+   * Parse masked client frames and act on the control frames
+   */
+  private receive(chunk: Buffer): void {
+    this.buffered = Buffer.concat([this.buffered, chunk]);
+
+    while (this.buffered.length >= 2) {
+      const first = this.buffered[0];
+      const second = this.buffered[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffered.length < 4) return;
+        length = this.buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        // Larger than any message this feed accepts
+        this.destroy();
+        return;
+      }
+      if (!fin || length > MAX_CLIENT_FRAME) {
+        this.destroy();
+        return;
+      }
+
+      const frameLength = offset + 4 + length;
+      if (this.buffered.length < frameLength) return;
+
+      const mask = this.buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffered.subarray(offset + 4, frameLength));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      this.buffered = this.buffered.subarray(frameLength);
+
+      if (opcode === Opcode.Ping) {
+        this.writeFrame(Opcode.Pong, payload);
+      } else if (opcode === Opcode.Close) {
+        this.close();
+        return;
+      }
+    }
+  }
+}
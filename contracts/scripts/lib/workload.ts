@@ -0,0 +1,602 @@
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress, parseUnits, type Address } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { parse as parseYaml } from "yaml";
+
+import {
+  placeOrderCall,
+  signTransactionBatches,
+  summarizeSignedRun,
+  TEST_PRIVATE_KEYS,
+  type BatchData,
+  type BenchmarkTarget,
+  type GeneratedSummary,
+  type PlannedTransaction,
+} from "./txgen.js";
+
+/**
+ * Declarative workload scenarios for the benchmark generator
+ *
+ * A scenario file (JSON, or YAML with the same fields) describes a mix of
+ * placeOrder, cancelOrder and matchOrdersBatch calls instead of uniform
+ * placements:
+ *
+ * {
+ *   "name": "hot-traders",
+ *   "seed": 42,
+ *   "transactions": 1000,
+ *   "batchSize": 50,
+ *   "mix": { "place": 70, "cancel": 20, "match": 10 },
+ *   "markets": ["1", "2"],
+ *   "marketDistribution": { "type": "zipf", "exponent": 1.2 },
+ *   "traders": { "count": 20, "distribution": { "type": "zipf", "exponent": 1.1 },
+ *                "hotFraction": 0.1, "hotShare": 0.8 },
+ *   "orders": { "baseAmount": { "min": "1000000", "max": "5000000" }, "midPrice": "2",
+ *               "tickBps": 10, "priceLevels": 20,
+ *               "levelDistribution": { "type": "zipf", "exponent": 1.5 },
+ *               "buyFraction": 0.5, "crossingFraction": 0.3 },
+ *   "match": { "pairsPerCall": 5 },
+ *   "gasProfile": { "placeOrder": 400000, "cancelOrder": 150000, "matchOrdersBatch": 1500000 }
+ * }
+ *
+ * Mix weights are relative. Traders are test accounts ranked 0..count-1;
+ * the distribution picks a rank, so with Zipf the first accounts send most
+ * transactions. `hotFraction` of the traders (the lowest ranks) send
+ * `hotShare` of the transactions on top of that. Non-crossing orders rest
+ * `level` ticks away from `midPrice` on their own side, crossing ones the
+ * same distance on the other side, so they meet resting orders of the
+ * opposite side; `levelDistribution` skews levels toward the mid.
+ *
+ * Everything random comes from one generator seeded with `seed`, so the
+ * same scenario against the same chain state yields the same transactions.
+ *
+ * Cancels and matches need the IDs of orders placed earlier in the run.
+ * The planner replays the run in memory: it predicts each placement's ID
+ * (per-trader IDs on a concurrent book, the global sequence otherwise),
+ * cancels orders of the signing trader and matches pairs of different
+ * traders that cross by the contract's own test (exact cross products of
+ * the original amounts). When the trader has nothing to cancel, or nothing
+ * crosses yet, the transaction becomes a placement by the same trader. The predictions hold when the batches
+ * land in file order against an otherwise idle book. On a plain book every
+ * placement takes the next global ID, and a match can pair orders of other
+ * traders, so neither survives transactions of different accounts landing
+ * out of order: such runs are marked `sequential` in the summary and the
+ * replayer then waits for each transaction's block before sending the next.
+ * Since cancels and matches cannot be estimated before their orders exist,
+ * a scenario that has them needs a gas profile for them.
+ */
+
+export type Distribution = { type: "uniform" } | { type: "zipf"; exponent: number };
+
+export type AmountRange = string | { min: string; max: string };
+
+export interface WorkloadScenario {
+  name: string;
+  description?: string;
+  seed: number;
+  transactions: number;
+  batchSize: number;
+  /** Relative weights of the operations */
+  mix: { place?: number; cancel?: number; match?: number };
+  /** Market IDs (default: the deployment record's markets) */
+  markets?: string[];
+  marketDistribution?: Distribution;
+  traders: {
+    /** Test accounts taking part, at most 20 */
+    count: number;
+    distribution?: Distribution;
+    /** Fraction of traders that are hot, from the lowest rank up */
+    hotFraction?: number;
+    /** Share of transactions sent by the hot traders (default: hotFraction, no extra skew) */
+    hotShare?: number;
+  };
+  orders: {
+    baseAmount: AmountRange;
+    /** Quote per base, as a decimal */
+    midPrice: string;
+    /** Distance between price levels, in basis points of the mid */
+    tickBps: number;
+    /** Price levels per side */
+    priceLevels: number;
+    levelDistribution?: Distribution;
+    /** Share of buy orders (default 0.5) */
+    buyFraction?: number;
+    /** Share of orders priced through the mid (default 0) */
+    crossingFraction?: number;
+  };
+  match?: {
+    /** Pairs per matchOrdersBatch call (default 5) */
+    pairsPerCall?: number;
+  };
+  /** Gas limit per contract function, instead of estimating */
+  gasProfile?: Record<string, number>;
+}
+
+export interface WorkloadPlan {
+  planned: PlannedTransaction[];
+  /** Placements priced through the mid */
+  crossingOrders: number;
+  /** Cancels and matches that became placements for lack of orders */
+  substitutions: number;
+}
+
+export interface ScenarioSummary extends GeneratedSummary {
+  scenario: WorkloadScenario;
+  sequential: boolean;
+  crossingOrders: number;
+  substitutions: number;
+}
+
+export interface ScenarioOptions {
+  outputDir: string;
+  /** Markets to trade in when the scenario names none */
+  marketIds: string[];
+  /** First nonce per account index (default: each account's pending nonce) */
+  startNonces?: Record<number, number>;
+  /** Overrides the scenario's gas profile */
+  gasProfile?: Record<string, number>;
+}
+
+const PRICE_SCALE = 10n ** 18n;
+const BPS = 10_000n;
+const DEFAULT_PAIRS_PER_CALL = 5;
+
+function fail(message: string): never {
+  throw new Error(`Invalid scenario: ${message}`);
+}
+
+function checkFraction(value: number | undefined, field: string): void {
+  if (value !== undefined && !(value >= 0 && value <= 1)) {
+    fail(`${field} must be between 0 and 1, got ${value}`);
+  }
+}
+
+function checkDistribution(distribution: Distribution | undefined, field: string): void {
+  if (distribution === undefined || distribution.type === "uniform") {
+    return;
+  }
+  if (distribution.type !== "zipf") {
+    fail(`${field}.type must be uniform or zipf, got ${(distribution as { type: string }).type}`);
+  }
+  if (!(distribution.exponent >= 0)) {
+    fail(`${field}.exponent must be zero or positive, got ${distribution.exponent}`);
+  }
+}
+
+function parseAmount(value: string, field: string): bigint {
+  if (!/^\d+$/.test(String(value))) {
+    fail(`${field} must be a whole number in the token's smallest unit, got ${value}`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Check a parsed scenario file, throwing on the first problem
+ */
+export function parseScenario(input: unknown): WorkloadScenario {
+  if (typeof input !== "object" || input === null) {
+    fail("expected an object");
+  }
+  const scenario = input as WorkloadScenario;
+  if (typeof scenario.name !== "string" || scenario.name.length === 0) {
+    fail("name is required");
+  }
+  if (!Number.isInteger(scenario.seed)) {
+    fail(`seed must be an integer, got ${scenario.seed}`);
+  }
+  if (!Number.isInteger(scenario.transactions) || scenario.transactions < 1) {
+    fail(`transactions must be a positive integer, got ${scenario.transactions}`);
+  }
+  if (!Number.isInteger(scenario.batchSize) || scenario.batchSize < 1) {
+    fail(`batchSize must be a positive integer, got ${scenario.batchSize}`);
+  }
+
+  const weights = Object.entries(scenario.mix ?? {});
+  for (const [operation, weight] of weights) {
+    if (!["place", "cancel", "match"].includes(operation)) {
+      fail(`mix.${operation} is not an operation; use place, cancel and match`);
+    }
+    if (!(weight >= 0)) {
+      fail(`mix.${operation} must be zero or positive, got ${weight}`);
+    }
+  }
+  if (!((scenario.mix?.place ?? 0) > 0)) {
+    fail("mix.place must be positive; cancels and matches need placed orders");
+  }
+
+  scenario.markets?.forEach((marketId) => parseAmount(marketId, "markets[]"));
+  checkDistribution(scenario.marketDistribution, "marketDistribution");
+
+  const { traders } = scenario;
+  if (!traders || !Number.isInteger(traders.count) || traders.count < 1) {
+    fail(`traders.count must be a positive integer, got ${traders?.count}`);
+  }
+  if (traders.count > TEST_PRIVATE_KEYS.length) {
+    fail(`traders.count can be at most ${TEST_PRIVATE_KEYS.length}, got ${traders.count}`);
+  }
+  checkDistribution(traders.distribution, "traders.distribution");
+  checkFraction(traders.hotFraction, "traders.hotFraction");
+  checkFraction(traders.hotShare, "traders.hotShare");
+
+  const { orders } = scenario;
+  if (!orders) {
+    fail("orders is required");
+  }
+  if (typeof orders.baseAmount === "object") {
+    const min = parseAmount(orders.baseAmount.min, "orders.baseAmount.min");
+    const max = parseAmount(orders.baseAmount.max, "orders.baseAmount.max");
+    if (min < 1n || max < min) {
+      fail(`orders.baseAmount needs 1 <= min <= max, got ${min}..${max}`);
+    }
+  } else if (parseAmount(orders.baseAmount, "orders.baseAmount") < 1n) {
+    fail("orders.baseAmount must be positive");
+  }
+  if (!/^\d+(\.\d+)?$/.test(String(orders.midPrice)) || Number(orders.midPrice) <= 0) {
+    fail(`orders.midPrice must be a positive decimal, got ${orders.midPrice}`);
+  }
+  if (!Number.isInteger(orders.priceLevels) || orders.priceLevels < 1) {
+    fail(`orders.priceLevels must be a positive integer, got ${orders.priceLevels}`);
+  }
+  if (!Number.isInteger(orders.tickBps) || orders.tickBps < 1) {
+    fail(`orders.tickBps must be a positive integer, got ${orders.tickBps}`);
+  }
+  if (orders.priceLevels * orders.tickBps >= Number(BPS)) {
+    fail("orders.priceLevels * orders.tickBps must stay below 10000 so bids stay above zero");
+  }
+  checkDistribution(orders.levelDistribution, "orders.levelDistribution");
+  checkFraction(orders.buyFraction, "orders.buyFraction");
+  checkFraction(orders.crossingFraction, "orders.crossingFraction");
+
+  const pairsPerCall = scenario.match?.pairsPerCall;
+  if (pairsPerCall !== undefined && (!Number.isInteger(pairsPerCall) || pairsPerCall < 1)) {
+    fail(`match.pairsPerCall must be a positive integer, got ${pairsPerCall}`);
+  }
+  for (const [name, gas] of Object.entries(scenario.gasProfile ?? {})) {
+    if (!Number.isInteger(gas) || gas <= 0) {
+      fail(`gasProfile.${name} must be a positive integer, got ${gas}`);
+    }
+  }
+  return scenario;
+}
+
+/**
+ * Read and check a scenario file, YAML for .yaml/.yml and JSON otherwise
+ */
+export async function loadScenario(file: string): Promise<WorkloadScenario> {
+  const extension = path.extname(file).toLowerCase();
+  const text = await fs.promises.readFile(file, "utf8");
+  try {
+    return parseScenario(
+      extension === ".yaml" || extension === ".yml" ? parseYaml(text) : JSON.parse(text)
+    );
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Deterministic random numbers in [0, 1) from a 32-bit seed (mulberry32)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draws ranks 0..n-1; Zipf gives rank k a weight of 1 / (k + 1)^exponent
+ */
+export function rankSampler(
+  n: number,
+  distribution: Distribution | undefined,
+  random: () => number
+): () => number {
+  const exponent = distribution?.type === "zipf" ? distribution.exponent : 0;
+  const cumulative: number[] = [];
+  let total = 0;
+  for (let k = 0; k < n; k++) {
+    total += 1 / Math.pow(k + 1, exponent);
+    cumulative.push(total);
+  }
+  return () => {
+    const target = random() * total;
+    let low = 0;
+    let high = n - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid] > target) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return low;
+  };
+}
+
+interface SimulatedOrder {
+  id: bigint;
+  signer: number;
+  marketId: bigint;
+  isBuyOrder: boolean;
+  /** Original size, which the contract compares prices by */
+  baseAmount: bigint;
+  quoteAmount: bigint;
+  remaining: bigint;
+}
+
+/** Orders `a` before `b` by price, cheapest first, comparing exact ratios */
+function comparePrices(a: SimulatedOrder, b: SimulatedOrder): number {
+  const left = a.quoteAmount * b.baseAmount;
+  const right = b.quoteAmount * a.baseAmount;
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+/**
+ * Plan the scenario's transactions. `nextOrderId` predicts the ID the book
+ * assigns to the next order of a trader (by rank).
+ */
+export function planWorkload(
+  scenario: WorkloadScenario,
+  marketIds: bigint[],
+  nextOrderId: (signer: number) => bigint
+): WorkloadPlan {
+  if (marketIds.length === 0) {
+    throw new Error("Scenario needs at least one market");
+  }
+  const random = seededRandom(scenario.seed);
+  const { traders, orders } = scenario;
+
+  const pickMarket = rankSampler(marketIds.length, scenario.marketDistribution, random);
+
+  const hotCount =
+    traders.hotFraction && traders.count > 1
+      ? Math.min(Math.max(Math.round(traders.hotFraction * traders.count), 1), traders.count - 1)
+      : 0;
+  const pickAnyTrader = rankSampler(traders.count, traders.distribution, random);
+  const pickHotTrader = rankSampler(hotCount, traders.distribution, random);
+  const pickColdTrader = rankSampler(traders.count - hotCount, traders.distribution, random);
+  const pickTrader = () => {
+    if (hotCount === 0) {
+      return pickAnyTrader();
+    }
+    return random() < (traders.hotShare ?? traders.hotFraction!)
+      ? pickHotTrader()
+      : hotCount + pickColdTrader();
+  };
+
+  const pickLevel = rankSampler(orders.priceLevels, orders.levelDistribution, random);
+  const midPrice = parseUnits(String(orders.midPrice), 18);
+  const [minBase, maxBase] =
+    typeof orders.baseAmount === "object"
+      ? [BigInt(orders.baseAmount.min), BigInt(orders.baseAmount.max)]
+      : [BigInt(orders.baseAmount), BigInt(orders.baseAmount)];
+  const pickBase = () =>
+    minBase + BigInt(Math.floor(random() * Number(maxBase - minBase + 1n)));
+
+  const weights = [scenario.mix.place ?? 0, scenario.mix.cancel ?? 0, scenario.mix.match ?? 0];
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const pickOperation = () => {
+    let target = random() * totalWeight;
+    for (const [index, weight] of weights.entries()) {
+      if (target < weight) {
+        return (["place", "cancel", "match"] as const)[index];
+      }
+      target -= weight;
+    }
+    return "place";
+  };
+
+  const pairsPerCall = scenario.match?.pairsPerCall ?? DEFAULT_PAIRS_PER_CALL;
+  const open: SimulatedOrder[] = [];
+  const planned: PlannedTransaction[] = [];
+  let crossingOrders = 0;
+  let substitutions = 0;
+
+  const place = (signer: number): PlannedTransaction => {
+    const marketId = marketIds[pickMarket()];
+    const isBuyOrder = random() < (orders.buyFraction ?? 0.5);
+    const crossing = random() < (orders.crossingFraction ?? 0);
+    const ticks = BigInt(pickLevel() + 1) * BigInt(orders.tickBps);
+    // Bids rest below the mid and asks above it; crossing orders swap sides
+    const belowMid = isBuyOrder !== crossing;
+    const price = (midPrice * (belowMid ? BPS - ticks : BPS + ticks)) / BPS;
+    const baseAmount = pickBase();
+    const quoteAmount = (baseAmount * price) / PRICE_SCALE || 1n;
+
+    if (crossing) {
+      crossingOrders++;
+    }
+    open.push({
+      id: nextOrderId(signer),
+      signer,
+      marketId,
+      isBuyOrder,
+      baseAmount,
+      quoteAmount,
+      remaining: baseAmount,
+    });
+    return { signer, call: placeOrderCall({ marketId, baseAmount, quoteAmount, isBuyOrder }) };
+  };
+
+  const cancel = (signer: number): PlannedTransaction | undefined => {
+    // Only the trader's own orders, so the signer stays the one drawn
+    const own = open.filter((order) => order.signer === signer);
+    if (own.length === 0) {
+      return undefined;
+    }
+    const order = own[Math.floor(random() * own.length)];
+    open.splice(open.indexOf(order), 1);
+    return { signer, call: { functionName: "cancelOrder", args: [order.id] } };
+  };
+
+  const match = (signer: number): PlannedTransaction | undefined => {
+    const first = pickMarket();
+    for (let offset = 0; offset < marketIds.length; offset++) {
+      const marketId = marketIds[(first + offset) % marketIds.length];
+      const inMarket = open.filter((order) => order.marketId === marketId);
+      const buys = inMarket
+        .filter((order) => order.isBuyOrder)
+        .sort((a, b) => comparePrices(b, a));
+      const sells = inMarket.filter((order) => !order.isBuyOrder).sort(comparePrices);
+
+      const pairs: [SimulatedOrder, SimulatedOrder][] = [];
+      for (const buy of buys) {
+        for (const sell of sells) {
+          // The contract's cross check: buyQuote * sellBase >= sellQuote * buyBase
+          if (pairs.length === pairsPerCall || buy.remaining === 0n || comparePrices(sell, buy) > 0) {
+            break;
+          }
+          // Same-trader pairs would trip self-trade prevention
+          if (sell.remaining === 0n || sell.signer === buy.signer) {
+            continue;
+          }
+          const fill = buy.remaining < sell.remaining ? buy.remaining : sell.remaining;
+          buy.remaining -= fill;
+          sell.remaining -= fill;
+          pairs.push([buy, sell]);
+        }
+      }
+      if (pairs.length === 0) {
+        continue;
+      }
+
+      for (const order of [...buys, ...sells]) {
+        if (order.remaining === 0n) {
+          open.splice(open.indexOf(order), 1);
+        }
+      }
+      return {
+        signer,
+        call: {
+          functionName: "matchOrdersBatch",
+          args: [marketId, pairs.map(([buy]) => buy.id), pairs.map(([, sell]) => sell.id)],
+        },
+      };
+    }
+    return undefined;
+  };
+
+  for (let i = 0; i < scenario.transactions; i++) {
+    const operation = pickOperation();
+    const signer = pickTrader();
+    let transaction: PlannedTransaction | undefined;
+    if (operation === "cancel") {
+      transaction = cancel(signer);
+    } else if (operation === "match") {
+      transaction = match(signer);
+    }
+    if (operation !== "place" && transaction === undefined) {
+      substitutions++;
+    }
+    planned.push(transaction ?? place(signer));
+  }
+
+  return { planned, crossingOrders, substitutions };
+}
+
+/**
+ * Predicts the IDs the book will assign to the traders' next orders, and
+ * says whether the book is in concurrent mode
+ */
+async function orderIdPredictor(
+  publicClient: PublicClient,
+  target: BenchmarkTarget,
+  traders: Address[],
+  marketId: bigint
+): Promise<{ concurrent: boolean; nextOrderId: (signer: number) => bigint }> {
+  const contract = { address: target.contractAddress, abi: target.abi } as const;
+  const concurrent = await publicClient.readContract({ ...contract, functionName: "concurrent" });
+
+  if (concurrent) {
+    // [traderNonce(96)|trader(160)], the nonce counting the trader's orders
+    const counts: bigint[] = [];
+    for (const trader of traders) {
+      const [orderCount] = await publicClient.readContract({
+        ...contract,
+        functionName: "getTraderStats",
+        args: [trader, marketId],
+      });
+      counts.push(orderCount);
+    }
+    return {
+      concurrent,
+      nextOrderId: (signer) => (++counts[signer] << 160n) | BigInt(traders[signer]),
+    };
+  }
+
+  let placed = await publicClient.readContract({ ...contract, functionName: "totalOrdersPlaced" });
+  return { concurrent, nextOrderId: () => ++placed };
+}
+
+/**
+ * Plan, sign and write the scenario's transactions and a summary
+ */
+export async function generateScenarioTransactions(
+  scenario: WorkloadScenario,
+  options: ScenarioOptions,
+  target: BenchmarkTarget,
+  publicClient: PublicClient,
+  onBatch?: (batch: BatchData, filePath: string) => void
+): Promise<ScenarioSummary> {
+  const marketIds = scenario.markets ?? options.marketIds;
+  if (marketIds.length === 0) {
+    throw new Error("Scenario needs at least one market");
+  }
+
+  const traders = TEST_PRIVATE_KEYS.slice(0, scenario.traders.count).map((privateKey) =>
+    getAddress(privateKeyToAccount(privateKey).address)
+  );
+  const { concurrent, nextOrderId } = await orderIdPredictor(
+    publicClient,
+    target,
+    traders,
+    BigInt(marketIds[0])
+  );
+  const plan = planWorkload(scenario, marketIds.map(BigInt), nextOrderId);
+
+  const gasProfile = options.gasProfile ?? scenario.gasProfile;
+  const dependent = plan.planned.find(({ call }) => call.functionName !== "placeOrder");
+  if (dependent && !gasProfile) {
+    throw new Error(
+      `${dependent.call.functionName} acts on orders placed earlier in the run, so its gas ` +
+        "cannot be estimated up front; give the scenario a gasProfile"
+    );
+  }
+
+  const run = await signTransactionBatches(
+    plan.planned,
+    {
+      batchSize: scenario.batchSize,
+      outputDir: options.outputDir,
+      startNonces: options.startNonces,
+      gasProfile,
+    },
+    target,
+    publicClient,
+    onBatch
+  );
+
+  const summary: ScenarioSummary = {
+    scenario,
+    // Global IDs and cross-trader matches rely on the transactions landing in file order
+    sequential: !concurrent || plan.planned.some(({ call }) => call.functionName === "matchOrdersBatch"),
+    crossingOrders: plan.crossingOrders,
+    substitutions: plan.substitutions,
+    ...summarizeSignedRun(plan.planned, run, target, marketIds),
+  };
+  summary.description = `Workload scenario "${scenario.name}" for ParallelOrderBook on ${target.network}`;
+
+  await fs.promises.writeFile(
+    path.join(options.outputDir, "summary.json"),
+    JSON.stringify(summary, null, 2)
+  );
+  return summary;
+}
@@ -0,0 +1,77 @@
+import hre from "hardhat";
+
+import { OrderBookClient } from "./lib/client.js";
+import {
+  loadLatestDeployment,
+  resolveOrderBookAddress,
+} from "./lib/deployments.js";
+import { IndexerDatabase } from "./lib/indexer-db.js";
+import { OrderBookIndexer } from "./lib/indexer.js";
+import { MarketDataServer } from "./lib/market-data.js";
+
+/**
+ * Market-Data Server for ParallelOrderBook
+ *
+ * Serves depth, trader orders, recent trades and stats over HTTP and streams
+ * book diffs and trades over a WebSocket (/ws, optionally ?marketId=N), all
+ * from an event-indexed mirror of the book, so clients never call the
+ * contract themselves. Runs until interrupted.
+ *
+ * HOST (default 127.0.0.1) and PORT (default 8080) set the listen address;
+ * POLL_INTERVAL_MS (default 1000) how often new blocks are indexed. The
+ * mirror lives in memory unless INDEXER_DB names a database file, and starts
+ * at FROM_BLOCK or the deployment block.
+ *
+ * The contract address comes from ORDER_BOOK_ADDRESS or the latest record in
+ * deployments/ for the selected network.
+ *
+ * Usage:
+ * npx hardhat node   # in another terminal, then deploy
+ * npx hardhat run scripts/market-data-server.ts --network localhost
+ * curl http://127.0.0.1:8080/markets/1/depth
+ */
+
+async function main() {
+  console.log("📡 ParallelOrderBook Market-Data Server\n");
+  console.log("=".repeat(60));
+
+  const connection = await hre.network.connect();
+  const { viem } = connection;
+
+  const contractAddress = resolveOrderBookAddress(connection.networkName);
+  const orderBook = await OrderBookClient.at(viem, contractAddress);
+  console.log(`📍 Order book: ${contractAddress} (${connection.networkName})`);
+
+  const startBlock = BigInt(
+    process.env.FROM_BLOCK ??
+      loadLatestDeployment(connection.networkName)?.deploymentBlock ??
+      0
+  );
+  const db = new IndexerDatabase(process.env.INDEXER_DB);
+  const indexer = new OrderBookIndexer(orderBook, db, { startBlock });
+
+  const server = new MarketDataServer(indexer, {
+    host: process.env.HOST,
+    port: process.env.PORT ? Number(process.env.PORT) : undefined,
+    pollIntervalMs: process.env.POLL_INTERVAL_MS ? Number(process.env.POLL_INTERVAL_MS) : undefined,
+  });
+  await server.start();
+
+  const base = `http://${process.env.HOST ?? "127.0.0.1"}:${server.port}`;
+  console.log(`🗂️  Indexed up to block ${indexer.checkpoint?.blockNumber ?? "none"}`);
+  console.log(`🌐 REST: ${base}/markets, ${base}/markets/1/depth`);
+  console.log(`🔌 WebSocket: ${base.replace("http", "ws")}/ws`);
+  console.log("\nCtrl-C to stop");
+
+  await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+  await server.stop();
+  db.close();
+  console.log("\n👋 Server stopped");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Market-data server failed:", error);
+    process.exit(1);
+  });
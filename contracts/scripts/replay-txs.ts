@@ -0,0 +1,122 @@
+import hre from "hardhat";
+
+import { collectEnvironment, replayResult, saveResult } from "./lib/results.js";
+import { replayTransactions } from "./lib/submit.js";
+import { loadGeneratedTransactions } from "./lib/txgen.js";
+
+/**
+ * Replay Script for Generated Benchmark Transactions
+ *
+ * Reads summary.json and the order-placement-batch-*.json files written by
+ * gen-tx-parallel-orderbook.ts and sends their raw transactions through
+ * eth_sendRawTransaction, CONCURRENCY at a time (default 16) and at most
+ * RATE per second (default unthrottled). Then reports submit-to-inclusion
+ * latency percentiles, how many transactions landed in each block and why
+ * any reverted. Runs the generator marks sequential (workload scenarios
+ * on a plain book, or with matches) go out one at a time regardless.
+ *
+ * TX_DIR selects the generator output and is required: signed transactions
+ * are only valid for the chain, deployment and nonces they were generated
+ * against. INCLUSION_TIMEOUT is how many seconds to wait for stragglers after the
+ * last send (default 120). The result is saved to RESULTS_DIR (default
+ * benchmark/results) for `npx hardhat parallel-ledger compare`.
+ *
+ * `npx hardhat parallel-ledger submit` takes the same settings as flags.
+ *
+ * Usage:
+ * TX_DIR=benchmark/order-placement npx hardhat run scripts/replay-txs.ts --network arcologyDevNet
+ */
+
+async function main() {
+  console.log("🚀 Replaying ParallelOrderBook Benchmark Transactions\n");
+  console.log("=".repeat(70));
+
+  const txDir = process.env.TX_DIR;
+  if (!txDir) {
+    throw new Error("Set TX_DIR to the generator output directory to replay");
+  }
+  const concurrency = Number(process.env.CONCURRENCY ?? 16);
+  const ratePerSecond = Number(process.env.RATE ?? 0);
+  const inclusionTimeoutMs = Number(process.env.INCLUSION_TIMEOUT ?? 120) * 1000;
+  const resultsDir = process.env.RESULTS_DIR ?? "benchmark/results";
+
+  const { viem, networkName } = await hre.network.connect();
+  const publicClient = await viem.getPublicClient();
+  const { summary, batches } = await loadGeneratedTransactions(txDir);
+
+  const chainId = await publicClient.getChainId();
+  if (summary.chainId !== chainId) {
+    throw new Error(`${txDir} is signed for chain ${summary.chainId}, ${networkName} is chain ${chainId}`);
+  }
+
+  console.log(`📁 ${txDir}: ${summary.totalTransactions} transactions for ${summary.contractAddress}`);
+  console.log(
+    `   Concurrency: ${summary.sequential ? "1 (sequential run, one block at a time)" : concurrency}`
+  );
+  console.log(`   Rate: ${ratePerSecond > 0 ? `${ratePerSecond}/s` : "unthrottled"}\n`);
+
+  const { abi } = await hre.artifacts.readArtifact("ParallelOrderBook");
+  const report = await replayTransactions(
+    publicClient,
+    batches,
+    { concurrency, ratePerSecond, inclusionTimeoutMs, abi, sequential: summary.sequential },
+    (included, total) => console.log(`   ⏳ ${included}/${total} included`)
+  );
+
+  console.log(`\n📊 Results:`);
+  console.log(`   Sent: ${report.sent}`);
+  console.log(`   ✅ Succeeded: ${report.succeeded}`);
+  console.log(`   ❌ Reverted: ${report.reverted}`);
+  console.log(`   🚫 Rejected: ${report.rejected}`);
+  console.log(`   ⏳ Not included: ${report.pending}`);
+  console.log(`   ⛽ Gas used: ${report.gasUsed}`);
+  console.log(`   ⏱️  Duration: ${report.durationMs}ms (${report.throughput.toFixed(1)} tx/s)`);
+
+  if (report.latencyMs) {
+    const { min, p50, p90, p95, p99, max } = report.latencyMs;
+    console.log(`\n⏱️  Submit-to-inclusion latency (ms):`);
+    console.log(`   min ${min} | p50 ${p50} | p90 ${p90} | p95 ${p95} | p99 ${p99} | max ${max}`);
+  }
+
+  console.log(`\n🧱 Transactions per block:`);
+  for (const block of report.blocks) {
+    console.log(
+      `   Block ${block.blockNumber}: ${block.transactions}/${block.blockTransactions} replayed, ${block.gasUsed} gas`
+    );
+  }
+
+  if (report.revertReasons.length > 0 || report.rejections.length > 0) {
+    console.log(`\n⚠️  Failures:`);
+    for (const { reason, count } of report.revertReasons) {
+      console.log(`   ${count}x reverted: ${reason}`);
+    }
+    for (const { reason, count } of report.rejections) {
+      console.log(`   ${count}x rejected: ${reason}`);
+    }
+  }
+
+  const resultsFile = saveResult(
+    resultsDir,
+    "replay",
+    replayResult(
+      "replay-txs",
+      collectEnvironment(networkName, chainId),
+      {
+        txDir,
+        transactions: summary.totalTransactions,
+        concurrency: summary.sequential ? 1 : concurrency,
+        ratePerSecond,
+      },
+      report
+    )
+  );
+  console.log(`\n💾 Results saved to: ${resultsFile}`);
+}
+
+// Run the script
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Error replaying transactions:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,79 @@
+import hre from "hardhat";
+
+import {
+  loadLatestDeployment,
+  resolveOrderBookAddress,
+} from "./lib/deployments.js";
+import { OrderBookClient } from "./lib/client.js";
+
+/**
+ * Fee Revenue Report for ParallelOrderBook
+ *
+ * Totals the maker/taker fees each trader paid, per quote token, from the
+ * OrderMatched events since the deployment block, and shows what the owner
+ * can still collect. Amounts are in the quote token's smallest unit.
+ *
+ * The contract address comes from ORDER_BOOK_ADDRESS or the latest record in
+ * deployments/ for the selected network; FROM_BLOCK overrides the start block.
+ *
+ * Usage:
+ * npx hardhat run scripts/report-fees.ts --network arcologyDevNet
+ */
+
+async function main() {
+  console.log("💰 ParallelOrderBook Fee Revenue\n");
+  console.log("=".repeat(60));
+
+  const connection = await hre.network.connect();
+  const { viem } = connection;
+
+  const contractAddress = resolveOrderBookAddress(connection.networkName);
+  const orderBook = await OrderBookClient.at(viem, contractAddress);
+  console.log(`📍 Order book: ${contractAddress} (${connection.networkName})`);
+
+  const fromBlock = BigInt(
+    process.env.FROM_BLOCK ??
+      loadLatestDeployment(connection.networkName)?.deploymentBlock ??
+      0
+  );
+  const { makerFeeBps, takerFeeBps } = await orderBook.getFeeSchedule();
+  console.log(`📐 Fee schedule: maker ${makerFeeBps} bps, taker ${takerFeeBps} bps`);
+  console.log(`🔍 Scanning OrderMatched events from block ${fromBlock}\n`);
+
+  const revenue = await orderBook.getFeeRevenueByTrader({ fromBlock });
+  if (revenue.length === 0) {
+    console.log("No matches found");
+    return;
+  }
+
+  console.table(
+    revenue.map((entry) => ({
+      trader: entry.trader,
+      quoteToken: entry.quoteToken,
+      fills: entry.fills,
+      asBuyer: entry.asBuyer.toString(),
+      asSeller: entry.asSeller.toString(),
+      total: entry.total.toString(),
+    }))
+  );
+
+  // Fees are only ever charged in quote tokens
+  const quoteTokens = [...new Set(revenue.map((entry) => entry.quoteToken))];
+  console.log("\n📊 Totals per quote token:");
+  for (const token of quoteTokens) {
+    const earned = revenue
+      .filter((entry) => entry.quoteToken === token)
+      .reduce((sum, entry) => sum + entry.total, 0n);
+    const collectable = await orderBook.collectableFees(token);
+    console.log(`   ${token}: earned ${earned}, collectable ${collectable}`);
+  }
+
+  console.log("\n" + "=".repeat(60) + "\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Report failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,359 @@
+import hre from "hardhat";
+import type {
+  ContractReturnType,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import { getAddress, parseEventLogs, type Address, type Hash, type Hex } from "viem";
+
+import { Role } from "./lib/admin.js";
+import { OrderBookClient, type PlaceOrderParams } from "./lib/client.js";
+import {
+  loadStorageLayout,
+  readCounterAddresses,
+  slotKeys,
+  SlotLabeler,
+} from "./lib/storage-layout.js";
+import { traceStateWrites, type StateTrace } from "./lib/trace.js";
+
+/**
+ * State Write Report for ParallelOrderBook
+ *
+ * Runs every state-changing entrypoint twice on a local EDR network, once for
+ * each of two unrelated traders, traces the storage each call writes and
+ * reports it by variable. A slot written by both runs is shared state: on
+ * Arcology those two transactions conflict and one of them is rolled back.
+ * Calls into U256Cumulative counters are listed separately; Arcology merges
+ * them as commutative deltas instead.
+ *
+ * Both counter modes are reported: plain storage (the Hardhat fallback) and
+ * concurrent (what Arcology deployments use). The Arcology precompiles do not
+ * exist on EDR, so in concurrent mode only the write pattern is meaningful,
+ * not the counter values.
+ *
+ * Usage:
+ * npx hardhat run scripts/report-state-writes.ts
+ */
+
+const UNIT = 10n ** 18n;
+const FUNDING = 1_000_000n * UNIT;
+
+// U256Cumulative.add(uint256)
+const CUMULATIVE_ADD: Hex = "0x1003e2d2";
+
+type MockERC20 = ContractReturnType<"MockERC20">;
+
+interface Context {
+  orderBook: OrderBookClient;
+  baseToken: MockERC20;
+  quoteToken: MockERC20;
+  marketId: bigint;
+  orderIds: bigint[];
+}
+
+interface Scenario {
+  entrypoint: string;
+  /** Prepare whatever `trader` needs and send the transaction to measure */
+  run(ctx: Context, trader: WalletClient, counterparty: WalletClient): Promise<Hash>;
+}
+
+interface EntrypointReport {
+  entrypoint: string;
+  shared: string[];
+  perCaller: string[];
+  commutative: string[];
+}
+
+async function main() {
+  console.log("🔬 ParallelOrderBook State Write Report\n");
+  console.log("=".repeat(60));
+
+  const { viem, networkHelpers } = await hre.network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [deployer, trader1, trader2, trader3, trader4] =
+    await viem.getWalletClients();
+
+  const names: Record<string, Address> = {
+    trader1: trader1.account.address,
+    trader2: trader2.account.address,
+    trader3: trader3.account.address,
+    trader4: trader4.account.address,
+    deployer: deployer.account.address,
+  };
+
+  const bookLayout = await loadStorageLayout(hre.artifacts, "ParallelOrderBook");
+  const tokenLayout = await loadStorageLayout(hre.artifacts, "MockERC20");
+
+  async function placeOrder(
+    ctx: Context,
+    trader: WalletClient,
+    params: Omit<PlaceOrderParams, "marketId">
+  ): Promise<bigint> {
+    const { orderId } = await ctx.orderBook
+      .connect(trader)
+      .placeOrder({ marketId: ctx.marketId, ...params });
+    ctx.orderIds.push(orderId);
+    return orderId;
+  }
+
+  const buy = (baseAmount: bigint, quoteAmount: bigint) => ({
+    baseAmount,
+    quoteAmount,
+    isBuyOrder: true,
+  });
+  const sell = (baseAmount: bigint, quoteAmount: bigint) => ({
+    baseAmount,
+    quoteAmount,
+    isBuyOrder: false,
+  });
+
+  const scenarios: Scenario[] = [
+    {
+      entrypoint: "deposit",
+      run: async (ctx, trader) => {
+        await ctx.quoteToken.write.mint([trader.account.address, UNIT]);
+        return ctx.orderBook.connect(trader).deposit(ctx.quoteToken, UNIT);
+      },
+    },
+    {
+      entrypoint: "withdraw",
+      run: async (ctx, trader) =>
+        ctx.orderBook.connect(trader).withdraw(ctx.quoteToken.address, UNIT),
+    },
+    {
+      entrypoint: "placeOrder (resting)",
+      run: async (ctx, trader) => {
+        const placed = await ctx.orderBook
+          .connect(trader)
+          .placeOrder({ marketId: ctx.marketId, ...buy(UNIT, 2n * UNIT) });
+        return placed.hash;
+      },
+    },
+    {
+      entrypoint: "placeOrder (taker)",
+      run: async (ctx, trader, counterparty) => {
+        await placeOrder(ctx, counterparty, sell(UNIT, UNIT));
+        const taker = await ctx.orderBook
+          .connect(trader)
+          .placeOrder({ marketId: ctx.marketId, ...buy(UNIT, UNIT), maxFills: 1n });
+        return taker.hash;
+      },
+    },
+    {
+      // A no-op in plain mode, where placement links right away
+      entrypoint: "linkOrders",
+      run: async (ctx, trader) => {
+        const orderId = await placeOrder(ctx, trader, buy(UNIT, 2n * UNIT));
+        return (await ctx.orderBook.connect(trader).linkOrders([orderId], [0n])).hash;
+      },
+    },
+    {
+      entrypoint: "cancelOrder",
+      run: async (ctx, trader) => {
+        const orderId = await placeOrder(ctx, trader, buy(UNIT, UNIT / 2n));
+        return (await ctx.orderBook.connect(trader).cancelOrder(orderId)).hash;
+      },
+    },
+    {
+      entrypoint: "cancelExpiredOrders",
+      run: async (ctx, trader) => {
+        const expiresAt = BigInt(await networkHelpers.time.latest()) + 60n;
+        const orderId = await placeOrder(ctx, trader, {
+          ...buy(UNIT, UNIT / 2n),
+          expiresAt,
+        });
+        await networkHelpers.time.increase(61);
+        return (await ctx.orderBook.connect(trader).cancelExpiredOrders([orderId])).hash;
+      },
+    },
+    {
+      entrypoint: "matchOrdersBatch",
+      run: async (ctx, trader, counterparty) => {
+        const buyId = await placeOrder(ctx, trader, buy(UNIT, 3n * UNIT));
+        const sellId = await placeOrder(ctx, counterparty, sell(UNIT, 3n * UNIT));
+        const matched = await ctx.orderBook
+          .connect(trader)
+          .matchOrders(ctx.marketId, [buyId], [sellId]);
+        return matched.hash;
+      },
+    },
+    {
+      entrypoint: "createMarket",
+      run: async (ctx, trader) => {
+        const base = await viem.deployContract("MockERC20", ["New", "NEW", 18], {
+          client: { wallet: trader },
+        });
+        names[`token(${trader.account.address.slice(0, 6)})`] = base.address;
+        await ctx.orderBook.grantRole(Role.Admin, trader.account.address);
+        const created = await ctx.orderBook
+          .connect(trader)
+          .createMarket(base.address, ctx.quoteToken.address);
+        return created.hash;
+      },
+    },
+  ];
+
+  for (const concurrent of [false, true]) {
+    const mode = concurrent ? "concurrent (Arcology)" : "plain storage (fallback)";
+    console.log(`\n📦 Counter mode: ${mode}`);
+    console.log("─".repeat(60));
+
+    const baseToken = await viem.deployContract("MockERC20", ["Base", "BASE", 18]);
+    const quoteToken = await viem.deployContract("MockERC20", ["Quote", "QUOTE", 18]);
+    const orderBook = await OrderBookClient.deploy(viem, concurrent, deployer);
+    const { marketId } = await orderBook.createMarket(baseToken.address, quoteToken.address);
+
+    for (const trader of [trader1, trader2, trader3, trader4]) {
+      for (const token of [baseToken, quoteToken]) {
+        await token.write.mint([trader.account.address, FUNDING]);
+        await orderBook.connect(trader).deposit(token, FUNDING);
+      }
+    }
+
+    const ctx: Context = { orderBook, baseToken, quoteToken, marketId, orderIds: [] };
+    const traces: Array<{ entrypoint: string; runs: StateTrace[] }> = [];
+
+    for (const scenario of scenarios) {
+      const runs: StateTrace[] = [];
+      for (const [trader, counterparty] of [
+        [trader1, trader3],
+        [trader2, trader4],
+      ]) {
+        // Both runs start from the same state, as two transactions of one
+        // Arcology generation would
+        const snapshot = await networkHelpers.takeSnapshot();
+        const hash = await scenario.run(ctx, trader, counterparty);
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        for (const placed of parseEventLogs({
+          abi: orderBook.abi,
+          eventName: "OrderPlaced",
+          logs: receipt.logs,
+        })) {
+          ctx.orderIds.push(placed.args.orderId);
+        }
+        runs.push(await traceStateWrites(publicClient, hash));
+        await snapshot.restore();
+      }
+      traces.push({ entrypoint: scenario.entrypoint, runs });
+    }
+
+    // Keys are only known once every scenario has run. Runs are rolled back,
+    // so createMarket's market is gone again by now
+    const marketCount = BigInt((await orderBook.listMarkets()).length) + 1n;
+    const candidates = new Map<bigint, string[]>();
+    const addNumber = (label: string, value: bigint) =>
+      candidates.set(value, [...(candidates.get(value) ?? []), label]);
+    for (let id = 1n; id <= marketCount; id++) {
+      addNumber(`m${id}`, id);
+    }
+    new Set(ctx.orderIds).forEach((id) =>
+      addNumber(concurrent ? `#${id >> 160n}:${toTraderName(id, names)}` : `#${id}`, id)
+    );
+    for (const quotePerBase of [1n, 2n, 3n]) {
+      addNumber(`@${quotePerBase}`, quotePerBase * UNIT);
+    }
+    addNumber("@0.5", UNIT / 2n);
+
+    // A value that could be a market ID as well as an order ID is shown as is
+    const numbers: Record<string, bigint> = {};
+    for (const [value, labels] of candidates) {
+      numbers[labels.length === 1 ? labels[0] : value.toString()] = value;
+    }
+
+    const addresses = {
+      ...names,
+      book: orderBook.address,
+      base: baseToken.address,
+      quote: quoteToken.address,
+    };
+    const keys = slotKeys(addresses, numbers);
+    const bookLabels = new SlotLabeler(bookLayout, keys);
+    const tokenLabels = new SlotLabeler(tokenLayout, keys);
+
+    const counterNames = await readCounterAddresses(
+      publicClient,
+      orderBook.address,
+      bookLayout,
+      bookLabels,
+      marketCount
+    );
+    const contractNames = new Map<Address, string>([
+      [getAddress(orderBook.address), "book"],
+      [getAddress(baseToken.address), "base"],
+      [getAddress(quoteToken.address), "quote"],
+    ]);
+
+    const describeWrite = (address: Address, slot: Hex) => {
+      const contract = contractNames.get(address);
+      if (contract === "book") return bookLabels.label(slot);
+      if (contract) return `${contract}.${tokenLabels.label(slot)}`;
+      return `${address}:${slot}`;
+    };
+
+    const reports: EntrypointReport[] = traces.map(({ entrypoint, runs }) => {
+      const [first, second] = runs;
+      const secondSlots = new Set(second.writes.map((w) => `${w.address}:${w.slot}`));
+      const seen = new Set<string>();
+      const shared: string[] = [];
+      const perCaller: string[] = [];
+
+      for (const write of first.writes) {
+        const id = `${write.address}:${write.slot}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const label = describeWrite(write.address, write.slot);
+        (secondSlots.has(id) ? shared : perCaller).push(label);
+      }
+
+      const commutative = [
+        ...new Set(
+          first.calls
+            .filter(
+              (call) =>
+                call.op === "CALL" &&
+                call.selector === CUMULATIVE_ADD &&
+                counterNames.has(call.to)
+            )
+            .map((call) => `${counterNames.get(call.to)}.add`)
+        ),
+      ];
+
+      return { entrypoint, shared, perCaller, commutative };
+    });
+
+    for (const report of reports) {
+      console.log(`\n📝 ${report.entrypoint}`);
+      report.shared.forEach((label) => console.log(`   ⚠️  shared       ${label}`));
+      report.commutative.forEach((label) => console.log(`   🔁 commutative  ${label}`));
+      report.perCaller.forEach((label) => console.log(`   ✅ per-caller   ${label}`));
+    }
+
+    console.log(`\n📊 Summary (${mode}):`);
+    console.table(
+      reports.map((report) => ({
+        entrypoint: report.entrypoint,
+        shared: report.shared.length,
+        commutative: report.commutative.length,
+        perCaller: report.perCaller.length,
+      }))
+    );
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("Shared slots serialize parallel transactions on Arcology;");
+  console.log("commutative counter updates and per-caller slots do not.");
+  console.log("=".repeat(60) + "\n");
+}
+
+function toTraderName(orderId: bigint, names: Record<string, Address>): string {
+  const trader = getAddress(
+    `0x${(orderId & ((1n << 160n) - 1n)).toString(16).padStart(40, "0")}`
+  );
+  return Object.entries(names).find(([, address]) => address === trader)?.[0] ?? trader;
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Report failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,89 @@
+import hre from "hardhat";
+
+import { OrderBookClient } from "./lib/client.js";
+import { resolveOrderBookAddress } from "./lib/deployments.js";
+
+/**
+ * Expiry Sweeper for ParallelOrderBook
+ *
+ * Finds open orders whose good-til-time expiry has passed, removes them with
+ * cancelExpiredOrders (which releases their escrow and emits OrderCancelled
+ * with reason "expired") and logs every order it removed. Every listed
+ * market is swept.
+ *
+ * The contract address comes from ORDER_BOOK_ADDRESS or the latest record in
+ * deployments/ for the selected network.
+ *
+ * Usage:
+ * npx hardhat run scripts/sweep-expired-orders.ts --network arcologyDevNet
+ */
+
+const SWEEP_BATCH_SIZE = 50;
+
+async function main() {
+  console.log("🧹 Sweeping expired ParallelOrderBook orders\n");
+  console.log("=".repeat(60));
+
+  const connection = await hre.network.connect();
+  const { viem } = connection;
+  const publicClient = await viem.getPublicClient();
+
+  const contractAddress = resolveOrderBookAddress(connection.networkName);
+  const orderBook = await OrderBookClient.at(viem, contractAddress);
+  console.log(`📍 Order book: ${contractAddress} (${connection.networkName})`);
+
+  const block = await publicClient.getBlock();
+  const now = block.timestamp;
+  console.log(`⏱️  Chain time: ${new Date(Number(now) * 1000).toISOString()}\n`);
+
+  // Find expired candidates among the open orders on both sides of every market
+  const openIds: bigint[] = [];
+  for (const { marketId } of await orderBook.listMarkets()) {
+    openIds.push(
+      ...(await orderBook.getOpenOrderIds(marketId, true)),
+      ...(await orderBook.getOpenOrderIds(marketId, false))
+    );
+  }
+  const expiredIds: bigint[] = [];
+
+  for (const orderId of openIds) {
+    const order = await orderBook.getOrder(orderId);
+    if (order.exists && order.expiresAt !== 0n && order.expiresAt <= now) {
+      expiredIds.push(orderId);
+    }
+  }
+
+  console.log(`🔍 Found ${expiredIds.length} expired open orders`);
+  if (expiredIds.length === 0) {
+    console.log("\n✅ Nothing to sweep");
+    return;
+  }
+
+  // Sweep in bounded batches
+  let removed = 0;
+  for (let start = 0; start < expiredIds.length; start += SWEEP_BATCH_SIZE) {
+    const batch = expiredIds.slice(start, start + SWEEP_BATCH_SIZE);
+    console.log(`\n🔄 Sweeping ${batch.length} orders...`);
+
+    const { cancelled, gasUsed } = await orderBook.cancelExpiredOrders(batch);
+
+    for (const order of cancelled) {
+      console.log(
+        `   🗑️  Order #${order.orderId} in market ${order.marketId} (${order.trader}) - ${order.reason}`
+      );
+    }
+    removed += cancelled.length;
+    console.log(`   ⛽ Gas used: ${gasUsed}`);
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log(`✅ Removed ${removed} expired orders`);
+  console.log("=".repeat(60) + "\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Sweep failed:", error);
+    process.exit(1);
+  });
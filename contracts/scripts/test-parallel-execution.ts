@@ -1,4 +1,17 @@
 import hre from "hardhat";
+import * as path from "path";
+
+import { OrderBookClient } from "./lib/client.js";
+import { isArcologyNetwork } from "./lib/deployments.js";
+import { IndexerDatabase } from "./lib/indexer-db.js";
+import { OrderBookIndexer } from "./lib/indexer.js";
+import { OrderBookKeeper } from "./lib/keeper.js";
+import {
+  collectEnvironment,
+  RESULTS_SCHEMA_VERSION,
+  saveResult,
+  type BenchmarkResult,
+} from "./lib/results.js";
 
 /**
  * Parallel Execution Testing Script for ParallelOrderBook
@@ -22,18 +35,6 @@ const TEST_ACCOUNTS = [
   "0x9F79316c20f3F83Fcf43deE8a1CeA185A47A5c45",
 ];
 
-interface TestResults {
-  totalTransactions: number;
-  successfulTransactions: number;
-  failedTransactions: number;
-  averageGasUsed: number;
-  totalTimeMs: number;
-  transactionsPerSecond: number;
-  ordersPlaced: bigint;
-  ordersMatched: bigint;
-  testAccounts: string[];
-}
-
 async function main() {
   console.log("🚀 Parallel Execution Testing for ParallelOrderBook\n");
   console.log("=".repeat(60));
@@ -47,16 +48,25 @@ async function main() {
   });
   console.log("");
 
-  const { viem } = await hre.network.connect();
-  const publicClient = await viem.getPublicClient();
+  const { viem, networkName } = await hre.network.connect();
   const [deployer, trader1, trader2, trader3, trader4] =
     await viem.getWalletClients();
 
   // Deploy or use existing contract
   console.log("📦 Preparing ParallelOrderBook contract...");
-  const orderBook = await viem.deployContract("ParallelOrderBook");
+  const baseToken = await viem.deployContract("MockERC20", ["Base", "BASE", 18]);
+  const quoteToken = await viem.deployContract("MockERC20", ["Quote", "QUOTE", 18]);
+  const orderBook = await OrderBookClient.deploy(
+    viem,
+    isArcologyNetwork(networkName),
+    deployer
+  );
+  const { marketId, blockNumber: marketCreatedBlock } = await orderBook.createMarket(
+    baseToken.address,
+    quoteToken.address
+  );
   const contractAddress = orderBook.address;
-  console.log(`✅ Contract ready at: ${contractAddress}\n`);
+  console.log(`✅ Contract ready at: ${contractAddress} (market ${marketId})\n`);
 
   // Test parameters
   const PARALLEL_BATCH_SIZE = 10;
@@ -79,18 +89,19 @@ async function main() {
   ];
   console.log(`👥 Using ${traders.length} test accounts\n`);
 
-  const results: TestResults = {
-    totalTransactions: TOTAL_TRANSACTIONS,
-    successfulTransactions: 0,
-    failedTransactions: 0,
-    averageGasUsed: 0,
-    totalTimeMs: 0,
-    transactionsPerSecond: 0,
-    ordersPlaced: 0n,
-    ordersMatched: 0n,
-    testAccounts: TEST_ACCOUNTS,
-  };
+  // Orders lock escrowed funds, so every trader deposits both assets first
+  const FUNDING = 1_000_000n * 10n ** 18n;
+  console.log("💰 Funding trader escrow balances...");
+  for (const trader of traders) {
+    for (const token of [baseToken, quoteToken]) {
+      await token.write.mint([trader.account.address, FUNDING]);
+      await orderBook.connect(trader).deposit(token, FUNDING);
+    }
+  }
+  console.log(`✅ Deposited ${FUNDING} base and quote per trader\n`);
 
+  let successfulTransactions = 0;
+  let failedTransactions = 0;
   let totalGasUsed = 0;
   const startTime = Date.now();
 
@@ -115,10 +126,13 @@ async function main() {
       // Create transaction without awaiting
       const txPromise = (async () => {
         try {
-          const tx = await orderBook.write.placeOrder([amount, quote, isBuy], {
-            account: trader.account,
+          const placed = await orderBook.connect(trader).placeOrder({
+            marketId,
+            baseAmount: amount,
+            quoteAmount: quote,
+            isBuyOrder: isBuy,
           });
-          return { success: true, tx, gasUsed: 0 };
+          return { success: true, tx: placed.hash, gasUsed: Number(placed.gasUsed) };
         } catch (error) {
           console.error(`     ❌ Transaction ${i} failed:`, error);
           return { success: false, tx: null, gasUsed: 0 };
@@ -136,8 +150,9 @@ async function main() {
     const successful = txResults.filter((r) => r.success).length;
     const failed = txResults.filter((r) => !r.success).length;
 
-    results.successfulTransactions += successful;
-    results.failedTransactions += failed;
+    successfulTransactions += successful;
+    failedTransactions += failed;
+    totalGasUsed += txResults.reduce((sum, r) => sum + r.gasUsed, 0);
 
     const batchTimeMs = Date.now() - batchStartTime;
     const batchTxPerSec =
@@ -148,53 +163,47 @@ async function main() {
     console.log(`   ⚡ Throughput: ${batchTxPerSec.toFixed(2)} tx/s`);
   }
 
-  results.totalTimeMs = Date.now() - startTime;
-  results.transactionsPerSecond =
-    (TOTAL_TRANSACTIONS / results.totalTimeMs) * 1000;
+  const totalTimeMs = Date.now() - startTime;
+  const transactionsPerSecond = (TOTAL_TRANSACTIONS / totalTimeMs) * 1000;
 
   // Phase 2: Order Matching
   console.log("\n📋 PHASE 2: Batch Order Matching");
   console.log("─".repeat(60));
 
   console.log(`\nFetching current order book state...`);
-  const stats = await orderBook.read.getOrderBookStats();
-  results.ordersPlaced = stats[0];
-  results.ordersMatched = stats[1];
-
-  const buyOrders = [];
-  const sellOrders = [];
-
-  // Collect first few orders
-  for (let i = 1n; i <= stats[0]; i++) {
-    const order = await orderBook.read.getOrder([i]);
-    if (order[5]) {
-      // exists
-      if (order[4]) {
-        // isBuyOrder
-        buyOrders.push(i);
-      } else {
-        sellOrders.push(i);
-      }
-    }
-  }
+  const stats = await orderBook.getStats(marketId);
+  let ordersMatched = stats.matched;
+
+  // The keeper mirrors the book from events and only submits pairs that
+  // cross; its mirror also holds orders a concurrent book has not linked yet
+  const indexer = new OrderBookIndexer(orderBook, new IndexerDatabase(), {
+    startBlock: marketCreatedBlock,
+  });
+  const keeper = new OrderBookKeeper(orderBook, indexer, { marketIds: [marketId] });
+  await indexer.sync();
+  const open = indexer.db.getOrders({ marketId, status: "open" });
+  const buyOrders = open.filter((order) => order.isBuyOrder);
+  const sellOrders = open.filter((order) => !order.isBuyOrder);
 
-  console.log(`   📊 Total orders: ${stats[0]}`);
+  console.log(`   📊 Total orders: ${stats.placed}`);
   console.log(`   🛍️  Buy orders: ${buyOrders.length}`);
   console.log(`   🏪 Sell orders: ${sellOrders.length}\n`);
 
   if (buyOrders.length > 0 && sellOrders.length > 0) {
-    console.log("   ⏳ Executing batch matching...");
-
-    const matchLimit = Math.min(buyOrders.length, sellOrders.length, 5);
-    const buyBatch = buyOrders.slice(0, matchLimit);
-    const sellBatch = sellOrders.slice(0, matchLimit);
+    console.log("   ⏳ Matching crossing pairs with the keeper...");
 
     try {
-      await orderBook.write.matchOrdersBatch([buyBatch, sellBatch]);
-      console.log(`   ✅ Matched ${matchLimit} order pairs`);
+      await keeper.runOnce((batch) => {
+        console.log(`   ✅ Matched ${batch.matched}/${batch.processed} order pairs`);
+      });
+      const { processed, successRatio } = keeper.stats;
+      if (processed === 0) {
+        console.log("   💤 No crossing orders to match");
+      } else {
+        console.log(`   📈 Success ratio: ${(successRatio * 100).toFixed(1)}%`);
+      }
 
-      const newStats = await orderBook.read.getOrderBookStats();
-      results.ordersMatched = newStats[1];
+      ordersMatched = (await orderBook.getStats(marketId)).matched;
     } catch (error) {
       console.log(`   ⚠️  Matching failed:`, error);
     }
@@ -205,25 +214,24 @@ async function main() {
   console.log("─".repeat(60));
 
   console.log("\n✨ Parallel Execution Test Results:");
-  console.log(`   • Total transactions: ${results.totalTransactions}`);
-  console.log(`   • Successful: ${results.successfulTransactions}`);
-  console.log(`   • Failed: ${results.failedTransactions}`);
-  console.log(`   • Success rate: ${((results.successfulTransactions / results.totalTransactions) * 100).toFixed(1)}%`);
-  console.log(`   • Total time: ${results.totalTimeMs}ms`);
-  console.log(`   • Throughput: ${results.transactionsPerSecond.toFixed(2)} tx/s`);
+  console.log(`   • Total transactions: ${TOTAL_TRANSACTIONS}`);
+  console.log(`   • Successful: ${successfulTransactions}`);
+  console.log(`   • Failed: ${failedTransactions}`);
+  console.log(`   • Success rate: ${((successfulTransactions / TOTAL_TRANSACTIONS) * 100).toFixed(1)}%`);
+  console.log(`   • Total time: ${totalTimeMs}ms`);
+  console.log(`   • Throughput: ${transactionsPerSecond.toFixed(2)} tx/s`);
 
   console.log("\n📊 Order Book State:");
-  console.log(`   • Orders placed: ${results.ordersPlaced}`);
-  console.log(`   • Orders matched: ${results.ordersMatched}`);
+  console.log(`   • Orders placed: ${stats.placed}`);
+  console.log(`   • Orders matched: ${ordersMatched}`);
 
   // Theoretical vs Actual comparison
   console.log("\n🔬 Concurrency Analysis:");
   console.log(
-    `   • Theoretical sequential time: ~${results.totalTransactions * 5}ms`
+    `   • Theoretical sequential time: ~${TOTAL_TRANSACTIONS * 5}ms`
   );
-  console.log(`   • Actual parallel time: ${results.totalTimeMs}ms`);
-  const speedup =
-    (results.totalTransactions * 5) / results.totalTimeMs;
+  console.log(`   • Actual parallel time: ${totalTimeMs}ms`);
+  const speedup = (TOTAL_TRANSACTIONS * 5) / totalTimeMs;
   console.log(`   • Speedup factor: ${speedup.toFixed(2)}x`);
 
   if (speedup > 2) {
@@ -240,18 +248,39 @@ async function main() {
   }
 
   // Save results
-  const fs = await import("fs");
-  const path = await import("path");
-  const resultsDir = path.join(process.cwd(), "test-results");
-  if (!fs.existsSync(resultsDir)) {
-    fs.mkdirSync(resultsDir);
-  }
-
-  const resultsFile = path.join(
-    resultsDir,
-    `parallel-execution-${Date.now()}.json`
+  const result: BenchmarkResult = {
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    script: "test-parallel-execution",
+    environment: collectEnvironment(networkName, await deployer.getChainId()),
+    config: {
+      transactions: TOTAL_TRANSACTIONS,
+      batchSize: PARALLEL_BATCH_SIZE,
+      traders: traders.length,
+      concurrentCounters: isArcologyNetwork(networkName),
+    },
+    metrics: {
+      transactions: TOTAL_TRANSACTIONS,
+      succeeded: successfulTransactions,
+      failed: failedTransactions,
+      durationMs: totalTimeMs,
+      throughput: transactionsPerSecond,
+      gasUsed: totalGasUsed.toString(),
+      averageGasPerTransaction:
+        successfulTransactions > 0
+          ? Math.round(totalGasUsed / successfulTransactions).toString()
+          : "0",
+    },
+    details: {
+      ordersPlaced: stats.placed,
+      ordersMatched,
+      testAccounts: TEST_ACCOUNTS,
+    },
+  };
+  const resultsFile = saveResult(
+    path.join(process.cwd(), "test-results"),
+    "parallel-execution",
+    result
   );
-  fs.writeFileSync(resultsFile, JSON.stringify(results, null, 2));
   console.log(`\n💾 Results saved to: ${resultsFile}`);
 
   console.log("\n" + "=".repeat(60));
@@ -1,17 +1,144 @@
 import assert from "node:assert/strict";
-import { describe, it, beforeEach } from "node:test";
-import { network } from "hardhat";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it, beforeEach, mock } from "node:test";
+import { artifacts, network } from "hardhat";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import type { TaskArguments } from "hardhat/types/tasks";
+import {
+  decodeFunctionData,
+  encodeFunctionData,
+  getAddress,
+  parseEventLogs,
+  parseTransaction,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { stringify as stringifyYaml } from "yaml";
+
+import {
+  getAccessState,
+  grantRole,
+  revokeRole,
+  Role,
+  setMatcherAllowlist,
+  setPaused,
+} from "../scripts/lib/admin.js";
+import {
+  encodePlaceOrder,
+  isOrderBookError,
+  OrderBookClient,
+  type OrderBookErrorName,
+} from "../scripts/lib/client.js";
+import {
+  buildCancelPayload,
+  CANCEL_ORDERS_TYPEHASH,
+  orderBookDomain,
+  relayCancel,
+  settleSignedOrders,
+  signCancel,
+  SIGNED_ORDER_TYPEHASH,
+  signOrder,
+  verifyCancel,
+  verifySignedOrder,
+  type SignedOrder,
+  type SignedOrderMessage,
+} from "../scripts/lib/eip712.js";
+import {
+  approveAndDeposit,
+  getEscrowBalance,
+  getEscrowTotals,
+  withdrawFromBook,
+} from "../scripts/lib/escrow.js";
+import {
+  amendOrder,
+  getOpenOrderIds,
+  getOrderAmendments,
+  getTraderOpenOrderIds,
+  OrderType,
+  readOrder,
+  SelfTradePolicy,
+} from "../scripts/lib/orders.js";
+import { getFeeRevenueByTrader } from "../scripts/lib/fees.js";
+import { IndexerDatabase } from "../scripts/lib/indexer-db.js";
+import { OrderBookIndexer } from "../scripts/lib/indexer.js";
+import { findMatchPairs, OrderBookKeeper, type BookOrder } from "../scripts/lib/keeper.js";
+import { MarketDataServer } from "../scripts/lib/market-data.js";
+import { analyzeConflicts, executeAndTrace, type TracedAccess } from "../scripts/lib/conflicts.js";
+import { createMarket, findLevelHint, readMarket } from "../scripts/lib/markets.js";
+import {
+  collectEnvironment,
+  compareResults,
+  DEFAULT_THRESHOLDS,
+  loadResult,
+  RESULTS_SCHEMA_VERSION,
+  saveResult,
+  type BenchmarkResult,
+} from "../scripts/lib/results.js";
+import { simulateOptimisticExecution } from "../scripts/lib/scheduler.js";
+import { replayTransactions } from "../scripts/lib/submit.js";
+import {
+  loadStorageLayout,
+  readCounterAddresses,
+  slotKeys,
+  SlotLabeler,
+} from "../scripts/lib/storage-layout.js";
+import {
+  generateScenarioTransactions,
+  loadScenario,
+  parseScenario,
+  planWorkload,
+  type WorkloadScenario,
+} from "../scripts/lib/workload.js";
+import {
+  generateOrderPlacementTransactions,
+  loadGeneratedTransactions,
+  parseStartNonces,
+  placeOrderCall,
+  signTransactionBatches,
+  TEST_PRIVATE_KEYS,
+  verifySignedTransaction,
+  type BenchmarkConfig,
+} from "../scripts/lib/txgen.js";
+import bookCommand from "../scripts/cli/book.js";
+import cancelCommand from "../scripts/cli/cancel.js";
+import compareCommand from "../scripts/cli/compare.js";
+import matchCommand from "../scripts/cli/match.js";
+import placeCommand from "../scripts/cli/place.js";
 
 describe("ParallelOrderBook", async function () {
-  const { viem } = await network.connect();
+  const connection = await network.connect();
+  const { viem, networkHelpers } = connection;
   const publicClient = await viem.getPublicClient();
   const [deployer, trader1, trader2, trader3, trader4] =
     await viem.getWalletClients();
 
+  const traders = [deployer, trader1, trader2, trader3, trader4];
+  const FUNDING = 10_000_000n * 10n ** 18n;
+
   let orderBook: any;
+  let baseToken: any;
+  let quoteToken: any;
+  let marketId: bigint;
 
   beforeEach(async function () {
-    orderBook = await viem.deployContract("ParallelOrderBook");
+    baseToken = await viem.deployContract("MockERC20", ["Base", "BASE", 18]);
+    quoteToken = await viem.deployContract("MockERC20", ["Quote", "QUOTE", 18]);
+    orderBook = await viem.deployContract("ParallelOrderBook", [false]);
+    marketId = await createMarket(
+      publicClient,
+      orderBook,
+      baseToken.address,
+      quoteToken.address
+    );
+
+    // Every account gets both assets escrowed so it can quote either side
+    for (const trader of traders) {
+      for (const token of [baseToken, quoteToken]) {
+        await token.write.mint([trader.account.address, FUNDING]);
+        await approveAndDeposit(publicClient, orderBook, token, trader, FUNDING);
+      }
+    }
   });
 
   // ========== ORDER PLACEMENT TESTS ==========
@@ -22,10 +149,10 @@ describe("ParallelOrderBook", async function () {
       const quoteAmount = 200n * 10n ** 18n;
 
       await assert.doesNotReject(async () => {
-        await orderBook.write.placeOrder([baseAmount, quoteAmount, true]);
+        await orderBook.write.placeOrder([marketId, baseAmount, quoteAmount, true]);
       });
 
-      const stats = await orderBook.read.getOrderBookStats();
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
       assert.strictEqual(stats[0], 1n, "placed should be 1");
     });
 
@@ -34,10 +161,10 @@ describe("ParallelOrderBook", async function () {
       const quoteAmount = 100n * 10n ** 18n;
 
       await assert.doesNotReject(async () => {
-        await orderBook.write.placeOrder([baseAmount, quoteAmount, false]);
+        await orderBook.write.placeOrder([marketId, baseAmount, quoteAmount, false]);
       });
 
-      const stats = await orderBook.read.getOrderBookStats();
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
       assert.strictEqual(stats[0], 1n, "placed should be 1");
     });
 
@@ -47,7 +174,7 @@ describe("ParallelOrderBook", async function () {
 
       await assert.rejects(
         async () => {
-          await orderBook.write.placeOrder([baseAmount, quoteAmount, true]);
+          await orderBook.write.placeOrder([marketId, baseAmount, quoteAmount, true]);
         },
         (err) => err instanceof Error
       );
@@ -59,7 +186,7 @@ describe("ParallelOrderBook", async function () {
 
       await assert.rejects(
         async () => {
-          await orderBook.write.placeOrder([baseAmount, quoteAmount, true]);
+          await orderBook.write.placeOrder([marketId, baseAmount, quoteAmount, true]);
         },
         (err) => err instanceof Error
       );
@@ -69,10 +196,10 @@ describe("ParallelOrderBook", async function () {
       const amount = 100n * 10n ** 18n;
 
       for (let i = 0; i < 5; i++) {
-        await orderBook.write.placeOrder([amount, amount, true]);
+        await orderBook.write.placeOrder([marketId, amount, amount, true]);
       }
 
-      const stats = await orderBook.read.getOrderBookStats();
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
       assert.strictEqual(stats[0], 5n, "placed should be 5");
     });
   });
@@ -84,14 +211,14 @@ describe("ParallelOrderBook", async function () {
       const amount = 100n * 10n ** 18n;
 
       // Place order
-      await orderBook.write.placeOrder([amount, amount, true]);
+      await orderBook.write.placeOrder([marketId, amount, amount, true]);
 
       // Cancel it
       await assert.doesNotReject(async () => {
         await orderBook.write.cancelOrder([1n]);
       });
 
-      const stats = await orderBook.read.getOrderBookStats();
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
       assert.strictEqual(stats[2], 1n, "cancelled should be 1");
     });
 
@@ -99,7 +226,7 @@ describe("ParallelOrderBook", async function () {
       const amount = 100n * 10n ** 18n;
 
       // Place order with trader1
-      await orderBook.write.placeOrder([amount, amount, true], {
+      await orderBook.write.placeOrder([marketId, amount, amount, true], {
         account: trader1.account,
       });
 
@@ -126,7 +253,7 @@ describe("ParallelOrderBook", async function () {
     it("should prevent double cancellation", async function () {
       const amount = 100n * 10n ** 18n;
 
-      await orderBook.write.placeOrder([amount, amount, true]);
+      await orderBook.write.placeOrder([marketId, amount, amount, true]);
       await orderBook.write.cancelOrder([1n]);
 
       // Try to cancel again
@@ -139,6 +266,328 @@ describe("ParallelOrderBook", async function () {
     });
   });
 
+  // ========== BULK CANCELLATION TESTS ==========
+
+  describe("Bulk Cancellation", function () {
+    const unit = 10n ** 18n;
+
+    const cancelledIds = async (hash: `0x${string}`) => {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      return parseEventLogs({
+        abi: orderBook.abi,
+        eventName: "OrderCancelled",
+        logs: receipt.logs,
+      }).map((log: any) => log.args.orderId);
+    };
+
+    beforeEach(async function () {
+      // trader1: #1, #2 (bids), #3 (ask); trader2: #4 (bid)
+      for (const [trader, isBuy] of [
+        [trader1, true],
+        [trader1, true],
+        [trader1, false],
+        [trader2, true],
+      ] as const) {
+        await orderBook.write.placeOrder([marketId, unit, unit / 2n, isBuy], {
+          account: trader.account,
+        });
+      }
+    });
+
+    it("should cancel a list of orders and skip those no longer open", async function () {
+      const hash = await orderBook.write.cancelOrders([[1n, 3n, 999n]], {
+        account: trader1.account,
+      });
+
+      assert.deepStrictEqual(await cancelledIds(hash), [1n, 3n]);
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(orderBook, trader1.account.address),
+        [2n]
+      );
+    });
+
+    it("should reject a list containing another trader's order", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.cancelOrders([[1n, 4n]], { account: trader1.account }),
+        orderBook,
+        "UnauthorizedCancellation"
+      );
+    });
+
+    it("should cancel every open order of the caller only", async function () {
+      const hash = await orderBook.write.cancelAll([10n], { account: trader1.account });
+
+      assert.deepStrictEqual((await cancelledIds(hash)).sort(), [1n, 2n, 3n]);
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(orderBook, trader1.account.address),
+        []
+      );
+      assert.strictEqual((await readOrder(orderBook, 4n)).exists, true);
+
+      for (const token of [baseToken, quoteToken]) {
+        const balance = await getEscrowBalance(
+          orderBook,
+          trader1.account.address,
+          token.address
+        );
+        assert.strictEqual(balance.locked, 0n);
+        assert.strictEqual(balance.available, FUNDING);
+      }
+    });
+
+    it("should cancel at most maxCount orders, newest first", async function () {
+      const hash = await orderBook.write.cancelAll([2n], { account: trader1.account });
+
+      assert.deepStrictEqual(await cancelledIds(hash), [3n, 2n]);
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(orderBook, trader1.account.address),
+        [1n]
+      );
+    });
+
+    it("should cancel through a relayer with an EIP-712 signature", async function () {
+      const deadline = BigInt(await networkHelpers.time.latest()) + 3600n;
+      const signed = await signCancel(
+        publicClient,
+        orderBook,
+        trader1,
+        [1n, 2n],
+        deadline
+      );
+      const domain = orderBookDomain(await publicClient.getChainId(), orderBook.address);
+      assert.strictEqual(await verifyCancel(domain, signed), true);
+
+      const cancelled = await relayCancel(publicClient, orderBook, trader4, signed);
+
+      assert.deepStrictEqual(cancelled, [1n, 2n]);
+      assert.strictEqual(await orderBook.read.cancelNonces([trader1.account.address]), 1n);
+      assert.strictEqual((await readOrder(orderBook, 3n)).exists, true);
+    });
+
+    it("should reject replayed, expired and forged signed cancels", async function () {
+      const now = BigInt(await networkHelpers.time.latest());
+      const signed = await signCancel(publicClient, orderBook, trader1, [1n], now + 3600n);
+      await relayCancel(publicClient, orderBook, trader4, signed);
+
+      const { trader, orderIds, nonce, deadline } = signed.message;
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.cancelOrdersBySig([trader, orderIds, nonce, deadline, signed.signature]),
+        orderBook,
+        "InvalidNonce"
+      );
+
+      const expired = await signCancel(publicClient, orderBook, trader1, [2n], now);
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.cancelOrdersBySig([
+          trader,
+          [2n],
+          expired.message.nonce,
+          expired.message.deadline,
+          expired.signature,
+        ]),
+        orderBook,
+        "SignatureExpired"
+      );
+
+      // trader2 signs a request in trader1's name
+      const domain = orderBookDomain(await publicClient.getChainId(), orderBook.address);
+      const message = { trader, orderIds: [2n], nonce: 1n, deadline: now + 3600n };
+      const forged = await trader2.signTypedData({
+        account: trader2.account,
+        ...buildCancelPayload(domain, message),
+      });
+      assert.strictEqual(await verifyCancel(domain, { message, signature: forged }), false);
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.cancelOrdersBySig([trader, [2n], 1n, now + 3600n, forged]),
+        orderBook,
+        "InvalidSignature"
+      );
+    });
+  });
+
+  // ========== ORDER AMENDMENT TESTS ==========
+
+  describe("Order Amendment", function () {
+    const unit = 10n ** 18n;
+
+    beforeEach(async function () {
+      // Two asks at 2.00: #1 (trader2) ahead of #2 (trader3)
+      await orderBook.write.placeOrder([marketId, 10n * unit, 20n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 20n * unit, false], {
+        account: trader3.account,
+      });
+    });
+
+    it("should keep time priority when reducing size at the same price", async function () {
+      await viem.assertions.emitWithArgs(
+        orderBook.write.amendOrder([1n, 4n * unit, 8n * unit], {
+          account: trader2.account,
+        }),
+        orderBook,
+        "OrderAmended",
+        [1n, marketId, getAddress(trader2.account.address), 4n * unit, 8n * unit, false]
+      );
+
+      const level = await orderBook.read.getPriceLevel([marketId, false, 2n * unit]);
+      assert.strictEqual(level[0], 1n, "amended order stays at the head");
+
+      const order = await readOrder(orderBook, 1n);
+      assert.strictEqual(order.remainingBase, 4n * unit);
+      assert.strictEqual(order.remainingQuote, 8n * unit);
+
+      const balance = await getEscrowBalance(
+        orderBook,
+        trader2.account.address,
+        baseToken.address
+      );
+      assert.strictEqual(balance.locked, 4n * unit, "excess base is released");
+    });
+
+    it("should reset time priority when increasing size", async function () {
+      const amendment = await amendOrder(
+        publicClient,
+        orderBook,
+        trader2,
+        1n,
+        12n * unit,
+        24n * unit
+      );
+      assert.strictEqual(amendment.priorityReset, true);
+      assert.strictEqual(amendment.orderId, 1n);
+
+      const level = await orderBook.read.getPriceLevel([marketId, false, 2n * unit]);
+      assert.strictEqual(level[0], 2n, "the other order moves ahead");
+      assert.strictEqual(level[1], 1n, "amended order is now last");
+    });
+
+    it("should move the order to its new price level on a price change", async function () {
+      await networkHelpers.time.increase(10);
+      const amendment = await amendOrder(
+        publicClient,
+        orderBook,
+        trader2,
+        1n,
+        10n * unit,
+        15n * unit
+      );
+      assert.strictEqual(amendment.priorityReset, true);
+
+      const market = await readMarket(orderBook, marketId);
+      assert.strictEqual(market.bestAsk, 15n * 10n ** 17n);
+      const oldLevel = await orderBook.read.getPriceLevel([marketId, false, 2n * unit]);
+      assert.strictEqual(oldLevel[0], 2n);
+
+      const order = await readOrder(orderBook, 1n);
+      assert.strictEqual(order.timestamp, BigInt(await networkHelpers.time.latest()));
+
+      // A taker now fills the amended order first
+      await orderBook.write.placeOrder([marketId, 10n * unit, 20n * unit, true, 1n], {
+        account: trader1.account,
+      });
+      assert.strictEqual((await readOrder(orderBook, 1n)).exists, false);
+      assert.strictEqual((await readOrder(orderBook, 2n)).exists, true);
+    });
+
+    it("should restart the size of a partially filled order", async function () {
+      await orderBook.write.placeOrder([marketId, 4n * unit, 8n * unit, true, 1n], {
+        account: trader1.account,
+      });
+      assert.strictEqual((await readOrder(orderBook, 1n)).filledBase, 4n * unit);
+
+      await orderBook.write.amendOrder([1n, 3n * unit, 6n * unit], {
+        account: trader2.account,
+      });
+
+      const order = await readOrder(orderBook, 1n);
+      assert.strictEqual(order.baseAmount, 3n * unit);
+      assert.strictEqual(order.filledBase, 0n);
+      assert.strictEqual(order.remainingBase, 3n * unit);
+
+      const totals = await getEscrowTotals(
+        orderBook,
+        baseToken,
+        traders.map((t) => t.account.address)
+      );
+      assert.strictEqual(totals.available + totals.locked, totals.held);
+    });
+
+    it("should re-lock a buy order's quote and fee reserve", async function () {
+      await orderBook.write.setFees([10, 30]);
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, true], {
+        account: trader1.account,
+      });
+
+      await orderBook.write.amendOrder([3n, 10n * unit, 15n * unit], {
+        account: trader1.account,
+      });
+
+      const balance = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      const reserve = (15n * unit * 30n) / 10_000n;
+      assert.strictEqual(balance.locked, 15n * unit + reserve);
+      assert.strictEqual(balance.available, FUNDING - 15n * unit - reserve);
+    });
+
+    it("should reject invalid amendments", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.amendOrder([1n, unit, unit], { account: trader3.account }),
+        orderBook,
+        "UnauthorizedAmendment"
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.amendOrder([999n, unit, unit]),
+        orderBook,
+        "OrderNotFound"
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.amendOrder([1n, 0n, unit], { account: trader2.account }),
+        orderBook,
+        "InvalidOrderAmount"
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.amendOrder([1n, FUNDING + unit, FUNDING], {
+          account: trader2.account,
+        }),
+        orderBook,
+        "InsufficientBalance"
+      );
+    });
+
+    it("should reject amending an expired order", async function () {
+      const expiresAt = BigInt(await networkHelpers.time.latest()) + 60n;
+      await orderBook.write.placeOrder(
+        [marketId, unit, unit, true, 0n, expiresAt],
+        { account: trader1.account }
+      );
+      await networkHelpers.time.increase(61);
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.amendOrder([3n, unit, unit], { account: trader1.account }),
+        orderBook,
+        "OrderExpired"
+      );
+    });
+
+    it("should list an order's amendments from events", async function () {
+      await amendOrder(publicClient, orderBook, trader2, 1n, 8n * unit, 16n * unit);
+      await amendOrder(publicClient, orderBook, trader2, 1n, 8n * unit, 12n * unit);
+
+      const history = await getOrderAmendments(orderBook, 1n);
+      assert.deepStrictEqual(
+        history.map((a) => [a.baseAmount, a.quoteAmount, a.priorityReset]),
+        [
+          [8n * unit, 16n * unit, false],
+          [8n * unit, 12n * unit, true],
+        ]
+      );
+    });
+  });
+
   // ========== ORDER MATCHING TESTS ==========
 
   describe("Order Matching", function () {
@@ -146,21 +595,21 @@ describe("ParallelOrderBook", async function () {
       const amount = 100n * 10n ** 18n;
 
       // Trader1: Buy 100 for 200
-      await orderBook.write.placeOrder([amount, 200n * 10n ** 18n, true], {
+      await orderBook.write.placeOrder([marketId, amount, 200n * 10n ** 18n, true], {
         account: trader1.account,
       });
 
       // Trader2: Sell 100 for 100
-      await orderBook.write.placeOrder([amount, 100n * 10n ** 18n, false], {
+      await orderBook.write.placeOrder([marketId, amount, 100n * 10n ** 18n, false], {
         account: trader2.account,
       });
 
       // Match them
       await assert.doesNotReject(async () => {
-        await orderBook.write.matchOrdersBatch([[1n], [2n]]);
+        await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
       });
 
-      const stats = await orderBook.read.getOrderBookStats();
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
       assert.strictEqual(stats[1], 1n, "matched should be 1");
     });
 
@@ -168,32 +617,32 @@ describe("ParallelOrderBook", async function () {
       const amount = 100n * 10n ** 18n;
 
       // Place 4 orders
-      await orderBook.write.placeOrder([amount, 200n * 10n ** 18n, true], {
+      await orderBook.write.placeOrder([marketId, amount, 200n * 10n ** 18n, true], {
         account: trader1.account,
       });
-      await orderBook.write.placeOrder([amount, 100n * 10n ** 18n, false], {
+      await orderBook.write.placeOrder([marketId, amount, 100n * 10n ** 18n, false], {
         account: trader2.account,
       });
-      await orderBook.write.placeOrder([amount, 150n * 10n ** 18n, true], {
+      await orderBook.write.placeOrder([marketId, amount, 150n * 10n ** 18n, true], {
         account: trader3.account,
       });
-      await orderBook.write.placeOrder([amount, 120n * 10n ** 18n, false], {
+      await orderBook.write.placeOrder([marketId, amount, 120n * 10n ** 18n, false], {
         account: trader4.account,
       });
 
       // Match pairs [1,3] with [2,4]
       await assert.doesNotReject(async () => {
-        await orderBook.write.matchOrdersBatch([[1n, 3n], [2n, 4n]]);
+        await orderBook.write.matchOrdersBatch([marketId, [1n, 3n], [2n, 4n]]);
       });
 
-      const stats = await orderBook.read.getOrderBookStats();
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
       assert.ok(stats[1] >= 1n, "at least 1 order should be matched");
     });
 
     it("should reject batch with mismatched array lengths", async function () {
       await assert.rejects(
         async () => {
-          await orderBook.write.matchOrdersBatch([[1n, 2n], [3n]]);
+          await orderBook.write.matchOrdersBatch([marketId, [1n, 2n], [3n]]);
         },
         (err) => err instanceof Error
       );
@@ -203,40 +652,46 @@ describe("ParallelOrderBook", async function () {
       const amount = 100n * 10n ** 18n;
 
       // Trader1: Buy 100 for 200
-      await orderBook.write.placeOrder([amount, 200n * 10n ** 18n, true], {
+      await orderBook.write.placeOrder([marketId, amount, 200n * 10n ** 18n, true], {
         account: trader1.account,
       });
 
-      // Trader2: Sell 50 for 80 (incompatible)
-      await orderBook.write.placeOrder([50n * 10n ** 18n, 80n * 10n ** 18n, false], {
+      // Trader2: Sell 50 for 120 (asks 2.4 per base, above the bid of 2)
+      await orderBook.write.placeOrder([marketId, 50n * 10n ** 18n, 120n * 10n ** 18n, false], {
         account: trader2.account,
       });
 
-      await orderBook.write.matchOrdersBatch([[1n], [2n]]);
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
 
-      // The order should still exist (not matched)
-      const order = await orderBook.read.getOrder([1n]);
-      assert.ok(order, "Order should exist after attempted match");
+      // Both orders should still exist (not matched)
+      const buyOrder = await orderBook.read.getOrder([1n]);
+      const sellOrder = await orderBook.read.getOrder([2n]);
+      assert.strictEqual(buyOrder[5], true, "buy order should still exist");
+      assert.strictEqual(sellOrder[5], true, "sell order should still exist");
+      assert.strictEqual(buyOrder[6], 0n, "nothing should be filled");
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 0n, "matched should be 0");
     });
 
     it("should track matched orders in stats", async function () {
       const amount = 100n * 10n ** 18n;
 
       // Place matching orders
-      await orderBook.write.placeOrder([amount, amount, true], {
+      await orderBook.write.placeOrder([marketId, amount, amount, true], {
         account: trader1.account,
       });
-      await orderBook.write.placeOrder([amount, amount, false], {
+      await orderBook.write.placeOrder([marketId, amount, amount, false], {
         account: trader2.account,
       });
 
-      const statsBefore = await orderBook.read.getOrderBookStats();
+      const statsBefore = await orderBook.read.getOrderBookStats([marketId]);
       const matchedBefore = statsBefore[1];
 
       // Match them
-      await orderBook.write.matchOrdersBatch([[1n], [2n]]);
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
 
-      const statsAfter = await orderBook.read.getOrderBookStats();
+      const statsAfter = await orderBook.read.getOrderBookStats([marketId]);
       const matchedAfter = statsAfter[1];
 
       assert.strictEqual(
@@ -247,247 +702,3489 @@ describe("ParallelOrderBook", async function () {
     });
   });
 
-  // ========== PARALLEL OPERATIONS TESTS ==========
-
-  describe("Parallel Order Operations", function () {
-    it("should handle concurrent order placements", async function () {
-      const amount = 100n * 10n ** 18n;
-
-      const txs = [
-        orderBook.write.placeOrder([amount, amount, true], {
-          account: trader1.account,
-        }),
-        orderBook.write.placeOrder([amount, amount, false], {
-          account: trader2.account,
-        }),
-        orderBook.write.placeOrder([amount, amount, true], {
-          account: trader3.account,
-        }),
-        orderBook.write.placeOrder([amount, amount, false], {
-          account: trader4.account,
-        }),
-      ];
+  // ========== PARTIAL FILL TESTS ==========
 
-      await Promise.all(txs);
+  describe("Partial Fills", function () {
+    const unit = 10n ** 18n;
 
-      const stats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(stats[0], 4n, "placed should be 4");
-    });
+    it("should fully fill the smaller side and keep the rest of the larger", async function () {
+      // Buy 100 at 2 quote per base, sell 40 at 2
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, 40n * unit, 80n * unit, false], {
+        account: trader2.account,
+      });
 
-    it("should correctly track stats with concurrent operations", async function () {
-      const amount = 100n * 10n ** 18n;
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
 
-      // Concurrent placements
-      await Promise.all([
-        orderBook.write.placeOrder([amount, amount, true], {
-          account: trader1.account,
-        }),
-        orderBook.write.placeOrder([amount, amount, false], {
-          account: trader2.account,
-        }),
-        orderBook.write.placeOrder([amount, amount, true], {
-          account: trader3.account,
-        }),
-        orderBook.write.placeOrder([amount, amount, false], {
-          account: trader4.account,
-        }),
-      ]);
+      const buyOrder = await orderBook.read.getOrder([1n]);
+      assert.strictEqual(buyOrder[5], true, "buy order should stay open");
+      assert.strictEqual(buyOrder[1], 100n * unit, "original size is kept");
+      assert.strictEqual(buyOrder[6], 40n * unit, "filled size");
+      assert.strictEqual(buyOrder[7], 60n * unit, "remaining base");
+      assert.strictEqual(buyOrder[8], 120n * unit, "remaining quote");
 
-      const stats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(stats[0], 4n, "placed should be 4");
+      const sellOrder = await orderBook.read.getOrder([2n]);
+      assert.strictEqual(sellOrder[5], false, "sell order should be filled");
     });
 
-    it("should maintain consistency under rapid operations", async function () {
-      const amount = 100n * 10n ** 18n;
-
-      // Create multiple orders rapidly
-      for (let i = 0; i < 10; i++) {
-        const isBuy = i % 2 === 0;
-        const account = isBuy ? trader1.account : trader2.account;
-        await orderBook.write.placeOrder([amount, amount, isBuy], {
-          account,
-        });
-      }
+    it("should report the filled quantity in OrderMatched", async function () {
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, 40n * unit, 80n * unit, false], {
+        account: trader2.account,
+      });
 
-      const stats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(stats[0], 10n, "placed should be 10");
+      await viem.assertions.emitWithArgs(
+        orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]),
+        orderBook,
+        "OrderMatched",
+        [
+          marketId,
+          1n,
+          2n,
+          40n * unit,
+          80n * unit,
+          getAddress(trader1.account.address),
+          getAddress(trader2.account.address),
+          0n,
+          0n,
+        ]
+      );
     });
-  });
-
-  // ========== EDGE CASE TESTS ==========
-
-  describe("Edge Cases", function () {
-    it("should handle very large order amounts", async function () {
-      const largeAmount = 1000000n * 10n ** 18n;
 
-      await assert.doesNotReject(async () => {
-        await orderBook.write.placeOrder([largeAmount, largeAmount, true]);
+    it("should fill a large order across several counterparties", async function () {
+      // Sell 100 at 1.5, then three buys of 30, 30 and 50 at 2
+      await orderBook.write.placeOrder([marketId, 100n * unit, 150n * unit, false], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, 30n * unit, 60n * unit, true], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 30n * unit, 60n * unit, true], {
+        account: trader3.account,
+      });
+      await orderBook.write.placeOrder([marketId, 50n * unit, 100n * unit, true], {
+        account: trader4.account,
       });
 
-      const stats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(stats[0], 1n, "placed should be 1");
-    });
+      await orderBook.write.matchOrdersBatch([
+        marketId,
+        [2n, 3n, 4n],
+        [1n, 1n, 1n],
+      ]);
 
-    it("should handle minimal order amounts", async function () {
-      const minAmount = 1n;
+      const sellOrder = await orderBook.read.getOrder([1n]);
+      assert.strictEqual(sellOrder[5], false, "sell order should be filled");
 
-      await assert.doesNotReject(async () => {
-        await orderBook.write.placeOrder([minAmount, minAmount, true]);
-      });
+      const lastBuy = await orderBook.read.getOrder([4n]);
+      assert.strictEqual(lastBuy[5], true, "last buy should stay open");
+      assert.strictEqual(lastBuy[6], 40n * unit, "last buy filled 40");
+      assert.strictEqual(lastBuy[7], 10n * unit, "last buy has 10 left");
 
-      const stats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(stats[0], 1n, "placed should be 1");
-    });
+      // The seller was the maker, so every fill executed at 1.5
+      const sellerQuote = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(sellerQuote.available, FUNDING + 150n * unit);
 
-    it("should handle matching with differing amounts", async function () {
-      const baseAmount = 100n * 10n ** 18n;
-      const quoteAmount1 = 200n * 10n ** 18n;
-      const quoteAmount2 = 80n * 10n ** 18n;
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 3n, "matched should be 3");
+    });
 
-      // Buy 100 for 200
-      await orderBook.write.placeOrder([baseAmount, quoteAmount1, true], {
+    it("should refund price improvement to the buyer", async function () {
+      // Resting sell at 1.5, incoming buy willing to pay 2
+      await orderBook.write.placeOrder([marketId, 100n * unit, 150n * unit, false], {
         account: trader1.account,
       });
-
-      // Sell 100 for 80
-      await orderBook.write.placeOrder([baseAmount, quoteAmount2, false], {
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, true], {
         account: trader2.account,
       });
 
-      await orderBook.write.matchOrdersBatch([[1n], [2n]]);
+      await orderBook.write.matchOrdersBatch([marketId, [2n], [1n]]);
 
-      const stats = await orderBook.read.getOrderBookStats();
-      assert.ok(stats, "stats should be available");
+      const buyerQuote = await getEscrowBalance(
+        orderBook,
+        trader2.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(buyerQuote.locked, 0n);
+      assert.strictEqual(buyerQuote.available, FUNDING - 150n * unit);
     });
 
-    it("should handle rapid successive operations", async function () {
-      const amount = 100n * 10n ** 18n;
+    it("should release only the remaining escrow when a partial order is cancelled", async function () {
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, 25n * unit, 50n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
 
-      // Place orders rapidly
-      for (let i = 0; i < 5; i++) {
-        await orderBook.write.placeOrder([amount, amount, true], {
-          account: trader1.account,
-        });
-      }
+      await orderBook.write.cancelOrder([1n], { account: trader1.account });
 
-      for (let i = 0; i < 5; i++) {
-        await orderBook.write.placeOrder([amount, amount, false], {
-          account: trader2.account,
-        });
-      }
+      const buyerQuote = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(buyerQuote.locked, 0n);
+      assert.strictEqual(buyerQuote.available, FUNDING - 50n * unit);
 
-      const stats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(stats[0], 10n, "placed should be 10");
+      for (const token of [baseToken, quoteToken]) {
+        const totals = await getEscrowTotals(
+          orderBook,
+          token,
+          traders.map((t) => t.account.address)
+        );
+        assert.strictEqual(totals.available + totals.locked, totals.held);
+      }
     });
 
-    it("should handle matching with empty arrays", async function () {
-      // Empty arrays should not cause errors, just match 0 orders
-      const stats = await orderBook.read.getOrderBookStats();
-      const initialMatched = stats[1];
+    it("should not match two orders on the same side", async function () {
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, 100n * unit, 100n * unit, true], {
+        account: trader2.account,
+      });
 
-      await orderBook.write.matchOrdersBatch([[], []]);
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
 
-      const finalStats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(finalStats[1], initialMatched, "no new matches");
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 0n, "matched should be 0");
     });
   });
 
-  // ========== STATE CONSISTENCY TESTS ==========
+  // ========== PRICE-TIME PRIORITY TESTS ==========
 
-  describe("State Consistency", function () {
-    it("should maintain correct order state after placement", async function () {
-      const baseAmount = 100n * 10n ** 18n;
-      const quoteAmount = 200n * 10n ** 18n;
+  describe("Price-Time Priority (taker mode)", function () {
+    const unit = 10n ** 18n;
+    const cent = 10n ** 16n;
+
+    it("should cross several price levels and rest the remainder", async function () {
+      // Asks at 1.00, 1.10 and 1.20
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 11n * unit, false], {
+        account: trader3.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 12n * unit, false], {
+        account: trader4.account,
+      });
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestAsk, unit);
 
-      await orderBook.write.placeOrder([baseAmount, quoteAmount, true], {
+      // Buy 25 up to 1.15
+      await orderBook.write.placeOrder([marketId, 25n * unit, 2875n * cent, true, 10n], {
         account: trader1.account,
       });
 
-      const order = await orderBook.read.getOrder([1n]);
-      assert.strictEqual(
-        order[0].toLowerCase(),
-        trader1.account.address.toLowerCase(),
-        "trader should match"
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 2n, "two levels should be taken");
+
+      assert.strictEqual((await orderBook.read.getOrder([1n]))[5], false);
+      assert.strictEqual((await orderBook.read.getOrder([2n]))[5], false);
+      assert.strictEqual((await orderBook.read.getOrder([3n]))[5], true);
+
+      const taker = await orderBook.read.getOrder([4n]);
+      assert.strictEqual(taker[5], true, "remainder should rest");
+      assert.strictEqual(taker[6], 20n * unit, "filled 20");
+      assert.strictEqual(taker[7], 5n * unit, "5 left");
+
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestAsk, 12n * 10n ** 17n);
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestBid, 115n * cent);
+      const level = await orderBook.read.getPriceLevel([marketId, true, 115n * cent]);
+      assert.strictEqual(level[0], 4n, "remainder heads its bid level");
+
+      // Paid 10 + 11 for 20 base, the rest of the 1.15 budget is refunded
+      // or still locked behind the resting 5
+      const buyerQuote = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
       );
-      assert.strictEqual(order[1], baseAmount, "baseAmount should match");
-      assert.strictEqual(order[2], quoteAmount, "quoteAmount should match");
-      assert.strictEqual(order[4], true, "isBuyOrder should be true");
-      assert.strictEqual(order[5], true, "exists should be true");
+      assert.strictEqual(buyerQuote.locked, 575n * cent);
+      assert.strictEqual(buyerQuote.available, FUNDING - 2675n * cent);
+    });
+
+    it("should match exactly at a price level and leave nothing resting", async function () {
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, false], {
+        account: trader2.account,
+      });
+
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, true, 5n], {
+        account: trader1.account,
+      });
+
+      assert.strictEqual((await orderBook.read.getOrder([1n]))[5], false);
+      assert.strictEqual((await orderBook.read.getOrder([2n]))[5], false);
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestAsk, 0n);
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestBid, 0n);
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 1n);
+    });
+
+    it("should fill the oldest order first within a price level", async function () {
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, false], {
+        account: trader3.account,
+      });
+
+      await viem.assertions.emitWithArgs(
+        orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, true, 5n], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "OrderMatched",
+        [
+          marketId,
+          3n,
+          1n,
+          10n * unit,
+          10n * unit,
+          getAddress(trader1.account.address),
+          getAddress(trader2.account.address),
+          0n,
+          0n,
+        ]
+      );
+
+      const level = await orderBook.read.getPriceLevel([marketId, false, unit]);
+      assert.strictEqual(level[0], 2n, "second order is now at the head");
+    });
+
+    it("should prefer a better price over an earlier order", async function () {
+      await orderBook.write.placeOrder([marketId, 10n * unit, 12n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, false], {
+        account: trader3.account,
+      });
+
+      await orderBook.write.placeOrder([marketId, 10n * unit, 12n * unit, true, 1n], {
+        account: trader1.account,
+      });
+
+      assert.strictEqual((await orderBook.read.getOrder([1n]))[5], true);
+      assert.strictEqual((await orderBook.read.getOrder([2n]))[5], false);
+    });
+
+    it("should cross resting bids with an incoming sell", async function () {
+      // Bids at 1.20 and 1.10
+      await orderBook.write.placeOrder([marketId, 10n * unit, 12n * unit, true], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 11n * unit, true], {
+        account: trader3.account,
+      });
+
+      // Sell 15 down to 1.00
+      await orderBook.write.placeOrder([marketId, 15n * unit, 15n * unit, false, 10n], {
+        account: trader1.account,
+      });
+
+      assert.strictEqual((await orderBook.read.getOrder([1n]))[5], false);
+      const secondBid = await orderBook.read.getOrder([2n]);
+      assert.strictEqual(secondBid[7], 5n * unit, "second bid keeps 5");
+      assert.strictEqual((await orderBook.read.getOrder([3n]))[5], false);
+
+      // Executed at the makers' prices: 10 @ 1.20 + 5 @ 1.10
+      const sellerQuote = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(sellerQuote.available, FUNDING + 175n * 10n ** 17n);
+    });
+
+    it("should stop after maxFills and rest the remainder", async function () {
+      for (const trader of [trader2, trader3, trader4]) {
+        await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, false], {
+          account: trader.account,
+        });
+      }
+
+      await orderBook.write.placeOrder([marketId, 30n * unit, 30n * unit, true, 2n], {
+        account: trader1.account,
+      });
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 2n, "only two fills allowed");
+
+      const taker = await orderBook.read.getOrder([4n]);
+      assert.strictEqual(taker[7], 10n * unit, "10 left resting");
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestBid, unit);
+    });
+
+    it("should reject taker orders asking for too many fills", async function () {
+      const maxFills = await orderBook.read.MAX_TAKER_FILLS();
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder([marketId, unit, unit, true, maxFills + 1n], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "InvalidBatchSize"
+      );
+    });
+
+    it("should drop cancelled and batch-matched orders from the book", async function () {
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 11n * unit, false], {
+        account: trader3.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 11n * unit, true], {
+        account: trader1.account,
+      });
+
+      await orderBook.write.cancelOrder([1n], { account: trader2.account });
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestAsk, 11n * 10n ** 17n);
+
+      await orderBook.write.matchOrdersBatch([marketId, [3n], [2n]]);
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestAsk, 0n);
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestBid, 0n);
+    });
+
+    it("should link a new price level after its hint", async function () {
+      // Asks at 1.00, 1.10 and 1.20
+      for (const quote of [100n, 110n, 120n]) {
+        await orderBook.write.placeOrder([marketId, unit, quote * cent, false], {
+          account: trader2.account,
+        });
+      }
+
+      const hint = await findLevelHint(orderBook, marketId, false, 115n * cent);
+      assert.strictEqual(hint, 110n * cent);
+      await orderBook.write.placeOrder(
+        [marketId, unit, 115n * cent, false, OrderType.Limit, 0n, 0n, hint],
+        { account: trader3.account }
+      );
+      // A hint that is not better than the order falls back to the walk
+      await orderBook.write.placeOrder(
+        [marketId, unit, 105n * cent, false, OrderType.Limit, 0n, 0n, 120n * cent],
+        { account: trader3.account }
+      );
+
+      const ladder: bigint[] = [];
+      for (let price = unit; price !== 0n; ) {
+        ladder.push(price);
+        [, , price] = await orderBook.read.getPriceLevel([marketId, false, price]);
+      }
+      assert.deepStrictEqual(
+        ladder,
+        [100n, 105n, 110n, 115n, 120n].map((quote) => quote * cent)
+      );
+    });
+
+    it("should cap the walk to a new price level", async function () {
+      const maxWalk = await orderBook.read.MAX_LEVEL_WALK();
+      for (let i = 0n; i <= maxWalk; i++) {
+        await orderBook.write.placeOrder([marketId, unit, unit + i * cent, false], {
+          account: trader2.account,
+        });
+      }
+
+      const deepest = unit + (maxWalk + 1n) * cent;
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder([marketId, unit, deepest, false], {
+          account: trader3.account,
+        }),
+        orderBook,
+        "PriceLevelTooDeep"
+      );
+
+      const hint = await findLevelHint(orderBook, marketId, false, deepest);
+      await orderBook.write.placeOrder(
+        [marketId, unit, deepest, false, OrderType.Limit, 0n, 0n, hint],
+        { account: trader3.account }
+      );
+      const [head] = await orderBook.read.getPriceLevel([marketId, false, deepest]);
+      assert.notStrictEqual(head, 0n);
+    });
+  });
+
+  // ========== ORDER TYPE TESTS ==========
+
+  describe("Order Types", function () {
+    const unit = 10n ** 18n;
+    const {
+      Limit: LIMIT,
+      ImmediateOrCancel: IOC,
+      FillOrKill: FOK,
+      PostOnly: POST_ONLY,
+      Market: MARKET,
+    } = OrderType;
+
+    beforeEach(async function () {
+      // Asks: 10 at 1.00 (#1), 10 at 1.10 (#2)
+      await orderBook.write.placeOrder([marketId, 10n * unit, 10n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 10n * unit, 11n * unit, false], {
+        account: trader3.account,
+      });
+    });
+
+    it("should rest the remainder of a typed limit order", async function () {
+      await orderBook.write.placeOrder(
+        [marketId, 15n * unit, 15n * unit, true, LIMIT, 5n, 0n],
+        { account: trader1.account }
+      );
+
+      const order = await readOrder(orderBook, 3n);
+      assert.strictEqual(order.exists, true);
+      assert.strictEqual(order.remainingBase, 5n * unit);
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestBid, unit);
+    });
+
+    it("should cancel the unfilled remainder of an IOC order", async function () {
+      await viem.assertions.emitWithArgs(
+        orderBook.write.placeOrder(
+          [marketId, 15n * unit, 15n * unit, true, IOC, 0n, 0n],
+          { account: trader1.account }
+        ),
+        orderBook,
+        "OrderCancelled",
+        [3n, marketId, getAddress(trader1.account.address), "unfilled remainder"]
+      );
+
+      assert.strictEqual((await readOrder(orderBook, 1n)).exists, false, "1.00 ask filled");
+      assert.strictEqual((await readOrder(orderBook, 2n)).exists, true, "1.10 ask untouched");
+      assert.strictEqual((await readOrder(orderBook, 3n)).exists, false);
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestBid, 0n);
+
+      const balance = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(balance.locked, 0n);
+      assert.strictEqual(balance.available, FUNDING - 10n * unit);
+    });
+
+    it("should cancel an IOC order that cannot fill without reverting", async function () {
+      await orderBook.write.placeOrder(
+        [marketId, 10n * unit, 5n * unit, true, IOC, 0n, 0n],
+        { account: trader1.account }
+      );
+
+      assert.strictEqual((await readOrder(orderBook, 3n)).exists, false);
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 0n, "nothing matched");
+      assert.strictEqual(stats[2], 1n, "IOC order cancelled");
+    });
+
+    it("should revert a fill-or-kill order that cannot fill completely", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder(
+          [marketId, 15n * unit, 15n * unit, true, FOK, 0n, 0n],
+          { account: trader1.account }
+        ),
+        orderBook,
+        "OrderNotFilled"
+      );
+      assert.strictEqual((await readOrder(orderBook, 1n)).remainingBase, 10n * unit);
+    });
+
+    it("should execute a fill-or-kill order that fills completely", async function () {
+      await orderBook.write.placeOrder(
+        [marketId, 15n * unit, 17n * unit, true, FOK, 0n, 0n],
+        { account: trader1.account }
+      );
+
+      assert.strictEqual((await readOrder(orderBook, 1n)).exists, false);
+      assert.strictEqual((await readOrder(orderBook, 2n)).remainingBase, 5n * unit);
+      assert.strictEqual((await readOrder(orderBook, 3n)).exists, false);
+    });
+
+    it("should reject a post-only order that would cross", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder(
+          [marketId, 10n * unit, 10n * unit, true, POST_ONLY, 0n, 0n],
+          { account: trader1.account }
+        ),
+        orderBook,
+        "OrderWouldCross"
+      );
+    });
+
+    it("should rest a post-only order that does not cross, even with maxFills", async function () {
+      await orderBook.write.placeOrder(
+        [marketId, 10n * unit, 9n * unit, true, POST_ONLY, 5n, 0n],
+        { account: trader1.account }
+      );
+
+      const order = await readOrder(orderBook, 3n);
+      assert.strictEqual(order.exists, true);
+      assert.strictEqual(order.filledBase, 0n);
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestBid, 9n * 10n ** 17n);
+    });
+
+    it("should fill a market order up to its slippage limit", async function () {
+      // Limit 1.10 per base: both asks fit, 21 quote spent of at most 22
+      await orderBook.write.placeOrder(
+        [marketId, 20n * unit, 22n * unit, true, MARKET, 0n, 0n],
+        { account: trader1.account }
+      );
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestAsk, 0n);
+
+      const base = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        baseToken.address
+      );
+      assert.strictEqual(base.available, FUNDING + 20n * unit);
+      const quote = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(quote.available, FUNDING - 21n * unit);
+    });
+
+    it("should cancel the part of a market order beyond its slippage limit", async function () {
+      // Limit 1.05 per base: only the 1.00 ask is within bounds
+      await orderBook.write.placeOrder(
+        [marketId, 20n * unit, 21n * unit, true, MARKET, 0n, 0n],
+        { account: trader1.account }
+      );
+
+      assert.strictEqual((await readOrder(orderBook, 1n)).exists, false);
+      assert.strictEqual((await readOrder(orderBook, 2n)).remainingBase, 10n * unit);
+      assert.strictEqual((await readOrder(orderBook, 3n)).exists, false);
+    });
+
+    it("should revert a market order beyond its slippage limit", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder(
+          [marketId, 10n * unit, 9n * unit, true, MARKET, 0n, 0n],
+          { account: trader1.account }
+        ),
+        orderBook,
+        "SlippageExceeded"
+      );
+    });
+
+    it("should revert a market order against an empty side", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder(
+          [marketId, 10n * unit, 9n * unit, false, MARKET, 0n, 0n],
+          { account: trader1.account }
+        ),
+        orderBook,
+        "NoLiquidity"
+      );
+    });
+
+    it("should validate amounts for every order type", async function () {
+      for (const orderType of [LIMIT, IOC, FOK, POST_ONLY, MARKET]) {
+        await viem.assertions.revertWithCustomError(
+          orderBook.write.placeOrder(
+            [marketId, 0n, unit, true, orderType, 0n, 0n],
+            { account: trader1.account }
+          ),
+          orderBook,
+          "InvalidOrderAmount"
+        );
+      }
+    });
+  });
+
+  // ========== SIGNED ORDER TESTS ==========
+
+  describe("Signed Orders", function () {
+    const unit = 10n ** 18n;
+
+    // trader1 buys 10 BASE at up to 2.2, trader2 sells 10 BASE at 2.0
+    const sign = (trader: any, params: Partial<SignedOrderMessage> = {}) =>
+      signOrder(publicClient, orderBook, trader, {
+        marketId,
+        baseAmount: 10n * unit,
+        quoteAmount: 20n * unit,
+        isBuyOrder: false,
+        nonce: 0n,
+        expiry: 0n,
+        ...params,
+      });
+    const signBuy = (params: Partial<SignedOrderMessage> = {}) =>
+      sign(trader1, { isBuyOrder: true, quoteAmount: 22n * unit, ...params });
+    const signSell = (params: Partial<SignedOrderMessage> = {}) => sign(trader2, params);
+
+    it("should hash orders exactly like the TypeScript library", async function () {
+      assert.strictEqual(await orderBook.read.SIGNED_ORDER_TYPEHASH(), SIGNED_ORDER_TYPEHASH);
+      assert.strictEqual(await orderBook.read.CANCEL_ORDERS_TYPEHASH(), CANCEL_ORDERS_TYPEHASH);
+
+      const signed = await signBuy({ nonce: 7n, expiry: 1_900_000_000n });
+      const domain = orderBookDomain(await publicClient.getChainId(), orderBook.address);
+      assert.strictEqual(await orderBook.read.hashSignedOrder([signed.order]), signed.hash);
+      assert.strictEqual(await verifySignedOrder(domain, signed), true);
+    });
+
+    it("should settle a pair at the sell price straight from available balances", async function () {
+      const buy = await signBuy();
+      const sell = await signSell();
+
+      const matches = await settleSignedOrders(
+        publicClient,
+        orderBook,
+        trader4,
+        marketId,
+        [buy],
+        [sell]
+      );
+
+      assert.deepStrictEqual(matches, [
+        {
+          marketId,
+          buyOrderId: BigInt(buy.hash),
+          sellOrderId: BigInt(sell.hash),
+          baseAmount: 10n * unit,
+          quoteAmount: 20n * unit,
+          buyer: getAddress(trader1.account.address),
+          seller: getAddress(trader2.account.address),
+          buyerFee: 0n,
+          sellerFee: 0n,
+        },
+      ]);
+      assert.strictEqual(await orderBook.read.signedOrderFilled([buy.hash]), 10n * unit);
+      assert.strictEqual(await orderBook.read.signedOrderFilled([sell.hash]), 10n * unit);
+      assert.strictEqual(await orderBook.read.totalOrdersMatched(), 1n);
+
+      const buyerQuote = await getEscrowBalance(orderBook, trader1.account.address, quoteToken.address);
+      const sellerBase = await getEscrowBalance(orderBook, trader2.account.address, baseToken.address);
+      assert.strictEqual(buyerQuote.available, FUNDING - 20n * unit);
+      assert.strictEqual(buyerQuote.locked, 0n);
+      assert.strictEqual(sellerBase.available, FUNDING - 10n * unit);
+    });
+
+    it("should track partial fills and never settle more than the signed size", async function () {
+      const buy = await signBuy();
+      const smallSell = await signSell({ baseAmount: 4n * unit, quoteAmount: 8n * unit });
+      const largeSell = await signSell({ nonce: 1n });
+
+      const matches = await settleSignedOrders(
+        publicClient,
+        orderBook,
+        trader4,
+        marketId,
+        [buy, buy, buy],
+        [smallSell, largeSell, smallSell]
+      );
+
+      // The replayed small sell is already filled, the buy only has 6 left
+      assert.deepStrictEqual(
+        matches.map((match: any) => [match.sellOrderId, match.baseAmount, match.quoteAmount]),
+        [
+          [BigInt(smallSell.hash), 4n * unit, 8n * unit],
+          [BigInt(largeSell.hash), 6n * unit, 12n * unit],
+        ]
+      );
+      assert.strictEqual(await orderBook.read.signedOrderFilled([buy.hash]), 10n * unit);
+      assert.strictEqual(await orderBook.read.signedOrderFilled([largeSell.hash]), 6n * unit);
+
+      // Settling the filled buy again is a no-op
+      const replay = await settleSignedOrders(
+        publicClient,
+        orderBook,
+        trader4,
+        marketId,
+        [buy],
+        [largeSell]
+      );
+      assert.deepStrictEqual(replay, []);
+    });
+
+    it("should skip expired, non-crossing and underfunded pairs", async function () {
+      const now = BigInt(await networkHelpers.time.latest());
+      const sell = await signSell();
+      const expired = await signBuy({ expiry: now });
+      const tooLow = await signBuy({ quoteAmount: 19n * unit });
+
+      await orderBook.write.withdraw([quoteToken.address, FUNDING - unit], {
+        account: trader3.account,
+      });
+      const broke = await sign(trader3, { isBuyOrder: true, quoteAmount: 22n * unit });
+
+      const matches = await settleSignedOrders(
+        publicClient,
+        orderBook,
+        trader4,
+        marketId,
+        [expired, tooLow, broke],
+        [sell, sell, sell]
+      );
+
+      assert.deepStrictEqual(matches, []);
+      assert.strictEqual(await orderBook.read.signedOrderFilled([sell.hash]), 0n);
+    });
+
+    it("should reject forged signatures and mismatched batches", async function () {
+      const buy = await signBuy();
+      const sell = await signSell();
+
+      // trader2's signature over an order in trader1's name
+      const forged = await sign(trader2, { isBuyOrder: true, quoteAmount: 22n * unit });
+      const domain = orderBookDomain(await publicClient.getChainId(), orderBook.address);
+      const impersonated = { order: buy.order, signature: forged.signature };
+      assert.strictEqual(await verifySignedOrder(domain, impersonated), false);
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.settleSignedOrders([
+          marketId,
+          [buy.order],
+          [forged.signature],
+          [sell.order],
+          [sell.signature],
+        ]),
+        orderBook,
+        "InvalidSignature"
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.settleSignedOrders([
+          marketId,
+          [buy.order],
+          [buy.signature],
+          [],
+          [],
+        ]),
+        orderBook,
+        "InvalidBatchSize"
+      );
+    });
+
+    it("should let only the signer cancel a signed order", async function () {
+      const buy = await signBuy();
+      const sell = await signSell();
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.cancelSignedOrder([buy.order], { account: trader2.account }),
+        orderBook,
+        "UnauthorizedCancellation"
+      );
+      await viem.assertions.emitWithArgs(
+        orderBook.write.cancelSignedOrder([buy.order], { account: trader1.account }),
+        orderBook,
+        "SignedOrderCancelled",
+        [buy.hash, marketId, getAddress(trader1.account.address), "User cancelled"]
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.cancelSignedOrder([buy.order], { account: trader1.account }),
+        orderBook,
+        "OrderNotFound"
+      );
+
+      const matches = await settleSignedOrders(
+        publicClient,
+        orderBook,
+        trader4,
+        marketId,
+        [buy],
+        [sell]
+      );
+      assert.deepStrictEqual(matches, []);
+    });
+
+    it("should charge the buyer the taker fee and the seller the maker fee", async function () {
+      await orderBook.write.setFees([10, 30]);
+      const buy = await signBuy();
+      const sell = await signSell();
+
+      const [match] = await settleSignedOrders(
+        publicClient,
+        orderBook,
+        trader4,
+        marketId,
+        [buy],
+        [sell]
+      );
+
+      const quote = 20n * unit;
+      assert.strictEqual(match.buyerFee, (quote * 30n) / 10_000n);
+      assert.strictEqual(match.sellerFee, (quote * 10n) / 10_000n);
+      assert.strictEqual(
+        await orderBook.read.collectableFees([quoteToken.address]),
+        match.buyerFee + match.sellerFee
+      );
+
+      const sellerQuote = await getEscrowBalance(orderBook, trader2.account.address, quoteToken.address);
+      assert.strictEqual(sellerQuote.available, FUNDING + quote - match.sellerFee);
+    });
+
+    it("should void signed self-trades under the self-trade policy", async function () {
+      const trader = getAddress(trader1.account.address);
+      const settle = (buy: SignedOrder, sell: SignedOrder) =>
+        orderBook.write.settleSignedOrders(
+          [marketId, [buy.order], [buy.signature], [sell.order], [sell.signature]],
+          { account: trader4.account }
+        );
+
+      // CancelNewest voids the buy, the side that takes the sell's price
+      let buy = await signBuy();
+      let sell = await sign(trader1);
+      const hash = await settle(buy, sell);
+      await viem.assertions.emitWithArgs(
+        Promise.resolve(hash),
+        orderBook,
+        "SelfTradePrevented",
+        [marketId, trader, BigInt(buy.hash), BigInt(sell.hash), SelfTradePolicy.CancelNewest]
+      );
+      await viem.assertions.emitWithArgs(
+        Promise.resolve(hash),
+        orderBook,
+        "SignedOrderCancelled",
+        [buy.hash, marketId, trader, "self-trade"]
+      );
+      const receipt = await publicClient.getTransactionReceipt({ hash });
+      assert.deepStrictEqual(
+        parseEventLogs({ abi: orderBook.abi, eventName: "OrderMatched", logs: receipt.logs }),
+        []
+      );
+      assert.strictEqual(await orderBook.read.signedOrderFilled([buy.hash]), buy.order.baseAmount);
+      assert.strictEqual(await orderBook.read.signedOrderFilled([sell.hash]), 0n);
+
+      await orderBook.write.setSelfTradePolicy([SelfTradePolicy.CancelBoth]);
+      buy = await signBuy({ nonce: 1n });
+      sell = await sign(trader1, { nonce: 1n });
+      await settle(buy, sell);
+      assert.strictEqual(await orderBook.read.signedOrderFilled([buy.hash]), buy.order.baseAmount);
+      assert.strictEqual(await orderBook.read.signedOrderFilled([sell.hash]), sell.order.baseAmount);
+      assert.strictEqual(await orderBook.read.totalOrdersMatched(), 0n);
+    });
+  });
+
+  // ========== EXPIRY TESTS ==========
+
+  describe("Timestamps and Expiry", function () {
+    const unit = 10n ** 18n;
+    const HOUR = 3600n;
+
+    it("should record the placement block timestamp", async function () {
+      await orderBook.write.placeOrder([marketId, unit, unit, true], {
+        account: trader1.account,
+      });
+
+      const block = await publicClient.getBlock();
+      const order = await orderBook.read.getOrder([1n]);
+      assert.strictEqual(order[3], block.timestamp, "timestamp should be set");
+      assert.strictEqual(order[9], 0n, "no expiry by default");
+    });
+
+    it("should store the requested expiry", async function () {
+      const expiresAt = BigInt(await networkHelpers.time.latest()) + HOUR;
+
+      await orderBook.write.placeOrder([marketId, unit, unit, true, 0n, expiresAt], {
+        account: trader1.account,
+      });
+
+      const order = await orderBook.read.getOrder([1n]);
+      assert.strictEqual(order[9], expiresAt);
+    });
+
+    it("should reject an expiry that is not in the future", async function () {
+      const now = BigInt(await networkHelpers.time.latest());
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder([marketId, unit, unit, true, 0n, now], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "InvalidExpiry"
+      );
+    });
+
+    it("should not batch-match expired orders", async function () {
+      const expiresAt = BigInt(await networkHelpers.time.latest()) + HOUR;
+
+      await orderBook.write.placeOrder([marketId, unit, unit, true, 0n, expiresAt], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, unit, unit, false], {
+        account: trader2.account,
+      });
+
+      await networkHelpers.time.increase(HOUR + 1n);
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 0n, "expired order should not match");
+      assert.strictEqual((await orderBook.read.getOrder([2n]))[5], true);
+    });
+
+    it("should skip expired makers when taking liquidity", async function () {
+      const expiresAt = BigInt(await networkHelpers.time.latest()) + HOUR;
+
+      await orderBook.write.placeOrder([marketId, unit, unit, false, 0n, expiresAt], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, unit, unit, false], {
+        account: trader3.account,
+      });
+
+      await networkHelpers.time.increase(HOUR + 1n);
+
+      await viem.assertions.emitWithArgs(
+        orderBook.write.placeOrder([marketId, unit, unit, true, 5n], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "OrderCancelled",
+        [1n, marketId, getAddress(trader2.account.address), "expired"]
+      );
+
+      assert.strictEqual((await orderBook.read.getOrder([1n]))[5], false);
+      assert.strictEqual((await orderBook.read.getOrder([2n]))[5], false);
+      assert.strictEqual((await orderBook.read.getOrder([3n]))[5], false);
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[1], 1n, "the live maker should fill");
+      assert.strictEqual(stats[2], 1n, "the expired maker is cancelled");
+    });
+
+    it("should sweep only expired orders and release their escrow", async function () {
+      const expiresAt = BigInt(await networkHelpers.time.latest()) + HOUR;
+
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, true, 0n, expiresAt], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, true], {
+        account: trader1.account,
+      });
+
+      await networkHelpers.time.increase(HOUR + 1n);
+
+      await viem.assertions.emitWithArgs(
+        orderBook.write.cancelExpiredOrders([[1n, 2n, 999n]]),
+        orderBook,
+        "OrderCancelled",
+        [1n, marketId, getAddress(trader1.account.address), "expired"]
+      );
+
+      assert.strictEqual((await orderBook.read.getOrder([1n]))[5], false);
+      assert.strictEqual((await orderBook.read.getOrder([2n]))[5], true);
+
+      const buyerQuote = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(buyerQuote.locked, 2n * unit);
+      assert.strictEqual(buyerQuote.available, FUNDING - 2n * unit);
+    });
+  });
+
+  // ========== ORDER ENUMERATION TESTS ==========
+
+  describe("Order Enumeration", function () {
+    const unit = 10n ** 18n;
+    const sorted = (ids: bigint[]) => [...ids].sort((a, b) => (a < b ? -1 : 1));
+
+    beforeEach(async function () {
+      // trader1: buys #1, #2 and sell #3; trader2: sells #4, #5
+      await orderBook.write.placeOrder([marketId, unit, unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, unit, unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, unit, 3n * unit, false], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, false], {
+        account: trader2.account,
+      });
+    });
+
+    it("should page through a trader's open orders", async function () {
+      const [firstPage, total] = await orderBook.read.getTraderOpenOrders([
+        trader1.account.address,
+        0n,
+        2n,
+      ]);
+      assert.strictEqual(total, 3n);
+      assert.deepStrictEqual([...firstPage], [1n, 2n]);
+
+      const [secondPage] = await orderBook.read.getTraderOpenOrders([
+        trader1.account.address,
+        2n,
+        2n,
+      ]);
+      assert.deepStrictEqual([...secondPage], [3n]);
+
+      const [pastEnd] = await orderBook.read.getTraderOpenOrders([
+        trader1.account.address,
+        10n,
+        2n,
+      ]);
+      assert.strictEqual(pastEnd.length, 0);
+    });
+
+    it("should list open orders per side", async function () {
+      assert.deepStrictEqual(
+        sorted(await getOpenOrderIds(orderBook, marketId, true, 2n)),
+        [1n, 2n]
+      );
+      assert.deepStrictEqual(
+        sorted(await getOpenOrderIds(orderBook, marketId, false, 2n)),
+        [3n, 4n, 5n]
+      );
+    });
+
+    it("should drop cancelled orders from the lists", async function () {
+      await orderBook.write.cancelOrder([1n], { account: trader1.account });
+
+      assert.deepStrictEqual(
+        sorted(await getTraderOpenOrderIds(orderBook, trader1.account.address, 1n)),
+        [2n, 3n]
+      );
+      assert.deepStrictEqual(await getOpenOrderIds(orderBook, marketId, true), [2n]);
+    });
+
+    it("should drop filled orders but keep partially filled ones", async function () {
+      // Buy 1.5 at 2: fills #4 completely and half of #5
+      await orderBook.write.placeOrder([marketId, 15n * 10n ** 17n, 3n * unit, true, 5n], {
+        account: trader3.account,
+      });
+
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(orderBook, trader2.account.address),
+        [5n]
+      );
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(orderBook, trader3.account.address),
+        []
+      );
+
+      const partial = await readOrder(orderBook, 5n);
+      assert.strictEqual(partial.remainingBase, 5n * 10n ** 17n);
+    });
+
+    it("should return nothing for traders without orders", async function () {
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(orderBook, trader4.account.address),
+        []
+      );
+    });
+  });
+
+  // ========== PARALLEL OPERATIONS TESTS ==========
+
+  describe("Parallel Order Operations", function () {
+    it("should handle concurrent order placements", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      const txs = [
+        orderBook.write.placeOrder([marketId, amount, amount, true], {
+          account: trader1.account,
+        }),
+        orderBook.write.placeOrder([marketId, amount, amount, false], {
+          account: trader2.account,
+        }),
+        orderBook.write.placeOrder([marketId, amount, amount, true], {
+          account: trader3.account,
+        }),
+        orderBook.write.placeOrder([marketId, amount, amount, false], {
+          account: trader4.account,
+        }),
+      ];
+
+      await Promise.all(txs);
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[0], 4n, "placed should be 4");
+    });
+
+    it("should correctly track stats with concurrent operations", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      // Concurrent placements
+      await Promise.all([
+        orderBook.write.placeOrder([marketId, amount, amount, true], {
+          account: trader1.account,
+        }),
+        orderBook.write.placeOrder([marketId, amount, amount, false], {
+          account: trader2.account,
+        }),
+        orderBook.write.placeOrder([marketId, amount, amount, true], {
+          account: trader3.account,
+        }),
+        orderBook.write.placeOrder([marketId, amount, amount, false], {
+          account: trader4.account,
+        }),
+      ]);
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[0], 4n, "placed should be 4");
+    });
+
+    it("should maintain consistency under rapid operations", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      // Create multiple orders rapidly
+      for (let i = 0; i < 10; i++) {
+        const isBuy = i % 2 === 0;
+        const account = isBuy ? trader1.account : trader2.account;
+        await orderBook.write.placeOrder([marketId, amount, amount, isBuy], {
+          account,
+        });
+      }
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[0], 10n, "placed should be 10");
+    });
+  });
+
+  // ========== CONCURRENT MODE TESTS ==========
+
+  describe("Concurrent Mode", function () {
+    const unit = 10n ** 18n;
+
+    // Arcology-only U256Cumulative reads are not available here, so these
+    // tests stick to order IDs and matching
+    let concurrentBook: any;
+    let concurrentMarketId: bigint;
+
+    const packedId = (nonce: bigint, trader: any) =>
+      (nonce << 160n) | BigInt(trader.account.address);
+
+    beforeEach(async function () {
+      concurrentBook = await viem.deployContract("ParallelOrderBook", [true]);
+      concurrentMarketId = await createMarket(
+        publicClient,
+        concurrentBook,
+        baseToken.address,
+        quoteToken.address
+      );
+
+      for (const trader of [trader1, trader2]) {
+        for (const token of [baseToken, quoteToken]) {
+          await token.write.mint([trader.account.address, FUNDING]);
+          await approveAndDeposit(publicClient, concurrentBook, token, trader, FUNDING);
+        }
+      }
+    });
+
+    it("should report the counter mode", async function () {
+      assert.strictEqual(await orderBook.read.concurrent(), false);
+      assert.strictEqual(await concurrentBook.read.concurrent(), true);
+    });
+
+    it("should allocate order IDs per trader", async function () {
+      await concurrentBook.write.placeOrder([concurrentMarketId, unit, unit, true], {
+        account: trader1.account,
+      });
+      await concurrentBook.write.placeOrder([concurrentMarketId, unit, unit, true], {
+        account: trader2.account,
+      });
+      await concurrentBook.write.placeOrder([concurrentMarketId, unit, unit, true], {
+        account: trader1.account,
+      });
+
+      assert.deepStrictEqual(
+        (await getTraderOpenOrderIds(concurrentBook, trader1.account.address)).sort(),
+        [packedId(1n, trader1), packedId(2n, trader1)].sort()
+      );
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(concurrentBook, trader2.account.address),
+        [packedId(1n, trader2)]
+      );
+
+      const order = await readOrder(concurrentBook, packedId(2n, trader1));
+      assert.strictEqual(order.trader, getAddress(trader1.account.address));
+      assert.strictEqual(order.exists, true);
+    });
+
+    it("should pick the maker by placement time, not by ID", async function () {
+      // Whichever trader has the higher address places first, so the earlier
+      // order gets the higher ID
+      const [early, late] =
+        BigInt(trader1.account.address) > BigInt(trader2.account.address)
+          ? [trader1, trader2]
+          : [trader2, trader1];
+
+      await concurrentBook.write.placeOrder([concurrentMarketId, unit, unit, false], {
+        account: early.account,
+      });
+      await concurrentBook.write.placeOrder(
+        [concurrentMarketId, unit, 2n * unit, true],
+        { account: late.account }
+      );
+
+      const sellId = packedId(1n, early);
+      const buyId = packedId(1n, late);
+      assert.ok(buyId < sellId);
+
+      await viem.assertions.emitWithArgs(
+        concurrentBook.write.matchOrdersBatch([concurrentMarketId, [buyId], [sellId]]),
+        concurrentBook,
+        "OrderMatched",
+        [
+          concurrentMarketId,
+          buyId,
+          sellId,
+          unit,
+          unit,
+          getAddress(late.account.address),
+          getAddress(early.account.address),
+          0n,
+          0n,
+        ]
+      );
+    });
+
+    it("should leave linking resting orders to linkOrders", async function () {
+      for (const trader of [trader1, trader2, trader1]) {
+        await concurrentBook.write.placeOrder([concurrentMarketId, unit, unit, true], {
+          account: trader.account,
+        });
+      }
+      const [first, second, third] = [
+        packedId(1n, trader1),
+        packedId(1n, trader2),
+        packedId(2n, trader1),
+      ];
+
+      // Placement only touched per-order and per-trader state
+      assert.strictEqual((await readMarket(concurrentBook, concurrentMarketId)).bestBid, 0n);
+      assert.deepStrictEqual(await getOpenOrderIds(concurrentBook, concurrentMarketId, true), []);
+      assert.strictEqual(await concurrentBook.read.isOrderLinked([first]), false);
+
+      // An unlinked order cancels like any other
+      await concurrentBook.write.cancelOrder([third], { account: trader1.account });
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(concurrentBook, trader1.account.address),
+        [first]
+      );
+
+      await viem.assertions.emitWithArgs(
+        concurrentBook.write.linkOrders([[first, second, third], [0n, 0n, 0n]]),
+        concurrentBook,
+        "OrderLinked",
+        [first, concurrentMarketId, unit]
+      );
+      assert.strictEqual((await readMarket(concurrentBook, concurrentMarketId)).bestBid, unit);
+      const [head, tail] = await concurrentBook.read.getPriceLevel([
+        concurrentMarketId,
+        true,
+        unit,
+      ]);
+      assert.deepStrictEqual([head, tail], [first, second]);
+      assert.deepStrictEqual(
+        await getOpenOrderIds(concurrentBook, concurrentMarketId, true),
+        [first, second]
+      );
+
+      // Linked orders are skipped
+      const hash = await concurrentBook.write.linkOrders([[first], [0n]]);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      assert.strictEqual(
+        parseEventLogs({ abi: concurrentBook.abi, eventName: "OrderLinked", logs: receipt.logs })
+          .length,
+        0
+      );
+    });
+
+    it("should cancel post-only orders that cross the book once linked", async function () {
+      // The ask is not linked yet, so neither post-only buy sees it
+      await concurrentBook.write.placeOrder([concurrentMarketId, unit, unit, false], {
+        account: trader1.account,
+      });
+      for (const quoteAmount of [2n * unit, unit / 2n]) {
+        await concurrentBook.write.placeOrder(
+          [concurrentMarketId, unit, quoteAmount, true, OrderType.PostOnly, 0n, 0n],
+          { account: trader2.account }
+        );
+      }
+      const [ask, crossing, resting] = [
+        packedId(1n, trader1),
+        packedId(1n, trader2),
+        packedId(2n, trader2),
+      ];
+
+      const link = concurrentBook.write.linkOrders([
+        [ask, crossing, resting],
+        [0n, 0n, 0n],
+      ]);
+      await viem.assertions.emitWithArgs(link, concurrentBook, "OrderCancelled", [
+        crossing,
+        concurrentMarketId,
+        getAddress(trader2.account.address),
+        "post-only would cross",
+      ]);
+
+      assert.strictEqual(await concurrentBook.read.isOrderLinked([ask]), true);
+      assert.strictEqual(await concurrentBook.read.isOrderLinked([resting]), true);
+      assert.strictEqual((await readOrder(concurrentBook, crossing)).exists, false);
+      const market = await readMarket(concurrentBook, concurrentMarketId);
+      assert.deepStrictEqual([market.bestBid, market.bestAsk], [unit / 2n, unit]);
+      assert.deepStrictEqual(
+        await getTraderOpenOrderIds(concurrentBook, trader2.account.address),
+        [resting]
+      );
+
+      const balance = await getEscrowBalance(
+        concurrentBook,
+        trader2.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(balance.locked, unit / 2n, "only the resting buy stays locked");
+    });
+
+    it("should have the keeper link new orders on a concurrent book", async function () {
+      const keeperClient = new OrderBookClient(concurrentBook, publicClient, deployer);
+      await keeperClient
+        .connect(trader1)
+        .placeOrder({ marketId: concurrentMarketId, baseAmount: unit, quoteAmount: unit, isBuyOrder: true });
+      await keeperClient
+        .connect(trader2)
+        .placeOrder({ marketId: concurrentMarketId, baseAmount: unit, quoteAmount: 2n * unit, isBuyOrder: false });
+
+      const keeper = new OrderBookKeeper(
+        keeperClient,
+        new OrderBookIndexer(keeperClient, new IndexerDatabase())
+      );
+      assert.deepStrictEqual(await keeper.runOnce(), []);
+      assert.strictEqual(keeper.stats.linked, 2);
+
+      const market = await keeperClient.getMarket(concurrentMarketId);
+      assert.deepStrictEqual([market.bestBid, market.bestAsk], [unit, 2n * unit]);
+
+      await keeper.runOnce();
+      assert.strictEqual(keeper.stats.linked, 2);
+    });
+  });
+
+  // ========== EDGE CASE TESTS ==========
+
+  describe("Edge Cases", function () {
+    it("should handle very large order amounts", async function () {
+      const largeAmount = 1000000n * 10n ** 18n;
+
+      await assert.doesNotReject(async () => {
+        await orderBook.write.placeOrder([marketId, largeAmount, largeAmount, true]);
+      });
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[0], 1n, "placed should be 1");
+    });
+
+    it("should handle minimal order amounts", async function () {
+      const minAmount = 1n;
+
+      await assert.doesNotReject(async () => {
+        await orderBook.write.placeOrder([marketId, minAmount, minAmount, true]);
+      });
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[0], 1n, "placed should be 1");
+    });
+
+    it("should handle matching with differing amounts", async function () {
+      const baseAmount = 100n * 10n ** 18n;
+      const quoteAmount1 = 200n * 10n ** 18n;
+      const quoteAmount2 = 80n * 10n ** 18n;
+
+      // Buy 100 for 200
+      await orderBook.write.placeOrder([marketId, baseAmount, quoteAmount1, true], {
+        account: trader1.account,
+      });
+
+      // Sell 100 for 80
+      await orderBook.write.placeOrder([marketId, baseAmount, quoteAmount2, false], {
+        account: trader2.account,
+      });
+
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.ok(stats, "stats should be available");
+    });
+
+    it("should handle rapid successive operations", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      // Place orders rapidly
+      for (let i = 0; i < 5; i++) {
+        await orderBook.write.placeOrder([marketId, amount, amount, true], {
+          account: trader1.account,
+        });
+      }
+
+      for (let i = 0; i < 5; i++) {
+        await orderBook.write.placeOrder([marketId, amount, amount, false], {
+          account: trader2.account,
+        });
+      }
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[0], 10n, "placed should be 10");
+    });
+
+    it("should handle matching with empty arrays", async function () {
+      // Empty arrays should not cause errors, just match 0 orders
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      const initialMatched = stats[1];
+
+      await orderBook.write.matchOrdersBatch([marketId, [], []]);
+
+      const finalStats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(finalStats[1], initialMatched, "no new matches");
+    });
+  });
+
+  // ========== STATE CONSISTENCY TESTS ==========
+
+  describe("State Consistency", function () {
+    it("should maintain correct order state after placement", async function () {
+      const baseAmount = 100n * 10n ** 18n;
+      const quoteAmount = 200n * 10n ** 18n;
+
+      await orderBook.write.placeOrder([marketId, baseAmount, quoteAmount, true], {
+        account: trader1.account,
+      });
+
+      const order = await orderBook.read.getOrder([1n]);
+      assert.strictEqual(
+        order[0].toLowerCase(),
+        trader1.account.address.toLowerCase(),
+        "trader should match"
+      );
+      assert.strictEqual(order[1], baseAmount, "baseAmount should match");
+      assert.strictEqual(order[2], quoteAmount, "quoteAmount should match");
+      assert.strictEqual(order[4], true, "isBuyOrder should be true");
+      assert.strictEqual(order[5], true, "exists should be true");
     });
 
     it("should return zeros for non-existent orders", async function () {
       const order = await orderBook.read.getOrder([999n]);
       assert.strictEqual(
-        order[4],
-        false,
-        "exists should be false for non-existent order"
+        order[4],
+        false,
+        "exists should be false for non-existent order"
+      );
+    });
+
+    it("should track cumulative stats correctly", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      // Place 3 orders
+      await orderBook.write.placeOrder([marketId, amount, amount, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, amount, amount, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, amount, amount, false], {
+        account: trader2.account,
+      });
+
+      let stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[0], 3n, "placed should be 3");
+
+      // Cancel one
+      await orderBook.write.cancelOrder([1n], { account: trader1.account });
+
+      stats = await orderBook.read.getOrderBookStats([marketId]);
+      assert.strictEqual(stats[2], 1n, "cancelled should be 1");
+      assert.strictEqual(stats[0], 3n, "placed count should not change");
+    });
+  });
+
+  // ========== GAS EFFICIENCY TESTS ==========
+
+  describe("Gas Efficiency", function () {
+    it("should place orders with reasonable gas", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      const tx = await orderBook.write.placeOrder([marketId, amount, amount, true]);
+      assert.ok(tx, "transaction should succeed");
+    });
+
+    it("should cancel orders with reasonable gas", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      await orderBook.write.placeOrder([marketId, amount, amount, true]);
+      const tx = await orderBook.write.cancelOrder([1n]);
+
+      assert.ok(tx, "cancel transaction should succeed");
+    });
+
+    it("should match orders efficiently", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      // Create matching pairs
+      for (let i = 0; i < 3; i++) {
+        await orderBook.write.placeOrder([marketId, amount, amount, true], {
+          account: trader1.account,
+        });
+        await orderBook.write.placeOrder([marketId, amount, amount, false], {
+          account: trader2.account,
+        });
+      }
+
+      const tx = await orderBook.write.matchOrdersBatch([
+        marketId,
+        [1n, 3n, 5n],
+        [2n, 4n, 6n],
+      ]);
+
+      assert.ok(tx, "batch match transaction should succeed");
+    });
+  });
+
+  // ========== ESCROW TESTS ==========
+
+  describe("Escrow", function () {
+    const traderAddresses = () => traders.map((t) => t.account.address);
+
+    async function assertConserved() {
+      for (const token of [baseToken, quoteToken]) {
+        const totals = await getEscrowTotals(orderBook, token, traderAddresses());
+        assert.strictEqual(
+          totals.available + totals.locked,
+          totals.held,
+          "escrowed balances should equal tokens held by the book"
+        );
+      }
+    }
+
+    it("should credit deposits to the available balance", async function () {
+      const balance = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        baseToken.address
+      );
+      assert.strictEqual(balance.available, FUNDING);
+      assert.strictEqual(balance.locked, 0n);
+      await assertConserved();
+    });
+
+    it("should reject deposits of unlisted tokens", async function () {
+      const other = await viem.deployContract("MockERC20", ["Other", "OTH", 18]);
+      await other.write.mint([trader1.account.address, 100n]);
+      await other.write.approve([orderBook.address, 100n], {
+        account: trader1.account,
+      });
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.deposit([other.address, 100n], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "InvalidToken"
+      );
+    });
+
+    it("should lock quote for buys and base for sells", async function () {
+      const base = 100n * 10n ** 18n;
+      const quote = 200n * 10n ** 18n;
+
+      await orderBook.write.placeOrder([marketId, base, quote, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, base, quote, false], {
+        account: trader2.account,
+      });
+
+      const buyerQuote = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(buyerQuote.locked, quote);
+      assert.strictEqual(buyerQuote.available, FUNDING - quote);
+
+      const sellerBase = await getEscrowBalance(
+        orderBook,
+        trader2.account.address,
+        baseToken.address
+      );
+      assert.strictEqual(sellerBase.locked, base);
+      assert.strictEqual(sellerBase.available, FUNDING - base);
+
+      await assertConserved();
+    });
+
+    it("should reject orders that exceed the available balance", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder([marketId, 1n, FUNDING + 1n, true], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "InsufficientBalance"
+      );
+    });
+
+    it("should release locked funds on cancel", async function () {
+      const amount = 100n * 10n ** 18n;
+
+      await orderBook.write.placeOrder([marketId, amount, amount, false], {
+        account: trader1.account,
+      });
+      await orderBook.write.cancelOrder([1n], { account: trader1.account });
+
+      const balance = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        baseToken.address
+      );
+      assert.strictEqual(balance.locked, 0n);
+      assert.strictEqual(balance.available, FUNDING);
+      await assertConserved();
+    });
+
+    it("should settle locked funds between counterparties on match", async function () {
+      const base = 100n * 10n ** 18n;
+      const quote = 200n * 10n ** 18n;
+
+      await orderBook.write.placeOrder([marketId, base, quote, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, base, 150n * 10n ** 18n, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
+
+      const buyerBase = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        baseToken.address
+      );
+      const buyerQuote = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      const sellerBase = await getEscrowBalance(
+        orderBook,
+        trader2.account.address,
+        baseToken.address
+      );
+      const sellerQuote = await getEscrowBalance(
+        orderBook,
+        trader2.account.address,
+        quoteToken.address
+      );
+
+      assert.strictEqual(buyerBase.available, FUNDING + base);
+      assert.strictEqual(buyerQuote.locked, 0n);
+      assert.strictEqual(buyerQuote.available, FUNDING - quote);
+      assert.strictEqual(sellerBase.locked, 0n);
+      assert.strictEqual(sellerBase.available, FUNDING - base);
+      assert.strictEqual(sellerQuote.available, FUNDING + quote);
+
+      await assertConserved();
+    });
+
+    it("should withdraw proceeds back to the trader's wallet", async function () {
+      const base = 100n * 10n ** 18n;
+      const quote = 200n * 10n ** 18n;
+
+      await orderBook.write.placeOrder([marketId, base, quote, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, base, quote, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
+
+      await withdrawFromBook(
+        publicClient,
+        orderBook,
+        quoteToken.address,
+        trader2,
+        FUNDING + quote
+      );
+
+      const walletBalance = await quoteToken.read.balanceOf([
+        trader2.account.address,
+      ]);
+      assert.strictEqual(walletBalance, FUNDING + quote);
+
+      const escrow = await getEscrowBalance(
+        orderBook,
+        trader2.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(escrow.available, 0n);
+      await assertConserved();
+    });
+
+    it("should not allow withdrawing locked funds", async function () {
+      await orderBook.write.placeOrder([marketId, FUNDING, FUNDING, false], {
+        account: trader1.account,
+      });
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.withdraw([baseToken.address, 1n], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "InsufficientBalance"
+      );
+    });
+  });
+
+  // ========== MARKET TESTS ==========
+
+  describe("Markets", function () {
+    const unit = 10n ** 18n;
+
+    let otherBase: any;
+    let otherMarketId: bigint;
+
+    beforeEach(async function () {
+      // Second market trades a new base asset against the same quote token
+      otherBase = await viem.deployContract("MockERC20", ["Other", "OTH", 18]);
+      otherMarketId = await createMarket(
+        publicClient,
+        orderBook,
+        otherBase.address,
+        quoteToken.address
+      );
+
+      for (const trader of traders) {
+        await otherBase.write.mint([trader.account.address, FUNDING]);
+        await approveAndDeposit(publicClient, orderBook, otherBase, trader, FUNDING);
+      }
+    });
+
+    it("should register markets with sequential IDs", async function () {
+      assert.strictEqual(marketId, 1n);
+      assert.strictEqual(otherMarketId, 2n);
+      assert.strictEqual(await orderBook.read.marketCount(), 2n);
+      assert.strictEqual(
+        await orderBook.read.marketIdByPair([otherBase.address, quoteToken.address]),
+        otherMarketId
+      );
+
+      const market = await readMarket(orderBook, otherMarketId);
+      assert.strictEqual(market.baseToken, getAddress(otherBase.address));
+      assert.strictEqual(market.quoteToken, getAddress(quoteToken.address));
+    });
+
+    it("should reject duplicate and invalid pairs", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.createMarket([baseToken.address, quoteToken.address]),
+        orderBook,
+        "MarketExists"
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.createMarket([baseToken.address, baseToken.address]),
+        orderBook,
+        "InvalidToken"
+      );
+    });
+
+    it("should only let admins create markets", async function () {
+      const otherBase = await viem.deployContract("MockERC20", ["Other", "OTH", 18]);
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.createMarket([otherBase.address, quoteToken.address], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "MissingRole"
+      );
+    });
+
+    it("should reject orders for unknown markets", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder([99n, unit, unit, true], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "MarketNotFound"
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.matchOrdersBatch([99n, [], []]),
+        orderBook,
+        "MarketNotFound"
+      );
+    });
+
+    it("should keep books and stats separate per market", async function () {
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([otherMarketId, unit, 3n * unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([otherMarketId, unit, 3n * unit, false], {
+        account: trader2.account,
+      });
+
+      assert.strictEqual((await readMarket(orderBook, marketId)).bestBid, 2n * unit);
+      assert.strictEqual(
+        (await readMarket(orderBook, otherMarketId)).bestBid,
+        3n * unit
+      );
+      assert.deepStrictEqual(
+        await getOpenOrderIds(orderBook, otherMarketId, false),
+        [3n]
+      );
+      assert.deepStrictEqual(await getOpenOrderIds(orderBook, marketId, false), []);
+
+      await orderBook.write.matchOrdersBatch([otherMarketId, [2n], [3n]]);
+
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
+      const otherStats = await orderBook.read.getOrderBookStats([otherMarketId]);
+      assert.deepStrictEqual([...stats], [1n, 0n, 0n]);
+      assert.deepStrictEqual([...otherStats], [2n, 1n, 0n]);
+      assert.strictEqual(await orderBook.read.totalOrdersPlaced(), 3n);
+
+      // Settlement moved the second market's base token only
+      const buyerBase = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        otherBase.address
+      );
+      assert.strictEqual(buyerBase.available, FUNDING + unit);
+      const untouched = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        baseToken.address
+      );
+      assert.strictEqual(untouched.available, FUNDING);
+    });
+
+    it("should not match orders across markets", async function () {
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, true], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([otherMarketId, unit, unit, false], {
+        account: trader2.account,
+      });
+
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
+      await orderBook.write.matchOrdersBatch([otherMarketId, [1n], [2n]]);
+
+      assert.strictEqual(await orderBook.read.totalOrdersMatched(), 0n);
+      assert.strictEqual((await readOrder(orderBook, 1n)).marketId, marketId);
+      assert.strictEqual((await readOrder(orderBook, 2n)).marketId, otherMarketId);
+    });
+
+    it("should only take liquidity from the order's own market", async function () {
+      await orderBook.write.placeOrder([otherMarketId, unit, unit, false], {
+        account: trader2.account,
+      });
+
+      await viem.assertions.emitWithArgs(
+        orderBook.write.placeOrder([marketId, unit, 2n * unit, true, 5n], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "OrderPlaced",
+        [2n, marketId, getAddress(trader1.account.address), unit, 2n * unit, true]
+      );
+
+      assert.strictEqual((await readOrder(orderBook, 1n)).exists, true);
+      assert.strictEqual((await readOrder(orderBook, 2n)).exists, true);
+    });
+  });
+
+  // ========== FEE TESTS ==========
+
+  describe("Fees", function () {
+    const unit = 10n ** 18n;
+    const MAKER_BPS = 10;
+    const TAKER_BPS = 30;
+
+    const feeOf = (quote: bigint, bps: number) => (quote * BigInt(bps)) / 10_000n;
+
+    it("should only let an admin set fees within the maximum", async function () {
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.setFees([MAKER_BPS, TAKER_BPS], { account: trader1.account }),
+        orderBook,
+        "MissingRole"
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.setFees([0, 101]),
+        orderBook,
+        "InvalidFee"
+      );
+
+      await viem.assertions.emitWithArgs(
+        orderBook.write.setFees([MAKER_BPS, TAKER_BPS]),
+        orderBook,
+        "FeesUpdated",
+        [MAKER_BPS, TAKER_BPS]
+      );
+      assert.strictEqual(await orderBook.read.makerFeeBps(), MAKER_BPS);
+      assert.strictEqual(await orderBook.read.takerFeeBps(), TAKER_BPS);
+    });
+
+    it("should charge maker and taker fees in quote and report them in OrderMatched", async function () {
+      await orderBook.write.setFees([MAKER_BPS, TAKER_BPS]);
+      const quote = 200n * unit;
+
+      // Resting sell is the maker, the incoming buy is the taker
+      await orderBook.write.placeOrder([marketId, 100n * unit, quote, false], {
+        account: trader2.account,
+      });
+      await viem.assertions.emitWithArgs(
+        orderBook.write.placeOrder([marketId, 100n * unit, quote, true, 1n], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "OrderMatched",
+        [
+          marketId,
+          2n,
+          1n,
+          100n * unit,
+          quote,
+          getAddress(trader1.account.address),
+          getAddress(trader2.account.address),
+          feeOf(quote, TAKER_BPS),
+          feeOf(quote, MAKER_BPS),
+        ]
+      );
+
+      const buyer = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      const seller = await getEscrowBalance(
+        orderBook,
+        trader2.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(buyer.available, FUNDING - quote - feeOf(quote, TAKER_BPS));
+      assert.strictEqual(buyer.locked, 0n, "unused fee reserve is released");
+      assert.strictEqual(seller.available, FUNDING + quote - feeOf(quote, MAKER_BPS));
+      assert.strictEqual(
+        await orderBook.read.collectableFees([quoteToken.address]),
+        feeOf(quote, TAKER_BPS) + feeOf(quote, MAKER_BPS)
+      );
+    });
+
+    it("should reserve the buyer's fee on placement and release it on cancel", async function () {
+      await orderBook.write.setFees([MAKER_BPS, TAKER_BPS]);
+      const quote = 200n * unit;
+
+      await orderBook.write.placeOrder([marketId, 100n * unit, quote, true], {
+        account: trader1.account,
+      });
+      let balance = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(balance.locked, quote + feeOf(quote, TAKER_BPS));
+
+      await orderBook.write.cancelOrder([1n], { account: trader1.account });
+      balance = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(balance.locked, 0n);
+      assert.strictEqual(balance.available, FUNDING);
+    });
+
+    it("should not apply fee increases to orders already resting", async function () {
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.setFees([MAKER_BPS, TAKER_BPS]);
+
+      await viem.assertions.emitWithArgs(
+        orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, true, 1n], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "OrderMatched",
+        [
+          marketId,
+          2n,
+          1n,
+          100n * unit,
+          200n * unit,
+          getAddress(trader1.account.address),
+          getAddress(trader2.account.address),
+          feeOf(200n * unit, TAKER_BPS),
+          0n,
+        ]
+      );
+    });
+
+    it("should release exactly the reserve across uneven partial fills", async function () {
+      await orderBook.write.setFees([MAKER_BPS, TAKER_BPS]);
+
+      // Odd sizes so every fill rounds
+      await orderBook.write.placeOrder([marketId, 3n, 1000n, true], {
+        account: trader1.account,
+      });
+      for (const trader of [trader2, trader3, trader4]) {
+        await orderBook.write.placeOrder([marketId, 1n, 333n, false], {
+          account: trader.account,
+        });
+      }
+      await orderBook.write.matchOrdersBatch([marketId, [1n, 1n, 1n], [2n, 3n, 4n]]);
+
+      assert.strictEqual((await readOrder(orderBook, 1n)).exists, false);
+      const buyer = await getEscrowBalance(
+        orderBook,
+        trader1.account.address,
+        quoteToken.address
+      );
+      assert.strictEqual(buyer.locked, 0n);
+
+      // Every token the book holds is owed to a trader or collectable as fees
+      const totals = await getEscrowTotals(
+        orderBook,
+        quoteToken,
+        traders.map((t) => t.account.address)
+      );
+      const collectable = await orderBook.read.collectableFees([quoteToken.address]);
+      assert.strictEqual(totals.available + totals.locked + collectable, totals.held);
+    });
+
+    it("should let only an admin collect accrued fees", async function () {
+      await orderBook.write.setFees([MAKER_BPS, TAKER_BPS]);
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, true, 1n], {
+        account: trader1.account,
+      });
+      const accrued = await orderBook.read.collectableFees([quoteToken.address]);
+      assert.ok(accrued > 0n);
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.collectFees([quoteToken.address, trader1.account.address], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "MissingRole"
+      );
+
+      const recipient = trader4.account.address;
+      const before = await quoteToken.read.balanceOf([recipient]);
+      await viem.assertions.emitWithArgs(
+        orderBook.write.collectFees([quoteToken.address, recipient]),
+        orderBook,
+        "FeesCollected",
+        [getAddress(quoteToken.address), getAddress(recipient), accrued]
+      );
+      assert.strictEqual(await quoteToken.read.balanceOf([recipient]), before + accrued);
+      assert.strictEqual(await orderBook.read.collectableFees([quoteToken.address]), 0n);
+    });
+
+    it("should total fee revenue per trader from OrderMatched events", async function () {
+      await orderBook.write.setFees([MAKER_BPS, TAKER_BPS]);
+      const fromBlock = await publicClient.getBlockNumber();
+
+      await orderBook.write.placeOrder([marketId, 100n * unit, 200n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 50n * unit, 100n * unit, true, 1n], {
+        account: trader1.account,
+      });
+      await orderBook.write.placeOrder([marketId, 50n * unit, 100n * unit, true, 1n], {
+        account: trader3.account,
+      });
+
+      const revenue = await getFeeRevenueByTrader(orderBook, { fromBlock });
+      const byTrader = new Map(revenue.map((entry) => [entry.trader, entry]));
+
+      const seller = byTrader.get(getAddress(trader2.account.address))!;
+      assert.strictEqual(seller.fills, 2);
+      assert.strictEqual(seller.asSeller, 2n * feeOf(100n * unit, MAKER_BPS));
+      assert.strictEqual(seller.quoteToken, getAddress(quoteToken.address));
+
+      const buyer = byTrader.get(getAddress(trader1.account.address))!;
+      assert.strictEqual(buyer.asBuyer, feeOf(100n * unit, TAKER_BPS));
+      assert.strictEqual(buyer.total, buyer.asBuyer);
+
+      const total = revenue.reduce((sum, entry) => sum + entry.total, 0n);
+      assert.strictEqual(
+        total,
+        await orderBook.read.collectableFees([quoteToken.address])
+      );
+    });
+  });
+
+  // ========== SELF-TRADE PREVENTION TESTS ==========
+
+  describe("Self-Trade Prevention", function () {
+    const unit = 10n ** 18n;
+    const trader = () => getAddress(trader1.account.address);
+
+    const preventions = async (hash: `0x${string}`) => {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      return parseEventLogs({
+        abi: orderBook.abi,
+        eventName: "SelfTradePrevented",
+        logs: receipt.logs,
+      }).map((log: any) => [log.args.cancelledOrderId, log.args.counterOrderId]);
+    };
+
+    const place = (account: any, isBuy: boolean, maxFills = 0n) =>
+      orderBook.write.placeOrder([marketId, 10n * unit, 20n * unit, isBuy, maxFills], {
+        account: account.account,
+      });
+
+    const assertUnlocked = async () => {
+      for (const token of [baseToken, quoteToken]) {
+        const balance = await getEscrowBalance(orderBook, trader(), token.address);
+        assert.strictEqual(balance.locked, 0n);
+        assert.strictEqual(balance.available, FUNDING);
+      }
+    };
+
+    it("should only let an admin change the policy", async function () {
+      assert.strictEqual(await orderBook.read.selfTradePolicy(), SelfTradePolicy.CancelNewest);
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.setSelfTradePolicy([SelfTradePolicy.CancelBoth], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "MissingRole"
+      );
+      await viem.assertions.emitWithArgs(
+        orderBook.write.setSelfTradePolicy([SelfTradePolicy.CancelOldest]),
+        orderBook,
+        "SelfTradePolicyUpdated",
+        [SelfTradePolicy.CancelOldest]
+      );
+    });
+
+    it("should cancel the newest order under CancelNewest", async function () {
+      await place(trader1, true); // #1, oldest
+      await place(trader1, false); // #2, newest
+
+      const hash = await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
+      await viem.assertions.emitWithArgs(
+        Promise.resolve(hash),
+        orderBook,
+        "SelfTradePrevented",
+        [marketId, trader(), 2n, 1n, SelfTradePolicy.CancelNewest]
+      );
+      await viem.assertions.emitWithArgs(
+        Promise.resolve(hash),
+        orderBook,
+        "OrderCancelled",
+        [2n, marketId, trader(), "self-trade"]
+      );
+
+      assert.strictEqual((await readOrder(orderBook, 1n)).exists, true);
+      assert.strictEqual((await readOrder(orderBook, 2n)).exists, false);
+      assert.strictEqual(await orderBook.read.totalOrdersMatched(), 0n);
+    });
+
+    it("should cancel the oldest order under CancelOldest", async function () {
+      await orderBook.write.setSelfTradePolicy([SelfTradePolicy.CancelOldest]);
+      await place(trader1, true);
+      await place(trader1, false);
+
+      const hash = await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
+
+      assert.deepStrictEqual(await preventions(hash), [[1n, 2n]]);
+      assert.strictEqual((await readOrder(orderBook, 1n)).exists, false);
+      assert.strictEqual((await readOrder(orderBook, 2n)).exists, true);
+    });
+
+    it("should cancel both orders under CancelBoth", async function () {
+      await orderBook.write.setSelfTradePolicy([SelfTradePolicy.CancelBoth]);
+      await place(trader1, true);
+      await place(trader1, false);
+
+      const hash = await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
+
+      assert.deepStrictEqual(await preventions(hash), [
+        [2n, 1n],
+        [1n, 2n],
+      ]);
+      assert.deepStrictEqual(await getTraderOpenOrderIds(orderBook, trader()), []);
+      await assertUnlocked();
+    });
+
+    it("should let a taker continue past its own cancelled resting order", async function () {
+      await orderBook.write.setSelfTradePolicy([SelfTradePolicy.CancelOldest]);
+      await place(trader1, false); // #1, trader1's own ask first in line
+      await place(trader2, false); // #2
+
+      const hash = await place(trader1, true, 5n); // #3
+
+      assert.deepStrictEqual(await preventions(hash), [[1n, 3n]]);
+      await viem.assertions.emitWithArgs(
+        Promise.resolve(hash),
+        orderBook,
+        "OrderMatched",
+        [marketId, 3n, 2n, 10n * unit, 20n * unit, trader(), getAddress(trader2.account.address), 0n, 0n]
+      );
+
+      const base = await getEscrowBalance(orderBook, trader(), baseToken.address);
+      assert.strictEqual(base.locked, 0n);
+      assert.strictEqual(base.available, FUNDING + 10n * unit);
+    });
+
+    it("should cancel an incoming taker under CancelNewest", async function () {
+      await place(trader1, false); // #1
+      await place(trader2, false); // #2
+
+      const hash = await place(trader1, true, 5n); // #3
+
+      assert.deepStrictEqual(await preventions(hash), [[3n, 1n]]);
+      assert.deepStrictEqual(await getOpenOrderIds(orderBook, marketId, false), [1n, 2n]);
+      assert.deepStrictEqual(await getOpenOrderIds(orderBook, marketId, true), []);
+    });
+
+    it("should revert a fill-or-kill order cut short by self-trade prevention", async function () {
+      await orderBook.write.placeOrder([marketId, 5n * unit, 10n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.placeOrder([marketId, 5n * unit, 10n * unit, false], {
+        account: trader1.account,
+      });
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.placeOrder(
+          [marketId, 10n * unit, 20n * unit, true, OrderType.FillOrKill, 0n, 0n],
+          { account: trader1.account }
+        ),
+        orderBook,
+        "OrderNotFilled"
+      );
+    });
+  });
+
+  // ========== ACCESS CONTROL TESTS ==========
+
+  describe("Access Control", function () {
+    const unit = 10n ** 18n;
+
+    it("should make the deployer admin and operator and let admins manage roles", async function () {
+      const state = await getAccessState(orderBook, [
+        deployer.account.address,
+        trader1.account.address,
+      ]);
+      assert.deepStrictEqual(
+        state.accounts.map((entry) => entry.roles),
+        [["Admin", "Operator"], []]
+      );
+      assert.strictEqual(await orderBook.read.ADMIN_ROLE(), Role.Admin);
+      assert.strictEqual(await orderBook.read.MATCHER_ROLE(), Role.Matcher);
+
+      await viem.assertions.emitWithArgs(
+        orderBook.write.grantRole([Role.Operator, trader1.account.address]),
+        orderBook,
+        "RoleGranted",
+        [Role.Operator, getAddress(trader1.account.address), getAddress(deployer.account.address)]
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.grantRole([Role.Admin, trader1.account.address], {
+          account: trader1.account,
+        }),
+        orderBook,
+        "MissingRole"
+      );
+
+      await revokeRole(publicClient, orderBook, deployer, Role.Operator, trader1.account.address);
+      assert.strictEqual(
+        await orderBook.read.hasRole([Role.Operator, trader1.account.address]),
+        false
       );
     });
 
-    it("should track cumulative stats correctly", async function () {
-      const amount = 100n * 10n ** 18n;
-
-      // Place 3 orders
-      await orderBook.write.placeOrder([amount, amount, true], {
+    it("should halt placement, amendment and matching while paused", async function () {
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, true], {
         account: trader1.account,
       });
-      await orderBook.write.placeOrder([amount, amount, true], {
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, false], {
+        account: trader2.account,
+      });
+
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.pause({ account: trader1.account }),
+        orderBook,
+        "MissingRole"
+      );
+      await viem.assertions.emitWithArgs(
+        orderBook.write.pause(),
+        orderBook,
+        "Paused",
+        [getAddress(deployer.account.address)]
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.pause(),
+        orderBook,
+        "ContractPaused"
+      );
+
+      for (const paused of [
+        orderBook.write.placeOrder([marketId, unit, unit, true], { account: trader1.account }),
+        orderBook.write.amendOrder([1n, unit, unit], { account: trader1.account }),
+        orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]),
+      ]) {
+        await viem.assertions.revertWithCustomError(paused, orderBook, "ContractPaused");
+      }
+
+      // Traders can still get out
+      await orderBook.write.cancelOrder([2n], { account: trader2.account });
+      await orderBook.write.withdraw([baseToken.address, unit], { account: trader2.account });
+
+      await setPaused(publicClient, orderBook, deployer, false);
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.unpause(),
+        orderBook,
+        "ContractNotPaused"
+      );
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, false], {
+        account: trader2.account,
+      });
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [3n]]);
+      assert.strictEqual(await orderBook.read.totalOrdersMatched(), 1n);
+    });
+
+    it("should restrict matching to matchers while the allowlist is enabled", async function () {
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, true], {
         account: trader1.account,
       });
-      await orderBook.write.placeOrder([amount, amount, false], {
+      await orderBook.write.placeOrder([marketId, unit, 2n * unit, false], {
         account: trader2.account,
       });
 
-      let stats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(stats[0], 3n, "placed should be 3");
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.setMatcherAllowlist([true], { account: trader3.account }),
+        orderBook,
+        "MissingRole"
+      );
+      await setMatcherAllowlist(publicClient, orderBook, deployer, true);
 
-      // Cancel one
-      await orderBook.write.cancelOrder([1n], { account: trader1.account });
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.matchOrdersBatch([marketId, [1n], [2n]], { account: trader3.account }),
+        orderBook,
+        "MissingRole"
+      );
+      await viem.assertions.revertWithCustomError(
+        orderBook.write.settleSignedOrders([marketId, [], [], [], []], {
+          account: trader3.account,
+        }),
+        orderBook,
+        "MissingRole"
+      );
 
-      stats = await orderBook.read.getOrderBookStats();
-      assert.strictEqual(stats[2], 1n, "cancelled should be 1");
-      assert.strictEqual(stats[0], 3n, "placed count should not change");
+      await grantRole(publicClient, orderBook, deployer, Role.Matcher, trader3.account.address);
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]], {
+        account: trader3.account,
+      });
+      assert.strictEqual(await orderBook.read.totalOrdersMatched(), 1n);
+
+      await setMatcherAllowlist(publicClient, orderBook, deployer, false);
+      assert.strictEqual((await getAccessState(orderBook, [])).matcherAllowlistEnabled, false);
+      await orderBook.write.matchOrdersBatch([marketId, [], []], { account: trader4.account });
     });
   });
 
-  // ========== GAS EFFICIENCY TESTS ==========
+  // ========== CLIENT TESTS ==========
 
-  describe("Gas Efficiency", function () {
-    it("should place orders with reasonable gas", async function () {
-      const amount = 100n * 10n ** 18n;
+  describe("OrderBookClient", function () {
+    const unit = 10n ** 18n;
+    let client: OrderBookClient;
 
-      const tx = await orderBook.write.placeOrder([amount, amount, true]);
-      assert.ok(tx, "transaction should succeed");
+    beforeEach(async function () {
+      client = new OrderBookClient(orderBook, publicClient, trader1);
     });
 
-    it("should cancel orders with reasonable gas", async function () {
-      const amount = 100n * 10n ** 18n;
+    it("should return the placed order ID and the fills it took", async function () {
+      const resting = await client
+        .connect(trader2)
+        .placeOrder({ marketId, baseAmount: 2n * unit, quoteAmount: 4n * unit, isBuyOrder: false });
+      assert.strictEqual(resting.orderId, 1n);
+      assert.deepStrictEqual(resting.fills, []);
 
-      await orderBook.write.placeOrder([amount, amount, true]);
-      const tx = await orderBook.write.cancelOrder([1n]);
+      const taker = await client.placeOrder({
+        marketId,
+        baseAmount: unit,
+        quoteAmount: 2n * unit,
+        isBuyOrder: true,
+        orderType: OrderType.ImmediateOrCancel,
+      });
 
-      assert.ok(tx, "cancel transaction should succeed");
+      assert.strictEqual(taker.orderId, 2n);
+      assert.deepStrictEqual(
+        taker.fills.map((fill) => [fill.buyOrderId, fill.sellOrderId, fill.baseAmount]),
+        [[2n, 1n, unit]]
+      );
+      assert.ok(taker.gasUsed > 0n);
+      assert.strictEqual((await client.getOrder(1n)).remainingBase, unit);
+      assert.deepStrictEqual(await client.getStats(marketId), {
+        placed: 2n,
+        matched: 1n,
+        cancelled: 0n,
+      });
     });
 
-    it("should match orders efficiently", async function () {
-      const amount = 100n * 10n ** 18n;
+    it("should report match counts and cancellations", async function () {
+      const buy = await client.placeOrder({
+        marketId,
+        baseAmount: unit,
+        quoteAmount: 2n * unit,
+        isBuyOrder: true,
+      });
+      const sell = await client
+        .connect(trader2)
+        .placeOrder({ marketId, baseAmount: unit, quoteAmount: 2n * unit, isBuyOrder: false });
 
-      // Create matching pairs
-      for (let i = 0; i < 3; i++) {
-        await orderBook.write.placeOrder([amount, amount, true], {
-          account: trader1.account,
+      const matched = await client.matchOrders(marketId, [buy.orderId, 99n], [sell.orderId, 98n]);
+      assert.strictEqual(matched.matchCount, 1n);
+      assert.strictEqual(matched.fills[0].quoteAmount, 2n * unit);
+
+      const open = await client.placeOrder({
+        marketId,
+        baseAmount: unit,
+        quoteAmount: unit,
+        isBuyOrder: true,
+      });
+      const { cancelled } = await client.cancelOrder(open.orderId);
+      assert.deepStrictEqual(cancelled, [
+        {
+          orderId: open.orderId,
+          marketId,
+          trader: getAddress(trader1.account.address),
+          reason: "User cancelled",
+        },
+      ]);
+    });
+
+    it("should decode custom errors into typed exceptions", async function () {
+      await client
+        .connect(trader2)
+        .placeOrder({ marketId, baseAmount: unit, quoteAmount: unit, isBuyOrder: false });
+
+      const expectError = async (promise: Promise<unknown>, errorName: OrderBookErrorName) => {
+        await assert.rejects(promise, (error) => {
+          assert.ok(isOrderBookError(error, errorName), `expected ${errorName}, got ${error}`);
+          return true;
         });
-        await orderBook.write.placeOrder([amount, amount, false], {
-          account: trader2.account,
+      };
+
+      await expectError(client.cancelOrder(999n), "OrderNotFound");
+      await expectError(client.cancelOrder(1n), "UnauthorizedCancellation");
+      await expectError(
+        client.placeOrder({ marketId, baseAmount: 0n, quoteAmount: unit, isBuyOrder: true }),
+        "InvalidOrderAmount"
+      );
+      await expectError(client.getMarket(42n), "MarketNotFound");
+
+      try {
+        await client.setPaused(true);
+        assert.fail("pause should have reverted");
+      } catch (error) {
+        assert.ok(isOrderBookError(error, "MissingRole"));
+        assert.deepStrictEqual(error.args, [
+          await orderBook.read.OPERATOR_ROLE(),
+          getAddress(trader1.account.address),
+        ]);
+      }
+    });
+
+    it("should encode the placeOrder overload the parameters need", async function () {
+      const plain = encodePlaceOrder(client.abi, {
+        marketId,
+        baseAmount: unit,
+        quoteAmount: unit,
+        isBuyOrder: true,
+      });
+      const typed = encodePlaceOrder(client.abi, {
+        marketId,
+        baseAmount: unit,
+        quoteAmount: unit,
+        isBuyOrder: true,
+        orderType: OrderType.PostOnly,
+      });
+
+      const decodedPlain = decodeFunctionData({ abi: client.abi, data: plain });
+      const decodedTyped = decodeFunctionData({ abi: client.abi, data: typed });
+      assert.strictEqual(decodedPlain.args?.length, 4);
+      assert.deepStrictEqual(decodedTyped.args, [
+        marketId,
+        unit,
+        unit,
+        true,
+        OrderType.PostOnly,
+        0n,
+        0n,
+      ]);
+    });
+  });
+
+  describe("Event Indexer", function () {
+    const unit = 10n ** 18n;
+    let client: OrderBookClient;
+    let db: IndexerDatabase;
+    let indexer: OrderBookIndexer;
+
+    beforeEach(async function () {
+      client = new OrderBookClient(orderBook, publicClient, trader1);
+      db = new IndexerDatabase();
+      indexer = new OrderBookIndexer(client, db);
+    });
+
+    it("should rebuild orders, fills, batches and balances from events", async function () {
+      await orderBook.write.setFees([10, 20]);
+      const buy = await client.placeOrder({
+        marketId,
+        baseAmount: 2n * unit,
+        quoteAmount: 4n * unit,
+        isBuyOrder: true,
+      });
+      const sell = await client
+        .connect(trader2)
+        .placeOrder({ marketId, baseAmount: unit, quoteAmount: 2n * unit, isBuyOrder: false });
+      await client.matchOrders(marketId, [buy.orderId], [sell.orderId]);
+      const amended = await client
+        .connect(trader3)
+        .placeOrder({ marketId, baseAmount: unit, quoteAmount: 3n * unit, isBuyOrder: false });
+      await client.connect(trader3).amendOrder(amended.orderId, 2n * unit, 6n * unit);
+      const cancelled = await client
+        .connect(trader4)
+        .placeOrder({ marketId, baseAmount: unit, quoteAmount: unit, isBuyOrder: true });
+      await client.connect(trader4).cancelOrder(cancelled.orderId);
+
+      const result = await indexer.sync();
+      assert.ok(result.events > 0);
+
+      assert.deepStrictEqual(
+        db.getOrders({ status: "open" }).map((order) => order.orderId),
+        [buy.orderId, amended.orderId]
+      );
+      for (const order of db.getOrders({ status: "open" })) {
+        const onChain = await readOrder(orderBook, order.orderId);
+        assert.strictEqual(order.remainingBase, onChain.remainingBase);
+        assert.strictEqual(order.baseAmount, onChain.baseAmount);
+      }
+      assert.strictEqual(db.getOrder(sell.orderId)?.status, "filled");
+      assert.strictEqual(db.getOrder(cancelled.orderId)?.cancelReason, "User cancelled");
+
+      const [fill] = db.getFills({ orderId: buy.orderId });
+      assert.strictEqual(fill.baseAmount, unit);
+      assert.ok(fill.buyerFee > 0n && fill.sellerFee > 0n);
+      assert.deepStrictEqual(
+        db.getBatches({ marketId }).map((batch) => [batch.totalProcessed, batch.successCount]),
+        [[1n, 1n]]
+      );
+
+      // Escrow balances follow deposits and fill settlement, fees included
+      for (const trader of traders) {
+        for (const token of [baseToken, quoteToken]) {
+          const { available, locked } = await getEscrowBalance(
+            orderBook,
+            trader.account.address,
+            token.address
+          );
+          const indexed = db.getBalance(trader.account.address, token.address);
+          assert.strictEqual(indexed?.balance, available + locked);
+        }
+      }
+    });
+
+    it("should leave the book's orders alone when a signed order is cancelled", async function () {
+      const resting = await client.placeOrder({
+        marketId,
+        baseAmount: unit,
+        quoteAmount: 2n * unit,
+        isBuyOrder: true,
+      });
+      const signed = await signOrder(publicClient, orderBook, trader1, {
+        marketId,
+        baseAmount: unit,
+        quoteAmount: 2n * unit,
+        isBuyOrder: true,
+        nonce: 0n,
+        expiry: 0n,
+      });
+      await orderBook.write.cancelSignedOrder([signed.order], { account: trader1.account });
+
+      await indexer.sync();
+      assert.deepStrictEqual(
+        db.getOrders({ status: "open" }).map((order) => order.orderId),
+        [resting.orderId]
+      );
+      assert.strictEqual(db.getOrder(BigInt(signed.hash)), undefined);
+    });
+
+    it("should resume from the stored checkpoint", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orderbook-indexer-"));
+      const file = path.join(dir, "index.db");
+      try {
+        const first = new OrderBookIndexer(client, new IndexerDatabase(file));
+        await client.placeOrder({ marketId, baseAmount: unit, quoteAmount: unit, isBuyOrder: true });
+        const { toBlock } = await first.sync();
+        first.db.close();
+
+        await client.placeOrder({ marketId, baseAmount: unit, quoteAmount: unit, isBuyOrder: true });
+
+        const reopened = new OrderBookIndexer(client, new IndexerDatabase(file));
+        assert.strictEqual(reopened.checkpoint?.blockNumber, toBlock);
+        const resumed = await reopened.sync();
+        assert.strictEqual(resumed.fromBlock, toBlock! + 1n);
+        assert.strictEqual(resumed.events, 1);
+        assert.strictEqual(reopened.db.getOrders({ status: "open" }).length, 2);
+        reopened.db.close();
+
+        const other = await OrderBookClient.deploy(viem, false);
+        assert.throws(
+          () => new OrderBookIndexer(other, new IndexerDatabase(file)),
+          /Indexer database holds/
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should undo blocks dropped by a reorg", async function () {
+      await indexer.sync();
+      const snapshot = await networkHelpers.takeSnapshot();
+
+      const orphaned = await client
+        .connect(trader2)
+        .placeOrder({ marketId, baseAmount: unit, quoteAmount: unit, isBuyOrder: false });
+      await indexer.sync();
+      assert.strictEqual(db.getOrder(orphaned.orderId)?.trader, getAddress(trader2.account.address));
+
+      // Replace the orphaned block with a different one at the same height
+      await snapshot.restore();
+      const replacement = await client
+        .connect(trader3)
+        .placeOrder({ marketId, baseAmount: 3n * unit, quoteAmount: 3n * unit, isBuyOrder: true });
+      assert.strictEqual(replacement.blockNumber, orphaned.blockNumber);
+
+      const result = await indexer.sync();
+      assert.strictEqual(result.reorgedTo, orphaned.blockNumber - 1n);
+      assert.strictEqual(db.getOrders().length, 1);
+
+      const order = db.getOrder(replacement.orderId);
+      assert.strictEqual(order?.trader, getAddress(trader3.account.address));
+      assert.strictEqual(order?.baseAmount, 3n * unit);
+      assert.strictEqual(indexer.checkpoint?.blockNumber, replacement.blockNumber);
+    });
+  });
+
+  describe("Keeper", function () {
+    const unit = 10n ** 18n;
+
+    it("should pair crossing orders by price-time priority", function () {
+      const [alice, bob, carol] = [trader1, trader2, trader3].map((trader) =>
+        getAddress(trader.account.address)
+      );
+      const order = (
+        orderId: bigint,
+        trader: `0x${string}`,
+        isBuyOrder: boolean,
+        base: bigint,
+        quote: bigint,
+        expiresAt = 0n
+      ): BookOrder => ({
+        orderId,
+        trader,
+        isBuyOrder,
+        baseAmount: base,
+        quoteAmount: quote,
+        remainingBase: base,
+        expiresAt,
+      });
+
+      const pairs = findMatchPairs(
+        [
+          order(1n, alice, true, 2n, 4n), // bid @ 2
+          order(2n, bob, true, 1n, 3n), // bid @ 3, best
+          order(3n, alice, false, 1n, 1n), // ask @ 1, alice's own
+          order(4n, carol, false, 2n, 3n), // ask @ 1.5
+          order(5n, carol, false, 1n, 1n, 100n), // ask @ 1, expired
+          order(6n, bob, false, 1n, 5n), // ask @ 5, crosses nothing
+        ],
+        100n
+      );
+
+      assert.deepStrictEqual(pairs, [
+        { buyOrderId: 2n, sellOrderId: 3n, baseAmount: 1n },
+        { buyOrderId: 1n, sellOrderId: 4n, baseAmount: 2n },
+      ]);
+    });
+
+    it("should match every crossing pair in gas-bounded batches", async function () {
+      const keeperClient = new OrderBookClient(orderBook, publicClient, deployer);
+      const place = (trader: typeof trader1, isBuyOrder: boolean, base: bigint, quote: bigint) =>
+        keeperClient
+          .connect(trader)
+          .placeOrder({ marketId, baseAmount: base * unit, quoteAmount: quote * unit, isBuyOrder });
+
+      await place(trader1, true, 3n, 6n);
+      await place(trader2, true, 1n, 2n);
+      await place(trader3, false, 1n, 1n);
+      await place(trader4, false, 2n, 3n);
+      await place(trader3, false, 2n, 4n);
+      await place(trader1, false, 1n, 1n); // skipped by trader1's own bid
+      await place(trader2, false, 1n, 10n); // too expensive
+
+      const indexer = new OrderBookIndexer(keeperClient, new IndexerDatabase());
+      const oneMatch = await keeperClient.estimateMatchGas(marketId, [1n], [3n]);
+      const keeper = new OrderBookKeeper(keeperClient, indexer, {
+        maxBatchGas: oneMatch + oneMatch / 2n,
+      });
+
+      const batches = await keeper.runOnce();
+      assert.ok(batches.length > 1, "gas budget should split the pairs");
+      assert.ok(batches.every((batch) => batch.processed === Number(batch.matched)));
+      assert.strictEqual(keeper.stats.successRatio, 1);
+      assert.strictEqual(keeper.stats.matched, 3n);
+
+      // Every bid filled; the asks at 2 and 10 have no bid left to cross
+      const stats = await keeperClient.getStats(marketId);
+      assert.strictEqual(stats.cancelled, 0n);
+      assert.deepStrictEqual(await keeperClient.getOpenOrderIds(marketId, true), []);
+      assert.strictEqual((await keeperClient.getOpenOrderIds(marketId, false)).length, 2);
+
+      assert.deepStrictEqual(await keeper.runOnce(), []);
+      assert.strictEqual(keeper.stats.rounds, 2);
+    });
+  });
+
+  describe("Market-Data Server", function () {
+    const unit = 10n ** 18n;
+    let client: OrderBookClient;
+    let server: MarketDataServer;
+
+    beforeEach(async function () {
+      client = new OrderBookClient(orderBook, publicClient, trader1);
+      server = new MarketDataServer(new OrderBookIndexer(client, new IndexerDatabase()), {
+        port: 0,
+        pollIntervalMs: 60_000,
+      });
+    });
+
+    const getJson = async (path: string) => {
+      const response = await fetch(`http://127.0.0.1:${server.port}${path}`);
+      return { status: response.status, body: (await response.json()) as any };
+    };
+
+    const place = (trader: typeof trader1, isBuyOrder: boolean, base: bigint, quote: bigint, taker = false) =>
+      client.connect(trader).placeOrder({
+        marketId,
+        baseAmount: base * unit,
+        quoteAmount: quote * unit,
+        isBuyOrder,
+        ...(taker ? { orderType: OrderType.ImmediateOrCancel, maxFills: 1n } : {}),
+      });
+
+    it("should serve depth, trader orders, trades and stats", async function () {
+      await place(trader1, true, 1n, 2n);
+      await place(trader2, true, 2n, 4n);
+      await place(trader3, false, 1n, 3n);
+      await place(trader4, false, 1n, 2n, true); // takes trader1's bid
+
+      await server.start();
+      try {
+        const depth = await getJson(`/markets/${marketId}/depth`);
+        assert.deepStrictEqual(depth.body, {
+          marketId: marketId.toString(),
+          bids: [{ price: (2n * unit).toString(), baseAmount: (2n * unit).toString(), orders: 1 }],
+          asks: [{ price: (3n * unit).toString(), baseAmount: unit.toString(), orders: 1 }],
         });
+
+        const trades = await getJson(`/markets/${marketId}/trades`);
+        assert.strictEqual(trades.body.length, 1);
+        assert.strictEqual(trades.body[0].price, (2n * unit).toString());
+        assert.strictEqual(trades.body[0].seller, getAddress(trader4.account.address));
+
+        const orders = await getJson(`/traders/${trader2.account.address}/orders`);
+        assert.deepStrictEqual(
+          orders.body.map((order: { orderId: string }) => order.orderId),
+          ["2"]
+        );
+
+        const stats = await getJson(`/markets/${marketId}/stats`);
+        assert.strictEqual(stats.body.placed, "4");
+        assert.strictEqual(stats.body.matched, "1");
+        assert.strictEqual(stats.body.lastPrice, (2n * unit).toString());
+
+        assert.strictEqual((await getJson("/markets/99/depth")).status, 404);
+        assert.strictEqual((await getJson("/traders/0x1234/orders")).status, 400);
+      } finally {
+        await server.stop();
       }
+    });
 
-      const tx = await orderBook.write.matchOrdersBatch([
-        [1n, 3n, 5n],
-        [2n, 4n, 6n],
+    it("should stream book diffs and trades over WebSocket", async function () {
+      await place(trader3, false, 1n, 3n);
+      await server.start();
+
+      const messages: any[] = [];
+      const socket = new WebSocket(`ws://127.0.0.1:${server.port}/ws?marketId=${marketId}`);
+      socket.onmessage = (event) => messages.push(JSON.parse(String(event.data)));
+      const waitFor = async (type: string) => {
+        for (let attempt = 0; attempt < 100; attempt++) {
+          const message = messages.find((candidate) => candidate.type === type);
+          if (message) return message;
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        throw new Error(`No ${type} message`);
+      };
+
+      try {
+        const snapshot = await waitFor("snapshot");
+        assert.strictEqual(snapshot.markets[0].asks[0].price, (3n * unit).toString());
+
+        await place(trader2, true, 1n, 3n, true); // takes the ask
+        await place(trader1, true, 1n, 1n);
+        await server.refresh();
+
+        const depth = await waitFor("depth");
+        assert.deepStrictEqual(depth.asks, [
+          { price: (3n * unit).toString(), baseAmount: "0", orders: 0 },
+        ]);
+        assert.deepStrictEqual(depth.bids, [
+          { price: unit.toString(), baseAmount: unit.toString(), orders: 1 },
+        ]);
+
+        const trade = await waitFor("trade");
+        assert.strictEqual(trade.price, (3n * unit).toString());
+        assert.strictEqual(trade.buyer, getAddress(trader2.account.address));
+      } finally {
+        socket.close();
+        await server.stop();
+      }
+    });
+  });
+
+  describe("Transaction Generator", function () {
+    const generate = async (overrides: Partial<BenchmarkConfig>) => {
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "orderbook-txgen-"));
+      try {
+        const config: BenchmarkConfig = {
+          totalTransactions: 25,
+          batchSize: 10,
+          baseAmount: 1000,
+          quoteAmount: 2000,
+          mixBuySell: true,
+          outputDir,
+          marketIds: [marketId.toString()],
+          contention: "within-market",
+          ...overrides,
+        };
+        const target = { abi: orderBook.abi, contractAddress: orderBook.address, network: "hardhat" };
+        return await generateOrderPlacementTransactions(config, target, publicClient);
+      } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    };
+
+    it("should sign consecutive nonces per account for the network's chain", async function () {
+      const summary = await generate({ startNonces: { 0: 7, 3: 2 }, gasProfile: { placeOrder: 400000 } });
+      const first = privateKeyToAccount(TEST_PRIVATE_KEYS[0]).address;
+
+      assert.strictEqual(summary.chainId, await publicClient.getChainId());
+      assert.strictEqual(summary.totalBatches, 3);
+      assert.strictEqual(summary.accounts.length, TEST_PRIVATE_KEYS.length);
+      // 25 orders over 20 accounts: the first five sign twice
+      assert.deepStrictEqual(summary.accounts[0], { address: first, firstNonce: 7, transactions: 2 });
+      assert.strictEqual(summary.accounts[3].firstNonce, 2);
+      // Accounts without an entry start at their pending nonce
+      assert.strictEqual(
+        summary.accounts[5].firstNonce,
+        await publicClient.getTransactionCount({ address: summary.accounts[5].address, blockTag: "pending" })
+      );
+      assert.strictEqual(summary.accounts[5].transactions, 1);
+
+      assert.deepStrictEqual(parseStartNonces("0=7, 3=2"), { 0: 7, 3: 2 });
+      assert.throws(() => parseStartNonces("7"), /account index=nonce/);
+      await assert.rejects(
+        generate({ startNonces: { 20: 1 }, gasProfile: { placeOrder: 400000 } }),
+        /Start nonce given for account 20, but only 20 accounts sign/
+      );
+      assert.strictEqual(summary.averageGasPerTransaction, "400000");
+    });
+
+    it("should verify signed calls and explain failed gas estimates", async function () {
+      const signer = privateKeyToAccount(TEST_PRIVATE_KEYS[0]);
+      const chainId = await publicClient.getChainId();
+      const order = { marketId, baseAmount: 1000n, quoteAmount: 2000n, isBuyOrder: true };
+      const rawTx = await signer.signTransaction({
+        to: orderBook.address,
+        data: encodePlaceOrder(orderBook.abi, order),
+        gas: 400000n,
+        maxFeePerGas: 1n,
+        maxPriorityFeePerGas: 1n,
+        nonce: 3,
+        chainId,
+      });
+      const call = placeOrderCall(order);
+      const expected = { from: signer.address, to: orderBook.address, chainId, nonce: 3, gas: 400000n, call };
+
+      await verifySignedTransaction(orderBook.abi, rawTx, expected);
+      assert.strictEqual(parseTransaction(rawTx).nonce, 3);
+      await assert.rejects(
+        verifySignedTransaction(orderBook.abi, rawTx, { ...expected, nonce: 4 }),
+        /nonce is 3, expected 4/
+      );
+      await assert.rejects(
+        verifySignedTransaction(orderBook.abi, rawTx, {
+          ...expected,
+          call: placeOrderCall({ ...order, isBuyOrder: false }),
+        }),
+        /placeOrder argument 3/
+      );
+
+      // The generator's accounts hold no escrow here, so estimating reverts
+      await assert.rejects(generate({}), /failed with InsufficientBalance/);
+    });
+
+    it("should replay raw transactions and report inclusion and revert reasons", async function () {
+      const signer = privateKeyToAccount(TEST_PRIVATE_KEYS[0]);
+      await networkHelpers.setBalance(signer.address, 10n ** 18n);
+      const chainId = await publicClient.getChainId();
+      const firstNonce = await publicClient.getTransactionCount({ address: signer.address });
+      const fees = await publicClient.estimateFeesPerGas();
+
+      const signed = async (nonce: number, to: `0x${string}`, data: `0x${string}`) => ({
+        rawTx: await signer.signTransaction({ to, data, gas: 400000n, nonce, chainId, ...fees }),
+        from: signer.address,
+        to,
+        data,
+        value: "0",
+        gasLimit: "400000",
+        nonce,
+      });
+      const approve = encodeFunctionData({
+        abi: quoteToken.abi,
+        functionName: "approve",
+        args: [orderBook.address, 1n],
+      });
+      // No escrow behind the signer, so the order reverts
+      const place = encodePlaceOrder(orderBook.abi, {
+        marketId,
+        baseAmount: 1000n,
+        quoteAmount: 2000n,
+        isBuyOrder: true,
+      });
+      const transactions = [
+        await signed(firstNonce, quoteToken.address, approve),
+        await signed(firstNonce + 1, orderBook.address, place),
+        // Reuses a mined nonce, so the node refuses it
+        await signed(firstNonce, orderBook.address, place),
+      ];
+
+      const report = await replayTransactions(
+        publicClient,
+        [{ batchId: 0, transactions, totalTransactions: 3, estimatedGas: "1200000" }],
+        { concurrency: 1, ratePerSecond: 0, pollingIntervalMs: 10, abi: orderBook.abi }
+      );
+
+      assert.strictEqual(report.sent, 3);
+      assert.strictEqual(report.succeeded, 1);
+      assert.strictEqual(report.reverted, 1);
+      assert.strictEqual(report.rejected, 1);
+      assert.strictEqual(report.pending, 0);
+      assert.match(report.revertReasons[0].reason, /^InsufficientBalance\(/);
+      assert.strictEqual(report.revertReasons[0].count, 1);
+      // Automine: one block per included transaction
+      assert.deepStrictEqual(
+        report.blocks.map((block) => block.transactions),
+        [1, 1]
+      );
+      assert.ok(report.latencyMs && report.latencyMs.max >= report.latencyMs.p50);
+    });
+
+    it("should keep one account's transactions in nonce order across senders", async function () {
+      const signer = privateKeyToAccount(TEST_PRIVATE_KEYS[1]);
+      await networkHelpers.setBalance(signer.address, 10n ** 18n);
+      const chainId = await publicClient.getChainId();
+      const firstNonce = await publicClient.getTransactionCount({ address: signer.address });
+      const fees = await publicClient.estimateFeesPerGas();
+
+      const transactions = [];
+      for (let i = 0; i < 4; i++) {
+        const data = encodeFunctionData({
+          abi: quoteToken.abi,
+          functionName: "approve",
+          args: [orderBook.address, BigInt(i + 1)],
+        });
+        const nonce = firstNonce + i;
+        transactions.push({
+          rawTx: await signer.signTransaction({
+            to: quoteToken.address,
+            data,
+            gas: 100000n,
+            nonce,
+            chainId,
+            ...fees,
+          }),
+          from: signer.address,
+          to: quoteToken.address,
+          data,
+          value: "0",
+          gasLimit: "100000",
+          nonce,
+        });
+      }
+
+      const report = await replayTransactions(
+        publicClient,
+        [{ batchId: 0, transactions, totalTransactions: 4, estimatedGas: "400000" }],
+        { concurrency: 4, ratePerSecond: 0, pollingIntervalMs: 10, abi: orderBook.abi }
+      );
+
+      assert.strictEqual(report.succeeded, 4);
+      assert.strictEqual(report.rejected, 0);
+      assert.strictEqual(
+        await quoteToken.read.allowance([signer.address, orderBook.address]),
+        4n
+      );
+    });
+  });
+
+  describe("Workload Scenarios", function () {
+    const scenario = (overrides: Partial<WorkloadScenario> = {}): WorkloadScenario =>
+      parseScenario({
+        name: "test",
+        seed: 42,
+        transactions: 60,
+        batchSize: 25,
+        mix: { place: 60, cancel: 20, match: 20 },
+        traders: { count: 4, distribution: { type: "zipf", exponent: 1.1 }, hotFraction: 0.25, hotShare: 0.7 },
+        orders: {
+          baseAmount: { min: "1000", max: "3000" },
+          midPrice: "2",
+          tickBps: 50,
+          priceLevels: 5,
+          levelDistribution: { type: "zipf", exponent: 1.5 },
+          crossingFraction: 0.5,
+        },
+        gasProfile: { placeOrder: 500000, cancelOrder: 300000, matchOrdersBatch: 3000000 },
+        ...overrides,
+      });
+    const sequentialIds = () => {
+      let next = 0n;
+      return () => ++next;
+    };
+
+    it("should plan reproducible workloads that only touch earlier orders", async function () {
+      const plan = planWorkload(scenario(), [1n, 2n], sequentialIds());
+      assert.deepStrictEqual(planWorkload(scenario(), [1n, 2n], sequentialIds()), plan);
+      assert.notDeepStrictEqual(planWorkload(scenario({ seed: 43 }), [1n, 2n], sequentialIds()), plan);
+
+      // Order ID to the trader that placed it
+      const placed = new Map<bigint, number>();
+      const bySigner = [0, 0, 0, 0];
+      for (const { signer, call } of plan.planned) {
+        bySigner[signer]++;
+        if (call.functionName === "placeOrder") {
+          placed.set(BigInt(placed.size + 1), signer);
+        } else {
+          if (call.functionName === "cancelOrder") {
+            assert.strictEqual(placed.get(call.args[0] as bigint), signer, "cancels the signer's own order");
+          }
+          const ids = call.functionName === "cancelOrder" ? call.args : (call.args as any[]).slice(1).flat();
+          for (const id of ids as bigint[]) {
+            assert.ok(placed.has(id), `${call.functionName} references unplaced order ${id}`);
+          }
+        }
+      }
+      assert.strictEqual(plan.planned.length, 60);
+      assert.ok(plan.crossingOrders > 0);
+      // The one hot trader sends most of the flow
+      assert.ok(bySigner[0] > 60 / 2, `hot trader sent ${bySigner[0]}`);
+
+      // The shipped examples stay valid
+      for (const file of fs.readdirSync("benchmark/scenarios")) {
+        await loadScenario(path.join("benchmark/scenarios", file));
+      }
+      // YAML carries the same fields
+      const hotTraders = await loadScenario("benchmark/scenarios/hot-traders.json");
+      const yamlDir = fs.mkdtempSync(path.join(os.tmpdir(), "orderbook-scenario-"));
+      try {
+        const yamlFile = path.join(yamlDir, "hot-traders.yaml");
+        fs.writeFileSync(yamlFile, stringifyYaml(hotTraders));
+        assert.deepStrictEqual(await loadScenario(yamlFile), hotTraders);
+      } finally {
+        fs.rmSync(yamlDir, { recursive: true, force: true });
+      }
+      assert.throws(() => scenario({ mix: { cancel: 1 } }), /mix.place must be positive/);
+      assert.throws(
+        () => scenario({ traders: { count: 21 } }),
+        /traders.count can be at most 20/
+      );
+    });
+
+    it("should generate a scenario whose cancels and matches replay cleanly", async function () {
+      const keys = TEST_PRIVATE_KEYS.slice(0, 4);
+      for (const key of keys) {
+        const account = privateKeyToAccount(key);
+        await networkHelpers.setBalance(account.address, 10n ** 20n);
+        for (const token of [baseToken, quoteToken]) {
+          await token.write.mint([account.address, FUNDING]);
+          await approveAndDeposit(publicClient, orderBook, token, { account }, FUNDING);
+        }
+      }
+
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "orderbook-scenario-"));
+      try {
+        const target = { abi: orderBook.abi, contractAddress: orderBook.address, network: "hardhat" };
+        // A mid off the integers, so prices only cross by exact ratio
+        const summary = await generateScenarioTransactions(
+          scenario({ orders: { ...scenario().orders, midPrice: "1.37" } }),
+          { outputDir, marketIds: [marketId.toString()] },
+          target,
+          publicClient
+        );
+        assert.strictEqual(summary.totalTransactions, 60);
+        assert.ok(summary.operations.cancelOrder > 0 && summary.operations.matchOrdersBatch > 0);
+        // Global order IDs only hold when the run lands in file order
+        assert.strictEqual(summary.sequential, true);
+
+        const { summary: saved, batches } = await loadGeneratedTransactions(outputDir);
+        const report = await replayTransactions(publicClient, batches, {
+          concurrency: 8,
+          ratePerSecond: 0,
+          pollingIntervalMs: 10,
+          abi: orderBook.abi,
+          sequential: saved.sequential,
+        });
+        assert.deepStrictEqual(report.revertReasons, []);
+        assert.strictEqual(report.succeeded, 60);
+
+        // Every planned pair crossed on chain
+        const pairs = batches
+          .flatMap((batch) => batch.transactions)
+          .map((tx) => decodeFunctionData({ abi: orderBook.abi, data: tx.data as `0x${string}` }))
+          .filter((call) => call.functionName === "matchOrdersBatch")
+          .reduce((sum, call) => sum + (call.args[1] as bigint[]).length, 0);
+        const [, matched] = await orderBook.read.getOrderBookStats([marketId]);
+        assert.strictEqual(matched, BigInt(pairs));
+      } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Conflict Analysis", function () {
+    const unit = 10n ** 18n;
+    // "address:slot" entries, read and written per transaction
+    const access = (entry: string) => ({
+      address: getAddress(entry.slice(0, 42)),
+      slot: entry.slice(43) as `0x${string}`,
+    });
+    const traced = (reads: string[][], writes: string[][], gas: bigint[]): TracedAccess[] =>
+      reads.map((slots, i) => ({
+        receipt: { status: "success", gasUsed: gas[i] },
+        reads: slots.map(access),
+        writes: writes[i].map(access),
+      }));
+
+    it("should find the largest conflict-free set and conflict-free rounds", async function () {
+      const book = "0x1000000000000000000000000000000000000001";
+      const counter = "0x2000000000000000000000000000000000000002";
+      const [a, b, c] = ["0x01", "0x02", "0x03"].map((slot) => `${book}:${slot}`);
+      const report = analyzeConflicts(
+        traced(
+          [[], [], [a], [c], []],
+          [[a], [a], [], [b, `${counter}:0x01`], [`${counter}:0x01`]],
+          [100n, 100n, 50n, 80n, 40n]
+        ),
+        {
+          label: (_, slot) => (slot === "0x01" ? "bidLevels[m1][@2].tail" : `slot ${slot}`),
+          commutative: new Set([getAddress(counter)]),
+        }
+      );
+
+      // Writers of `a` clash with each other and with its reader; the shared
+      // counter write is commutative
+      assert.deepStrictEqual(
+        report.edges.map(({ a, b, slots }) => [a, b, slots.map((slot) => slot.kind)]),
+        [
+          [0, 1, ["write-write"]],
+          [0, 2, ["read-write"]],
+          [1, 2, ["read-write"]],
+        ]
+      );
+      assert.deepStrictEqual(report.variables, [
+        { variable: "bidLevels[][].tail", kind: "read-write", pairs: 2 },
+        { variable: "bidLevels[][].tail", kind: "write-write", pairs: 1 },
       ]);
+      assert.strictEqual(report.independent, 2);
+      assert.strictEqual(report.largestConflictFree.length, 3);
+      assert.ok(report.exact);
+      assert.deepStrictEqual(report.rounds.map((round) => round.length), [3, 1, 1]);
+      assert.strictEqual(report.speedup, 5 / 3);
+      // Rounds cost their most expensive transaction: 100 + 100 + 50
+      assert.strictEqual(report.gasSpeedup, 370 / 250);
+    });
 
-      assert.ok(tx, "batch match transaction should succeed");
+    it("should model optimistic execution with re-executed or reverted conflicts", async function () {
+      const book = "0x1000000000000000000000000000000000000001";
+      // Only the third transaction conflicts: it reads what the first writes
+      const transactions = traced(
+        [[], [], [`${book}:0x01`], []],
+        [[`${book}:0x01`], [`${book}:0x02`], [], [`${book}:0x03`]],
+        [100n, 60n, 40n, 30n]
+      );
+
+      // Two workers: 100 + 30 and 60 + 40, then the loser alone
+      const reexecuted = simulateOptimisticExecution(transactions, { workers: 2, policy: "reexecute" });
+      assert.deepStrictEqual(
+        reexecuted.generations,
+        [
+          { executed: [0, 1, 2, 3], committed: [0, 1, 3], aborted: [2], gas: 130n },
+          { executed: [2], committed: [2], aborted: [], gas: 40n },
+        ]
+      );
+      assert.strictEqual(reexecuted.committed, 4);
+      assert.strictEqual(reexecuted.reexecuted, 1);
+      assert.strictEqual(reexecuted.conflictRate, 1 / 5);
+      assert.strictEqual(reexecuted.sequentialGas, 230n);
+      assert.strictEqual(reexecuted.speedup, 230 / 170);
+      assert.strictEqual(reexecuted.utilization, 270 / 340);
+
+      const reverted = simulateOptimisticExecution(transactions, { workers: 2, policy: "revert" });
+      assert.strictEqual(reverted.generations.length, 1);
+      assert.strictEqual(reverted.reverted, 1);
+      assert.strictEqual(reverted.speedup, 190 / 130);
+
+      // Nothing to gain from one worker but the wasted re-execution
+      const serial = simulateOptimisticExecution(transactions, { workers: 1, policy: "reexecute" });
+      assert.strictEqual(serial.parallelGas, 270n);
+      assert.throws(
+        () => simulateOptimisticExecution(transactions, { workers: 0, policy: "reexecute" }),
+        /Workers must be a positive integer/
+      );
+    });
+
+    it("should trace order placements and attribute their conflicts to variables", async function () {
+      const accounts = TEST_PRIVATE_KEYS.slice(0, 2).map((key) => privateKeyToAccount(key));
+      const layout = await loadStorageLayout(artifacts, "ParallelOrderBook");
+
+      // Two resting buys at one price from two traders
+      const analyze = async (book: any, bookMarketId: bigint) => {
+        for (const account of accounts) {
+          await networkHelpers.setBalance(account.address, 10n ** 20n);
+          for (const token of [baseToken, quoteToken]) {
+            await token.write.mint([account.address, FUNDING]);
+            await approveAndDeposit(publicClient, book, token, { account }, FUNDING);
+          }
+        }
+        const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "orderbook-conflicts-"));
+        try {
+          const target = { abi: book.abi, contractAddress: book.address, network: "hardhat" };
+          const run = await signTransactionBatches(
+            [
+              {
+                signer: 0,
+                call: placeOrderCall({ marketId: bookMarketId, baseAmount: unit, quoteAmount: unit, isBuyOrder: true }),
+              },
+              {
+                signer: 1,
+                call: placeOrderCall({ marketId: bookMarketId, baseAmount: unit, quoteAmount: unit, isBuyOrder: true }),
+              },
+            ],
+            { batchSize: 2, outputDir },
+            target,
+            publicClient
+          );
+          const transactions = await executeAndTrace(
+            publicClient,
+            run.batches[0].transactions.map((tx) => tx.rawTx as `0x${string}`)
+          );
+          const labels = new SlotLabeler(
+            layout,
+            slotKeys({}, { [`m${bookMarketId}`]: bookMarketId, "@1": unit })
+          );
+          const counters = await readCounterAddresses(publicClient, book.address, layout, labels, bookMarketId);
+          return analyzeConflicts(transactions, {
+            label: (address, slot) => (address === getAddress(book.address) ? labels.label(slot) : slot),
+            commutative: new Set(counters.keys()),
+          });
+        } finally {
+          fs.rmSync(outputDir, { recursive: true, force: true });
+        }
+      };
+
+      // Plain storage: both bump the global order ID and counters and queue
+      // at the same price level
+      const plain = await analyze(orderBook, marketId);
+      assert.strictEqual(plain.reverted, 0);
+      assert.deepStrictEqual(
+        plain.variables.map(({ variable, kind }) => `${variable} ${kind}`).sort(),
+        [
+          "bidLevels[][].head read-write",
+          "bidLevels[][].tail write-write",
+          "markets[].ordersPlaced.value write-write",
+          "openBuyOrders[].length write-write",
+          "orderIdCounter write-write",
+          "ordersPlaced.value write-write",
+        ]
+      );
+      assert.strictEqual(plain.largestConflictFree.length, 1);
+      assert.strictEqual(plain.speedup, 1);
+
+      // Concurrent: per-trader IDs, commutative counters and linking left to
+      // `linkOrders` leave the two placements independent
+      const concurrentBook = await viem.deployContract("ParallelOrderBook", [true]);
+      const concurrentMarketId = await createMarket(
+        publicClient,
+        concurrentBook,
+        baseToken.address,
+        quoteToken.address
+      );
+      const concurrent = await analyze(concurrentBook, concurrentMarketId);
+      assert.deepStrictEqual(concurrent.edges, []);
+      assert.deepStrictEqual(concurrent.largestConflictFree, [0, 1]);
+      assert.strictEqual(concurrent.speedup, 2);
+    });
+  });
+
+  describe("parallel-ledger CLI", function () {
+    const unit = 10n ** 18n;
+    // Subcommands only use the HRE to connect; hand them this suite's network
+    const runtime = { network: { connect: async () => connection } } as Pick<
+      HardhatRuntimeEnvironment,
+      "network"
+    >;
+
+    const run = async <Args extends TaskArguments>(
+      command: (args: Args, hre: HardhatRuntimeEnvironment) => Promise<void>,
+      args: TaskArguments
+    ) => {
+      const printed: string[] = [];
+      const log = mock.method(console, "log", (text: string) => printed.push(text));
+      const error = mock.method(console, "error", () => {});
+      const defaults: TaskArguments = { account: "0", address: orderBook.address, format: "json" };
+      try {
+        await command({ ...defaults, ...args } as Args, runtime as HardhatRuntimeEnvironment);
+      } finally {
+        log.mock.restore();
+        error.mock.restore();
+      }
+      return JSON.parse(printed.join("\n"));
+    };
+
+    it("should place, show and match orders from the selected accounts", async function () {
+      const fromBlock = await publicClient.getBlockNumber();
+      const bid = await run(placeCommand, {
+        account: "1",
+        side: "buy",
+        base: 2n * unit,
+        quote: 4n * unit,
+        market: marketId,
+        type: "limit",
+        maxFills: 0n,
+        expiresIn: 0n,
+      });
+      assert.strictEqual(bid.orderId, "1");
+      assert.strictEqual(bid.trader, getAddress(trader1.account.address));
+
+      await run(placeCommand, {
+        account: trader2.account.address,
+        side: "sell",
+        base: unit,
+        quote: unit,
+        market: marketId,
+        type: "limit",
+        maxFills: 0n,
+        expiresIn: 0n,
+      });
+
+      const depth = await run(bookCommand, { market: marketId, levels: 0 });
+      assert.deepStrictEqual(depth, [
+        { side: "ask", price: "1", baseAmount: unit.toString(), orders: 1 },
+        { side: "bid", price: "2", baseAmount: (2n * unit).toString(), orders: 1 },
+      ]);
+
+      const batches = await run(matchCommand, {
+        market: marketId,
+        buyIds: "",
+        sellIds: "",
+        maxBatchGas: 10_000_000n,
+        fromBlock,
+      });
+      assert.strictEqual(batches.length, 1);
+      assert.strictEqual(batches[0].matched, "1");
+      assert.strictEqual(process.exitCode, undefined);
+    });
+
+    it("should exit non-zero with the decoded custom error on a revert", async function () {
+      try {
+        const output = await run(cancelCommand, { orderIds: [42n], all: false });
+        assert.strictEqual(output.error, "OrderNotFound");
+        assert.strictEqual(process.exitCode, 1);
+      } finally {
+        process.exitCode = undefined;
+      }
+    });
+
+    it("should compare benchmark results and exit non-zero on a regression", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orderbook-results-"));
+      const result = (throughput: number, p95: number, gas: bigint): BenchmarkResult => ({
+        schemaVersion: RESULTS_SCHEMA_VERSION,
+        script: "replay-txs",
+        environment: collectEnvironment("default", 31337),
+        config: { concurrency: 16 },
+        metrics: {
+          transactions: 100,
+          succeeded: 100,
+          failed: 0,
+          durationMs: 100_000 / throughput,
+          throughput,
+          latencyMs: { min: 10, p50: p95 / 2, p90: p95, p95, p99: p95, max: p95 },
+          gasUsed: (gas * 100n).toString(),
+          averageGasPerTransaction: gas.toString(),
+        },
+      });
+      try {
+        const baseline = saveResult(dir, "baseline", result(50, 400, 200_000n));
+        const same = saveResult(dir, "same", result(48, 420, 201_000n));
+        const slower = saveResult(dir, "slower", result(30, 800, 260_000n));
+        const legacy = path.join(dir, "legacy.json");
+        fs.writeFileSync(legacy, JSON.stringify({ totalTransactions: 100 }));
+
+        assert.equal(loadResult(baseline).environment.chainId, 31337);
+        assert.throws(() => loadResult(legacy), /no schemaVersion/);
+
+        const comparison = compareResults(
+          { file: baseline, result: loadResult(baseline) },
+          [same, slower].map((file) => ({ file, result: loadResult(file) })),
+          DEFAULT_THRESHOLDS
+        );
+        assert.deepStrictEqual(comparison.warnings, []);
+        assert.deepStrictEqual(
+          comparison.regressions.map(({ file, metric }) => [file, metric]),
+          [
+            [slower, "throughput"],
+            [slower, "latency p50"],
+            [slower, "latency p95"],
+            [slower, "latency p99"],
+            [slower, "gas per transaction"],
+          ]
+        );
+
+        const thresholds = { throughputThreshold: 10, latencyThreshold: 10, gasThreshold: 5 };
+        const passing = await run(compareCommand, { files: [baseline, same], ...thresholds });
+        assert.strictEqual(passing.regressions, 0);
+        assert.strictEqual(process.exitCode, undefined);
+
+        const failing = await run(compareCommand, { files: [baseline, slower], ...thresholds });
+        assert.strictEqual(failing.regressions, 5);
+        assert.strictEqual(failing.metrics[0].changePct, -40);
+        assert.strictEqual(process.exitCode, 1);
+      } finally {
+        process.exitCode = undefined;
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
     });
   });
 
@@ -499,20 +4196,20 @@ describe("ParallelOrderBook", async function () {
 
       // Place buy order
       await orderBook.write.placeOrder(
-        [amount, 200n * 10n ** 18n, true],
+        [marketId, amount, 200n * 10n ** 18n, true],
         { account: trader1.account }
       );
 
       // Place matching sell order
-      await orderBook.write.placeOrder([amount, 100n * 10n ** 18n, false], {
+      await orderBook.write.placeOrder([marketId, amount, 100n * 10n ** 18n, false], {
         account: trader2.account,
       });
 
       // Match orders
-      await orderBook.write.matchOrdersBatch([[1n], [2n]]);
+      await orderBook.write.matchOrdersBatch([marketId, [1n], [2n]]);
 
       // Verify final state
-      const stats = await orderBook.read.getOrderBookStats();
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
       assert.strictEqual(stats[0], 2n, "placed should be 2");
       assert.ok(stats[1] >= 1n, "at least 1 order should be matched");
       assert.strictEqual(stats[2], 0n, "cancelled should be 0");
@@ -522,13 +4219,13 @@ describe("ParallelOrderBook", async function () {
       const amount = 100n * 10n ** 18n;
 
       // Place 3 orders
-      await orderBook.write.placeOrder([amount, amount, true], {
+      await orderBook.write.placeOrder([marketId, amount, amount, true], {
         account: trader1.account,
       });
-      await orderBook.write.placeOrder([amount, amount, false], {
+      await orderBook.write.placeOrder([marketId, amount, amount, false], {
         account: trader2.account,
       });
-      await orderBook.write.placeOrder([amount, amount, true], {
+      await orderBook.write.placeOrder([marketId, amount, amount, true], {
         account: trader3.account,
       });
 
@@ -536,9 +4233,9 @@ describe("ParallelOrderBook", async function () {
       await orderBook.write.cancelOrder([1n], { account: trader1.account });
 
       // Match others
-      await orderBook.write.matchOrdersBatch([[3n], [2n]]);
+      await orderBook.write.matchOrdersBatch([marketId, [3n], [2n]]);
 
-      const stats = await orderBook.read.getOrderBookStats();
+      const stats = await orderBook.read.getOrderBookStats([marketId]);
       assert.strictEqual(stats[0], 3n, "placed should be 3");
       assert.strictEqual(stats[2], 1n, "cancelled should be 1");
       assert.ok(stats[1] >= 1n, "at least 1 order should be matched");